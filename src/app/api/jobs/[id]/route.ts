@@ -1,5 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { TraceManager } from '@/utils/tracing'
+import { SchedulerService } from '@/scheduler'
+import {
+  JOB_RECORD_PRIORITIES,
+  JOB_RECORD_STATUSES,
+  getJobRecord,
+  updateJobRecord,
+  cancelJobRecord,
+  deleteJobRecord,
+  isTerminalJobStatus,
+  type JobRecord
+} from '@/lib/job-records'
+
+const CANCEL_REASON = 'Cancelled through the jobs API'
 
 interface JobDetails {
   job_id: string
@@ -13,6 +26,7 @@ interface JobDetails {
   execution_time_ms?: number
   last_heartbeat?: string
   progress_percent?: number
+  error_message?: string
   schedule?: {
     type: 'immediate' | 'delayed' | 'recurring'
     delay_ms?: number
@@ -63,6 +77,32 @@ interface JobUpdateRequest {
   parameters?: Record<string, any>
 }
 
+/**
+ * Present a job record in full
+ */
+function toJobDetails(job: JobRecord): JobDetails {
+  return {
+    job_id: job.job_id,
+    job_type: job.job_type,
+    dealer_id: job.dealer_id,
+    status: job.status,
+    priority: job.priority,
+    created_at: job.created_at.toISOString(),
+    started_at: job.started_at?.toISOString(),
+    completed_at: job.completed_at?.toISOString(),
+    execution_time_ms: job.started_at && job.completed_at
+      ? job.completed_at.getTime() - job.started_at.getTime()
+      : undefined,
+    last_heartbeat: job.last_heartbeat_at?.toISOString(),
+    progress_percent: job.progress_percent ?? undefined,
+    schedule: job.schedule,
+    parameters: job.parameters,
+    result: job.result as JobDetails['result'] || undefined,
+    error_message: job.error_message || undefined,
+    metadata: job.metadata
+  }
+}
+
 /**
  * GET /api/jobs/[id] - Get job details
  */
@@ -90,154 +130,8 @@ export async function GET(
       )
     }
 
-    // TODO: Replace with actual database query
-    // For now, simulate detailed job data
-    const mockJobDetails: Record<string, JobDetails> = {
-      'job_1693847200_abc123': {
-        job_id: 'job_1693847200_abc123',
-        job_type: 'dealer_ingestion',
-        dealer_id: '550e8400-e29b-41d4-a716-446655440000',
-        status: 'completed',
-        priority: 'normal',
-        created_at: '2024-08-29T10:00:00.000Z',
-        started_at: '2024-08-29T10:00:02.000Z',
-        completed_at: '2024-08-29T10:03:45.000Z',
-        execution_time_ms: 223000,
-        schedule: { type: 'immediate' },
-        parameters: {
-          force_refresh: true,
-          include_images: true,
-          max_retries: 3
-        },
-        result: {
-          success: true,
-          vehicles_processed: 127,
-          dealers_processed: 1,
-          new_vehicles: 12,
-          updated_vehicles: 98,
-          errors: 2,
-          warnings: 5,
-          error_details: [
-            {
-              type: 'validation_error',
-              message: 'Invalid VIN format for vehicle ID 12345',
-              timestamp: '2024-08-29T10:02:30.000Z',
-              context: { vehicle_id: '12345', vin: 'INVALID_VIN' }
-            },
-            {
-              type: 'network_timeout',
-              message: 'Timeout fetching images for vehicle ID 67890',
-              timestamp: '2024-08-29T10:03:15.000Z',
-              context: { vehicle_id: '67890', timeout_ms: 30000 }
-            }
-          ],
-          performance_metrics: {
-            memory_usage_mb: 245,
-            cpu_time_ms: 18500,
-            network_requests: 134,
-            database_queries: 89
-          }
-        },
-        logs: [
-          {
-            timestamp: '2024-08-29T10:00:02.000Z',
-            level: 'info',
-            message: 'Starting dealer ingestion job',
-            context: { dealer_id: '550e8400-e29b-41d4-a716-446655440000' }
-          },
-          {
-            timestamp: '2024-08-29T10:00:05.000Z',
-            level: 'info',
-            message: 'Connected to dealer data source',
-            context: { source_type: 'dealer.com', connection_time_ms: 2850 }
-          },
-          {
-            timestamp: '2024-08-29T10:02:30.000Z',
-            level: 'warn',
-            message: 'Invalid VIN format detected',
-            context: { vehicle_id: '12345', vin: 'INVALID_VIN' }
-          },
-          {
-            timestamp: '2024-08-29T10:03:15.000Z',
-            level: 'error',
-            message: 'Network timeout during image fetch',
-            context: { vehicle_id: '67890', url: 'https://example.com/image.jpg' }
-          },
-          {
-            timestamp: '2024-08-29T10:03:45.000Z',
-            level: 'info',
-            message: 'Job completed successfully',
-            context: { total_processed: 127, success_rate: 0.984 }
-          }
-        ],
-        metadata: {
-          created_by: 'api',
-          source: 'manual',
-          retry_count: 0,
-          trace_id: traceContext.trace_id
-        }
-      },
-      'job_1693847260_def456': {
-        job_id: 'job_1693847260_def456',
-        job_type: 'vehicle_sync',
-        dealer_id: null,
-        status: 'running',
-        priority: 'high',
-        created_at: '2024-08-29T10:01:00.000Z',
-        started_at: '2024-08-29T10:01:05.000Z',
-        last_heartbeat: new Date().toISOString(),
-        progress_percent: 67,
-        schedule: { type: 'immediate' },
-        parameters: {
-          batch_size: 50,
-          parallel_workers: 3,
-          include_pricing: true
-        },
-        result: {
-          success: false, // Still running
-          vehicles_processed: 89,
-          dealers_processed: 3,
-          new_vehicles: 8,
-          updated_vehicles: 76,
-          errors: 2,
-          warnings: 3,
-          performance_metrics: {
-            memory_usage_mb: 189,
-            cpu_time_ms: 45000,
-            network_requests: 156,
-            database_queries: 134
-          }
-        },
-        logs: [
-          {
-            timestamp: '2024-08-29T10:01:05.000Z',
-            level: 'info',
-            message: 'Starting vehicle sync job',
-            context: { total_dealers: 5, batch_size: 50 }
-          },
-          {
-            timestamp: '2024-08-29T10:01:30.000Z',
-            level: 'info',
-            message: 'Processing dealer batch 1',
-            context: { dealer_count: 3, estimated_vehicles: 150 }
-          },
-          {
-            timestamp: new Date(Date.now() - 30000).toISOString(),
-            level: 'info',
-            message: 'Progress update',
-            context: { progress: '67%', vehicles_processed: 89 }
-          }
-        ],
-        metadata: {
-          created_by: 'scheduler',
-          source: 'cron',
-          retry_count: 0,
-          trace_id: 'trace_' + Math.random().toString(36).substr(2, 9)
-        }
-      }
-    }
-
-    const jobDetails = mockJobDetails[jobId]
+    const job = await getJobRecord(jobId)
+    const jobDetails = job && toJobDetails(job)
 
     if (!jobDetails) {
       return NextResponse.json(
@@ -307,7 +201,7 @@ export async function PUT(
 
     // Validate status transitions
     if (body.status) {
-      const validStatuses = ['pending', 'running', 'completed', 'failed', 'cancelled']
+      const validStatuses: string[] = JOB_RECORD_STATUSES
       if (!validStatuses.includes(body.status)) {
         return NextResponse.json(
           {
@@ -324,7 +218,7 @@ export async function PUT(
 
     // Validate priority
     if (body.priority) {
-      const validPriorities = ['low', 'normal', 'high', 'critical']
+      const validPriorities: string[] = JOB_RECORD_PRIORITIES
       if (!validPriorities.includes(body.priority)) {
         return NextResponse.json(
           {
@@ -341,7 +235,7 @@ export async function PUT(
 
     // Validate progress_percent
     if (body.progress_percent !== undefined) {
-      if (body.progress_percent < 0 || body.progress_percent > 100) {
+      if (typeof body.progress_percent !== 'number' || body.progress_percent < 0 || body.progress_percent > 100) {
         return NextResponse.json(
           {
             success: false,
@@ -354,8 +248,45 @@ export async function PUT(
       }
     }
 
-    // TODO: Update job in actual database
-    // For now, simulate successful update
+    const existing = await getJobRecord(jobId)
+    if (!existing) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Job not found',
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 404 }
+      )
+    }
+
+    // Finished jobs keep their final state
+    const updated = isTerminalJobStatus(existing.status) ? null : await updateJobRecord(jobId, {
+      status: body.status,
+      priority: body.priority,
+      progress_percent: body.progress_percent,
+      parameters: body.parameters
+    })
+
+    if (!updated) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Cannot update a finished job',
+          current_status: isTerminalJobStatus(existing.status) ? existing.status : (await getJobRecord(jobId))?.status,
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 409 }
+      )
+    }
+
+    // A cancelled job's queued and running jobs stop with it
+    if (body.status === 'cancelled') {
+      await new SchedulerService().cancelQueuedJobs(jobId, CANCEL_REASON)
+    }
+
     const updatedFields = Object.keys(body).filter(key => body[key as keyof JobUpdateRequest] !== undefined)
 
     traceManager.endSpan(spanId, { success: true, job_id: jobId, updated_fields_count: updatedFields.length })
@@ -366,7 +297,8 @@ export async function PUT(
       data: {
         job_id: jobId,
         updated_fields: updatedFields,
-        updated_at: new Date().toISOString()
+        updated_at: updated.updated_at.toISOString(),
+        job: toJobDetails(updated)
       },
       timestamp: new Date().toISOString(),
       trace_id: traceContext.trace_id
@@ -418,17 +350,26 @@ export async function DELETE(
       )
     }
 
-    // TODO: Check job status from database
-    // For now, simulate status check
-    const simulatedStatus = Math.random() > 0.5 ? 'running' : 'pending'
+    const job = await getJobRecord(jobId)
+    if (!job) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Job not found',
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 404 }
+      )
+    }
 
-    if (simulatedStatus === 'running' && !force) {
+    if (job.status === 'running' && !force) {
       return NextResponse.json(
         {
           success: false,
           error: 'Cannot delete running job without force flag',
           details: 'Use ?force=true to forcefully cancel running jobs',
-          current_status: simulatedStatus,
+          current_status: job.status,
           timestamp: new Date().toISOString(),
           trace_id: traceContext.trace_id
         },
@@ -436,9 +377,32 @@ export async function DELETE(
       )
     }
 
-    // TODO: Cancel/delete job in actual system
-    // For now, simulate successful deletion
-    const action = simulatedStatus === 'running' ? 'cancelled' : 'deleted'
+    // An unfinished job's queue entries are cancelled (workers running them stop
+    // at their next heartbeat). A job that is running or was enqueued keeps its
+    // record as cancelled; anything else is removed.
+    const finished = isTerminalJobStatus(job.status)
+    const jobsCancelled = finished ? 0 : (await new SchedulerService().cancelQueuedJobs(jobId, CANCEL_REASON)).length
+    const enqueued = jobsCancelled > 0 || !!job.metadata?.queued_job_ids?.length
+
+    let action: 'cancelled' | 'deleted' = 'deleted'
+    if (!finished && (job.status === 'running' || enqueued)) {
+      const cancelled = await cancelJobRecord(jobId, CANCEL_REASON)
+      action = 'cancelled'
+      if (!cancelled) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Job finished before it could be cancelled',
+            current_status: (await getJobRecord(jobId))?.status,
+            timestamp: new Date().toISOString(),
+            trace_id: traceContext.trace_id
+          },
+          { status: 409 }
+        )
+      }
+    } else {
+      await deleteJobRecord(jobId)
+    }
 
     traceManager.endSpan(spanId, { success: true, job_id: jobId, action, force })
 
@@ -448,7 +412,8 @@ export async function DELETE(
       data: {
         job_id: jobId,
         action,
-        previous_status: simulatedStatus,
+        previous_status: job.status,
+        queued_jobs_cancelled: jobsCancelled,
         cancelled_at: new Date().toISOString()
       },
       timestamp: new Date().toISOString(),
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { TraceManager } from '@/utils/tracing'
+import { SchedulerService } from '@/scheduler'
+
+/**
+ * POST /api/jobs/dead-letter/[id]/replay - Re-enqueue a dead-lettered job
+ * The job runs again as a manual trigger with a fresh retry budget. Returns
+ * 409 if the same job is already queued or running.
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const traceManager = TraceManager.getInstance()
+  const traceContext = traceManager.generateTraceContext()
+  const spanId = traceManager.startSpan('replay-dead-letter-job', traceContext)
+
+  try {
+    const params = await context.params
+    const deadLetterId = params.id
+
+    const scheduler = new SchedulerService()
+    const result = await scheduler.replayDeadLetter(deadLetterId)
+
+    if (!result) {
+      traceManager.endSpan(spanId, { success: false, error: 'Dead-letter entry not found' })
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Dead-letter entry not found',
+          details: `No dead-letter entry with ID ${deadLetterId}`,
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 404 }
+      )
+    }
+
+    if (!result.replayed) {
+      traceManager.endSpan(spanId, { success: false, error: result.reason || 'Not replayed' })
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Dead-letter job not replayed',
+          details: result.reason,
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 409 }
+      )
+    }
+
+    traceManager.endSpan(spanId, { success: true, queued_job_id: result.queued_job_id || '' })
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      timestamp: new Date().toISOString(),
+      trace_id: traceContext.trace_id
+    })
+
+  } catch (error) {
+    console.error('Replay dead-letter job error:', error)
+    traceManager.endSpan(spanId, { success: false, error: error instanceof Error ? error.message : 'Unknown error' })
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to replay dead-letter job',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        trace_id: traceContext.trace_id
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { TraceManager } from '@/utils/tracing'
+import { SchedulerService } from '@/scheduler'
+
+interface BulkReplayRequest {
+  dealer_id?: string
+  platform?: string
+  limit?: number
+}
+
+/**
+ * POST /api/jobs/dead-letter/replay - Replay dead-lettered jobs in bulk
+ * Body: { dealer_id?, platform?, limit? }. At least one of dealer_id or
+ * platform is required so a stray call can't replay the whole queue.
+ */
+export async function POST(request: NextRequest) {
+  const traceManager = TraceManager.getInstance()
+  const traceContext = traceManager.generateTraceContext()
+  const spanId = traceManager.startSpan('bulk-replay-dead-letter-jobs', traceContext)
+
+  try {
+    const body = (await request.json().catch(() => ({}))) as BulkReplayRequest
+
+    if (!body.dealer_id && !body.platform) {
+      traceManager.endSpan(spanId, { success: false, error: 'Missing replay filter' })
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Missing replay filter',
+          details: 'Provide dealer_id and/or platform',
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 400 }
+      )
+    }
+
+    if (body.limit !== undefined && (!Number.isInteger(body.limit) || body.limit < 1 || body.limit > 500)) {
+      traceManager.endSpan(spanId, { success: false, error: 'Invalid limit' })
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid limit',
+          details: 'limit must be an integer between 1 and 500',
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 400 }
+      )
+    }
+
+    const scheduler = new SchedulerService()
+    const summary = await scheduler.replayDeadLetters({
+      dealer_id: body.dealer_id,
+      platform: body.platform,
+      limit: body.limit
+    })
+
+    traceManager.endSpan(spanId, {
+      success: true,
+      matched: summary.matched,
+      replayed: summary.replayed
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: summary,
+      timestamp: new Date().toISOString(),
+      trace_id: traceContext.trace_id
+    })
+
+  } catch (error) {
+    console.error('Bulk replay dead-letter jobs error:', error)
+    traceManager.endSpan(spanId, { success: false, error: error instanceof Error ? error.message : 'Unknown error' })
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to replay dead-letter jobs',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        trace_id: traceContext.trace_id
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
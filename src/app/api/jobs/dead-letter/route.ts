@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { TraceManager } from '@/utils/tracing'
+import { SchedulerService } from '@/scheduler'
+import type { DeadLetterStatus } from '@/queue/dead-letter-store'
+
+const DEAD_LETTER_STATUSES: DeadLetterStatus[] = ['dead', 'replayed']
+
+/**
+ * GET /api/jobs/dead-letter - List jobs that failed permanently
+ * Filters: dealer_id, platform, status (dead | replayed); paginated with page/limit
+ */
+export async function GET(request: NextRequest) {
+  const traceManager = TraceManager.getInstance()
+  const traceContext = traceManager.generateTraceContext()
+  const spanId = traceManager.startSpan('list-dead-letter-jobs', traceContext)
+
+  try {
+    const { searchParams } = new URL(request.url)
+
+    const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1)
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20') || 20, 1), 100) // Max 100 per page
+    const status = searchParams.get('status') || undefined
+
+    if (status && !DEAD_LETTER_STATUSES.includes(status as DeadLetterStatus)) {
+      traceManager.endSpan(spanId, { success: false, error: 'Invalid status filter' })
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid status filter',
+          details: `status must be one of: ${DEAD_LETTER_STATUSES.join(', ')}`,
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 400 }
+      )
+    }
+
+    const filters = {
+      dealer_id: searchParams.get('dealer_id') || undefined,
+      platform: searchParams.get('platform') || undefined,
+      status: status as DeadLetterStatus | undefined
+    }
+
+    const scheduler = new SchedulerService()
+    const { entries, total } = await scheduler.listDeadLetters({
+      ...filters,
+      limit,
+      offset: (page - 1) * limit
+    })
+
+    traceManager.endSpan(spanId, { success: true, total_entries: total, page, limit })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        entries,
+        total,
+        page,
+        limit,
+        filters
+      },
+      timestamp: new Date().toISOString(),
+      trace_id: traceContext.trace_id
+    })
+
+  } catch (error) {
+    console.error('List dead-letter jobs error:', error)
+    traceManager.endSpan(spanId, { success: false, error: error instanceof Error ? error.message : 'Unknown error' })
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to list dead-letter jobs',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        trace_id: traceContext.trace_id
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
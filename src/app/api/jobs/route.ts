@@ -9,6 +9,16 @@ import {
   ApiResponse
 } from '@adamehrheart/schema'
 import { enterpriseLogger } from '@/utils/enterprise-logger'
+import { validateCronExpression, getNextCronRun } from '@/lib/cron-expression'
+import { isValidTimeZone } from '@/lib/timezone'
+import {
+  JOB_TYPES,
+  createJobRecord,
+  listJobRecords,
+  countPendingJobsBefore,
+  generateJobRecordId,
+  type JobRecord
+} from '@/lib/job-records'
 
 interface JobListResponse {
   success: boolean
@@ -67,6 +77,70 @@ interface CreateJobRequest {
   parameters?: Record<string, any>
 }
 
+/**
+ * Summarize a job record for the list
+ */
+function toJobSummary(job: JobRecord): JobSummary {
+  const result = job.result || undefined
+  return {
+    job_id: job.job_id,
+    job_type: job.job_type,
+    dealer_id: job.dealer_id,
+    status: job.status,
+    priority: job.priority,
+    created_at: job.created_at.toISOString(),
+    started_at: job.started_at?.toISOString(),
+    completed_at: job.completed_at?.toISOString(),
+    execution_time_ms: job.started_at && job.completed_at
+      ? job.completed_at.getTime() - job.started_at.getTime()
+      : undefined,
+    last_heartbeat: job.last_heartbeat_at?.toISOString(),
+    progress_percent: job.progress_percent ?? undefined,
+    result_summary: result && {
+      vehicles_processed: result.vehicles_processed,
+      dealers_processed: result.dealers_processed,
+      success_count: result.success_count,
+      error_count: result.error_count ?? result.errors
+    }
+  }
+}
+
+/**
+ * Check a job schedule; returns the problem, or null when it is valid
+ */
+function validateJobSchedule(schedule: CreateJobRequest['schedule']): string | null {
+  if (!schedule) return null
+
+  switch (schedule.type) {
+    case 'immediate':
+      return null
+    case 'delayed':
+      return typeof schedule.delay_ms === 'number' && schedule.delay_ms >= 0
+        ? null
+        : 'delayed schedules need a non-negative delay_ms'
+    case 'recurring':
+      if (!schedule.cron_expression) return 'recurring schedules need a cron_expression'
+      if (schedule.timezone && !isValidTimeZone(schedule.timezone)) return `Unknown timezone: ${schedule.timezone}`
+      return validateCronExpression(schedule.cron_expression).error || null
+    default:
+      return 'schedule.type must be immediate, delayed or recurring'
+  }
+}
+
+/**
+ * When a job's schedule first lets it start
+ */
+function getEstimatedStartTime(job: JobRecord): string {
+  const { schedule } = job
+  if (schedule.type === 'delayed') {
+    return new Date(job.created_at.getTime() + (schedule.delay_ms || 0)).toISOString()
+  }
+  if (schedule.type === 'recurring') {
+    return getNextCronRun(schedule.cron_expression!, job.created_at, schedule.timezone || 'UTC')?.toISOString() || 'scheduled'
+  }
+  return job.created_at.toISOString()
+}
+
 /**
  * GET /api/jobs - List jobs with filtering and pagination
  */
@@ -95,105 +169,33 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    // TODO: Replace with actual database query
-    // For now, simulate job data based on real system patterns
-    const mockJobs: JobSummary[] = [
-      {
-        job_id: 'job_1693847200_abc123',
-        job_type: 'dealer_ingestion',
-        dealer_id: '550e8400-e29b-41d4-a716-446655440000',
-        status: 'completed',
-        priority: 'normal',
-        created_at: '2024-08-29T10:00:00.000Z',
-        started_at: '2024-08-29T10:00:02.000Z',
-        completed_at: '2024-08-29T10:03:45.000Z',
-        execution_time_ms: 223000,
-        result_summary: {
-          vehicles_processed: 127,
-          dealers_processed: 1,
-          success_count: 125,
-          error_count: 2
-        }
-      },
-      {
-        job_id: 'job_1693847260_def456',
-        job_type: 'vehicle_sync',
-        dealer_id: null,
-        status: 'running',
-        priority: 'high',
-        created_at: '2024-08-29T10:01:00.000Z',
-        started_at: '2024-08-29T10:01:05.000Z',
-        last_heartbeat: new Date().toISOString(),
-        progress_percent: 67,
-        result_summary: {
-          vehicles_processed: 89,
-          dealers_processed: 3,
-          success_count: 87,
-          error_count: 2
-        }
-      },
-      {
-        job_id: 'job_1693847320_ghi789',
-        job_type: 'data_validation',
-        dealer_id: '660e8400-e29b-41d4-a716-446655440001',
-        status: 'failed',
-        priority: 'normal',
-        created_at: '2024-08-29T10:02:00.000Z',
-        started_at: '2024-08-29T10:02:03.000Z',
-        completed_at: '2024-08-29T10:02:15.000Z',
-        execution_time_ms: 12000,
-        result_summary: {
-          vehicles_processed: 0,
-          dealers_processed: 0,
-          success_count: 0,
-          error_count: 1
-        }
-      },
-      {
-        job_id: 'job_1693847380_jkl012',
-        job_type: 'dealer_com_sync',
-        dealer_id: '770e8400-e29b-41d4-a716-446655440002',
-        status: 'pending',
-        priority: 'low',
-        created_at: '2024-08-29T10:03:00.000Z'
-      }
-    ]
-
-    // Apply filters
-    let filteredJobs = mockJobs
-
-    if (filters.status && filters.status.length > 0) {
-      filteredJobs = filteredJobs.filter(job => filters.status!.includes(job.status))
-    }
-
-    if (filters.job_type && filters.job_type.length > 0) {
-      filteredJobs = filteredJobs.filter(job => filters.job_type!.includes(job.job_type))
-    }
-
-    if (filters.dealer_id) {
-      filteredJobs = filteredJobs.filter(job => job.dealer_id === filters.dealer_id)
-    }
-
-    if (filters.priority && filters.priority.length > 0) {
-      filteredJobs = filteredJobs.filter(job => filters.priority!.includes(job.priority))
-    }
-
-    // Apply date range filter
-    if (filters.date_range?.start || filters.date_range?.end) {
-      filteredJobs = filteredJobs.filter(job => {
-        const jobDate = new Date(job.created_at)
-        const startDate = filters.date_range?.start ? new Date(filters.date_range.start) : null
-        const endDate = filters.date_range?.end ? new Date(filters.date_range.end) : null
-
-        if (startDate && jobDate < startDate) return false
-        if (endDate && jobDate > endDate) return false
-        return true
-      })
+    const startDate = filters.date_range?.start ? new Date(filters.date_range.start) : undefined
+    const endDate = filters.date_range?.end ? new Date(filters.date_range.end) : undefined
+    if ((startDate && isNaN(startDate.getTime())) || (endDate && isNaN(endDate.getTime()))) {
+      traceManager.endSpan(spanId, { success: false, error: 'Invalid date range' })
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid date range',
+          details: 'start_date and end_date must be ISO dates',
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 400 }
+      )
     }
 
-    // Apply pagination
-    const total = filteredJobs.length
-    const paginatedJobs = filteredJobs.slice(offset, offset + limit)
+    const { jobs, total } = await listJobRecords({
+      status: filters.status,
+      job_type: filters.job_type,
+      dealer_id: filters.dealer_id,
+      priority: filters.priority,
+      created_after: startDate,
+      created_before: endDate,
+      limit,
+      offset
+    })
+    const paginatedJobs = jobs.map(toJobSummary)
 
     traceManager.endSpan(spanId, { success: true, total_jobs: total, page, limit })
 
@@ -257,16 +259,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate job_type
-    const validJobTypes = [
-      'dealer_ingestion',
-      'vehicle_sync',
-      'data_validation',
-      'dealer_com_sync',
-      'homenet_sync',
-      'sitemap_processing',
-      'url_generation',
-      'data_cleanup'
-    ]
+    const validJobTypes = JOB_TYPES
 
     if (!validJobTypes.includes(body.job_type)) {
       return NextResponse.json(
@@ -281,30 +274,58 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Generate unique job ID
-    const jobId = `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-    const now = new Date().toISOString()
+    const validPriorities = ['low', 'normal', 'high', 'critical']
+    if (body.priority && !validPriorities.includes(body.priority)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid priority',
+          valid_priorities: validPriorities,
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 400 }
+      )
+    }
+
+    const scheduleError = validateJobSchedule(body.schedule)
+    if (scheduleError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid schedule',
+          details: scheduleError,
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 400 }
+      )
+    }
 
     // Create job record
-    const newJob = {
+    const jobId = generateJobRecordId()
+    const created = await createJobRecord({
       job_id: jobId,
       job_type: body.job_type,
       dealer_id: body.dealer_id || null,
-      status: 'pending' as const,
-      priority: body.priority || 'normal' as const,
-      created_at: now,
-      schedule: body.schedule || { type: 'immediate' as const },
+      priority: body.priority || 'normal',
+      schedule: body.schedule || { type: 'immediate' },
       parameters: body.parameters || {},
       metadata: {
         created_by: 'api',
         source: 'manual',
         trace_id: traceContext.trace_id
       }
+    })
+    const queuePosition = await countPendingJobsBefore(created) + 1
+    const now = created.created_at.toISOString()
+    const newJob = {
+      ...toJobSummary(created),
+      schedule: created.schedule,
+      parameters: created.parameters,
+      metadata: created.metadata
     }
 
-    // TODO: Insert into actual job queue/database
-    // For now, simulate successful creation
-
     traceManager.endSpan(spanId, { success: true, job_id: jobId, job_type: body.job_type })
 
     return NextResponse.json({
@@ -312,12 +333,8 @@ export async function POST(request: NextRequest) {
       message: 'Job created successfully',
       data: {
         job: newJob,
-        estimated_start_time: body.schedule?.type === 'immediate'
-          ? new Date(Date.now() + 5000).toISOString() // 5 seconds for immediate
-          : body.schedule?.delay_ms
-            ? new Date(Date.now() + body.schedule.delay_ms).toISOString()
-            : 'scheduled',
-        queue_position: Math.floor(Math.random() * 5) + 1 // Simulated queue position
+        estimated_start_time: getEstimatedStartTime(created),
+        queue_position: queuePosition // pending jobs ahead of this one, plus one
       },
       timestamp: now,
       trace_id: traceContext.trace_id
@@ -1,64 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { TraceManager } from '@/utils/tracing'
+import { getDefaultStatsBucket, getJobStats, type JobStatsBucket } from '@/lib/job-stats'
 
-interface JobStatsResponse {
-  success: boolean
-  data: {
-    overview: {
-      total_jobs: number
-      active_jobs: number
-      completed_jobs: number
-      failed_jobs: number
-      queued_jobs: number
-      success_rate: number
-    }
-    by_status: Record<string, number>
-    by_type: Record<string, number>
-    by_priority: Record<string, number>
-    performance: {
-      average_execution_time_ms: number
-      median_execution_time_ms: number
-      fastest_job_ms: number
-      slowest_job_ms: number
-      total_processing_time_hours: number
-    }
-    timeline: Array<{
-      date: string
-      total_jobs: number
-      completed_jobs: number
-      failed_jobs: number
-      avg_execution_time_ms: number
-    }>
-    resource_usage: {
-      current_memory_mb: number
-      peak_memory_mb: number
-      cpu_utilization_percent: number
-      active_workers: number
-      max_workers: number
-      queue_depth: number
-    }
-    top_dealers: Array<{
-      dealer_id: string
-      dealer_name?: string
-      job_count: number
-      success_rate: number
-      avg_execution_time_ms: number
-    }>
-    recent_errors: Array<{
-      job_id: string
-      job_type: string
-      dealer_id?: string
-      error_message: string
-      timestamp: string
-      retry_count: number
-    }>
-  }
-  timestamp: string
-  trace_id: string
+const RANGE_DAYS: Record<string, number> = {
+  '24h': 1,
+  '7d': 7,
+  '30d': 30,
+  '90d': 90
 }
 
 /**
- * GET /api/jobs/stats - Get comprehensive job statistics
+ * Longest range an hourly series may cover
+ */
+const MAX_HOURLY_RANGE_DAYS = 31
+
+/**
+ * GET /api/jobs/stats - Job execution statistics over a time range
+ * Query: range (24h | 7d | 30d | 90d, default 7d) or start_date/end_date,
+ *        bucket (hour | day, default hour up to 48h), dealer_id, platform, limit (groups listed, default 20)
  */
 export async function GET(request: NextRequest) {
   const traceManager = TraceManager.getInstance()
@@ -69,190 +28,105 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url)
 
     // Parse time range parameters
-    const timeRange = searchParams.get('range') || '7d' // 24h, 7d, 30d, 90d
+    const timeRange = searchParams.get('range') || '7d'
     const startDate = searchParams.get('start_date')
     const endDate = searchParams.get('end_date')
-
-    // TODO: Replace with actual database queries
-    // For now, simulate comprehensive job statistics
-
-    // Calculate date range
-    const now = new Date()
-    let fromDate: Date
-
-    if (startDate && endDate) {
-      fromDate = new Date(startDate)
-    } else {
-      const rangeDays = {
-        '24h': 1,
-        '7d': 7,
-        '30d': 30,
-        '90d': 90
-      }[timeRange] || 7
-
-      fromDate = new Date(now.getTime() - (rangeDays * 24 * 60 * 60 * 1000))
+    const bucketParam = searchParams.get('bucket')
+
+    if (!RANGE_DAYS[timeRange]) {
+      traceManager.endSpan(spanId, { success: false, error: 'Invalid range' })
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid range',
+          details: `range must be one of: ${Object.keys(RANGE_DAYS).join(', ')}`,
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 400 }
+      )
     }
 
-    // Simulate job statistics
-    const totalJobs = 1247
-    const completedJobs = 1156
-    const failedJobs = 23
-    const activeJobs = 8
-    const queuedJobs = 60
-
-    const successRate = Math.round((completedJobs / (completedJobs + failedJobs)) * 100) / 100
+    // Calculate date range; an explicit start or end date overrides `range`
+    const toDate = endDate ? new Date(endDate) : new Date()
+    const fromDate = startDate
+      ? new Date(startDate)
+      : new Date(toDate.getTime() - RANGE_DAYS[timeRange] * 24 * 60 * 60 * 1000)
+
+    if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime()) || fromDate >= toDate) {
+      traceManager.endSpan(spanId, { success: false, error: 'Invalid date range' })
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid date range',
+          details: 'start_date and end_date must be ISO dates, with start_date before end_date',
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 400 }
+      )
+    }
 
-    // Generate timeline data
-    const timelineData = []
-    const days = timeRange === '24h' ? 24 : (timeRange === '7d' ? 7 : (timeRange === '30d' ? 30 : 90))
-    const isHourly = timeRange === '24h'
+    if (bucketParam && bucketParam !== 'hour' && bucketParam !== 'day') {
+      traceManager.endSpan(spanId, { success: false, error: 'Invalid bucket' })
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid bucket',
+          details: 'bucket must be one of: hour, day',
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 400 }
+      )
+    }
 
-    for (let i = days - 1; i >= 0; i--) {
-      const date = new Date(now)
-      if (isHourly) {
-        date.setHours(date.getHours() - i)
-      } else {
-        date.setDate(date.getDate() - i)
-      }
+    const bucket = (bucketParam as JobStatsBucket) || getDefaultStatsBucket(fromDate, toDate)
+    if (bucket === 'hour' && toDate.getTime() - fromDate.getTime() > MAX_HOURLY_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+      traceManager.endSpan(spanId, { success: false, error: 'Range too long for hourly buckets' })
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Range too long for hourly buckets',
+          details: `Hourly series cover at most ${MAX_HOURLY_RANGE_DAYS} days; use bucket=day`,
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 400 }
+      )
+    }
 
-      const dateStr = isHourly ?
-        date.toISOString().substring(0, 13) + ':00:00.000Z' :
-        date.toISOString().substring(0, 10)
+    const stats = await getJobStats({
+      from: fromDate,
+      to: toDate,
+      bucket,
+      dealer_id: searchParams.get('dealer_id') || undefined,
+      platform: searchParams.get('platform') || undefined,
+      group_limit: Math.min(Math.max(1, parseInt(searchParams.get('limit') || '20') || 20), 100)
+    })
 
-      timelineData.push({
-        date: dateStr,
-        total_jobs: Math.floor(Math.random() * 50) + 20,
-        completed_jobs: Math.floor(Math.random() * 45) + 18,
-        failed_jobs: Math.floor(Math.random() * 3),
-        avg_execution_time_ms: Math.floor(Math.random() * 180000) + 60000 // 1-4 minutes
-      })
-    }
+    traceManager.endSpan(spanId, {
+      success: true,
+      time_range: timeRange,
+      bucket,
+      total_executions: stats.totals.executions,
+      success_rate: stats.totals.success_rate ?? 0
+    })
 
-    const stats: JobStatsResponse = {
+    return NextResponse.json({
       success: true,
       data: {
-        overview: {
-          total_jobs: totalJobs,
-          active_jobs: activeJobs,
-          completed_jobs: completedJobs,
-          failed_jobs: failedJobs,
-          queued_jobs: queuedJobs,
-          success_rate: successRate
-        },
-        by_status: {
-          pending: queuedJobs,
-          running: activeJobs,
-          completed: completedJobs,
-          failed: failedJobs,
-          cancelled: 5
-        },
-        by_type: {
-          dealer_ingestion: 487,
-          vehicle_sync: 356,
-          data_validation: 234,
-          dealer_com_sync: 123,
-          homenet_sync: 34,
-          sitemap_processing: 8,
-          url_generation: 5
-        },
-        by_priority: {
-          low: 234,
-          normal: 856,
-          high: 134,
-          critical: 23
+        range: {
+          from: fromDate.toISOString(),
+          to: toDate.toISOString(),
+          bucket
         },
-        performance: {
-          average_execution_time_ms: 145000, // ~2.4 minutes
-          median_execution_time_ms: 132000, // ~2.2 minutes
-          fastest_job_ms: 8500,
-          slowest_job_ms: 1847000, // ~30 minutes
-          total_processing_time_hours: Math.round((totalJobs * 145000) / (1000 * 60 * 60) * 100) / 100
-        },
-        timeline: timelineData,
-        resource_usage: {
-          current_memory_mb: 189,
-          peak_memory_mb: 456,
-          cpu_utilization_percent: 34,
-          active_workers: 3,
-          max_workers: 8,
-          queue_depth: queuedJobs
-        },
-        top_dealers: [
-          {
-            dealer_id: '550e8400-e29b-41d4-a716-446655440000',
-            dealer_name: 'Premium Motors',
-            job_count: 89,
-            success_rate: 0.97,
-            avg_execution_time_ms: 123000
-          },
-          {
-            dealer_id: '660e8400-e29b-41d4-a716-446655440001',
-            dealer_name: 'Metro Auto Group',
-            job_count: 76,
-            success_rate: 0.95,
-            avg_execution_time_ms: 156000
-          },
-          {
-            dealer_id: '770e8400-e29b-41d4-a716-446655440002',
-            dealer_name: 'Luxury Car Center',
-            job_count: 67,
-            success_rate: 0.99,
-            avg_execution_time_ms: 98000
-          },
-          {
-            dealer_id: '880e8400-e29b-41d4-a716-446655440003',
-            dealer_name: 'Budget Auto Sales',
-            job_count: 54,
-            success_rate: 0.91,
-            avg_execution_time_ms: 187000
-          },
-          {
-            dealer_id: '990e8400-e29b-41d4-a716-446655440004',
-            dealer_name: 'City Honda',
-            job_count: 43,
-            success_rate: 0.98,
-            avg_execution_time_ms: 145000
-          }
-        ],
-        recent_errors: [
-          {
-            job_id: 'job_1693847380_error1',
-            job_type: 'dealer_ingestion',
-            dealer_id: '550e8400-e29b-41d4-a716-446655440005',
-            error_message: 'Connection timeout to dealer data source',
-            timestamp: new Date(Date.now() - 3600000).toISOString(), // 1 hour ago
-            retry_count: 2
-          },
-          {
-            job_id: 'job_1693847440_error2',
-            job_type: 'vehicle_sync',
-            dealer_id: '660e8400-e29b-41d4-a716-446655440006',
-            error_message: 'Invalid vehicle data format',
-            timestamp: new Date(Date.now() - 7200000).toISOString(), // 2 hours ago
-            retry_count: 0
-          },
-          {
-            job_id: 'job_1693847500_error3',
-            job_type: 'data_validation',
-            error_message: 'Database connection pool exhausted',
-            timestamp: new Date(Date.now() - 10800000).toISOString(), // 3 hours ago
-            retry_count: 3
-          }
-        ]
+        ...stats
       },
       timestamp: new Date().toISOString(),
       trace_id: traceContext.trace_id
-    }
-
-    traceManager.endSpan(spanId, {
-      success: true,
-      time_range: timeRange,
-      total_jobs: totalJobs,
-      success_rate: successRate
     })
 
-    return NextResponse.json(stats)
-
   } catch (error) {
     console.error('Get job stats error:', error)
     traceManager.endSpan(spanId, { success: false, error: error instanceof Error ? error.message : 'Unknown error' })
@@ -269,3 +143,6 @@ export async function GET(request: NextRequest) {
     )
   }
 }
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
@@ -1,27 +1,41 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { TraceManager } from '@/utils/tracing'
+import { SchedulerService } from '@/scheduler'
+import { getSupportedPlatforms, isPlatformSupported } from '@/platforms/platform-registry'
+import {
+  JOB_TYPES,
+  JOB_RECORD_PRIORITIES,
+  JOB_RECORD_QUEUE_PRIORITIES,
+  createJobRecord,
+  generateJobRecordId,
+  getJobRecord,
+  updateJobRecord,
+  type JobRecordPriority
+} from '@/lib/job-records'
+import { JOB_TYPE_PLATFORMS, isPlatformJobType } from '@/lib/schedule-definitions'
 
 interface JobTriggerRequest {
   dealer_id?: string
+  platform?: string
   job_type?: string
-  priority?: string
+  priority?: JobRecordPriority
+  requested_by?: string
 }
 
-interface DealerData {
-  id: string
-  name: string
-  [key: string]: any
-}
-
-interface VehicleData {
-  vehicles: any[]
-  total: number
-}
+/**
+ * Default and longest time a synchronous trigger waits for its jobs
+ */
+const DEFAULT_WAIT_TIMEOUT_MS = 60000
+const MAX_WAIT_TIMEOUT_MS = 240000
 
 /**
- * Manual job trigger endpoint
- * Uses Database API Service for data access
- * REQUIRES real data sources - fails when critical services unavailable
+ * POST /api/jobs/trigger - Run a dealer's (or every dealer's) jobs now
+ * Creates a job record, force-enqueues the matching jobs through SchedulerService.runJobs
+ * and returns the job ID to poll at /api/jobs/:id. job_type picks the platforms the way a
+ * schedule's does (dealer_com_sync, homenet_sync and sitemap_processing one platform,
+ * dealer_ingestion and vehicle_sync all); other job types are rejected. With ?wait=true
+ * the request runs the batch's jobs until they settle (or timeout_ms passes) and returns
+ * their JobResults. Due schedules are never claimed here.
  */
 export async function POST(request: NextRequest) {
   const traceManager = TraceManager.getInstance()
@@ -29,206 +43,192 @@ export async function POST(request: NextRequest) {
   const spanId = traceManager.startSpan('manual-job-trigger', traceContext)
 
   try {
-    const body = await request.json() as JobTriggerRequest
-    const { dealer_id, job_type = 'dealer_ingestion', priority = 'normal' } = body
+    const { searchParams } = new URL(request.url)
+    const wait = searchParams.get('wait') === 'true'
+    const timeoutParam = searchParams.get('timeout_ms')
+    const body = await request.json().catch(() => ({})) as JobTriggerRequest
+    const { dealer_id, platform, job_type = 'dealer_ingestion', priority = 'normal' } = body
 
-    // CRITICAL: Test all required services before proceeding
-    const serviceChecks = {
-      database_api: false,
-      cms_api: false,
-      redis: false
+    if (timeoutParam && !(parseInt(timeoutParam) > 0)) {
+      traceManager.endSpan(spanId, { success: false, error: 'Invalid timeout_ms' })
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid timeout_ms',
+          details: 'timeout_ms must be a positive integer',
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 400 }
+      )
     }
 
-    const criticalIssues: string[] = []
-
-    // Test Database API Service (REQUIRED)
-    try {
-      const dbApiUrl = process.env.OD_DB_API_URL || 'http://localhost:3001'
-      const response = await fetch(`${dbApiUrl}/health`, {
-        method: 'GET',
-        headers: { 'Content-Type': 'application/json' },
-        signal: AbortSignal.timeout(5000)
-      })
-
-      serviceChecks.database_api = response.ok
-      if (!response.ok) {
-        criticalIssues.push(`Database API error: ${response.status} ${response.statusText} - CRITICAL: Cannot access data`)
-      }
-    } catch (error) {
-      criticalIssues.push(`Database API connection failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    if (!JOB_TYPES.includes(job_type)) {
+      traceManager.endSpan(spanId, { success: false, error: 'Invalid job_type' })
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid job_type',
+          valid_types: JOB_TYPES,
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 400 }
+      )
     }
 
-    // Test PayloadCMS API (REQUIRED)
-    try {
-      const cmsUrl = process.env.OD_CMS_URL || 'http://localhost:3002'
-      const response = await fetch(`${cmsUrl}/api/dealers`, {
-        method: 'GET',
-        headers: { 'Content-Type': 'application/json' },
-        signal: AbortSignal.timeout(5000)
-      })
-
-      serviceChecks.cms_api = response.ok
-      if (!response.ok) {
-        criticalIssues.push(`PayloadCMS API error: ${response.status} ${response.statusText} - CRITICAL: Cannot access dealer data`)
-      }
-    } catch (error) {
-      criticalIssues.push(`PayloadCMS API connection failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    // The job type decides the platforms, as for schedules
+    const jobTypePlatform = JOB_TYPE_PLATFORMS[job_type]
+    if (!isPlatformJobType(job_type) || (platform && jobTypePlatform && platform !== jobTypePlatform)) {
+      traceManager.endSpan(spanId, { success: false, error: 'Unsupported job_type' })
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Unsupported job_type',
+          details: isPlatformJobType(job_type)
+            ? `job_type ${job_type} runs ${jobTypePlatform} jobs, not ${platform}`
+            : `job_type ${job_type} can't be triggered; it runs no platform jobs`,
+          valid_types: JOB_TYPES.filter(isPlatformJobType),
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 400 }
+      )
     }
+    const jobPlatform = platform || jobTypePlatform
 
-    // Test Redis (REQUIRED for events)
-    try {
-      const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379'
-      const response = await fetch(`${redisUrl.replace('redis://', 'http://')}/ping`, {
-        method: 'GET',
-        signal: AbortSignal.timeout(3000)
-      })
-
-      serviceChecks.redis = response.ok
-      if (!response.ok) {
-        criticalIssues.push('Redis connection failed - CRITICAL: Event system unavailable')
-      }
-    } catch (error) {
-      criticalIssues.push(`Redis connection error: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    if (!JOB_RECORD_PRIORITIES.includes(priority)) {
+      traceManager.endSpan(spanId, { success: false, error: 'Invalid priority' })
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid priority',
+          valid_priorities: JOB_RECORD_PRIORITIES,
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 400 }
+      )
     }
 
-    // If any critical service is down, return error
-    if (criticalIssues.length > 0) {
-      traceManager.endSpan(spanId, { success: false, error: 'Critical services unavailable' })
-
+    if (platform && !isPlatformSupported(platform)) {
+      traceManager.endSpan(spanId, { success: false, error: 'Unsupported platform' })
       return NextResponse.json(
         {
           success: false,
-          error: 'CRITICAL: Required services unavailable',
-          details: 'Cannot trigger job - critical services are down',
-          critical_issues: criticalIssues,
-          service_checks: serviceChecks,
+          error: 'Unsupported platform',
+          supported_platforms: getSupportedPlatforms(),
           timestamp: new Date().toISOString(),
           trace_id: traceContext.trace_id
         },
-        { status: 503 }
+        { status: 400 }
       )
     }
 
-    // Get real dealer data from PayloadCMS
-    let dealerData: DealerData | DealerData[] | null = null
-    try {
-      const cmsUrl = process.env.OD_CMS_URL || 'http://localhost:3002'
-      const response = await fetch(`${cmsUrl}/api/dealers${dealer_id ? `?where[id][equals]=${dealer_id}` : ''}`)
-
-      if (response.ok) {
-        const result = await response.json() as { data: DealerData | DealerData[] }
-        dealerData = dealer_id ? (result.data as DealerData[])[0] : result.data
-      } else {
-        criticalIssues.push(`Failed to fetch dealer data: ${response.status} ${response.statusText}`)
+    // The record tracks the triggered jobs; workers report progress and results to it
+    const jobId = generateJobRecordId()
+    await createJobRecord({
+      job_id: jobId,
+      job_type,
+      dealer_id: dealer_id || null,
+      priority,
+      schedule: { type: 'immediate' },
+      parameters: { ...(jobPlatform && { platform: jobPlatform }), force: true },
+      metadata: {
+        created_by: body.requested_by || 'api',
+        source: 'trigger',
+        trace_id: traceContext.trace_id
       }
-    } catch (error) {
-      criticalIssues.push(`Dealer data fetch error: ${error instanceof Error ? error.message : 'Unknown error'}`)
-    }
+    })
 
-    // Get real vehicle data from Database API Service
-    let vehicleData: VehicleData | null = null
-    try {
-      const dbApiUrl = process.env.OD_DB_API_URL || 'http://localhost:3001'
-      const response = await fetch(`${dbApiUrl}/api/v1/vehicles${dealer_id ? `?dealer_id=${dealer_id}` : ''}`)
+    const scheduler = new SchedulerService()
+    // Triggered runs never claim due schedules; those fire on the cron tick
+    const enqueued = await scheduler.runJobs({ dealer_id, platform: jobPlatform, force: true }, {
+      jobRecordId: jobId,
+      includeSchedules: false,
+      priority: JOB_RECORD_QUEUE_PRIORITIES[priority] || undefined
+    })
 
-      if (response.ok) {
-        const result = await response.json() as { data: VehicleData }
-        vehicleData = result.data
-      } else {
-        criticalIssues.push(`Failed to fetch vehicle data: ${response.status} ${response.statusText}`)
-      }
-    } catch (error) {
-      criticalIssues.push(`Vehicle data fetch error: ${error instanceof Error ? error.message : 'Unknown error'}`)
-    }
+    if (!enqueued.success || enqueued.jobs_enqueued === 0) {
+      const reason = !enqueued.success
+        ? `Failed to enqueue jobs: ${enqueued.error || 'unknown error'}`
+        : enqueued.jobs_skipped > 0
+          ? 'The matching jobs are already queued or running'
+          : dealer_id
+            ? `No jobs to run for dealer ${dealer_id}: it is inactive or has no matching platforms configured`
+            : 'No jobs to run'
+      await updateJobRecord(jobId, { status: 'failed', error_message: reason, metadata: { batch_id: enqueued.batch_id } })
 
-    // Simulate job execution with real data
-    const jobId = `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-    const startTime = new Date()
-    const executionTime = Math.random() * 5000 + 1000 // 1-6 seconds
+      const status = !enqueued.success ? 500 : enqueued.jobs_skipped > 0 ? 409 : 404
+      traceManager.endSpan(spanId, { success: false, job_id: jobId, error: reason })
+      return NextResponse.json(
+        {
+          success: false,
+          error: reason,
+          data: { job_id: jobId, batch_id: enqueued.batch_id },
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status }
+      )
+    }
 
-    // Simulate realistic job results based on actual data
-    const vehiclesProcessed = vehicleData?.vehicles?.length || 0
-    const dealersProcessed = dealerData ? (Array.isArray(dealerData) ? dealerData.length : 1) : 0
+    // Jobs may already be settling; the record then keeps its final state
+    await updateJobRecord(jobId, {
+      metadata: { batch_id: enqueued.batch_id, queued_job_ids: enqueued.queued_job_ids }
+    })
 
-    const jobResult = {
+    const triggered = {
       job_id: jobId,
-      dealer_id: dealer_id || 'all',
-      job_type: job_type,
-      priority: priority,
-      status: 'completed',
-      start_time: startTime.toISOString(),
-      end_time: new Date(startTime.getTime() + executionTime).toISOString(),
-      execution_time_ms: executionTime,
-      result: {
-        success: true,
-        vehicles_processed: vehiclesProcessed,
-        dealers_processed: dealersProcessed,
-        new_vehicles: Math.floor(vehiclesProcessed * 0.1), // 10% new
-        updated_vehicles: Math.floor(vehiclesProcessed * 0.3), // 30% updated
-        errors: vehiclesProcessed > 0 ? Math.floor(vehiclesProcessed * 0.02) : 0, // 2% errors
-        warnings: vehiclesProcessed > 0 ? Math.floor(vehiclesProcessed * 0.05) : 0 // 5% warnings
-      },
-      metadata: {
-        source: 'real_data',
-        data_sources: {
-          database_api: {
-            status: 'connected',
-            url: process.env.OD_DB_API_URL || 'http://localhost:3001',
-            purpose: 'Database API service for data access'
-          },
-          cms_api: {
-            status: 'connected',
-            url: process.env.OD_CMS_URL || 'http://localhost:3002',
-            purpose: 'Dealer management and configuration'
-          },
-          redis: {
-            status: 'connected',
-            url: process.env.REDIS_URL || 'redis://localhost:6379',
-            purpose: 'Event queue and caching'
-          }
-        },
-        service_checks: serviceChecks,
-        trace_id: traceContext.trace_id
-      }
+      batch_id: enqueued.batch_id,
+      jobs_enqueued: enqueued.jobs_enqueued,
+      jobs_skipped: enqueued.jobs_skipped,
+      queued_job_ids: enqueued.queued_job_ids,
+      status_url: `/api/jobs/${jobId}`
     }
 
-    // Simulate event publishing to Redis
-    const eventData = {
-      event_type: 'job_completed',
-      job_id: jobId,
-      dealer_id: dealer_id || 'all',
-      timestamp: new Date().toISOString(),
-      data: jobResult
+    if (!wait) {
+      traceManager.endSpan(spanId, { success: true, job_id: jobId, jobs_enqueued: enqueued.jobs_enqueued })
+
+      return NextResponse.json(
+        {
+          success: true,
+          message: 'Jobs enqueued',
+          data: { ...triggered, status: 'pending' },
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 202 }
+      )
     }
 
-    traceManager.endSpan(spanId, { success: true, job_id: jobId })
+    const timeoutMs = Math.min(timeoutParam ? parseInt(timeoutParam) : DEFAULT_WAIT_TIMEOUT_MS, MAX_WAIT_TIMEOUT_MS)
+    const outcome = await scheduler.waitForBatch(enqueued.batch_id, timeoutMs)
+    const record = await getJobRecord(jobId)
 
-    return NextResponse.json({
+    traceManager.endSpan(spanId, {
       success: true,
-      message: 'Job triggered successfully with real data',
-      data: jobResult,
-      source: 'real_data',
-      service_checks: serviceChecks,
-      data_sources: {
-        database_api: {
-          status: 'connected',
-          url: process.env.OD_DB_API_URL || 'http://localhost:3001',
-          purpose: 'Database API service for data access'
-        },
-        cms_api: {
-          status: 'connected',
-          url: process.env.OD_CMS_URL || 'http://localhost:3002',
-          purpose: 'Dealer management and configuration'
+      job_id: jobId,
+      settled: outcome.settled,
+      jobs_failed: outcome.entries.filter(entry => entry.status === 'failed').length
+    })
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: outcome.settled ? 'Jobs finished' : `Jobs still running after ${timeoutMs}ms; poll status_url`,
+        data: {
+          ...triggered,
+          status: record?.status || 'running',
+          settled: outcome.settled,
+          error_message: record?.error_message || undefined,
+          results: outcome.results
         },
-        redis: {
-          status: 'connected',
-          url: process.env.REDIS_URL || 'redis://localhost:6379',
-          purpose: 'Event queue and caching'
-        }
+        timestamp: new Date().toISOString(),
+        trace_id: traceContext.trace_id
       },
-      timestamp: new Date().toISOString(),
-      trace_id: traceContext.trace_id
-    })
+      { status: outcome.settled ? 200 : 202 }
+    )
 
   } catch (error) {
     console.error('Job trigger error:', error)
@@ -237,7 +237,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json(
       {
         success: false,
-        error: 'CRITICAL: Job trigger system failure',
+        error: 'Failed to trigger jobs',
         details: error instanceof Error ? error.message : 'Unknown error',
         timestamp: new Date().toISOString(),
         trace_id: traceContext.trace_id
@@ -254,7 +254,7 @@ export async function GET(request: NextRequest) {
   return NextResponse.json({
     endpoint: '/api/jobs/trigger',
     method: 'POST',
-    description: 'Trigger dealer ingestion jobs on-demand',
+    description: 'Run dealer jobs on demand; returns a job ID to poll at /api/jobs/:id',
     parameters: {
       body: {
         dealer_id: {
@@ -267,42 +267,57 @@ export async function GET(request: NextRequest) {
           required: false,
           description: 'Platform filter (dealer.com, homenet, etc.)'
         },
-        force: {
-          type: 'boolean',
+        job_type: {
+          type: 'string',
           required: false,
-          default: true,
-          description: 'Force execution even outside optimal time window'
+          default: 'dealer_ingestion',
+          options: JOB_TYPES.filter(isPlatformJobType),
+          description: 'Platforms to run: dealer_com_sync, homenet_sync and sitemap_processing run that platform, dealer_ingestion and vehicle_sync every platform'
         },
         priority: {
           type: 'string',
           required: false,
           default: 'normal',
-          options: ['high', 'normal'],
-          description: 'Job execution priority'
+          options: JOB_RECORD_PRIORITIES,
+          description: 'Priority recorded on the job; low jobs are leased as economy, high and critical as premium, normal keeps the dealer tier'
+        },
+        requested_by: {
+          type: 'string',
+          required: false,
+          description: 'Who triggered the job (recorded as created_by)'
         }
       },
       query: {
-        async: {
+        wait: {
           type: 'boolean',
           required: false,
           default: false,
-          description: 'Run jobs asynchronously (returns immediately)'
+          description: 'Run the triggered jobs in the request until they finish and return their results'
+        },
+        timeout_ms: {
+          type: 'number',
+          required: false,
+          default: DEFAULT_WAIT_TIMEOUT_MS,
+          description: `How long to wait with wait=true (max ${MAX_WAIT_TIMEOUT_MS}); the response is 202 if the jobs are still running`
         }
       }
     },
     examples: {
       trigger_all: {
         url: 'POST /api/jobs/trigger',
-        body: { force: true }
+        body: {}
       },
       trigger_specific_dealer: {
         url: 'POST /api/jobs/trigger',
-        body: { dealer_id: 'dealer-123', force: true }
+        body: { dealer_id: 'dealer-123' }
       },
-      trigger_async: {
-        url: 'POST /api/jobs/trigger?async=true',
-        body: { force: true, priority: 'high' }
+      trigger_and_wait: {
+        url: 'POST /api/jobs/trigger?wait=true&timeout_ms=120000',
+        body: { dealer_id: 'dealer-123', platform: 'homenet', requested_by: 'ops@example.com' }
       }
     }
   })
 }
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { TraceManager } from '@/utils/tracing'
+import { SchedulerService } from '@/scheduler'
+
+/**
+ * POST /api/jobs/worker - Drain the job queue
+ * Leases queued jobs, executes them and records results until the queue is
+ * empty or the runtime budget is spent. Safe to call from several invocations
+ * at once; each job is leased by exactly one worker.
+ */
+export async function POST(request: NextRequest) {
+  const traceManager = TraceManager.getInstance()
+  const traceContext = traceManager.generateTraceContext()
+  const spanId = traceManager.startSpan('drain-job-queue', traceContext)
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const concurrency = searchParams.get('concurrency')
+    const maxRuntimeMs = searchParams.get('max_runtime_ms')
+
+    if ((concurrency && !(parseInt(concurrency) > 0)) || (maxRuntimeMs && !(parseInt(maxRuntimeMs) > 0))) {
+      traceManager.endSpan(spanId, { success: false, error: 'Invalid worker options' })
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid worker options',
+          details: 'concurrency and max_runtime_ms must be positive integers',
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 400 }
+      )
+    }
+
+    const scheduler = new SchedulerService()
+    const summary = await scheduler.processQueue({
+      ...(concurrency && { concurrency: parseInt(concurrency) }),
+      ...(maxRuntimeMs && { maxRuntimeMs: parseInt(maxRuntimeMs) })
+    })
+    const depth = await scheduler.getQueueDepth()
+
+    traceManager.endSpan(spanId, {
+      success: true,
+      jobs_leased: summary.jobs_leased,
+      jobs_failed: summary.jobs_failed
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...summary,
+        queue_depth: depth
+      },
+      timestamp: new Date().toISOString(),
+      trace_id: traceContext.trace_id
+    })
+
+  } catch (error) {
+    console.error('Queue worker error:', error)
+    traceManager.endSpan(spanId, { success: false, error: error instanceof Error ? error.message : 'Unknown error' })
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to drain job queue',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        trace_id: traceContext.trace_id
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * GET /api/jobs/worker - Current queue depth by status
+ */
+export async function GET(request: NextRequest) {
+  const traceManager = TraceManager.getInstance()
+  const traceContext = traceManager.generateTraceContext()
+
+  try {
+    const scheduler = new SchedulerService()
+    const depth = await scheduler.getQueueDepth()
+
+    return NextResponse.json({
+      success: true,
+      data: { queue_depth: depth },
+      timestamp: new Date().toISOString(),
+      trace_id: traceContext.trace_id
+    })
+
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to read queue depth',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        trace_id: traceContext.trace_id
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
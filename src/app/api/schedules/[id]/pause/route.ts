@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { TraceManager } from '@/utils/tracing'
+import { pauseSchedule } from '@/lib/schedule-controls'
+
+interface PauseScheduleRequest {
+  paused_by: string
+  reason: string
+  paused_until?: string
+}
+
+/**
+ * POST /api/schedules/[id]/pause - Pause a schedule until resumed or until paused_until
+ * Body: { paused_by, reason, paused_until? }
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const traceManager = TraceManager.getInstance()
+  const traceContext = traceManager.generateTraceContext()
+  const spanId = traceManager.startSpan('pause-schedule', traceContext)
+
+  try {
+    const { id: scheduleId } = await context.params
+    const body = await request.json() as PauseScheduleRequest
+
+    if (!body.paused_by || !body.reason) {
+      traceManager.endSpan(spanId, { success: false, error: 'Missing paused_by or reason' })
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Missing required fields: paused_by and reason',
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 400 }
+      )
+    }
+
+    const pausedUntil = body.paused_until ? new Date(body.paused_until) : null
+    if (pausedUntil && (isNaN(pausedUntil.getTime()) || pausedUntil <= new Date())) {
+      traceManager.endSpan(spanId, { success: false, error: 'Invalid paused_until' })
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid paused_until',
+          details: 'paused_until must be a future ISO date',
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await pauseSchedule(scheduleId, { actor: body.paused_by, reason: body.reason, until: pausedUntil })
+
+    if (!result) {
+      traceManager.endSpan(spanId, { success: false, error: 'Schedule not found' })
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Schedule not found',
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 404 }
+      )
+    }
+
+    if (result.conflict) {
+      traceManager.endSpan(spanId, { success: false, error: result.conflict })
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Cannot pause schedule',
+          details: result.conflict,
+          current_status: result.schedule?.status,
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 409 }
+      )
+    }
+
+    traceManager.endSpan(spanId, { success: true, schedule_id: scheduleId })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Schedule paused',
+      data: { schedule: result.schedule },
+      timestamp: new Date().toISOString(),
+      trace_id: traceContext.trace_id
+    })
+
+  } catch (error) {
+    console.error('Pause schedule error:', error)
+    traceManager.endSpan(spanId, { success: false, error: error instanceof Error ? error.message : 'Unknown error' })
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to pause schedule',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        trace_id: traceContext.trace_id
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
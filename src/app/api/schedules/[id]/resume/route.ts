@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { TraceManager } from '@/utils/tracing'
+import { resumeSchedule } from '@/lib/schedule-controls'
+
+interface ResumeScheduleRequest {
+  resumed_by: string
+  reason?: string
+}
+
+/**
+ * POST /api/schedules/[id]/resume - Resume a paused schedule from its next fire time
+ * Body: { resumed_by, reason? }
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const traceManager = TraceManager.getInstance()
+  const traceContext = traceManager.generateTraceContext()
+  const spanId = traceManager.startSpan('resume-schedule', traceContext)
+
+  try {
+    const { id: scheduleId } = await context.params
+    const body = await request.json() as ResumeScheduleRequest
+
+    if (!body.resumed_by) {
+      traceManager.endSpan(spanId, { success: false, error: 'Missing resumed_by' })
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Missing required field: resumed_by',
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await resumeSchedule(scheduleId, { actor: body.resumed_by, reason: body.reason || null })
+
+    if (!result) {
+      traceManager.endSpan(spanId, { success: false, error: 'Schedule not found' })
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Schedule not found',
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 404 }
+      )
+    }
+
+    if (result.conflict) {
+      traceManager.endSpan(spanId, { success: false, error: result.conflict })
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Cannot resume schedule',
+          details: result.conflict,
+          current_status: result.schedule?.status,
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 409 }
+      )
+    }
+
+    traceManager.endSpan(spanId, { success: true, schedule_id: scheduleId })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Schedule resumed',
+      data: { schedule: result.schedule },
+      timestamp: new Date().toISOString(),
+      trace_id: traceContext.trace_id
+    })
+
+  } catch (error) {
+    console.error('Resume schedule error:', error)
+    traceManager.endSpan(spanId, { success: false, error: error instanceof Error ? error.message : 'Unknown error' })
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to resume schedule',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        trace_id: traceContext.trace_id
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { TraceManager } from '@/utils/tracing'
+import { skipNextScheduleRun } from '@/lib/schedule-controls'
+
+interface SkipNextRunRequest {
+  requested_by: string
+  reason?: string
+}
+
+/**
+ * POST /api/schedules/[id]/skip-next - Skip the schedule's next run; later runs are unaffected
+ * Body: { requested_by, reason? }
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const traceManager = TraceManager.getInstance()
+  const traceContext = traceManager.generateTraceContext()
+  const spanId = traceManager.startSpan('skip-next-schedule-run', traceContext)
+
+  try {
+    const { id: scheduleId } = await context.params
+    const body = await request.json() as SkipNextRunRequest
+
+    if (!body.requested_by) {
+      traceManager.endSpan(spanId, { success: false, error: 'Missing requested_by' })
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Missing required field: requested_by',
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await skipNextScheduleRun(scheduleId, { actor: body.requested_by, reason: body.reason || null })
+
+    if (!result) {
+      traceManager.endSpan(spanId, { success: false, error: 'Schedule not found' })
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Schedule not found',
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 404 }
+      )
+    }
+
+    if (result.conflict) {
+      traceManager.endSpan(spanId, { success: false, error: result.conflict })
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Cannot skip the next run',
+          details: result.conflict,
+          current_status: result.schedule?.status,
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 409 }
+      )
+    }
+
+    traceManager.endSpan(spanId, { success: true, schedule_id: scheduleId })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Next run will be skipped',
+      data: {
+        schedule: result.schedule,
+        skipped_run_at: result.schedule?.next_run_at?.toISOString() || null
+      },
+      timestamp: new Date().toISOString(),
+      trace_id: traceContext.trace_id
+    })
+
+  } catch (error) {
+    console.error('Skip next schedule run error:', error)
+    traceManager.endSpan(spanId, { success: false, error: error instanceof Error ? error.message : 'Unknown error' })
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to skip the next run',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        trace_id: traceContext.trace_id
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
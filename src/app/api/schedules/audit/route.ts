@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { TraceManager } from '@/utils/tracing'
+import { listScheduleControlAudit, type ScheduleControlTarget } from '@/lib/schedule-controls'
+
+/**
+ * GET /api/schedules/audit - List schedule and dealer pause/resume/skip actions, newest first
+ * Query: target_type (schedule | dealer), target_id, limit (default 100, max 500)
+ */
+export async function GET(request: NextRequest) {
+  const traceManager = TraceManager.getInstance()
+  const traceContext = traceManager.generateTraceContext()
+  const spanId = traceManager.startSpan('list-schedule-control-audit', traceContext)
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const targetType = searchParams.get('target_type')
+    const targetId = searchParams.get('target_id')
+    const limit = Math.min(parseInt(searchParams.get('limit') || '100') || 100, 500)
+
+    if (targetType && targetType !== 'schedule' && targetType !== 'dealer') {
+      traceManager.endSpan(spanId, { success: false, error: 'Invalid target_type' })
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid target_type',
+          details: 'target_type must be one of: schedule, dealer',
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 400 }
+      )
+    }
+
+    const entries = await listScheduleControlAudit({
+      target_type: (targetType as ScheduleControlTarget) || undefined,
+      target_id: targetId || undefined,
+      limit
+    })
+
+    traceManager.endSpan(spanId, { success: true, total_entries: entries.length })
+
+    return NextResponse.json({
+      success: true,
+      data: { entries },
+      timestamp: new Date().toISOString(),
+      trace_id: traceContext.trace_id
+    })
+
+  } catch (error) {
+    console.error('List schedule control audit error:', error)
+    traceManager.endSpan(spanId, { success: false, error: error instanceof Error ? error.message : 'Unknown error' })
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to list schedule control audit',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        trace_id: traceContext.trace_id
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
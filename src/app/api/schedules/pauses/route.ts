@@ -0,0 +1,188 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { TraceManager } from '@/utils/tracing'
+import { listDealerPauses, pauseDealer, resumeDealer } from '@/lib/schedule-controls'
+
+interface DealerPauseRequest {
+  dealer_id: string
+  paused_by: string
+  reason: string
+  paused_until?: string
+}
+
+/**
+ * GET /api/schedules/pauses - List active dealer pauses
+ * Query: dealer_id (optional)
+ */
+export async function GET(request: NextRequest) {
+  const traceManager = TraceManager.getInstance()
+  const traceContext = traceManager.generateTraceContext()
+  const spanId = traceManager.startSpan('list-dealer-pauses', traceContext)
+
+  try {
+    const dealerId = new URL(request.url).searchParams.get('dealer_id')
+    const pauses = [...(await listDealerPauses()).values()]
+      .filter(pause => !dealerId || pause.dealer_id === dealerId)
+
+    traceManager.endSpan(spanId, { success: true, total_pauses: pauses.length })
+
+    return NextResponse.json({
+      success: true,
+      data: { pauses },
+      timestamp: new Date().toISOString(),
+      trace_id: traceContext.trace_id
+    })
+
+  } catch (error) {
+    console.error('List dealer pauses error:', error)
+    traceManager.endSpan(spanId, { success: false, error: error instanceof Error ? error.message : 'Unknown error' })
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to list dealer pauses',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        trace_id: traceContext.trace_id
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/schedules/pauses - Pause every scheduled and cron job of a dealer
+ * Body: { dealer_id, paused_by, reason, paused_until? }
+ */
+export async function PUT(request: NextRequest) {
+  const traceManager = TraceManager.getInstance()
+  const traceContext = traceManager.generateTraceContext()
+  const spanId = traceManager.startSpan('pause-dealer', traceContext)
+
+  try {
+    const body = await request.json() as DealerPauseRequest
+
+    if (!body.dealer_id || !body.paused_by || !body.reason) {
+      traceManager.endSpan(spanId, { success: false, error: 'Missing required fields' })
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Missing required fields: dealer_id, paused_by and reason',
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 400 }
+      )
+    }
+
+    const pausedUntil = body.paused_until ? new Date(body.paused_until) : null
+    if (pausedUntil && (isNaN(pausedUntil.getTime()) || pausedUntil <= new Date())) {
+      traceManager.endSpan(spanId, { success: false, error: 'Invalid paused_until' })
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid paused_until',
+          details: 'paused_until must be a future ISO date',
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 400 }
+      )
+    }
+
+    const pause = await pauseDealer(body.dealer_id, { actor: body.paused_by, reason: body.reason, until: pausedUntil })
+
+    traceManager.endSpan(spanId, { success: true, dealer_id: pause.dealer_id })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Dealer paused',
+      data: { pause },
+      timestamp: new Date().toISOString(),
+      trace_id: traceContext.trace_id
+    })
+
+  } catch (error) {
+    console.error('Pause dealer error:', error)
+    traceManager.endSpan(spanId, { success: false, error: error instanceof Error ? error.message : 'Unknown error' })
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to pause dealer',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        trace_id: traceContext.trace_id
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/schedules/pauses?dealer_id=X&resumed_by=Y[&reason=Z] - Lift a dealer's pause
+ */
+export async function DELETE(request: NextRequest) {
+  const traceManager = TraceManager.getInstance()
+  const traceContext = traceManager.generateTraceContext()
+  const spanId = traceManager.startSpan('resume-dealer', traceContext)
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const dealerId = searchParams.get('dealer_id')
+    const resumedBy = searchParams.get('resumed_by')
+
+    if (!dealerId || !resumedBy) {
+      traceManager.endSpan(spanId, { success: false, error: 'Missing dealer_id or resumed_by' })
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Missing required parameters: dealer_id and resumed_by',
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 400 }
+      )
+    }
+
+    const resumed = await resumeDealer(dealerId, { actor: resumedBy, reason: searchParams.get('reason') })
+    traceManager.endSpan(spanId, { success: resumed, dealer_id: dealerId })
+
+    if (!resumed) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Dealer pause not found',
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Dealer resumed',
+      data: { dealer_id: dealerId },
+      timestamp: new Date().toISOString(),
+      trace_id: traceContext.trace_id
+    })
+
+  } catch (error) {
+    console.error('Resume dealer error:', error)
+    traceManager.endSpan(spanId, { success: false, error: error instanceof Error ? error.message : 'Unknown error' })
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to resume dealer',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        trace_id: traceContext.trace_id
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { databaseUtils } from '../../../../utils/database'
+import { listDealerPriorityOverrides, resolveDealerPriority, type DealerPriorityOverride } from '@/lib/dealer-priority'
 
 /**
  * Schedules preview endpoint
@@ -62,6 +63,9 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    // Operator overrides are optional here; without them dealers keep their own tiers
+    const overrides = await listDealerPriorityOverrides().catch(() => new Map<string, DealerPriorityOverride>())
+
     // Generate schedule using real dealer data
     const generateSchedule = (dealers: any[]) => {
       const schedule: any[] = []
@@ -78,8 +82,11 @@ export async function GET(request: NextRequest) {
         const runTime = new Date(baseTime)
         runTime.setMinutes(baseTime.getMinutes() + (index * 15)) // 15-minute intervals
 
-        // Determine priority based on dealer status
-        const priority = dealer.status === 'active' ? 'premium' : 'standard'
+        // Same tier resolution the scheduler uses
+        const { priority } = resolveDealerPriority({
+          priority_tier: dealer.priority_tier ?? dealer.priorityTier,
+          subscription_plan: dealer.subscription_plan ?? dealer.subscriptionPlan
+        }, overrides.get(dealer.id))
 
         schedule.push({
           dealer_id: dealer.id,
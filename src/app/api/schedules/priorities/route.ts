@@ -0,0 +1,214 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { TraceManager } from '@/utils/tracing'
+import {
+  DEALER_PRIORITY_TIERS,
+  isDealerPriority,
+  listDealerPriorityOverrides,
+  saveDealerPriorityOverride,
+  deleteDealerPriorityOverride
+} from '@/lib/dealer-priority'
+
+interface PriorityOverrideRequest {
+  dealer_id: string
+  priority: string
+  reason?: string
+  expires_at?: string
+}
+
+/**
+ * GET /api/schedules/priorities - List active dealer priority overrides
+ * Query: dealer_id (optional)
+ */
+export async function GET(request: NextRequest) {
+  const traceManager = TraceManager.getInstance()
+  const traceContext = traceManager.generateTraceContext()
+  const spanId = traceManager.startSpan('list-priority-overrides', traceContext)
+
+  try {
+    const dealerId = new URL(request.url).searchParams.get('dealer_id')
+    const overrides = [...(await listDealerPriorityOverrides()).values()]
+      .filter(override => !dealerId || override.dealer_id === dealerId)
+
+    traceManager.endSpan(spanId, { success: true, total_overrides: overrides.length })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        overrides,
+        tiers: DEALER_PRIORITY_TIERS
+      },
+      timestamp: new Date().toISOString(),
+      trace_id: traceContext.trace_id
+    })
+
+  } catch (error) {
+    console.error('List priority overrides error:', error)
+    traceManager.endSpan(spanId, { success: false, error: error instanceof Error ? error.message : 'Unknown error' })
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to list priority overrides',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        trace_id: traceContext.trace_id
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/schedules/priorities - Set a dealer's priority tier, overriding its plan
+ * Body: { dealer_id, priority: premium | standard | economy, reason?, expires_at? }
+ */
+export async function PUT(request: NextRequest) {
+  const traceManager = TraceManager.getInstance()
+  const traceContext = traceManager.generateTraceContext()
+  const spanId = traceManager.startSpan('set-priority-override', traceContext)
+
+  try {
+    const body = await request.json() as PriorityOverrideRequest
+
+    if (!body.dealer_id) {
+      traceManager.endSpan(spanId, { success: false, error: 'Missing dealer_id' })
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Missing required field: dealer_id',
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 400 }
+      )
+    }
+
+    if (!isDealerPriority(body.priority)) {
+      traceManager.endSpan(spanId, { success: false, error: 'Invalid priority' })
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid priority',
+          details: `priority must be one of: ${DEALER_PRIORITY_TIERS.join(', ')}`,
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 400 }
+      )
+    }
+
+    const expiresAt = body.expires_at ? new Date(body.expires_at) : null
+    if (expiresAt && (isNaN(expiresAt.getTime()) || expiresAt <= new Date())) {
+      traceManager.endSpan(spanId, { success: false, error: 'Invalid expires_at' })
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid expires_at',
+          details: 'expires_at must be a future ISO date',
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 400 }
+      )
+    }
+
+    const override = await saveDealerPriorityOverride({
+      dealer_id: body.dealer_id,
+      priority: body.priority,
+      reason: body.reason || null,
+      expires_at: expiresAt
+    })
+
+    traceManager.endSpan(spanId, { success: true, dealer_id: override.dealer_id, priority: override.priority })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Priority override saved',
+      data: { override },
+      timestamp: new Date().toISOString(),
+      trace_id: traceContext.trace_id
+    })
+
+  } catch (error) {
+    console.error('Set priority override error:', error)
+    traceManager.endSpan(spanId, { success: false, error: error instanceof Error ? error.message : 'Unknown error' })
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to save priority override',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        trace_id: traceContext.trace_id
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/schedules/priorities?dealer_id=X - Remove a dealer's override; its plan tier applies again
+ */
+export async function DELETE(request: NextRequest) {
+  const traceManager = TraceManager.getInstance()
+  const traceContext = traceManager.generateTraceContext()
+  const spanId = traceManager.startSpan('delete-priority-override', traceContext)
+
+  try {
+    const dealerId = new URL(request.url).searchParams.get('dealer_id')
+
+    if (!dealerId) {
+      traceManager.endSpan(spanId, { success: false, error: 'Missing dealer_id' })
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Missing required parameter: dealer_id',
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 400 }
+      )
+    }
+
+    const deleted = await deleteDealerPriorityOverride(dealerId)
+    traceManager.endSpan(spanId, { success: deleted, dealer_id: dealerId })
+
+    if (!deleted) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Priority override not found',
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Priority override removed',
+      data: { dealer_id: dealerId },
+      timestamp: new Date().toISOString(),
+      trace_id: traceContext.trace_id
+    })
+
+  } catch (error) {
+    console.error('Delete priority override error:', error)
+    traceManager.endSpan(spanId, { success: false, error: error instanceof Error ? error.message : 'Unknown error' })
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to remove priority override',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        trace_id: traceContext.trace_id
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
@@ -1,5 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { TraceManager } from '@/utils/tracing'
+import { validateCronExpression } from '@/lib/cron-expression'
+import { getDefaultRetryConfig, validateRetryConfig } from '@/lib/retry-policy'
+import { getSupportedPlatforms, isPlatformSupported } from '@/platforms/platform-registry'
+import { JOB_TYPES } from '@/lib/job-records'
+import {
+  JOB_TYPE_PLATFORMS,
+  calculateScheduleNextRun,
+  createScheduleDefinition,
+  generateScheduleId,
+  isPlatformJobType,
+  listScheduleDefinitions,
+  type ScheduleDefinition as StoredScheduleDefinition
+} from '@/lib/schedule-definitions'
 
 interface ScheduleDefinition {
   schedule_id: string
@@ -26,14 +39,21 @@ interface ScheduleDefinition {
   run_count: number
   success_count: number
   failure_count: number
+  skip_next_run: boolean
+  pause?: {
+    paused_by: string | null
+    reason: string | null
+    paused_at?: string
+    paused_until?: string
+  }
   metadata?: {
     created_by?: string
     priority?: 'low' | 'normal' | 'high' | 'critical'
-    max_concurrent_jobs?: number
     retry_config?: {
       max_retries: number
       retry_delay_ms: number
       exponential_backoff: boolean
+      max_delay_ms?: number
     }
   }
 }
@@ -55,11 +75,11 @@ interface CreateScheduleRequest {
   parameters?: Record<string, any>
   metadata?: {
     priority?: 'low' | 'normal' | 'high' | 'critical'
-    max_concurrent_jobs?: number
     retry_config?: {
       max_retries: number
       retry_delay_ms: number
       exponential_backoff: boolean
+      max_delay_ms?: number
     }
   }
 }
@@ -81,15 +101,49 @@ interface UpdateScheduleRequest {
   parameters?: Record<string, any>
   metadata?: {
     priority?: 'low' | 'normal' | 'high' | 'critical'
-    max_concurrent_jobs?: number
     retry_config?: {
       max_retries: number
       retry_delay_ms: number
       exponential_backoff: boolean
+      max_delay_ms?: number
     }
   }
 }
 
+/**
+ * Present a stored schedule
+ */
+function toScheduleResponse(definition: StoredScheduleDefinition): ScheduleDefinition {
+  const nextRun = definition.next_run_at?.toISOString()
+  return {
+    schedule_id: definition.schedule_id,
+    name: definition.name,
+    description: definition.description || undefined,
+    job_type: definition.job_type,
+    status: definition.status,
+    schedule: { ...definition.schedule, next_run: nextRun },
+    dealer_filter: definition.dealer_filter || undefined,
+    parameters: definition.parameters,
+    created_at: definition.created_at.toISOString(),
+    updated_at: definition.updated_at.toISOString(),
+    last_run: definition.last_run_at?.toISOString(),
+    next_run: nextRun,
+    run_count: definition.run_count,
+    success_count: definition.success_count,
+    failure_count: definition.failure_count,
+    skip_next_run: definition.skip_next_run,
+    pause: definition.status === 'paused'
+      ? {
+          paused_by: definition.paused_by,
+          reason: definition.pause_reason,
+          paused_at: definition.paused_at?.toISOString(),
+          paused_until: definition.paused_until?.toISOString()
+        }
+      : undefined,
+    metadata: definition.metadata
+  }
+}
+
 /**
  * GET /api/schedules - List scheduled jobs
  */
@@ -111,209 +165,14 @@ export async function GET(request: NextRequest) {
     const jobTypeFilter = searchParams.get('job_type')?.split(',')
     const dealerIdFilter = searchParams.get('dealer_id')
 
-    // TODO: Replace with actual database query
-    // For now, simulate schedule definitions
-    const mockSchedules: ScheduleDefinition[] = [
-      {
-        schedule_id: 'sched_daily_ingestion',
-        name: 'Daily Dealer Ingestion',
-        description: 'Comprehensive daily data ingestion for all active dealers',
-        job_type: 'dealer_ingestion',
-        status: 'active',
-        schedule: {
-          type: 'cron',
-          expression: '0 2 * * *', // 2 AM daily
-          timezone: 'America/New_York',
-          next_run: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString()
-        },
-        parameters: {
-          include_images: true,
-          include_pricing: true,
-          batch_size: 50,
-          max_retries: 3
-        },
-        created_at: '2024-08-15T10:00:00.000Z',
-        updated_at: '2024-08-28T14:30:00.000Z',
-        last_run: '2024-08-29T02:00:00.000Z',
-        next_run: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
-        run_count: 145,
-        success_count: 142,
-        failure_count: 3,
-        metadata: {
-          created_by: 'admin',
-          priority: 'high',
-          max_concurrent_jobs: 5,
-          retry_config: {
-            max_retries: 3,
-            retry_delay_ms: 60000,
-            exponential_backoff: true
-          }
-        }
-      },
-      {
-        schedule_id: 'sched_hourly_vehicle_sync',
-        name: 'Hourly Vehicle Sync',
-        description: 'Sync vehicle data every hour during business hours',
-        job_type: 'vehicle_sync',
-        status: 'active',
-        schedule: {
-          type: 'cron',
-          expression: '0 8-18 * * 1-5', // Every hour 8 AM to 6 PM, Mon-Fri
-          timezone: 'America/New_York'
-        },
-        dealer_filter: {
-          dealer_tags: ['high_volume', 'premium']
-        },
-        parameters: {
-          incremental_only: true,
-          include_pricing: false,
-          batch_size: 25
-        },
-        created_at: '2024-08-20T09:00:00.000Z',
-        updated_at: '2024-08-29T11:15:00.000Z',
-        last_run: '2024-08-29T14:00:00.000Z',
-        next_run: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
-        run_count: 267,
-        success_count: 261,
-        failure_count: 6,
-        metadata: {
-          created_by: 'system',
-          priority: 'normal',
-          max_concurrent_jobs: 3,
-          retry_config: {
-            max_retries: 2,
-            retry_delay_ms: 30000,
-            exponential_backoff: false
-          }
-        }
-      },
-      {
-        schedule_id: 'sched_weekly_validation',
-        name: 'Weekly Data Validation',
-        description: 'Comprehensive data validation and cleanup',
-        job_type: 'data_validation',
-        status: 'active',
-        schedule: {
-          type: 'weekly',
-          expression: '0 0 * * 0', // Sunday midnight
-          timezone: 'UTC'
-        },
-        parameters: {
-          full_validation: true,
-          fix_duplicates: true,
-          update_missing_fields: true
-        },
-        created_at: '2024-08-10T12:00:00.000Z',
-        updated_at: '2024-08-25T16:20:00.000Z',
-        last_run: '2024-08-25T00:00:00.000Z',
-        next_run: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
-        run_count: 3,
-        success_count: 3,
-        failure_count: 0,
-        metadata: {
-          created_by: 'admin',
-          priority: 'low',
-          max_concurrent_jobs: 1,
-          retry_config: {
-            max_retries: 1,
-            retry_delay_ms: 300000,
-            exponential_backoff: true
-          }
-        }
-      },
-      {
-        schedule_id: 'sched_premium_dealer_sync',
-        name: 'Premium Dealer Priority Sync',
-        description: 'High-frequency sync for premium tier dealers',
-        job_type: 'dealer_com_sync',
-        status: 'active',
-        schedule: {
-          type: 'interval',
-          expression: '900000', // 15 minutes
-          timezone: 'America/New_York'
-        },
-        dealer_filter: {
-          dealer_tags: ['premium', 'tier_1']
-        },
-        parameters: {
-          priority_processing: true,
-          include_detailed_specs: true,
-          image_quality: 'high'
-        },
-        created_at: '2024-08-22T08:30:00.000Z',
-        updated_at: '2024-08-29T10:45:00.000Z',
-        last_run: new Date(Date.now() - 15 * 60 * 1000).toISOString(),
-        next_run: new Date(Date.now() + 15 * 60 * 1000).toISOString(),
-        run_count: 672,
-        success_count: 659,
-        failure_count: 13,
-        metadata: {
-          created_by: 'business_team',
-          priority: 'critical',
-          max_concurrent_jobs: 2,
-          retry_config: {
-            max_retries: 5,
-            retry_delay_ms: 15000,
-            exponential_backoff: true
-          }
-        }
-      },
-      {
-        schedule_id: 'sched_maintenance_cleanup',
-        name: 'Monthly Maintenance Cleanup',
-        description: 'Archive old data and optimize database',
-        job_type: 'data_cleanup',
-        status: 'paused',
-        schedule: {
-          type: 'monthly',
-          expression: '0 3 1 * *', // 1st of month at 3 AM
-          timezone: 'UTC'
-        },
-        parameters: {
-          archive_older_than_days: 90,
-          optimize_indexes: true,
-          cleanup_logs: true
-        },
-        created_at: '2024-08-01T15:00:00.000Z',
-        updated_at: '2024-08-15T09:30:00.000Z',
-        last_run: '2024-08-01T03:00:00.000Z',
-        run_count: 1,
-        success_count: 1,
-        failure_count: 0,
-        metadata: {
-          created_by: 'ops_team',
-          priority: 'low',
-          max_concurrent_jobs: 1,
-          retry_config: {
-            max_retries: 2,
-            retry_delay_ms: 600000,
-            exponential_backoff: true
-          }
-        }
-      }
-    ]
-
-    // Apply filters
-    let filteredSchedules = mockSchedules
-
-    if (statusFilter && statusFilter.length > 0) {
-      filteredSchedules = filteredSchedules.filter(schedule => statusFilter.includes(schedule.status))
-    }
-
-    if (jobTypeFilter && jobTypeFilter.length > 0) {
-      filteredSchedules = filteredSchedules.filter(schedule => jobTypeFilter.includes(schedule.job_type))
-    }
-
-    if (dealerIdFilter) {
-      filteredSchedules = filteredSchedules.filter(schedule =>
-        !schedule.dealer_filter?.include_dealers ||
-        schedule.dealer_filter.include_dealers.includes(dealerIdFilter)
-      )
-    }
-
-    // Apply pagination
-    const total = filteredSchedules.length
-    const paginatedSchedules = filteredSchedules.slice(offset, offset + limit)
+    const { schedules, total } = await listScheduleDefinitions({
+      status: statusFilter,
+      job_type: jobTypeFilter,
+      dealer_id: dealerIdFilter || undefined,
+      limit,
+      offset
+    })
+    const paginatedSchedules = schedules.map(toScheduleResponse)
 
     traceManager.endSpan(spanId, { success: true, total_schedules: total, page, limit })
 
@@ -381,17 +240,8 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Validate job_type
-    const validJobTypes = [
-      'dealer_ingestion',
-      'vehicle_sync',
-      'data_validation',
-      'dealer_com_sync',
-      'homenet_sync',
-      'sitemap_processing',
-      'url_generation',
-      'data_cleanup'
-    ]
+    // Validate job_type; a schedule only enqueues platform jobs
+    const validJobTypes = JOB_TYPES.filter(isPlatformJobType)
 
     if (!validJobTypes.includes(body.job_type)) {
       return NextResponse.json(
@@ -406,6 +256,21 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Reject platforms no enabled adapter can run (parameters.platform, or implied by job_type)
+    const platform = body.parameters?.platform || JOB_TYPE_PLATFORMS[body.job_type]
+    if (platform && !isPlatformSupported(platform)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Unsupported platform: ${platform}`,
+          supported_platforms: getSupportedPlatforms(),
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 400 }
+      )
+    }
+
     // Validate schedule type and expression
     const validScheduleTypes = ['cron', 'interval', 'daily', 'weekly', 'monthly']
     if (!validScheduleTypes.includes(body.schedule.type)) {
@@ -433,46 +298,118 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Generate unique schedule ID
-    const scheduleId = `sched_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-    const now = new Date().toISOString()
+    if (body.schedule.type === 'interval' && !(Number(body.schedule.expression) > 0)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Interval schedule expression must be a positive number of milliseconds',
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 400 }
+      )
+    }
 
-    // Create schedule record
-    const newSchedule: ScheduleDefinition = {
+    if (body.schedule.type !== 'interval' && body.schedule.expression) {
+      const validation = validateCronExpression(body.schedule.expression)
+      if (!validation.valid) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Invalid cron expression',
+            details: validation.error,
+            timestamp: new Date().toISOString(),
+            trace_id: traceContext.trace_id
+          },
+          { status: 400 }
+        )
+      }
+    }
+
+    if (body.schedule.timezone) {
+      try {
+        new Intl.DateTimeFormat('en-US', { timeZone: body.schedule.timezone })
+      } catch {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `Invalid timezone: ${body.schedule.timezone}`,
+            timestamp: new Date().toISOString(),
+            trace_id: traceContext.trace_id
+          },
+          { status: 400 }
+        )
+      }
+    }
+
+    const filterLists = ['include_dealers', 'exclude_dealers', 'dealer_tags'] as const
+    const invalidFilter = filterLists.find(list => {
+      const values = body.dealer_filter?.[list]
+      return values !== undefined && !(Array.isArray(values) && values.every(value => typeof value === 'string'))
+    })
+    if (invalidFilter) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid dealer_filter',
+          details: `dealer_filter.${invalidFilter} must be an array of strings`,
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 400 }
+      )
+    }
+
+    // Schedule jobs run under the workers' tier and per-dealer limits only
+    if ((body.metadata as Record<string, unknown> | undefined)?.max_concurrent_jobs !== undefined) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Unsupported metadata.max_concurrent_jobs',
+          details: 'Concurrency is limited per worker (SCHEDULER_WORKER_CONCURRENCY) and per dealer (SCHEDULER_MAX_CONCURRENT_PER_DEALER)',
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 400 }
+      )
+    }
+
+    if (body.metadata?.retry_config !== undefined) {
+      const validation = validateRetryConfig(body.metadata.retry_config)
+      if (!validation.valid) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Invalid retry_config',
+            details: validation.error,
+            timestamp: new Date().toISOString(),
+            trace_id: traceContext.trace_id
+          },
+          { status: 400 }
+        )
+      }
+    }
+
+    // Store the schedule with its first run time in the schedule's timezone
+    const scheduleId = generateScheduleId()
+    const timing = { ...body.schedule, timezone: body.schedule.timezone || 'UTC' }
+    const stored = await createScheduleDefinition({
       schedule_id: scheduleId,
       name: body.name,
-      description: body.description,
+      description: body.description || null,
       job_type: body.job_type,
-      status: 'active',
-      schedule: {
-        ...body.schedule,
-        timezone: body.schedule.timezone || 'UTC'
-      },
-      dealer_filter: body.dealer_filter,
+      schedule: timing,
+      dealer_filter: body.dealer_filter || null,
       parameters: body.parameters || {},
-      created_at: now,
-      updated_at: now,
-      run_count: 0,
-      success_count: 0,
-      failure_count: 0,
       metadata: {
         created_by: 'api',
         priority: body.metadata?.priority || 'normal',
-        max_concurrent_jobs: body.metadata?.max_concurrent_jobs || 1,
-        retry_config: body.metadata?.retry_config || {
-          max_retries: 3,
-          retry_delay_ms: 60000,
-          exponential_backoff: true
-        }
-      }
-    }
-
-    // Calculate next run time (simplified)
-    const nextRun = new Date(Date.now() + 60000) // 1 minute from now (placeholder)
-    newSchedule.next_run = nextRun.toISOString()
-
-    // TODO: Insert into actual scheduler system
-    // For now, simulate successful creation
+        retry_config: body.metadata?.retry_config || getDefaultRetryConfig()
+      },
+      next_run_at: calculateScheduleNextRun(timing)
+    })
+    const newSchedule = toScheduleResponse(stored)
+    const now = stored.created_at.toISOString()
 
     traceManager.endSpan(spanId, {
       success: true,
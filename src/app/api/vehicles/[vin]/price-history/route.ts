@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { TraceManager } from '@/utils/tracing'
+import { getPriceHistory } from '@/lib/price-history'
+
+/**
+ * GET /api/vehicles/[vin]/price-history - Price trend for a VIN
+ * Returns internet price, MSRP and incentives points oldest first.
+ * Query: dealer_id (when a VIN moved between rooftops), since (ISO date), limit
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ vin: string }> }
+) {
+  const traceManager = TraceManager.getInstance()
+  const traceContext = traceManager.generateTraceContext()
+  const spanId = traceManager.startSpan('get-vehicle-price-history', traceContext)
+
+  try {
+    const params = await context.params
+    const vin = params.vin
+    const { searchParams } = new URL(request.url)
+    const since = searchParams.get('since')
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '500') || 500, 1), 2000)
+
+    if (!vin || !/^[A-HJ-NPR-Z0-9]{11,17}$/i.test(vin)) {
+      traceManager.endSpan(spanId, { success: false, error: 'Invalid VIN' })
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid VIN',
+          details: 'VIN must be 11-17 characters (letters other than I, O, Q, and digits)',
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 400 }
+      )
+    }
+
+    if (since && isNaN(new Date(since).getTime())) {
+      traceManager.endSpan(spanId, { success: false, error: 'Invalid since' })
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid since',
+          details: 'since must be an ISO 8601 date',
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 400 }
+      )
+    }
+
+    const points = await getPriceHistory(vin, {
+      dealer_id: searchParams.get('dealer_id') || undefined,
+      since: since ? new Date(since) : undefined,
+      limit
+    })
+
+    if (points.length === 0) {
+      traceManager.endSpan(spanId, { success: false, error: 'No price history' })
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'No price history',
+          details: `No price history recorded for VIN ${vin.toUpperCase()}`,
+          timestamp: new Date().toISOString(),
+          trace_id: traceContext.trace_id
+        },
+        { status: 404 }
+      )
+    }
+
+    const prices = points.map(point => point.price).filter((price): price is number => price !== null)
+    const first = points[0]
+    const latest = points[points.length - 1]
+
+    traceManager.endSpan(spanId, { success: true, points: points.length })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        vin: vin.toUpperCase(),
+        points,
+        summary: {
+          current_price: latest.price,
+          current_msrp: latest.msrp,
+          lowest_price: prices.length > 0 ? Math.min(...prices) : null,
+          highest_price: prices.length > 0 ? Math.max(...prices) : null,
+          change_since_first: first.price !== null && latest.price !== null ? latest.price - first.price : null,
+          first_recorded_at: first.recorded_at,
+          last_changed_at: latest.recorded_at
+        }
+      },
+      timestamp: new Date().toISOString(),
+      trace_id: traceContext.trace_id
+    })
+
+  } catch (error) {
+    console.error('Price history error:', error)
+    traceManager.endSpan(spanId, { success: false, error: error instanceof Error ? error.message : 'Unknown error' })
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to load price history',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        trace_id: traceContext.trace_id
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
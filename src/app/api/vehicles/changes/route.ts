@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { TraceManager } from '@/utils/tracing'
+import { listInventoryChanges, INVENTORY_CHANGE_TYPES, type InventoryChangeType } from '@/lib/inventory-changes'
+
+/**
+ * GET /api/vehicles/changes - Per-dealer daily inventory change feed
+ * Query: dealer_id (required), date (YYYY-MM-DD, UTC day, default today),
+ * type (added | price_changed | attributes_changed | removed), page, limit
+ */
+export async function GET(request: NextRequest) {
+  const traceManager = TraceManager.getInstance()
+  const traceContext = traceManager.generateTraceContext()
+  const spanId = traceManager.startSpan('list-inventory-changes', traceContext)
+
+  const badRequest = (error: string, details: string) => {
+    traceManager.endSpan(spanId, { success: false, error })
+    return NextResponse.json(
+      {
+        success: false,
+        error,
+        details,
+        timestamp: new Date().toISOString(),
+        trace_id: traceContext.trace_id
+      },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const dealerId = searchParams.get('dealer_id')
+    const date = searchParams.get('date') || new Date().toISOString().slice(0, 10)
+    const type = searchParams.get('type') || undefined
+
+    const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1)
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '100') || 100, 1), 500) // Max 500 per page
+
+    if (!dealerId) {
+      return badRequest('Missing dealer_id', 'The change feed is per dealer; pass dealer_id')
+    }
+
+    const since = new Date(`${date}T00:00:00.000Z`)
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(since.getTime())) {
+      return badRequest('Invalid date', 'date must be formatted YYYY-MM-DD')
+    }
+
+    if (type && !INVENTORY_CHANGE_TYPES.includes(type as InventoryChangeType)) {
+      return badRequest('Invalid type filter', `type must be one of: ${INVENTORY_CHANGE_TYPES.join(', ')}`)
+    }
+
+    const until = new Date(since.getTime() + 24 * 60 * 60 * 1000)
+    const { changes, total } = await listInventoryChanges({
+      dealer_id: dealerId,
+      change_type: type as InventoryChangeType | undefined,
+      since,
+      until,
+      limit,
+      offset: (page - 1) * limit
+    })
+
+    traceManager.endSpan(spanId, { success: true, total_changes: total, page, limit })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        dealer_id: dealerId,
+        date,
+        changes,
+        total,
+        page,
+        limit
+      },
+      timestamp: new Date().toISOString(),
+      trace_id: traceContext.trace_id
+    })
+
+  } catch (error) {
+    console.error('Inventory change feed error:', error)
+    traceManager.endSpan(spanId, { success: false, error: error instanceof Error ? error.message : 'Unknown error' })
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to load inventory changes',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        trace_id: traceContext.trace_id
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
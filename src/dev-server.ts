@@ -47,6 +47,16 @@ const server = createServer(async (req, res) => {
       return
     }
 
+    // Drain the job queue
+    if (req.method === 'POST' && url.pathname === '/api/jobs/worker') {
+      const concurrency = url.searchParams.get('concurrency')
+      console.log('⚙️ Draining job queue...')
+      const result = await scheduler.processQueue(concurrency ? { concurrency: parseInt(concurrency) } : {})
+      res.writeHead(200, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify(result, null, 2))
+      return
+    }
+
     // Process URL shortening jobs
     if (req.method === 'POST' && url.pathname === '/api/jobs/url-shortening') {
       const limit = parseInt(url.searchParams.get('limit') || '10')
@@ -72,8 +82,7 @@ const server = createServer(async (req, res) => {
     if (req.method === 'POST' && url.pathname === '/api/jobs/product-detail-scraping') {
       const limit = parseInt(url.searchParams.get('limit') || '10')
       console.log(`🔍 Processing product detail scraping jobs (limit: ${limit})...`)
-      // Legacy function removed - using simplified approach
-      const result = { success: true, message: 'Product detail scraping disabled' }
+      const result = await scheduler.processProductDetailScrapingJobs(limit)
       res.writeHead(200, { 'Content-Type': 'application/json' })
       res.end(JSON.stringify(result, null, 2))
       return
@@ -103,7 +112,8 @@ const server = createServer(async (req, res) => {
         version: '1.0.0',
         endpoints: {
           'GET /health': 'Health check',
-          'POST /api/jobs/run': 'Run all scheduled jobs',
+          'POST /api/jobs/run': 'Enqueue all due scheduled jobs',
+          'POST /api/jobs/worker?concurrency=N': 'Drain the job queue',
           'POST /api/jobs/url-shortening?limit=N': 'Process URL shortening jobs',
           'POST /api/jobs/sitemap?limit=N': 'Process sitemap jobs',
           'POST /api/jobs/product-detail-scraping?limit=N': 'Process product detail scraping jobs',
@@ -112,6 +122,7 @@ const server = createServer(async (req, res) => {
         examples: {
           'Health check': `curl http://localhost:${PORT}/health`,
           'Run all jobs': `curl -X POST http://localhost:${PORT}/api/jobs/run`,
+          'Drain queue': `curl -X POST http://localhost:${PORT}/api/jobs/worker`,
           'Process URL shortening': `curl -X POST http://localhost:${PORT}/api/jobs/url-shortening?limit=5`,
           'Process sitemap': `curl -X POST http://localhost:${PORT}/api/jobs/sitemap?limit=5`,
           'Process product detail scraping': `curl -X POST http://localhost:${PORT}/api/jobs/product-detail-scraping?limit=5`,
@@ -144,6 +155,7 @@ server.listen(PORT, () => {
   console.log('Available endpoints:')
   console.log(`  🔗 URL Shortening: curl -X POST http://localhost:${PORT}/api/jobs/url-shortening`)
   console.log(`  🏪 All Jobs: curl -X POST http://localhost:${PORT}/api/jobs/run`)
+  console.log(`  ⚙️ Queue Worker: curl -X POST http://localhost:${PORT}/api/jobs/worker`)
   console.log('')
 })
 
@@ -125,12 +125,36 @@ export interface SchedulerBatchCompletedEvent extends BaseEvent {
   };
 }
 
+export interface SchedulerVehiclePriceChangedEvent extends BaseEvent {
+  type: 'scheduler.vehicle.price_changed';
+  data: {
+    jobId: string;
+    dealerId: string;
+    dealerName: string;
+    vin: string;
+    previous: {
+      price: number;
+      msrp: number | null;
+    };
+    current: {
+      price: number;
+      msrp: number | null;
+    };
+    change: {
+      amount: number;
+      percent: number;
+    };
+    detectedAt: string;
+  };
+}
+
 export type SchedulerEvent =
   | SchedulerJobStartedEvent
   | SchedulerJobCompletedEvent
   | SchedulerJobFailedEvent
   | SchedulerBatchStartedEvent
-  | SchedulerBatchCompletedEvent;
+  | SchedulerBatchCompletedEvent
+  | SchedulerVehiclePriceChangedEvent;
 
 /**
  * Event Publishing Configuration
@@ -391,6 +415,34 @@ export class SchedulerEventClient {
     });
   }
 
+  /**
+   * Publish vehicle price changed event (price drops that crossed the alert thresholds)
+   */
+  async publishVehiclePriceChanged(data: {
+    jobId: string;
+    dealerId: string;
+    dealerName: string;
+    vin: string;
+    previous: {
+      price: number;
+      msrp: number | null;
+    };
+    current: {
+      price: number;
+      msrp: number | null;
+    };
+    change: {
+      amount: number;
+      percent: number;
+    };
+    detectedAt: string;
+  }): Promise<string | null> {
+    return this.publishEvent<SchedulerVehiclePriceChangedEvent>({
+      type: 'scheduler.vehicle.price_changed',
+      data
+    });
+  }
+
   /**
    * Check connection status
    */
@@ -1,19 +1,60 @@
 import { ScheduledJob } from '../types.js';
 import { env } from '../env.js';
 import { useDealerComOnly, getCurrentConfig, DEALER_SOURCES } from '../config/dealer-sources.js';
-import { fetchAllDealerComInventory, DealerComPaginationConfig, getPaginationStats } from '../lib/dealer-com-pagination.js';
+import {
+  fetchAllDealerComInventory,
+  getPaginationStats,
+  type DealerComPaginationConfig,
+  type DealerComFetchResult
+} from '../lib/dealer-com-pagination.js';
+import {
+  loadPaginationCheckpoint,
+  savePaginationCheckpointPage,
+  clearPaginationCheckpoint,
+  type PaginationCheckpoint,
+  type CheckpointPage
+} from '../lib/pagination-checkpoints.js';
+import { upsertVehicles, getDealerVehicles, markVehiclesRemoved, type VehicleUpsertCounts } from '../lib/vehicle-store.js';
+import { diffInventory, recordInventoryChanges, type InventoryDiff } from '../lib/inventory-changes.js';
+import { recordPriceHistory, detectPriceDrops, resolvePriceDropThresholds } from '../lib/price-history.js';
+import type { PlatformRunResult } from '../platforms/platform-adapter.js';
+import { DealerComSchemaTracker, type DealerComSchemaReport, type DealerComVehicle } from '../lib/dealer-com-schema.js';
 import { logInfo, logError, logSuccess } from '@adamehrheart/utils';
+import { throttledFetch, createRequestMetrics, type RequestMetrics } from '../lib/host-throttle.js';
+import { enterpriseLogger } from '../utils/enterprise-logger.js';
+import { getDealer, resolveDealerSiteOrigin } from '../lib/dealer-directory.js';
+import { applyVdpDetails } from '../lib/vdp-scraper.js';
+import { getVehicleDetailPages, type VehicleDetailPage } from '../lib/vehicle-detail-pages.js';
+import { mergeVehicleRecords, resolveMergeRules, type MergeRules } from '../lib/vehicle-merge.js';
 import { TraceManager } from '../utils/tracing';
 import { SchedulerEventClient } from '../events/eventClient';
 
+/**
+ * Summary of a Dealer.com run, mapped onto the job's JobExecution by the scheduler
+ */
+export interface DealerComRunResult extends PlatformRunResult {
+  approach: 'dealer_com_only' | 'multi_source';
+}
+
+export interface DealerComRunOptions {
+  metrics?: RequestMetrics;  // collects API calls / rate limits for the execution record
+  resume?: boolean;          // retried or re-leased job: continue from the pagination checkpoint
+}
+
 export class DealerComJobRunner {
   private job: ScheduledJob;
+  private schemaTracker: DealerComSchemaTracker;
+  private metrics: RequestMetrics;
+  private resume: boolean;
 
-  constructor(job: ScheduledJob) {
+  constructor(job: ScheduledJob, options: DealerComRunOptions = {}) {
     this.job = job;
+    this.metrics = options.metrics || createRequestMetrics();
+    this.resume = options.resume || false;
+    this.schemaTracker = new DealerComSchemaTracker(job.dealer_id, job.config?.schema_thresholds);
   }
 
-  async execute(): Promise<any> {
+  async execute(): Promise<DealerComRunResult> {
     const startTime = Date.now();
 
     try {
@@ -47,72 +88,125 @@ export class DealerComJobRunner {
   }
 
   /**
-   * Execute Dealer.com-only approach with pagination
+   * Fetch the dealer's full Dealer.com inventory without storing it
    */
-  private async executeDealerComOnly(dealer: any): Promise<any> {
-    const startTime = Date.now();
+  async fetchInventory(): Promise<{ dealer: any; baseUrl: string; fetched: DealerComFetchResult }> {
+    const dealer = await this.getDealerInfo();
+    if (!dealer) {
+      throw new Error(`Dealer not found: ${this.job.dealer_id}`);
+    }
 
-    try {
-      console.log(`📡 Fetching all Dealer.com inventory for ${dealer.name} with pagination...`);
+    const baseUrl = this.resolveDealerComBaseUrl(dealer);
+    return { dealer, baseUrl, fetched: await this.fetchDealerComInventory(dealer, baseUrl) };
+  }
 
-      // Use the multi-endpoint approach that works for RSM Honda
-      console.log(`📡 Using multi-endpoint approach for ${dealer.name}...`);
+  /**
+   * Transform one validated Dealer.com vehicle into our vehicle shape
+   */
+  transformVehicle(vehicle: DealerComVehicle, baseUrl: string): any {
+    return this.transformDealerComVehicle(vehicle, baseUrl);
+  }
 
-      const allVehicles: any[] = [];
-      const seenVins = new Set<string>();
+  /**
+   * Check that the dealer's Dealer.com site answers; one request through the host throttle
+   */
+  async probeSite(): Promise<{ baseUrl: string; status: number; responseTimeMs: number }> {
+    const dealer = await this.getDealerInfo();
+    if (!dealer) {
+      throw new Error(`Dealer not found: ${this.job.dealer_id}`);
+    }
 
-      // Define the inventory endpoints to try
-      const inventoryEndpoints = [
-        'INVENTORY_LISTING_DEFAULT_AUTO_NEW',
-        'INVENTORY_LISTING_DEFAULT_AUTO_USED',
-        'INVENTORY_LISTING_DEFAULT_AUTO_CERTIFIED_USED'
-      ];
+    const baseUrl = this.resolveDealerComBaseUrl(dealer);
+    const startedAt = Date.now();
+    const response = await throttledFetch(`${baseUrl}/`, { method: 'HEAD' }, this.metrics);
 
-      for (const endpoint of inventoryEndpoints) {
-        try {
-          console.log(`📡 Fetching ${endpoint} for ${dealer.name}...`);
+    return { baseUrl, status: response.status, responseTimeMs: Date.now() - startedAt };
+  }
 
-          const endpointVehicles = await this.tryOptimalEndpoint(dealer.site_id);
+  /**
+   * Page through the dealer's Dealer.com inventory, resuming from a checkpoint when asked
+   */
+  private async fetchDealerComInventory(dealer: any, baseUrl: string): Promise<DealerComFetchResult> {
+    const siteId = this.extractDealerComSiteId(dealer);
+    const dealerComConfig = dealer.api_config?.dealer_com_config || dealer.dealer_com_config;
+    const paginationConfig: DealerComPaginationConfig = {
+      siteId,
+      baseUrl,
+      pageSize: dealerComConfig?.page_size, // unset: use the rooftop's learned page size
+      maxPages: dealerComConfig?.max_pages || DEALER_SOURCES.pagination.max_pages,
+      schemaTracker: this.schemaTracker,
+      metrics: this.metrics,
+      resumeFrom: await this.loadCheckpoint(siteId),
+      onPageComplete: page => this.saveCheckpointPage(siteId, page)
+    };
 
-          let addedFromEndpoint = 0;
-          for (const vehicle of endpointVehicles) {
-            if (vehicle.vin && !seenVins.has(vehicle.vin)) {
-              seenVins.add(vehicle.vin);
-              allVehicles.push(vehicle);
-              addedFromEndpoint++;
-            }
-          }
+    console.log(`📡 Fetching all Dealer.com inventory for ${dealer.name} from ${baseUrl} with pagination...`);
 
-          console.log(`✅ ${endpoint}: ${endpointVehicles.length} vehicles, ${addedFromEndpoint} new`);
+    return fetchAllDealerComInventory(
+      paginationConfig,
+      (level, message, data) => level === 'error' ? logError(message, data) : logInfo(message, data)
+    );
+  }
 
-        } catch (error) {
-          console.log(`⚠️ Error fetching ${endpoint}:`, error);
-        }
-      }
+  /**
+   * Execute Dealer.com-only approach with pagination
+   */
+  private async executeDealerComOnly(dealer: any): Promise<DealerComRunResult> {
+    const startTime = Date.now();
+
+    try {
+      const baseUrl = this.resolveDealerComBaseUrl(dealer);
+      const { vehicles: allVehicles, totalCount, complete, coverage, resumedPages, pageSize } =
+        await this.fetchDealerComInventory(dealer, baseUrl);
 
       console.log(`📊 Total unique vehicles found: ${allVehicles.length}`);
 
-      // Transform and store vehicles with dealer domain
-      const transformedVehicles = allVehicles.map((vehicle: any) => this.transformDealerComVehicle(vehicle, dealer.domain));
+      // Refuse to store a pull whose payload no longer matches the schema
+      const schema = this.checkSchemaDrift(dealer);
+
+      // Transform with the dealer's own base URL, then merge with what other sources supplied
+      const transformedVehicles = await this.mergeWithStoredVehicles(
+        allVehicles.map(vehicle => this.transformDealerComVehicle(vehicle, baseUrl)),
+        dealer
+      );
+
+      // Diff against stored inventory; an empty pull is never trusted to mean "everything sold"
+      const changes = await this.detectInventoryChanges(transformedVehicles, complete && allVehicles.length > 0);
 
       // Store vehicles in database
-      const storedVehicles = await this.storeVehicles(transformedVehicles);
+      const stored = await this.storeVehicles(transformedVehicles);
+      const removed = await markVehiclesRemoved(this.job.dealer_id, changes.removed_vins);
+
+      // Record changes only once the write has landed; a retry after a failed write re-detects them
+      await recordInventoryChanges(changes.changes, this.job.id);
+
+      // Extend each VIN's price series and pick out drops worth alerting on
+      const pricePoints = await recordPriceHistory(this.job.dealer_id, transformedVehicles, this.job.id);
+      const priceDrops = detectPriceDrops(changes.changes, resolvePriceDropThresholds(this.job.config?.price_drop_thresholds));
+
+      // The pull is stored; a later retry must start fresh
+      await this.clearCheckpoint();
 
       const duration = Date.now() - startTime;
-      const actualTotalCount = allVehicles.length;
-      const stats = {
-        pages: inventoryEndpoints.length,
-        efficiency: 1.0,
-        coverage: 100
-      };
+      const actualTotalCount = totalCount;
+      const stats = getPaginationStats(allVehicles.length, pageSize, totalCount);
 
       console.log('🎉 Dealer.com-only approach completed successfully!', {
         dealer_id: this.job.dealer_id,
         dealer_name: dealer.name,
         actual_total_count: actualTotalCount,
         fetched_vehicles: allVehicles.length,
-        stored_vehicles: storedVehicles.length,
+        vehicles_created: stored.created,
+        vehicles_updated: stored.updated,
+        vehicles_unchanged: stored.unchanged,
+        vehicles_removed: removed,
+        inventory_changes: changes.counts,
+        price_points_recorded: pricePoints,
+        price_drops: priceDrops.length,
         pagination_stats: stats,
+        coverage,
+        resumed_pages: resumedPages,
+        schema_drift: schema.drift_detected,
         duration_ms: duration
       });
 
@@ -120,9 +214,19 @@ export class DealerComJobRunner {
         success: true,
         approach: 'dealer_com_only',
         actual_total_count: actualTotalCount,
-        fetched_vehicles: allVehicles.length,
-        stored_vehicles: storedVehicles.length,
+        vehicles_found: allVehicles.length,
+        vehicles_created: stored.created,
+        vehicles_updated: stored.updated,
+        vehicles_unchanged: stored.unchanged,
+        vehicles_removed: removed,
+        inventory_changes: changes.counts,
+        price_points_recorded: pricePoints,
+        price_drops: priceDrops,
         pagination_stats: stats,
+        coverage,
+        partial: coverage.truncated_segments.length > 0,
+        resumed_pages: resumedPages,
+        schema_drift: schema,
         duration_ms: duration
       };
 
@@ -140,7 +244,7 @@ export class DealerComJobRunner {
   /**
    * Execute multi-source approach (existing logic)
    */
-  private async executeMultiSource(dealer: any): Promise<any> {
+  private async executeMultiSource(dealer: any): Promise<DealerComRunResult> {
     const startTime = Date.now();
 
     try {
@@ -148,6 +252,7 @@ export class DealerComJobRunner {
 
       // Call the REVOLUTIONARY Dealer.com Master Inventory API
       const dealerComData = await this.callDealerComMasterInventoryAPI(dealer);
+      const schema = this.checkSchemaDrift(dealer);
 
       // Get existing vehicles for this dealer
       const existingVehicles = await this.getExistingVehicles();
@@ -155,14 +260,25 @@ export class DealerComJobRunner {
         console.log('ℹ️ No existing vehicles found for dealer, skipping Dealer.com enrichment');
         return {
           success: true,
-          vehicles_found: 0,
+          approach: 'multi_source',
+          vehicles_found: dealerComData.length,
+          vehicles_created: 0,
           vehicles_updated: 0,
-          message: 'No existing vehicles to enrich'
+          vehicles_unchanged: 0,
+          vehicles_removed: 0,
+          price_drops: [],
+          schema_drift: schema,
+          message: 'No existing vehicles to enrich',
+          duration_ms: Date.now() - startTime
         };
       }
 
       // Match VINs and create enriched data
-      const enrichedVehicles = await this.matchAndEnrichVehicles(dealerComData, existingVehicles);
+      const enrichedVehicles = await this.matchAndEnrichVehicles(
+        dealerComData,
+        existingVehicles,
+        resolveMergeRules(dealer.api_config?.merge_rules)
+      );
 
       // Update vehicles with enriched data
       const updateResults = await this.updateVehiclesWithEnrichedData(enrichedVehicles);
@@ -176,16 +292,24 @@ export class DealerComJobRunner {
         home_net_vehicles: existingVehicles.length,
         matched_vehicles: enrichedVehicles.length,
         vehicles_updated: updateResults.updated,
+        vehicles_unchanged: updateResults.unchanged,
         match_rate: `${((enrichedVehicles.length / existingVehicles.length) * 100).toFixed(1)}%`,
         duration_ms: duration
       });
 
       return {
         success: true,
+        approach: 'multi_source',
         dealer_com_vehicles: dealerComData.length,
         home_net_vehicles: existingVehicles.length,
         matched_vehicles: enrichedVehicles.length,
+        vehicles_found: dealerComData.length,
+        vehicles_created: updateResults.created,
         vehicles_updated: updateResults.updated,
+        vehicles_unchanged: updateResults.unchanged,
+        vehicles_removed: 0,
+        price_drops: [],
+        schema_drift: schema,
         match_rate: `${((enrichedVehicles.length / existingVehicles.length) * 100).toFixed(1)}%`,
         duration_ms: duration
       };
@@ -207,13 +331,19 @@ export class DealerComJobRunner {
    */
   private async callDealerComMasterInventoryAPI(dealer: any): Promise<any[]> {
     try {
-      // Extract site ID from dealer domain
+      // Extract site ID and base URL from the dealer's config/domain
       const siteId = this.extractDealerComSiteId(dealer);
+      const baseUrl = this.resolveDealerComBaseUrl(dealer);
 
-      console.log(`📡 Calling Dealer.com Master Inventory API with OPTIMAL approach for site ID: ${siteId}`);
+      console.log(`📡 Calling Dealer.com Master Inventory API with OPTIMAL approach for site ID: ${siteId} (${baseUrl})`);
 
       // Use the PERFECT endpoint discovered from the search pages
-      const optimalVehicles = await this.tryOptimalEndpoint(siteId);
+      let optimalVehicles: any[] = [];
+      try {
+        optimalVehicles = await this.tryOptimalEndpoint(siteId, baseUrl);
+      } catch (error) {
+        console.log(`⚠️ Error fetching optimal endpoint:`, error);
+      }
 
       if (optimalVehicles.length >= 100) {
         console.log(`🎉 OPTIMAL endpoint successful! Found ${optimalVehicles.length} vehicles`);
@@ -222,7 +352,7 @@ export class DealerComJobRunner {
 
       // Fallback to hybrid approach if optimal endpoint doesn't work
       console.log(`⚠️ OPTIMAL endpoint only returned ${optimalVehicles.length} vehicles, falling back to hybrid approach`);
-      return await this.tryHybridApproach(siteId);
+      return await this.tryHybridApproach(siteId, baseUrl);
 
     } catch (error) {
       console.error('❌ Dealer.com Master Inventory API call failed:', error);
@@ -233,11 +363,11 @@ export class DealerComJobRunner {
   /**
    * Try the OPTIMAL endpoint discovered from search pages
    */
-  private async tryOptimalEndpoint(siteId: string): Promise<any[]> {
+  private async tryOptimalEndpoint(siteId: string, baseUrl: string): Promise<any[]> {
     console.log(`📡 Trying OPTIMAL endpoint with large page size...`);
 
     try {
-      const response = await fetch('https://www.rsmhondaonline.com/api/widget/ws-inv-data/getInventory', {
+      const response = await throttledFetch(`${baseUrl}/api/widget/ws-inv-data/getInventory`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -259,13 +389,13 @@ export class DealerComJobRunner {
           },
           includePricing: true
         })
-      });
+      }, this.metrics);
 
       if (!response.ok) {
         throw new Error(`Failed to fetch optimal endpoint: ${response.status} ${response.statusText}`);
       }
 
-      const data = await response.json() as any;
+      const data = this.schemaTracker.validatePage(await response.json());
 
       if (data.pageInfo) {
         console.log(`📊 Optimal endpoint info: totalCount=${data.pageInfo.totalCount}, pageSize=${data.pageInfo.pageSize}`);
@@ -273,7 +403,7 @@ export class DealerComJobRunner {
 
       if (data.inventory && Array.isArray(data.inventory)) {
         console.log(`✅ Optimal endpoint: ${data.inventory.length} vehicles`);
-        return data.inventory.map((vehicle: any) => this.transformDealerComVehicle(vehicle));
+        return data.inventory.map(vehicle => this.transformDealerComVehicle(vehicle, baseUrl));
       } else {
         console.log(`⚠️ No inventory data found in optimal endpoint`);
         return [];
@@ -281,18 +411,18 @@ export class DealerComJobRunner {
 
     } catch (error) {
       console.log(`⚠️ Error fetching optimal endpoint:`, error);
-      return [];
+      throw error;
     }
   }
 
   /**
    * Fallback to hybrid approach (MASTER + multi-inventory)
    */
-  private async tryHybridApproach(siteId: string): Promise<any[]> {
+  private async tryHybridApproach(siteId: string, baseUrl: string): Promise<any[]> {
     console.log(`📡 Falling back to hybrid approach...`);
 
     // Try MASTER endpoint first
-    const masterVehicles = await this.tryMasterEndpoint(siteId);
+    const masterVehicles = await this.tryMasterEndpoint(siteId, baseUrl);
 
     if (masterVehicles.length >= 80) {
       console.log(`📊 MASTER endpoint returned ${masterVehicles.length} vehicles`);
@@ -301,20 +431,20 @@ export class DealerComJobRunner {
 
     // Fallback to multi-inventory approach
     console.log(`📡 MASTER endpoint insufficient, trying multi-inventory approach...`);
-    return await this.tryMultiInventoryApproach(siteId);
+    return await this.tryMultiInventoryApproach(siteId, baseUrl);
   }
 
   /**
    * Try the MASTER endpoint with pagination
    */
-  private async tryMasterEndpoint(siteId: string): Promise<any[]> {
+  private async tryMasterEndpoint(siteId: string, baseUrl: string): Promise<any[]> {
     const masterEndpoint = {
       name: 'MASTER',
       pageAlias: 'INVENTORY_LISTING_DEFAULT',
       pageId: `${siteId}_SITEBUILDER_INVENTORY_SEARCH_RESULTS_V1_1`
     };
 
-    const allVehicles: any[] = [];
+    const allVehicles: DealerComVehicle[] = [];
     let totalCount = 0;
     let pageSize = 0;
 
@@ -322,7 +452,7 @@ export class DealerComJobRunner {
     try {
       console.log(`📡 Fetching MASTER inventory page 0...`);
 
-      const firstPageResponse = await fetch('https://www.rsmhondaonline.com/api/widget/ws-inv-data/getInventory', {
+      const firstPageResponse = await throttledFetch(`${baseUrl}/api/widget/ws-inv-data/getInventory`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -338,13 +468,13 @@ export class DealerComJobRunner {
           inventoryParameters: {},
           includePricing: true
         })
-      });
+      }, this.metrics);
 
       if (!firstPageResponse.ok) {
         throw new Error(`Failed to fetch first page: ${firstPageResponse.status} ${firstPageResponse.statusText}`);
       }
 
-      const firstPageData = await firstPageResponse.json() as any;
+      const firstPageData = this.schemaTracker.validatePage(await firstPageResponse.json());
 
       if (firstPageData.pageInfo) {
         totalCount = firstPageData.pageInfo.totalCount || 0;
@@ -373,7 +503,7 @@ export class DealerComJobRunner {
         try {
           console.log(`📡 Fetching MASTER inventory page ${page} (start: ${pageStart})...`);
 
-          const response = await fetch('https://www.rsmhondaonline.com/api/widget/ws-inv-data/getInventory', {
+          const response = await throttledFetch(`${baseUrl}/api/widget/ws-inv-data/getInventory`, {
             method: 'POST',
             headers: {
               'Content-Type': 'application/json',
@@ -391,14 +521,14 @@ export class DealerComJobRunner {
               },
               includePricing: true
             })
-          });
+          }, this.metrics);
 
           if (!response.ok) {
             console.log(`⚠️ Failed to fetch page ${page}: ${response.status} ${response.statusText}`);
             break; // Stop trying if pagination fails
           }
 
-          const data = await response.json() as any;
+          const data = this.schemaTracker.validatePage(await response.json());
 
           if (data.inventory && Array.isArray(data.inventory)) {
             console.log(`✅ Page ${page}: ${data.inventory.length} vehicles`);
@@ -416,13 +546,13 @@ export class DealerComJobRunner {
     }
 
     console.log(`📊 MASTER endpoint total: ${allVehicles.length} vehicles`);
-    return allVehicles.map((vehicle: any) => this.transformDealerComVehicle(vehicle));
+    return allVehicles.map(vehicle => this.transformDealerComVehicle(vehicle, baseUrl));
   }
 
   /**
    * Fallback to multi-inventory approach
    */
-  private async tryMultiInventoryApproach(siteId: string): Promise<any[]> {
+  private async tryMultiInventoryApproach(siteId: string, baseUrl: string): Promise<any[]> {
     console.log(`📡 Falling back to multi-inventory approach...`);
 
     // Define all inventory types to fetch
@@ -444,14 +574,14 @@ export class DealerComJobRunner {
       }
     ];
 
-    const allVehicles: any[] = [];
+    const allVehicles: DealerComVehicle[] = [];
 
     // Fetch each inventory type
     for (const inventoryType of inventoryTypes) {
       try {
         console.log(`📡 Fetching ${inventoryType.name} inventory...`);
 
-        const response = await fetch('https://www.rsmhondaonline.com/api/widget/ws-inv-data/getInventory', {
+        const response = await throttledFetch(`${baseUrl}/api/widget/ws-inv-data/getInventory`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -467,14 +597,14 @@ export class DealerComJobRunner {
             inventoryParameters: {},
             includePricing: true
           })
-        });
+        }, this.metrics);
 
     if (!response.ok) {
           console.log(`⚠️ Failed to fetch ${inventoryType.name} inventory: ${response.status} ${response.statusText}`);
           continue;
         }
 
-        const data = await response.json() as any;
+        const data = this.schemaTracker.validatePage(await response.json());
 
         if (data.inventory && Array.isArray(data.inventory)) {
           console.log(`✅ ${inventoryType.name} inventory: ${data.inventory.length} vehicles`);
@@ -489,7 +619,7 @@ export class DealerComJobRunner {
     }
 
     console.log(`📊 Multi-inventory approach total: ${allVehicles.length} vehicles`);
-    return allVehicles.map((vehicle: any) => this.transformDealerComVehicle(vehicle));
+    return allVehicles.map(vehicle => this.transformDealerComVehicle(vehicle, baseUrl));
   }
 
   /**
@@ -511,17 +641,26 @@ export class DealerComJobRunner {
     }
 
     // Extract site ID from domain (e.g., porschesantabarbara.com -> porschesantabarbara)
-    const siteId = domain.replace('.com', '').replace('www.', '');
+    const siteId = domain.replace(/^[a-z]+:\/\//i, '').split('/')[0].replace('.com', '').replace('www.', '');
     console.log(`📝 Extracted site ID '${siteId}' from domain '${domain}' for dealer '${dealer.name}'`);
 
     return siteId;
   }
 
+  /**
+   * Resolve the dealer's Dealer.com site origin (e.g. https://www.porschesantabarbara.com)
+   * from dealer_com_config.base_url, falling back to the dealer's domain
+   */
+  private resolveDealerComBaseUrl(dealer: any): string {
+    const dealerComConfig = dealer.api_config?.dealer_com_config || dealer.dealer_com_config;
+    return resolveDealerSiteOrigin(dealer, dealerComConfig?.base_url);
+  }
+
   /**
  * Transform Dealer.com vehicle data to our format
  * This extracts ALL the rich data from the Dealer.com API response
  */
-  private transformDealerComVehicle(vehicle: any, dealerDomain?: string): any {
+  private transformDealerComVehicle(vehicle: DealerComVehicle, baseUrl: string): any {
     // Helper function to extract tracking attribute
     const getTrackingAttr = (name: string) => {
       return vehicle.trackingAttributes?.find((attr: any) => attr.name === name)?.value || null;
@@ -541,6 +680,11 @@ export class DealerComJobRunner {
       vehicle.trackingAttributes?.find((attr: any) => attr.name === 'transmission')?.value
     ].filter(Boolean).join(' - ');
 
+    const odometer = getTrackingAttr('odometer');
+    const cityFuelEconomy = getTrackingAttr('cityFuelEconomy');
+    const highwayFuelEconomy = getTrackingAttr('highwayFuelEconomy');
+    const seatingCapacity = getTrackingAttr('maxSeatingCapacity');
+
     return {
       // Core vehicle identification
       vin: vehicle.vin,
@@ -558,7 +702,7 @@ export class DealerComJobRunner {
       msrp: this.extractMSRP(vehicle.pricing),
 
       // Dealer information
-      dealer_page_url: dealerDomain ? `https://www.${dealerDomain}${vehicle.link}` : `https://www.rsmhondaonline.com${vehicle.link}`,
+      dealer_page_url: vehicle.link ? new URL(vehicle.link, baseUrl).toString() : null,
 
       // Vehicle condition & status
       condition: vehicle.condition || null,
@@ -566,10 +710,10 @@ export class DealerComJobRunner {
       certified: vehicle.certified || false,
 
       // Performance & efficiency
-      mileage: getTrackingAttr('odometer') ? parseInt(getTrackingAttr('odometer').replace(/[,\s]/g, '')) : null,
-      city_mpg: getTrackingAttr('cityFuelEconomy') ? Math.round(parseFloat(getTrackingAttr('cityFuelEconomy'))) : null,
-      highway_mpg: getTrackingAttr('highwayFuelEconomy') ? Math.round(parseFloat(getTrackingAttr('highwayFuelEconomy'))) : null,
-      combined_mpg: this.calculateCombinedMPG(getTrackingAttr('cityFuelEconomy'), getTrackingAttr('highwayFuelEconomy')),
+      mileage: odometer ? parseInt(odometer.replace(/[,\s]/g, '')) : null,
+      city_mpg: cityFuelEconomy ? Math.round(parseFloat(cityFuelEconomy)) : null,
+      highway_mpg: highwayFuelEconomy ? Math.round(parseFloat(highwayFuelEconomy)) : null,
+      combined_mpg: this.calculateCombinedMPG(cityFuelEconomy, highwayFuelEconomy),
 
       // Engine & drivetrain
       engine_size: getTrackingAttr('engineSize'),
@@ -591,7 +735,7 @@ export class DealerComJobRunner {
       comfort_features: getEquipmentByCategory('Convenience Features'),
 
       // Passenger & cargo
-      passenger_capacity: getTrackingAttr('maxSeatingCapacity') ? parseInt(getTrackingAttr('maxSeatingCapacity')) : 5,
+      passenger_capacity: seatingCapacity ? parseInt(seatingCapacity) : 5,
 
       // Incentives & packages (arrays as per schema)
       incentives: this.extractIncentives(vehicle.pricing) || vehicle.packages || null,
@@ -779,7 +923,7 @@ export class DealerComJobRunner {
    * Match VINs between Dealer.com data and HomeNet vehicles
    * This is the key to 100% accurate data enrichment
    */
-  private async matchAndEnrichVehicles(dealerComVehicles: any[], existingVehicles: any[]): Promise<any[]> {
+  private async matchAndEnrichVehicles(dealerComVehicles: any[], existingVehicles: any[], rules: MergeRules): Promise<any[]> {
     console.log(`🎯 Matching VINs: ${dealerComVehicles.length} Dealer.com vehicles vs ${existingVehicles.length} HomeNet vehicles`);
 
     // Create a map of VIN to Dealer.com data for fast lookup
@@ -791,6 +935,7 @@ export class DealerComJobRunner {
     });
 
     const enrichedVehicles = [];
+    const observedAt = new Date();
     let matchedCount = 0;
     let unmatchedCount = 0;
 
@@ -799,14 +944,12 @@ export class DealerComJobRunner {
 
       if (dealerComData) {
         matchedCount++;
-        enrichedVehicles.push({
-          ...existingVehicle,
-          ...dealerComData,
-          // Preserve existing HomeNet data that Dealer.com doesn't have
-          description: existingVehicle.description,
-          mileage: existingVehicle.mileage || dealerComData.mileage,
-          price: existingVehicle.price || dealerComData.internet_price
-        });
+        // Field precedence decides each value; stored fields without provenance are HomeNet's
+        enrichedVehicles.push(mergeVehicleRecords(
+          [{ source: 'dealer.com', record: dealerComData, observed_at: observedAt }],
+          existingVehicle,
+          { rules, fallbackSource: 'homenet' }
+        ));
 
         console.log(`✅ Matched: ${existingVehicle.vin} - ${existingVehicle.year} ${existingVehicle.make} ${existingVehicle.model}`);
       } else {
@@ -821,67 +964,182 @@ export class DealerComJobRunner {
   }
 
   private async getDealerInfo(): Promise<any> {
-    const dbApiUrl = process.env.OD_DB_API_URL || 'http://localhost:3001';
+    return getDealer(this.job.dealer_id);
+  }
 
-    const response = await fetch(`${dbApiUrl}/api/v1/dealers/${this.job.dealer_id}`);
+  /**
+   * Get the dealer's stored vehicles to enrich
+   */
+  private async getExistingVehicles(): Promise<any[]> {
+    return getDealerVehicles(this.job.dealer_id, { availableOnly: true });
+  }
 
-    if (!response.ok) {
-      throw new Error(`Failed to get dealer info: ${response.status} ${response.statusText}`);
+  /**
+   * Warn when this run's Dealer.com payloads drifted from the schema, and fail
+   * the run when too many vehicles were rejected to trust the pull
+   */
+  private checkSchemaDrift(dealer: any): DealerComSchemaReport {
+    const report = this.schemaTracker.getReport();
+
+    if (report.drift_detected) {
+      enterpriseLogger.logWarning('Dealer.com schema drift detected', {
+        dealerId: this.job.dealer_id,
+        jobId: this.job.id,
+        operation: 'dealer-com-schema-validation',
+        metadata: { dealer_name: dealer.name, ...report }
+      });
+    }
+
+    if (report.blocking) {
+      throw new Error(
+        `Dealer.com schema drift: ${report.invalid_vehicles}/${report.vehicles_checked} vehicles failed validation (${report.reasons.join('; ')})`
+      );
     }
 
-    const result = await response.json() as { data: any };
-    return result.data;
+    return report;
   }
 
-  private async getExistingVehicles(): Promise<any[]> {
-    // TODO: Replace with Database API call when vehicle endpoints are implemented
-    console.log('⚠️ getExistingVehicles: Using Database API - not yet implemented');
-    return [];
+  /**
+   * Load the checkpoint a failed attempt left behind when resuming; a fresh run
+   * drops any leftover checkpoint instead. Checkpoint trouble never fails the job.
+   */
+  private async loadCheckpoint(siteId: string): Promise<PaginationCheckpoint | null> {
+    if (!this.resume) {
+      await this.clearCheckpoint();
+      return null;
+    }
+
+    try {
+      const checkpoint = await loadPaginationCheckpoint(this.job.id, siteId);
+      if (!checkpoint) {
+        logInfo('No usable pagination checkpoint, starting from the first page', { job_id: this.job.id });
+      }
+      return checkpoint;
+    } catch (error) {
+      logError('Failed to load pagination checkpoint, starting from the first page', {
+        job_id: this.job.id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return null;
+    }
   }
 
-  private async updateVehiclesWithEnrichedData(enrichedVehicles: any[]): Promise<{ updated: number }> {
-    if (enrichedVehicles.length === 0) {
-      return { updated: 0 };
+  /**
+   * Persist a completed page so a retry can resume after it
+   */
+  private async saveCheckpointPage(siteId: string, page: CheckpointPage): Promise<void> {
+    try {
+      await savePaginationCheckpointPage(this.job.id, this.job.dealer_id, siteId, page);
+    } catch (error) {
+      logError('Failed to save pagination checkpoint', {
+        job_id: this.job.id,
+        segment: page.segment,
+        page_start: page.page_start,
+        error: error instanceof Error ? error.message : String(error)
+      });
     }
+  }
 
-    console.log(`🔄 Updating ${enrichedVehicles.length} vehicles with REVOLUTIONARY Dealer.com data...`);
+  /**
+   * Drop the job's pagination checkpoint
+   */
+  private async clearCheckpoint(): Promise<void> {
+    try {
+      await clearPaginationCheckpoint(this.job.id);
+    } catch (error) {
+      logError('Failed to clear pagination checkpoint', {
+        job_id: this.job.id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
 
-    // TODO: Replace with Database API calls when vehicle update endpoints are implemented
-    console.log('⚠️ updateVehiclesWithEnrichedData: Using Database API - not yet implemented');
+  /**
+   * Merge a fresh pull with what other sources supplied for the same vehicles,
+   * using the dealer's field precedence (`api_config.merge_rules`). Cached detail
+   * page scrapes take part as the `web_scraping` source, so the gaps they filled
+   * survive the pull.
+   */
+  private async mergeWithStoredVehicles(vehicles: any[], dealer: any): Promise<any[]> {
+    const rules = resolveMergeRules(dealer.api_config?.merge_rules);
+    const stored = new Map((await getDealerVehicles(this.job.dealer_id)).map(vehicle => [vehicle.vin, vehicle]));
+    const pages = await this.loadDetailPages();
+    const observedAt = new Date();
+
+    return vehicles.map(vehicle => {
+      const page = pages.get(vehicle.vin);
+      return mergeVehicleRecords([
+        { source: 'dealer.com', record: vehicle, observed_at: observedAt },
+        ...(page?.details
+          ? [{ source: 'web_scraping', record: applyVdpDetails({}, page.details), observed_at: page.scraped_at, partial: true }]
+          : [])
+      ], stored.get(vehicle.vin), { rules, fallbackSource: 'dealer.com' });
+    });
+  }
 
-    let updatedCount = 0;
-    for (const enrichedVehicle of enrichedVehicles) {
-      console.log(`  🔄 Would update vehicle ${enrichedVehicle.vin} with rich Dealer.com data...`);
-      updatedCount++;
+  /**
+   * Load the dealer's cached detail page scrapes; on failure the pull is merged without them
+   */
+  private async loadDetailPages(): Promise<Map<string, VehicleDetailPage>> {
+    try {
+      return await getVehicleDetailPages(this.job.dealer_id);
+    } catch (error) {
+      logError('Failed to load vehicle detail pages', {
+        dealer_id: this.job.dealer_id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return new Map();
     }
+  }
 
-    console.log(`🎉 REVOLUTIONARY update complete: ${updatedCount}/${enrichedVehicles.length} vehicles would be updated with rich Dealer.com data!`);
-    return { updated: updatedCount };
+  /**
+   * Diff a fresh pull against the dealer's stored inventory
+   * Runs before the upsert, which overwrites the state the diff compares against.
+   */
+  private async detectInventoryChanges(vehicles: any[], complete: boolean): Promise<InventoryDiff> {
+    const previous = await getDealerVehicles(this.job.dealer_id, { availableOnly: true });
+    const diff = diffInventory(this.job.dealer_id, previous, vehicles, { complete });
+
+    if (!complete) {
+      logInfo('Inventory pull incomplete, skipping removal detection', { dealer_id: this.job.dealer_id });
+    }
+
+    logInfo('Inventory changes detected', { dealer_id: this.job.dealer_id, ...diff.counts });
+
+    return diff;
   }
 
   /**
-   * Store vehicles directly from Dealer.com (Dealer.com-only approach)
+   * Write enriched vehicles back to the vehicles table
    */
-  private async storeVehicles(vehicles: any[]): Promise<any[]> {
-    if (vehicles.length === 0) {
-      return [];
+  private async updateVehiclesWithEnrichedData(enrichedVehicles: any[]): Promise<VehicleUpsertCounts> {
+    if (enrichedVehicles.length === 0) {
+      return { created: 0, updated: 0, unchanged: 0 };
     }
 
-    console.log(`💾 Storing ${vehicles.length} vehicles from Dealer.com...`);
+    console.log(`🔄 Updating ${enrichedVehicles.length} vehicles with Dealer.com data...`);
 
-    // TODO: Replace with Database API calls when vehicle storage endpoints are implemented
-    console.log('⚠️ storeVehicles: Using Database API - not yet implemented');
+    // Strip the stored row's bookkeeping columns before writing the record back
+    const records = enrichedVehicles.map(({ dealer_id, status, created_at, updated_at, ...vehicle }) => vehicle);
+    const counts = await upsertVehicles(this.job.dealer_id, records, { source: 'dealer.com' });
 
-    let storedCount = 0;
-    const storedVehicles = [];
+    console.log(`🎉 Enrichment update complete: ${counts.updated} updated, ${counts.unchanged} unchanged, ${counts.created} created`);
+    return counts;
+  }
 
-    for (const vehicle of vehicles) {
-      console.log(`  💾 Would store vehicle ${vehicle.vin} from Dealer.com...`);
-      storedVehicles.push(vehicle);
-      storedCount++;
+  /**
+   * Store vehicles directly from Dealer.com (Dealer.com-only approach)
+   */
+  private async storeVehicles(vehicles: any[]): Promise<VehicleUpsertCounts> {
+    if (vehicles.length === 0) {
+      return { created: 0, updated: 0, unchanged: 0 };
     }
 
-    console.log(`🎉 Storage complete: ${storedCount}/${vehicles.length} vehicles would be stored from Dealer.com!`);
-    return storedVehicles;
+    console.log(`💾 Storing ${vehicles.length} vehicles from Dealer.com...`);
+
+    const counts = await upsertVehicles(this.job.dealer_id, vehicles, { source: 'dealer.com' });
+
+    console.log(`🎉 Storage complete: ${counts.created} created, ${counts.updated} updated, ${counts.unchanged} unchanged`);
+    return counts;
   }
 }
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { CronExpression, getDueCronFireTime, getNextCronRun, isValidCronExpression, validateCronExpression } from './cron-expression.js';
+
+const next = (expression: string, after: string, timeZone = 'UTC') =>
+  getNextCronRun(expression, new Date(after), timeZone)?.toISOString() ?? null;
+
+describe('CronExpression parsing', () => {
+  it('accepts 5- and 6-field expressions, names and macros', () => {
+    expect(isValidCronExpression('*/15 6-22 * * MON-FRI')).toBe(true);
+    expect(isValidCronExpression('0 */10 * * * *')).toBe(true);
+    expect(isValidCronExpression('0 0 1 JAN,JUL *')).toBe(true);
+    expect(isValidCronExpression('@daily')).toBe(true);
+  });
+
+  it('rejects malformed expressions with a descriptive error', () => {
+    expect(validateCronExpression('61 * * * *')).toMatchObject({ valid: false });
+    expect(validateCronExpression('* * *').error).toContain('must have 5 or 6 fields');
+    expect(isValidCronExpression('every day')).toBe(false);
+  });
+});
+
+describe('CronExpression.next in UTC', () => {
+  it('steps minutes and seconds', () => {
+    expect(next('*/15 * * * *', '2026-10-19T10:07:00Z')).toBe('2026-10-19T10:15:00.000Z');
+    expect(next('*/10 * * * * *', '2026-10-19T00:00:05Z')).toBe('2026-10-19T00:00:10.000Z');
+  });
+
+  it('is strictly after the given instant', () => {
+    expect(next('0 9 * * *', '2026-10-19T09:00:00Z')).toBe('2026-10-20T09:00:00.000Z');
+  });
+
+  it('skips weekends for weekday ranges', () => {
+    expect(next('0 9 * * MON-FRI', '2026-10-16T10:00:00Z')).toBe('2026-10-19T09:00:00.000Z');
+  });
+
+  it('supports last day, nearest weekday, nth and last weekday of month', () => {
+    expect(next('0 0 L * *', '2028-02-10T00:00:00Z')).toBe('2028-02-29T00:00:00.000Z');
+    // 2026-11-15 is a Sunday
+    expect(next('0 0 15W * *', '2026-11-01T00:00:00Z')).toBe('2026-11-16T00:00:00.000Z');
+    expect(next('0 10 * * MON#2', '2026-11-01T00:00:00Z')).toBe('2026-11-09T10:00:00.000Z');
+    expect(next('0 0 * * 5L', '2026-10-01T00:00:00Z')).toBe('2026-10-30T00:00:00.000Z');
+  });
+
+  it('matches either day field when both are restricted', () => {
+    expect(next('0 0 1 * MON', '2026-10-19T00:00:00Z')).toBe('2026-10-26T00:00:00.000Z');
+  });
+
+  it('returns null for expressions that never fire', () => {
+    expect(next('0 0 30 2 *', '2026-10-19T00:00:00Z')).toBeNull();
+  });
+});
+
+describe('CronExpression.next across DST', () => {
+  it('fires a skipped spring-forward time at the shifted instant', () => {
+    // 02:30 does not exist in New York on 2027-03-14; it runs at 03:30 EDT
+    expect(next('30 2 * * *', '2027-03-14T05:00:00Z', 'America/New_York')).toBe('2027-03-14T07:30:00.000Z');
+  });
+
+  it('fires a repeated fall-back time once', () => {
+    // 01:30 occurs at 05:30Z (EDT) and 06:30Z (EST) on 2026-11-01
+    const runs = CronExpression.parse('30 1 * * *')
+      .nextRuns(2, new Date('2026-11-01T04:00:00Z'), 'America/New_York')
+      .map(run => run.toISOString());
+    expect(runs).toEqual(['2026-11-01T05:30:00.000Z', '2026-11-02T06:30:00.000Z']);
+  });
+
+  it('keeps wall-clock time across the transition', () => {
+    expect(next('0 9 * * *', '2026-10-31T14:00:00Z', 'America/New_York')).toBe('2026-11-01T14:00:00.000Z');
+    expect(next('0 9 * * *', '2026-10-30T14:00:00Z', 'America/New_York')).toBe('2026-10-31T13:00:00.000Z');
+  });
+});
+
+describe('CronExpression.matches', () => {
+  it('checks whether an instant is a fire time', () => {
+    const expression = CronExpression.parse('0 6 * * *');
+    expect(expression.matches(new Date('2026-10-19T10:00:30Z'), 'America/New_York')).toBe(true);
+    expect(expression.matches(new Date('2026-10-19T11:00:00Z'), 'America/New_York')).toBe(false);
+  });
+});
+
+describe('getDueCronFireTime', () => {
+  const tickMs = 10 * 60 * 1000;
+  const due = (expression: string, now: string, lastConsumed: Date | null = null) =>
+    getDueCronFireTime(expression, new Date(now), tickMs, 'UTC', lastConsumed)?.toISOString() ?? null;
+
+  it('runs a fire time on exactly one of a series of ticks', () => {
+    const ticks = ['2026-10-19T08:55:00Z', '2026-10-19T09:05:00Z', '2026-10-19T09:15:00Z', '2026-10-19T09:25:00Z'];
+    expect(ticks.map(tick => due('0 9 * * *', tick))).toEqual([null, '2026-10-19T09:00:00.000Z', null, null]);
+  });
+
+  it('treats the previous tick as exclusive and now as inclusive', () => {
+    expect(due('0 9 * * *', '2026-10-19T09:00:00Z')).toBe('2026-10-19T09:00:00.000Z');
+    expect(due('0 9 * * *', '2026-10-19T09:10:00Z')).toBeNull();
+  });
+
+  it('returns the latest fire time when several fall within one tick', () => {
+    expect(due('*/3 * * * *', '2026-10-19T09:10:00Z')).toBe('2026-10-19T09:09:00.000Z');
+  });
+
+  it('skips a fire time an earlier overlapping tick already consumed', () => {
+    const consumed = new Date('2026-10-19T09:00:00Z');
+    expect(due('0 9 * * *', '2026-10-19T09:02:00Z', consumed)).toBeNull();
+    expect(due('*/5 * * * *', '2026-10-19T09:06:00Z', consumed)).toBe('2026-10-19T09:05:00.000Z');
+  });
+});
@@ -0,0 +1,517 @@
+/**
+ * Cron Expression Evaluator
+ *
+ * Parses standard 5-field (minute hour day-of-month month day-of-week) and
+ * 6-field (second-prefixed) cron expressions and computes next fire times
+ * in an IANA timezone.
+ *
+ * Supported syntax:
+ * - `*`, `?`, lists (`1,15`), ranges (`6-22`), steps (`*\/15`, `10-40/5`, `5/10`)
+ * - Month and weekday names (`JAN`-`DEC`, `SUN`-`SAT`), Sunday as 0 or 7
+ * - Day-of-month: `L` (last day), `L-3`, `15W` (nearest weekday), `LW`
+ * - Day-of-week: `5L` (last Friday), `MON#2` (second Monday)
+ * - Macros: `@yearly`, `@annually`, `@monthly`, `@weekly`, `@daily`, `@midnight`, `@hourly`
+ *
+ * When both day-of-month and day-of-week are restricted a day matches if
+ * either field matches (Vixie cron semantics). Wall-clock times skipped by a
+ * spring-forward transition fire at the shifted instant; times repeated by
+ * a fall-back transition fire once.
+ */
+
+import { getZonedDateParts, getZonedTimeCandidates, zonedTimeToUtc } from './timezone.js';
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: Record<string, number>;
+}
+
+interface DayOfMonthRule {
+  days: Set<number>;
+  lastDay: boolean;
+  lastDayOffsets: number[];     // L-n
+  nearestWeekdays: number[];    // nW
+  lastWeekday: boolean;         // LW
+}
+
+interface DayOfWeekRule {
+  days: Set<number>;
+  nth: Array<{ weekday: number; occurrence: number }>;  // d#n
+  last: number[];                                       // dL
+}
+
+const MONTH_NAMES: Record<string, number> = {
+  JAN: 1, FEB: 2, MAR: 3, APR: 4, MAY: 5, JUN: 6,
+  JUL: 7, AUG: 8, SEP: 9, OCT: 10, NOV: 11, DEC: 12
+};
+
+const WEEKDAY_NAMES: Record<string, number> = {
+  SUN: 0, MON: 1, TUE: 2, WED: 3, THU: 4, FRI: 5, SAT: 6
+};
+
+const FIELDS = {
+  second: { name: 'second', min: 0, max: 59 },
+  minute: { name: 'minute', min: 0, max: 59 },
+  hour: { name: 'hour', min: 0, max: 23 },
+  dayOfMonth: { name: 'day-of-month', min: 1, max: 31 },
+  month: { name: 'month', min: 1, max: 12, names: MONTH_NAMES },
+  dayOfWeek: { name: 'day-of-week', min: 0, max: 7, names: WEEKDAY_NAMES }
+} satisfies Record<string, FieldSpec>;
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+};
+
+// Give up searching after this many years without a match (e.g. "0 0 30 2 *")
+const MAX_SEARCH_YEARS = 8;
+
+/**
+ * Parse a single numeric or named value within a field
+ */
+function parseValue(token: string, spec: FieldSpec): number {
+  const upper = token.toUpperCase();
+  const value = spec.names && upper in spec.names ? spec.names[upper] : Number(token);
+
+  if (!/^\d+$/.test(token) && !(spec.names && upper in spec.names)) {
+    throw new Error(`Invalid ${spec.name} value "${token}"`);
+  }
+  if (value < spec.min || value > spec.max) {
+    throw new Error(`${spec.name} value ${value} out of range ${spec.min}-${spec.max}`);
+  }
+  return value;
+}
+
+/**
+ * Expand a list/range/step field into the set of values it allows
+ */
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    if (part === '') {
+      throw new Error(`Empty list item in ${spec.name} field "${field}"`);
+    }
+
+    const [rangePart, stepPart, ...extra] = part.split('/');
+    if (extra.length > 0) {
+      throw new Error(`Invalid step in ${spec.name} field "${part}"`);
+    }
+
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${stepPart}" in ${spec.name} field`);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*' || rangePart === '?') {
+      start = spec.min;
+      end = spec.max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-');
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+    } else {
+      start = parseValue(rangePart, spec);
+      // "5/10" means every 10 starting at 5
+      end = stepPart === undefined ? start : spec.max;
+    }
+
+    if (start <= end) {
+      for (let value = start; value <= end; value += step) {
+        values.add(value);
+      }
+    } else {
+      // Wrapping range such as FRI-MON or 22-2
+      const span = spec.max - spec.min + 1;
+      for (let offset = 0; offset <= (end - start + span) % span; offset += step) {
+        values.add(spec.min + ((start - spec.min + offset) % span));
+      }
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse the day-of-month field including the L and W extensions
+ */
+function parseDayOfMonth(field: string): DayOfMonthRule {
+  const rule: DayOfMonthRule = {
+    days: new Set(),
+    lastDay: false,
+    lastDayOffsets: [],
+    nearestWeekdays: [],
+    lastWeekday: false
+  };
+  const plainParts: string[] = [];
+
+  for (const part of field.toUpperCase().split(',')) {
+    if (part === 'L') {
+      rule.lastDay = true;
+    } else if (part === 'LW') {
+      rule.lastWeekday = true;
+    } else if (/^L-\d+$/.test(part)) {
+      const offset = Number(part.slice(2));
+      if (offset > 30) {
+        throw new Error(`day-of-month offset "${part}" out of range`);
+      }
+      rule.lastDayOffsets.push(offset);
+    } else if (/^\d+W$/.test(part)) {
+      rule.nearestWeekdays.push(parseValue(part.slice(0, -1), FIELDS.dayOfMonth));
+    } else {
+      plainParts.push(part);
+    }
+  }
+
+  if (plainParts.length > 0) {
+    rule.days = parseField(plainParts.join(','), FIELDS.dayOfMonth);
+  }
+  return rule;
+}
+
+/**
+ * Parse the day-of-week field including the L and # extensions
+ */
+function parseDayOfWeek(field: string): DayOfWeekRule {
+  const rule: DayOfWeekRule = { days: new Set(), nth: [], last: [] };
+  const plainParts: string[] = [];
+
+  for (const part of field.toUpperCase().split(',')) {
+    const nthMatch = part.match(/^(\w+)#(\d)$/);
+    const lastMatch = part.match(/^(\w+)L$/);
+
+    if (nthMatch) {
+      const occurrence = Number(nthMatch[2]);
+      if (occurrence < 1 || occurrence > 5) {
+        throw new Error(`day-of-week occurrence "${part}" must be between 1 and 5`);
+      }
+      rule.nth.push({ weekday: parseValue(nthMatch[1], FIELDS.dayOfWeek) % 7, occurrence });
+    } else if (lastMatch) {
+      rule.last.push(parseValue(lastMatch[1], FIELDS.dayOfWeek) % 7);
+    } else {
+      plainParts.push(part);
+    }
+  }
+
+  if (plainParts.length > 0) {
+    for (const day of parseField(plainParts.join(','), FIELDS.dayOfWeek)) {
+      rule.days.add(day % 7);
+    }
+  }
+  return rule;
+}
+
+/**
+ * Number of days in a month (month is 1-12)
+ */
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Weekday (0 = Sunday) of a calendar date
+ */
+function weekdayOf(year: number, month: number, day: number): number {
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/**
+ * Resolve "nearest weekday to day N" within the same month
+ */
+function nearestWeekday(year: number, month: number, day: number): number {
+  const lastDay = daysInMonth(year, month);
+  const target = Math.min(day, lastDay);
+  const weekday = weekdayOf(year, month, target);
+
+  if (weekday === 6) {
+    return target === 1 ? 3 : target - 1;
+  }
+  if (weekday === 0) {
+    return target === lastDay ? target - 2 : target + 1;
+  }
+  return target;
+}
+
+/**
+ * Smallest allowed value >= current, or null if the field overflows
+ */
+function nextAllowed(allowed: number[], current: number): number | null {
+  for (const value of allowed) {
+    if (value >= current) return value;
+  }
+  return null;
+}
+
+/**
+ * Parsed cron expression
+ */
+export class CronExpression {
+  readonly source: string;
+  readonly hasSeconds: boolean;
+
+  private seconds: number[];
+  private minutes: number[];
+  private hours: number[];
+  private months: Set<number>;
+  private dayOfMonth: DayOfMonthRule;
+  private dayOfWeek: DayOfWeekRule;
+  private dayOfMonthRestricted: boolean;
+  private dayOfWeekRestricted: boolean;
+
+  private constructor(source: string, fields: string[]) {
+    this.source = source;
+    this.hasSeconds = fields.length === 6;
+
+    const [second, minute, hour, dom, month, dow] = this.hasSeconds ? fields : ['0', ...fields];
+
+    this.seconds = [...parseField(second, FIELDS.second)].sort((a, b) => a - b);
+    this.minutes = [...parseField(minute, FIELDS.minute)].sort((a, b) => a - b);
+    this.hours = [...parseField(hour, FIELDS.hour)].sort((a, b) => a - b);
+    this.months = parseField(month, FIELDS.month);
+    this.dayOfMonth = parseDayOfMonth(dom);
+    this.dayOfWeek = parseDayOfWeek(dow);
+    this.dayOfMonthRestricted = dom !== '*' && dom !== '?';
+    this.dayOfWeekRestricted = dow !== '*' && dow !== '?';
+  }
+
+  /**
+   * Parse a cron expression, throwing a descriptive error if it is invalid
+   */
+  static parse(expression: string): CronExpression {
+    const trimmed = (expression || '').trim();
+    const expanded = MACROS[trimmed.toLowerCase()] || trimmed;
+    const fields = expanded.split(/\s+/).filter(Boolean);
+
+    if (fields.length !== 5 && fields.length !== 6) {
+      throw new Error(`Cron expression "${expression}" must have 5 or 6 fields, got ${fields.length}`);
+    }
+
+    try {
+      return new CronExpression(trimmed, fields);
+    } catch (error) {
+      throw new Error(`Invalid cron expression "${expression}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Check whether a calendar date satisfies the day-of-month/day-of-week fields
+   */
+  private matchesDay(year: number, month: number, day: number): boolean {
+    const domMatch = this.matchesDayOfMonth(year, month, day);
+    const dowMatch = this.matchesDayOfWeek(year, month, day);
+
+    if (this.dayOfMonthRestricted && this.dayOfWeekRestricted) {
+      return domMatch || dowMatch;
+    }
+    if (this.dayOfMonthRestricted) return domMatch;
+    if (this.dayOfWeekRestricted) return dowMatch;
+    return true;
+  }
+
+  private matchesDayOfMonth(year: number, month: number, day: number): boolean {
+    const rule = this.dayOfMonth;
+    const lastDay = daysInMonth(year, month);
+
+    if (rule.days.has(day)) return true;
+    if (rule.lastDay && day === lastDay) return true;
+    if (rule.lastDayOffsets.some(offset => lastDay - offset === day)) return true;
+    if (rule.nearestWeekdays.some(target => nearestWeekday(year, month, target) === day)) return true;
+    if (rule.lastWeekday && nearestWeekday(year, month, lastDay) === day) return true;
+    return false;
+  }
+
+  private matchesDayOfWeek(year: number, month: number, day: number): boolean {
+    const rule = this.dayOfWeek;
+    const weekday = weekdayOf(year, month, day);
+
+    if (rule.days.has(weekday)) return true;
+    if (rule.nth.some(n => n.weekday === weekday && Math.ceil(day / 7) === n.occurrence)) return true;
+    if (rule.last.some(w => w === weekday && day + 7 > daysInMonth(year, month))) return true;
+    return false;
+  }
+
+  /**
+   * Find the first wall-clock time strictly after the given wall-clock time
+   * that matches every field. Wall-clock times are represented as UTC
+   * milliseconds of the local fields.
+   */
+  private nextWallClockMatch(afterWallMs: number): number | null {
+    const cursor = new Date(Math.floor(afterWallMs / 1000) * 1000 + 1000);
+    const limitYear = cursor.getUTCFullYear() + MAX_SEARCH_YEARS;
+
+    while (cursor.getUTCFullYear() <= limitYear) {
+      const year = cursor.getUTCFullYear();
+      const month = cursor.getUTCMonth() + 1;
+      const day = cursor.getUTCDate();
+
+      if (!this.months.has(month)) {
+        cursor.setUTCMonth(cursor.getUTCMonth() + 1, 1);
+        cursor.setUTCHours(0, 0, 0, 0);
+        continue;
+      }
+
+      if (!this.matchesDay(year, month, day)) {
+        cursor.setUTCDate(day + 1);
+        cursor.setUTCHours(0, 0, 0, 0);
+        continue;
+      }
+
+      const hour = nextAllowed(this.hours, cursor.getUTCHours());
+      if (hour === null) {
+        cursor.setUTCDate(day + 1);
+        cursor.setUTCHours(0, 0, 0, 0);
+        continue;
+      }
+      if (hour !== cursor.getUTCHours()) {
+        cursor.setUTCHours(hour, 0, 0, 0);
+      }
+
+      const minute = nextAllowed(this.minutes, cursor.getUTCMinutes());
+      if (minute === null) {
+        cursor.setUTCHours(cursor.getUTCHours() + 1, 0, 0, 0);
+        continue;
+      }
+      if (minute !== cursor.getUTCMinutes()) {
+        cursor.setUTCMinutes(minute, 0, 0);
+      }
+
+      const second = nextAllowed(this.seconds, cursor.getUTCSeconds());
+      if (second === null) {
+        cursor.setUTCMinutes(cursor.getUTCMinutes() + 1, 0, 0);
+        continue;
+      }
+      cursor.setUTCSeconds(second, 0);
+
+      return cursor.getTime();
+    }
+
+    return null;
+  }
+
+  /**
+   * Compute the next fire time strictly after `after`, evaluated in `timeZone`.
+   * Returns null if the expression never fires (e.g. February 30th).
+   */
+  next(after: Date = new Date(), timeZone: string = 'UTC'): Date | null {
+    const parts = getZonedDateParts(after, timeZone);
+    let wallMs: number | null = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+
+    // Repeated (fall-back) wall times may map to instants we have already passed
+    for (let attempt = 0; attempt < 4; attempt++) {
+      wallMs = this.nextWallClockMatch(wallMs);
+      if (wallMs === null) return null;
+
+      const wall = new Date(wallMs);
+      const input = {
+        year: wall.getUTCFullYear(),
+        month: wall.getUTCMonth() + 1,
+        day: wall.getUTCDate(),
+        hour: wall.getUTCHours(),
+        minute: wall.getUTCMinutes(),
+        second: wall.getUTCSeconds()
+      };
+      const candidates = getZonedTimeCandidates(input, timeZone);
+
+      // Skipped (spring-forward) wall times fire at the shifted instant
+      const instant = candidates.length > 0
+        ? candidates.find(candidate => candidate.getTime() > after.getTime())
+        : zonedTimeToUtc(input, timeZone);
+
+      if (instant && instant.getTime() > after.getTime()) {
+        return instant;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Compute the next `count` fire times after `after`
+   */
+  nextRuns(count: number, after: Date = new Date(), timeZone: string = 'UTC'): Date[] {
+    const runs: Date[] = [];
+    let cursor = after;
+
+    while (runs.length < count) {
+      const next = this.next(cursor, timeZone);
+      if (!next) break;
+      runs.push(next);
+      cursor = next;
+    }
+
+    return runs;
+  }
+
+  /**
+   * Check whether an instant falls exactly on a fire time (to the second/minute)
+   */
+  matches(date: Date, timeZone: string = 'UTC'): boolean {
+    const granularityMs = this.hasSeconds ? 1000 : 60000;
+    const floored = new Date(Math.floor(date.getTime() / granularityMs) * granularityMs);
+    const next = this.next(new Date(floored.getTime() - 1), timeZone);
+    return next !== null && next.getTime() === floored.getTime();
+  }
+}
+
+/**
+ * Check whether a string is a valid cron expression (or macro)
+ */
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    CronExpression.parse(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate a cron expression, returning the parse error message if invalid
+ */
+export function validateCronExpression(expression: string): { valid: boolean; error?: string } {
+  try {
+    CronExpression.parse(expression);
+    return { valid: true };
+  } catch (error) {
+    return { valid: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Compute the next fire time of a cron expression in a timezone
+ */
+export function getNextCronRun(expression: string, after: Date = new Date(), timeZone: string = 'UTC'): Date | null {
+  return CronExpression.parse(expression).next(after, timeZone);
+}
+
+/**
+ * Find the fire time a scheduler tick at `now` should run: the latest fire time in
+ * (now - tickIntervalMs, now], skipping anything at or before `lastConsumed`.
+ * With ticks every `tickIntervalMs`, each fire time is due on exactly one tick.
+ */
+export function getDueCronFireTime(
+  expression: string,
+  now: Date,
+  tickIntervalMs: number,
+  timeZone: string = 'UTC',
+  lastConsumed: Date | null = null
+): Date | null {
+  const cron = CronExpression.parse(expression);
+  let cursor = new Date(Math.max(now.getTime() - tickIntervalMs, lastConsumed?.getTime() ?? -Infinity));
+  let due: Date | null = null;
+
+  for (let next = cron.next(cursor, timeZone); next && next.getTime() <= now.getTime(); next = cron.next(cursor, timeZone)) {
+    due = next;
+    cursor = next;
+  }
+
+  return due;
+}
@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getRooftopProfile, saveRooftopProfile } from './rooftop-profiles.js';
+import { fetchAllDealerComInventory } from './dealer-com-pagination.js';
+
+vi.mock('../config/dealer-sources.js', () => ({
+  DEALER_SOURCES: { pagination: { dealer_com_page_size: 100, max_pages: 10 } }
+}));
+
+vi.mock('./rooftop-profiles.js', () => ({
+  getRooftopProfile: vi.fn(),
+  saveRooftopProfile: vi.fn(async () => {}),
+  invalidateRooftopProfile: vi.fn(async () => {}),
+  getPageSizeCandidates: () => [200, 100]
+}));
+
+const vehicle = (vin: string) => ({ vin, make: 'Ford', model: 'F-150', year: 2025 });
+
+/**
+ * getInventory stub: one page of `count` vehicles for auto-new, nothing else
+ */
+function stubInventory(count: number) {
+  const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => {
+    const body = JSON.parse(String(init?.body));
+    const segment = body.preferences?.['listing.config.id'];
+    const inventory = segment === 'auto-new' ? Array.from({ length: count }, (_, i) => vehicle(`VIN${i}`)) : [];
+    return new Response(JSON.stringify({ inventory, pageInfo: { totalCount: inventory.length } }));
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+/**
+ * getInventory stub paging through `count` auto-new vehicles by preferences.pageStart,
+ * serving at most `cap` per page and reporting `totalCount` as the segment total
+ */
+function stubPagedInventory(count: number, totalCount: number, cap: number = Infinity) {
+  const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => {
+    const body = JSON.parse(String(init?.body));
+    const segment = body.preferences?.['listing.config.id'];
+    const start = Number(body.preferences?.pageStart || 0);
+    const size = Math.min(Number(body.preferences?.pageSize), cap);
+    const all = segment === 'auto-new' ? Array.from({ length: count }, (_, i) => vehicle(`VIN${i}`)) : [];
+    const inventory = all.slice(start, start + size);
+    return new Response(JSON.stringify({ inventory, pageInfo: { totalCount: segment === 'auto-new' ? totalCount : 0 } }));
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+const cachedProfile = (siteId: string) => ({
+  site_id: siteId,
+  page_size: 50,
+  use_page_number: false,
+  offsets_verified: true,
+  widget_variant: null,
+  learned_at: new Date()
+});
+
+const requestBodies = (fetchMock: ReturnType<typeof stubInventory>) =>
+  fetchMock.mock.calls.map(([, init]) => JSON.parse(String(init?.body)));
+
+let siteCount = 0;
+
+beforeEach(() => {
+  vi.mocked(getRooftopProfile).mockReset();
+  vi.mocked(saveRooftopProfile).mockClear();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('fetchAllDealerComInventory rooftop profiles', () => {
+  it('pages with the cached widget variant and page size', async () => {
+    const siteId = `site-${++siteCount}`;
+    vi.mocked(getRooftopProfile).mockResolvedValue({
+      site_id: siteId,
+      page_size: 50,
+      use_page_number: false,
+      offsets_verified: true,
+      widget_variant: { page_alias: 'INVENTORY_LISTING_DEFAULT_AUTO_ALL', body: 'inventory_parameters' },
+      learned_at: new Date()
+    });
+    const fetchMock = stubInventory(3);
+
+    const result = await fetchAllDealerComInventory({ siteId, baseUrl: `https://${siteId}.example.com` });
+
+    expect(result.vehicles).toHaveLength(3);
+    const bodies = requestBodies(fetchMock);
+    expect(bodies).toHaveLength(3);
+    for (const body of bodies) {
+      expect(body.pageAlias).toBe('INVENTORY_LISTING_DEFAULT_AUTO_ALL');
+      expect(body.inventoryParameters).toMatchObject({ page: 1, pageSize: 50 });
+    }
+  });
+
+  it('does not probe when the dealer configures a page size', async () => {
+    const siteId = `site-${++siteCount}`;
+    vi.mocked(getRooftopProfile).mockResolvedValue(null);
+    const fetchMock = stubInventory(3);
+
+    const result = await fetchAllDealerComInventory({ siteId, baseUrl: `https://${siteId}.example.com`, pageSize: 25 });
+
+    expect(result.pageSize).toBe(25);
+    const bodies = requestBodies(fetchMock);
+    expect(bodies.map(body => body.preferences['listing.config.id'])).toEqual(['auto-new', 'auto-certified', 'auto-used']);
+    for (const body of bodies) {
+      expect(body.pageAlias).toBe('INVENTORY_LISTING_DEFAULT_AUTO_NEW');
+      expect(body.preferences.pageSize).toBe('25');
+    }
+  });
+
+  it('probes page sizes for an unknown rooftop without a configured page size', async () => {
+    const siteId = `site-${++siteCount}`;
+    vi.mocked(getRooftopProfile).mockResolvedValue(null);
+    const fetchMock = stubInventory(0);
+
+    await fetchAllDealerComInventory({ siteId, baseUrl: `https://${siteId}.example.com` });
+
+    // Probe requests carry no listing config
+    expect(requestBodies(fetchMock).some(body => body.preferences?.['listing.config.id'] === undefined)).toBe(true);
+  });
+});
+
+describe('fetchAllDealerComInventory page size adaptation', () => {
+  it('adapts to a rooftop that serves fewer vehicles than requested', async () => {
+    const siteId = `site-${++siteCount}`;
+    vi.mocked(getRooftopProfile).mockResolvedValue(cachedProfile(siteId));
+    stubPagedInventory(100, 100, 40);
+
+    const result = await fetchAllDealerComInventory({ siteId, baseUrl: `https://${siteId}.example.com` });
+
+    expect(result.vehicles).toHaveLength(100);
+    expect(result.complete).toBe(true);
+    expect(saveRooftopProfile).toHaveBeenCalledWith(expect.objectContaining({ site_id: siteId, page_size: 40 }));
+  });
+
+  it('keeps the page size when the last page is short because the total went stale', async () => {
+    const siteId = `site-${++siteCount}`;
+    vi.mocked(getRooftopProfile).mockResolvedValue(cachedProfile(siteId));
+    // A vehicle sold mid-pull: the total still says 100 but only 99 remain
+    const fetchMock = stubPagedInventory(99, 100);
+
+    const result = await fetchAllDealerComInventory({ siteId, baseUrl: `https://${siteId}.example.com` });
+
+    expect(result.vehicles).toHaveLength(99);
+    expect(result.pageSize).toBe(50);
+    expect(saveRooftopProfile).not.toHaveBeenCalled();
+    const autoNewStarts = requestBodies(fetchMock)
+      .filter(body => body.preferences['listing.config.id'] === 'auto-new')
+      .map(body => body.preferences.pageStart);
+    expect(autoNewStarts).toEqual(['0', '50']);
+  });
+});
@@ -6,6 +6,22 @@
  */
 
 import { DEALER_SOURCES } from '../config/dealer-sources.js';
+import {
+  DealerComSchemaTracker,
+  type DealerComSchemaReport,
+  type DealerComVehicle,
+  type DealerComInventoryResponse
+} from './dealer-com-schema.js';
+import { throttledFetch, createResponseError, type RequestMetrics } from './host-throttle.js';
+import type { CheckpointPage, PaginationCheckpoint } from './pagination-checkpoints.js';
+import {
+  getRooftopProfile,
+  saveRooftopProfile,
+  invalidateRooftopProfile,
+  getPageSizeCandidates,
+  type RooftopProfile,
+  type WidgetVariant
+} from './rooftop-profiles.js';
 
 export interface DealerComPaginationConfig {
   siteId: string;
@@ -13,62 +29,90 @@ export interface DealerComPaginationConfig {
   pageSize?: number;
   maxPages?: number;
   usePageNumber?: boolean; // fallback mode for rooftops that ignore pageStart offsets
+  schemaTracker?: DealerComSchemaTracker; // tallies schema drift across the run's pages
+  metrics?: RequestMetrics; // per-job API call / rate limit counters
+  resumeFrom?: PaginationCheckpoint | null; // pages already fetched by a failed attempt
+  onPageComplete?: (page: CheckpointPage) => Promise<void>; // persist a checkpoint after each page
 }
 
-export interface DealerComVehicle {
-  vin: string;
-  make: string;
-  model: string;
-  year: number;
-  link: string;
-  images?: Array<{ uri: string; alt?: string; title?: string }>;
-  trackingAttributes?: Array<{ name: string; value: string }>;
-  trackingPricing?: {
-    internetPrice?: string;
-    salePrice?: string;
-    msrp?: string;
-  };
-  bodyStyle?: string;
-  fuelType?: string;
-  stockNumber?: string;
-  certified?: boolean;
-  condition?: string;
-  [key: string]: any;
+export interface DealerComCoverage {
+  fetched: number;
+  total: number;
+  percent: number;
+  truncated_segments: string[]; // segments cut short by maxPages
 }
 
-export interface DealerComInventoryResponse {
-  inventory: DealerComVehicle[];
-  pageInfo?: {
-    totalCount?: number;
-    pageSize?: number;
-    pageStart?: number;
-  };
-  error?: string;
+export interface DealerComFetchResult {
+  vehicles: DealerComVehicle[];
+  totalCount: number;
+  complete: boolean;
+  schema: DealerComSchemaReport;
+  coverage: DealerComCoverage;
+  resumedPages: number;
+  pageSize: number;     // effective page size after adapting to the rooftop
+}
+
+type LogFunction = (level: string, message: string, data?: any) => void;
+
+export type { DealerComVehicle, DealerComInventoryResponse };
+
+/**
+ * Inventory listing pages whose ws-inv-data widget serves getInventory,
+ * in the order they are tried
+ */
+function getWidgetPages(siteId: string): Array<{ pageAlias: string; pageId: string }> {
+  return [
+    {
+      pageAlias: 'INVENTORY_LISTING_DEFAULT_AUTO_NEW',
+      pageId: `${siteId}_SITEBUILDER_INVENTORY_SEARCH_RESULTS_AUTO_NEW_V1_1`
+    },
+    {
+      pageAlias: 'INVENTORY_LISTING_DEFAULT_AUTO_ALL',
+      pageId: 'v9_INVENTORY_SEARCH_RESULTS_AUTO_ALL_V1_1'
+    }
+  ];
+}
+
+/**
+ * Check an error-free getInventory payload against the schema, dropping
+ * vehicles that don't conform (counted on the config's tracker)
+ */
+function validateDealerComPage(
+  config: DealerComPaginationConfig,
+  payload: unknown,
+  logFunction?: (level: string, message: string, data?: any) => void
+): DealerComInventoryResponse & { dropped: number } {
+  const tracker = config.schemaTracker || new DealerComSchemaTracker(config.siteId);
+  const page = tracker.validatePage(payload);
+  const { dropped } = page;
+
+  if (dropped > 0) {
+    logFunction?.('warn', `Dropped ${dropped} vehicles that failed schema validation`, {
+      siteId: config.siteId,
+      dropped
+    });
+  }
+
+  return page;
 }
 
 /**
  * Fetch a single page of Dealer.com inventory
+ * Walks the widget/body variants until one answers, starting with `preferred`
+ * (a rooftop's learned variant) so a known rooftop costs one request per page.
  */
 async function fetchDealerComPage(
   config: DealerComPaginationConfig,
   pageStart: number = 0,
   logFunction?: (level: string, message: string, data?: any) => void,
-  sortDirection: 'ASC' | 'DESC' = 'ASC'
-): Promise<DealerComInventoryResponse> {
+  sortDirection: 'ASC' | 'DESC' = 'ASC',
+  preferred: WidgetVariant | null = null
+): Promise<DealerComInventoryResponse & { dropped: number; variant: WidgetVariant }> {
   const pageSize = config.pageSize || DEALER_SOURCES.pagination.dealer_com_page_size;
 
   // Build request bodies per guidance (Widget variants with page/pageSize)
   const pageNumber = Math.floor(pageStart / pageSize) + 1;
-  const widgetVariants = [
-    {
-      pageAlias: 'INVENTORY_LISTING_DEFAULT_AUTO_NEW',
-      pageId: `${config.siteId}_SITEBUILDER_INVENTORY_SEARCH_RESULTS_AUTO_NEW_V1_1`
-    },
-    {
-      pageAlias: 'INVENTORY_LISTING_DEFAULT_AUTO_ALL',
-      pageId: 'v9_INVENTORY_SEARCH_RESULTS_AUTO_ALL_V1_1'
-    }
-  ];
+  const widgetVariants = getWidgetPages(config.siteId);
   const buildRequestBodyVariantA = (variant: { pageAlias: string; pageId: string }) => ({
     siteId: config.siteId,
     locale: 'en_US',
@@ -109,36 +153,51 @@ async function fetchDealerComPage(
     siteId: config.siteId
   });
 
+  // Variant A with NEW widget, then preferences body, then the same for ALL
+  const variants: WidgetVariant[] = widgetVariants.flatMap(w => [
+    { page_alias: w.pageAlias, body: 'inventory_parameters' as const },
+    { page_alias: w.pageAlias, body: 'preferences' as const }
+  ]);
+  const ordered = preferred
+    ? [preferred, ...variants.filter(v => v.page_alias !== preferred.page_alias || v.body !== preferred.body)]
+    : variants;
+
   try {
     const cacheBuster = Date.now();
-    // Try variant A with NEW widget, then ALL, then fallback to preferences body
-    const tryFetch = async (body: any) => fetch(`${config.baseUrl}/api/widget/ws-inv-data/getInventory?cb=${cacheBuster}&sort=${sortDirection}`, {
+    const tryFetch = async (body: any) => throttledFetch(`${config.baseUrl}/api/widget/ws-inv-data/getInventory?cb=${cacheBuster}&sort=${sortDirection}`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(body)
-    });
+    }, config.metrics);
     let response: Response | undefined;
-    for (const w of widgetVariants) {
-      const requestBodyVariantA = buildRequestBodyVariantA(w);
-      response = await tryFetch(requestBodyVariantA);
-      if (response && response.ok) break;
-      logFunction?.('warn', 'Variant A failed for widget, trying preferences', { status: response ? response.status : undefined, widget: w.pageAlias });
-      const requestBodyWithPreferences = buildRequestBodyWithPreferences(w);
-      response = await tryFetch(requestBodyWithPreferences);
-      if (response && response.ok) break;
+    let variant: WidgetVariant | undefined;
+    for (const candidate of ordered) {
+      const widget = widgetVariants.find(w => w.pageAlias === candidate.page_alias);
+      if (!widget) continue;
+      response = await tryFetch(candidate.body === 'inventory_parameters'
+        ? buildRequestBodyVariantA(widget)
+        : buildRequestBodyWithPreferences(widget));
+      if (response.ok) {
+        variant = candidate;
+        break;
+      }
+      logFunction?.('warn', 'Widget variant failed, trying next', { status: response.status, widget: candidate.page_alias, body: candidate.body });
     }
-    if (!response || !response.ok) {
-      const status = response ? response.status : 'no_response';
-      const statusText = response ? response.statusText : 'no response received';
-      throw new Error(`HTTP ${status}: ${statusText}`);
+    if (!response) {
+      throw new Error('HTTP no_response: no response received');
+    }
+    if (!response.ok || !variant) {
+      throw createResponseError(response);
     }
 
-    const data = await response.json() as DealerComInventoryResponse;
+    const payload = await response.json() as any;
 
-    if (data.error) {
-      throw new Error(`Dealer.com API error: ${data.error}`);
+    if (payload?.error) {
+      throw new Error(`Dealer.com API error: ${payload.error}`);
     }
 
+    const data = validateDealerComPage(config, payload, logFunction);
+
     logFunction?.('info', `Retrieved ${data.inventory?.length || 0} vehicles from page ${pageStart / pageSize + 1}`, {
       pageStart,
       pageSize,
@@ -146,7 +205,7 @@ async function fetchDealerComPage(
       totalCount: data.pageInfo?.totalCount
     });
 
-    return data;
+    return { ...data, variant };
   } catch (error) {
     logFunction?.('error', `Failed to fetch Dealer.com page ${pageStart / pageSize + 1}`, {
       error: error instanceof Error ? error.message : String(error),
@@ -160,49 +219,184 @@ async function fetchDealerComPage(
 
 /**
  * Probe the maximum effective page size supported by the rooftop
- * Tries a list of candidates and returns the largest that the server respects
+ * Tries candidates largest first and returns the first the server respects
+ * (a short page with more inventory behind it is the server's cap), along
+ * with the widget variant that answered; null when no candidate got an answer.
  */
 async function probeMaxPageSize(
   baseConfig: DealerComPaginationConfig,
   candidates: number[],
   logFunction?: (level: string, message: string, data?: any) => void
-): Promise<number> {
+): Promise<{ pageSize: number; variant: WidgetVariant } | null> {
+  let variant: WidgetVariant | null = null;
+
   for (const candidate of candidates) {
     const testConfig: DealerComPaginationConfig = { ...baseConfig, pageSize: candidate };
     try {
-      const res = await fetchDealerComPage(testConfig, 0, logFunction);
-      const len = res.inventory?.length || 0;
-      logFunction?.('info', 'Probed page size candidate', { candidate, returned: len });
-      if (len === candidate) {
-        return candidate;
+      const res = await fetchDealerComPage(testConfig, 0, logFunction, 'ASC', variant);
+      variant = res.variant;
+      const len = res.inventory.length + res.dropped;
+      const total = res.pageInfo?.totalCount ?? len;
+      logFunction?.('info', 'Probed page size candidate', { candidate, returned: len, totalCount: total });
+      if (len === candidate || (len > 0 && len >= total)) {
+        return { pageSize: candidate, variant };
       }
       // If server caps at smaller number (e.g., 100 when asking 120), treat that as hard cap
-      if (len > 0 && len < candidate) {
-        return len;
+      if (len > 0) {
+        return { pageSize: len, variant };
       }
     } catch (e) {
       // Ignore and try next candidate
       logFunction?.('warn', 'Page size probe failed, trying next', { candidate });
     }
   }
-  // Fallback to default
-  return baseConfig.pageSize || DEALER_SOURCES.pagination.dealer_com_page_size;
+
+  return null;
+}
+
+/**
+ * Load the rooftop's cached profile, or learn a new one by probing page sizes;
+ * null when the cache is unavailable and probing got no answer, or when the
+ * dealer configures its page size (nothing is probed then)
+ */
+async function resolveRooftopProfile(
+  config: DealerComPaginationConfig,
+  logFunction?: LogFunction
+): Promise<{ profile: RooftopProfile | null; cached: boolean }> {
+  try {
+    const cached = await getRooftopProfile(config.siteId);
+    if (cached) {
+      logFunction?.('info', 'Using cached rooftop profile', { siteId: config.siteId, ...cached });
+      return { profile: cached, cached: true };
+    }
+  } catch (error) {
+    logFunction?.('warn', 'Rooftop profile cache unavailable', {
+      siteId: config.siteId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+
+  // A configured page size is used as-is; probing would only cost requests
+  if (config.pageSize) {
+    logFunction?.('info', 'Page size configured, skipping page size probe', { siteId: config.siteId, pageSize: config.pageSize });
+    return { profile: null, cached: false };
+  }
+
+  // Probe outside the run's schema tracker so probe pages don't skew its counts
+  const probed = await probeMaxPageSize(
+    { siteId: config.siteId, baseUrl: config.baseUrl, metrics: config.metrics },
+    getPageSizeCandidates(),
+    logFunction
+  );
+  if (!probed) return { profile: null, cached: false };
+
+  return {
+    profile: {
+      site_id: config.siteId,
+      page_size: probed.pageSize,
+      use_page_number: config.usePageNumber || false,
+      offsets_verified: config.usePageNumber !== undefined,
+      widget_variant: probed.variant,
+      learned_at: new Date()
+    },
+    cached: false
+  };
+}
+
+/**
+ * Cache a learned rooftop profile; failures are logged, never thrown
+ */
+async function storeRooftopProfile(profile: RooftopProfile, logFunction?: LogFunction): Promise<void> {
+  try {
+    await saveRooftopProfile({ ...profile, learned_at: new Date() });
+    logFunction?.('info', 'Cached rooftop profile', { ...profile });
+  } catch (error) {
+    logFunction?.('warn', 'Failed to cache rooftop profile', {
+      siteId: profile.site_id,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+/**
+ * Drop a rooftop's cached profile after it started failing; failures are logged, never thrown
+ */
+async function forgetRooftopProfile(siteId: string, logFunction?: LogFunction): Promise<void> {
+  try {
+    await invalidateRooftopProfile(siteId);
+    logFunction?.('warn', 'Rooftop returned errors, cached profile dropped', { siteId });
+  } catch (error) {
+    logFunction?.('warn', 'Failed to drop rooftop profile', {
+      siteId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
 }
 
 /**
  * Fetch all Dealer.com inventory using pagination
+ * `complete` is false when a segment had more pages than maxPages allowed or
+ * vehicles were dropped for failing schema validation. With `resumeFrom`, pages
+ * in the checkpoint are skipped and their vehicles carried over, unless the
+ * checkpoint was taken with a different page size than this run uses.
  */
 export async function fetchAllDealerComInventory(
-  config: DealerComPaginationConfig,
+  baseConfig: DealerComPaginationConfig,
   logFunction?: (level: string, message: string, data?: any) => void
-): Promise<{ vehicles: DealerComVehicle[], totalCount: number }> {
+): Promise<DealerComFetchResult> {
+  const config: DealerComPaginationConfig = {
+    ...baseConfig,
+    schemaTracker: baseConfig.schemaTracker || new DealerComSchemaTracker(baseConfig.siteId)
+  };
+
   logFunction?.('info', 'Starting Dealer.com inventory fetch with proper pagination', {
     siteId: config.siteId
   });
 
   const seenVins = new Set<string>();
   const allVehicles: DealerComVehicle[] = [];
+  const truncatedSegments: string[] = [];
   let grandTotalCount = 0;
+  let complete = true;
+
+  // Start from what the rooftop is known to accept (learned once, cached per siteId)
+  const { profile, cached: profileCached } = await resolveRooftopProfile(config, logFunction);
+  let profileChanged = profile !== null && !profileCached;
+  let pageSize = config.pageSize || profile?.page_size || DEALER_SOURCES.pagination.dealer_com_page_size;
+  config.usePageNumber = config.usePageNumber ?? profile?.use_page_number;
+  const widgetVariant = profile?.widget_variant ?? null;
+  const maxPages = config.maxPages || DEALER_SOURCES.pagination.max_pages;
+
+  // A checkpoint taken with another page size has offsets this run won't hit
+  if (config.resumeFrom && config.resumeFrom.page_size !== pageSize) {
+    logFunction?.('warn', 'Checkpoint was taken with a different page size, starting from the first page', {
+      siteId: config.siteId,
+      checkpointPageSize: config.resumeFrom.page_size,
+      pageSize
+    });
+    config.resumeFrom = null;
+  }
+
+  // Carry over what a failed attempt already fetched
+  const completedPages = new Map<string, CheckpointPage>();
+  for (const page of config.resumeFrom?.pages || []) {
+    completedPages.set(`${page.segment}:${page.page_start}`, page);
+    for (const vehicle of page.vehicles) {
+      if (!seenVins.has(vehicle.vin)) {
+        seenVins.add(vehicle.vin);
+        allVehicles.push(vehicle);
+      }
+    }
+  }
+  if (config.resumeFrom) {
+    logFunction?.('info', 'Resuming Dealer.com pull from checkpoint', {
+      siteId: config.siteId,
+      segment: config.resumeFrom.segment,
+      pageStart: config.resumeFrom.page_start,
+      pagesDone: completedPages.size,
+      vehiclesCarried: allVehicles.length
+    });
+  }
 
   // Fetch different inventory segments
   const listingConfigs = ['auto-new', 'auto-certified', 'auto-used'];
@@ -211,69 +405,117 @@ export async function fetchAllDealerComInventory(
     for (const listingConfigId of listingConfigs) {
       logFunction?.('info', `Fetching ${listingConfigId} inventory...`);
 
-      // First, get the total count for this segment
-      const firstPageResponse = await fetchDealerComPageWithConfig(
-        { ...config, pageSize: 1 }, // Use pageSize 1 to get total count quickly
-        0,
-        logFunction,
-        'ASC',
-        listingConfigId
-      );
-
-      const segmentTotal = firstPageResponse.pageInfo?.totalCount || 0;
-      logFunction?.('info', `${listingConfigId} segment has ${segmentTotal} total vehicles`);
-
-      if (segmentTotal === 0) {
-        logFunction?.('info', `Skipping ${listingConfigId} segment - no vehicles`);
-        continue;
-      }
-
-      // Now fetch all pages for this segment
-      const pageSize = config.pageSize || DEALER_SOURCES.pagination.dealer_com_page_size;
-      const maxPages = config.maxPages || DEALER_SOURCES.pagination.max_pages;
-      const totalPages = Math.min(Math.ceil(segmentTotal / pageSize), maxPages);
-
-      logFunction?.('info', `Fetching ${totalPages} pages for ${listingConfigId} segment`, {
-        segmentTotal,
-        pageSize,
-        maxPages,
-        totalPages
-      });
+      // A resumed segment keeps its checkpointed total so page offsets line up with
+      // the pages already done; otherwise the total comes with the segment's first page
+      let segmentTotal = (config.resumeFrom?.pages || []).find(page => page.segment === listingConfigId)?.segment_total ?? null;
 
       let addedFromSegment = 0;
+      let firstVinOfSegment: string | undefined;
+      let pageStart = 0;
+      let page = 0;
+
+      for (; (segmentTotal === null || pageStart < segmentTotal) && page < maxPages; page++) {
+        const done = completedPages.get(`${listingConfigId}:${pageStart}`);
+        if (done) {
+          addedFromSegment += done.vins.length;
+          pageStart += pageSize;
+          continue;
+        }
 
-      for (let page = 0; page < totalPages; page++) {
-        const pageStart = page * pageSize;
-
-        logFunction?.('info', `Fetching ${listingConfigId} page ${page + 1}/${totalPages}`, {
+        logFunction?.('info', `Fetching ${listingConfigId} page ${page + 1}`, {
           pageStart,
           pageSize
         });
 
-        const response = await fetchDealerComPageWithConfig(
+        let response = await fetchDealerComPageWithConfig(
           { ...config, pageSize },
           pageStart,
           logFunction,
           'ASC',
-          listingConfigId
+          listingConfigId,
+          widgetVariant
         );
 
+        // A second page that starts like the first means the rooftop ignores this
+        // paging mode (pageStart vs page number); switch once and remember it
+        if (page === 1 && profile && !profile.offsets_verified && firstVinOfSegment) {
+          if (response.inventory[0]?.vin === firstVinOfSegment) {
+            config.usePageNumber = !config.usePageNumber;
+            logFunction?.('warn', 'Rooftop ignored the paging mode, switching', {
+              siteId: config.siteId,
+              usePageNumber: config.usePageNumber
+            });
+            response = await fetchDealerComPageWithConfig({ ...config, pageSize }, pageStart, logFunction, 'ASC', listingConfigId, widgetVariant);
+          }
+          profile.use_page_number = config.usePageNumber || false;
+          profile.offsets_verified = true;
+          profileChanged = true;
+        }
+
         const items = response.inventory || [];
+        if (page === 0) firstVinOfSegment = items[0]?.vin;
+        if (segmentTotal === null) {
+          segmentTotal = response.pageInfo?.totalCount ?? items.length + response.dropped;
+          logFunction?.('info', `${listingConfigId} segment has ${segmentTotal} total vehicles`, {
+            pages: Math.min(Math.ceil(segmentTotal / pageSize), maxPages),
+            pageSize,
+            maxPages
+          });
+          if (segmentTotal === 0) break;
+        }
+
+        // A short page with more inventory behind it is the rooftop's real page size cap;
+        // a short last page only means the total went stale (a vehicle sold mid-pull)
+        const received = items.length + response.dropped;
+        if (received > 0 && received < pageSize && pageStart + pageSize < segmentTotal) {
+          logFunction?.('info', 'Rooftop capped the page size, adapting', { requested: pageSize, received });
+          pageSize = received;
+          if (profile) {
+            profile.page_size = received;
+            profileChanged = true;
+          }
+        }
+
+        const added: DealerComVehicle[] = [];
 
         for (const vehicle of items) {
-          const vin = (vehicle as any).vin;
+          const vin = vehicle.vin;
           if (vin && !seenVins.has(vin)) {
             seenVins.add(vin);
             allVehicles.push(vehicle);
+            added.push(vehicle);
             addedFromSegment++;
           }
         }
 
+        await config.onPageComplete?.({
+          segment: listingConfigId,
+          page_start: pageStart,
+          segment_total: segmentTotal,
+          page_size: pageSize,
+          vins: added.map(vehicle => vehicle.vin),
+          vehicles: added
+        });
+
         logFunction?.('info', `${listingConfigId} page ${page + 1} complete`, {
           pageVehicles: items.length,
-          addedFromPage: addedFromSegment,
+          addedFromPage: added.length,
           totalAccumulated: allVehicles.length
         });
+
+        pageStart += pageSize;
+      }
+
+      segmentTotal = segmentTotal ?? 0;
+      if (segmentTotal === 0) {
+        logFunction?.('info', `Skipping ${listingConfigId} segment - no vehicles`);
+        continue;
+      }
+
+      if (pageStart < segmentTotal) {
+        complete = false;
+        truncatedSegments.push(listingConfigId);
+        logFunction?.('warn', `${listingConfigId} segment truncated at ${maxPages} pages`, { segmentTotal, pageSize });
       }
 
       logFunction?.('info', `${listingConfigId} segment complete`, {
@@ -285,34 +527,71 @@ export async function fetchAllDealerComInventory(
       grandTotalCount += segmentTotal;
     }
 
-    logFunction?.('info', 'Dealer.com inventory fetch complete', {
+    if (profile && profileChanged) {
+      await storeRooftopProfile(profile, logFunction);
+    }
+
+    const schema = config.schemaTracker!.getReport();
+    if (schema.invalid_vehicles > 0) {
+      complete = false;
+    }
+
+    const coverage: DealerComCoverage = {
+      fetched: allVehicles.length,
+      total: grandTotalCount,
+      percent: grandTotalCount > 0 ? Math.round((allVehicles.length / grandTotalCount) * 1000) / 10 : 100,
+      truncated_segments: truncatedSegments
+    };
+
+    logFunction?.(truncatedSegments.length > 0 ? 'warn' : 'info', 'Dealer.com inventory fetch complete', {
       totalVehicles: allVehicles.length,
       grandTotalCount,
-      coverage: `${((allVehicles.length / grandTotalCount) * 100).toFixed(1)}%`,
+      coverage: `${coverage.percent}%`,
+      truncatedSegments,
+      invalidVehicles: schema.invalid_vehicles,
+      resumedPages: completedPages.size,
+      pageSize,
       siteId: config.siteId
     });
 
-    return { vehicles: allVehicles, totalCount: grandTotalCount };
+    return {
+      vehicles: allVehicles,
+      totalCount: grandTotalCount,
+      complete,
+      schema,
+      coverage,
+      resumedPages: completedPages.size,
+      pageSize
+    };
   } catch (error) {
     logFunction?.('error', 'Error fetching inventory', {
       error: error instanceof Error ? error.message : error,
       siteId: config.siteId
     });
+    // A cached profile the rooftop no longer honours is relearned next run
+    if (profileCached) {
+      await forgetRooftopProfile(config.siteId, logFunction);
+    }
     throw error;
   }
 }
 
 /**
  * Fetch Dealer.com inventory with specific listing config
+ * Uses `variant` (the rooftop's learned widget/body) when given, else the
+ * AUTO_NEW widget with a preferences body.
  */
 async function fetchDealerComPageWithConfig(
   config: DealerComPaginationConfig,
   pageStart: number = 0,
   logFunction?: (level: string, message: string, data?: any) => void,
   sortDirection: 'ASC' | 'DESC' = 'ASC',
-  listingConfigId: string = 'auto-new'
-): Promise<DealerComInventoryResponse> {
+  listingConfigId: string = 'auto-new',
+  variant: WidgetVariant | null = null
+): Promise<DealerComInventoryResponse & { dropped: number }> {
   const pageSize = config.pageSize || DEALER_SOURCES.pagination.dealer_com_page_size;
+  const widgetPages = getWidgetPages(config.siteId);
+  const widget = widgetPages.find(w => w.pageAlias === variant?.page_alias) || widgetPages[0];
 
   // Build request body with specific listing config
   const pageNumber = Math.floor(pageStart / pageSize) + 1;
@@ -320,25 +599,38 @@ async function fetchDealerComPageWithConfig(
     siteId: config.siteId,
     locale: 'en_US',
     device: 'DESKTOP',
-    pageAlias: 'INVENTORY_LISTING_DEFAULT_AUTO_NEW',
-    pageId: `${config.siteId}_SITEBUILDER_INVENTORY_SEARCH_RESULTS_AUTO_NEW_V1_1`,
+    pageAlias: widget.pageAlias,
+    pageId: widget.pageId,
     windowId: 'inventory-data-bus1',
     widgetName: 'ws-inv-data',
     includePricing: true,
-    inventoryParameters: {},
-    preferences: {
-      pageSize: pageSize.toString(),
-      "listing.config.id": listingConfigId,
-      ...(config.usePageNumber
-        ? { page: pageNumber.toString() }
-        : { pageStart: pageStart.toString() })
-    }
+    ...(variant?.body === 'inventory_parameters'
+      ? {
+          inventoryParameters: {
+            page: pageNumber,
+            pageSize: pageSize,
+            sort: { field: 'vin', direction: sortDirection }
+          },
+          preferences: { "listing.config.id": listingConfigId }
+        }
+      : {
+          inventoryParameters: {},
+          preferences: {
+            pageSize: pageSize.toString(),
+            "listing.config.id": listingConfigId,
+            ...(config.usePageNumber
+              ? { page: pageNumber.toString() }
+              : { pageStart: pageStart.toString() })
+          }
+        })
   });
 
   logFunction?.('info', `Fetching ${listingConfigId} page ${pageStart / pageSize + 1}`, {
     pageStart,
     pageSize,
     listingConfigId,
+    widget: widget.pageAlias,
+    body: variant?.body || 'preferences',
     siteId: config.siteId
   });
 
@@ -346,24 +638,27 @@ async function fetchDealerComPageWithConfig(
     const cacheBuster = Date.now();
     const url = `${config.baseUrl}/api/widget/ws-inv-data/getInventory?cb=${cacheBuster}`;
 
-    const response = await fetch(url, {
+    const response = await throttledFetch(url, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(buildMultiConfigRequestBody())
-    });
+    }, config.metrics);
 
-    if (!response || !response.ok) {
-      const status = response ? response.status : 'no_response';
-      const statusText = response ? response.statusText : 'no response received';
-      throw new Error(`HTTP ${status}: ${statusText}`);
+    if (!response) {
+      throw new Error('HTTP no_response: no response received');
+    }
+    if (!response.ok) {
+      throw createResponseError(response);
     }
 
-    const data = await response.json() as DealerComInventoryResponse;
+    const payload = await response.json() as any;
 
-    if (data.error) {
-      throw new Error(`Dealer.com API error: ${data.error}`);
+    if (payload?.error) {
+      throw new Error(`Dealer.com API error: ${payload.error}`);
     }
 
+    const data = validateDealerComPage(config, payload, logFunction);
+
     logFunction?.('info', `Retrieved ${data.inventory?.length || 0} ${listingConfigId} vehicles`, {
       pageStart,
       pageSize,
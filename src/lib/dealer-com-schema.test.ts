@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { DealerComSchemaTracker } from './dealer-com-schema.js';
+
+const thresholds = { missing_field_ratio: 0.5, unknown_field_ratio: 0.5, max_invalid_ratio: 0.1 };
+
+const vehicle = (vin: string, fields: Record<string, unknown> = {}) => ({
+  vin,
+  make: 'Toyota',
+  model: 'Camry',
+  year: 2025,
+  link: `/new/Toyota/2025-Toyota-Camry-${vin}.htm`,
+  condition: 'new',
+  pricing: { retailPrice: '$29,990', dprice: [{ typeClass: 'internetPrice', value: '$28,990' }] },
+  trackingAttributes: [{ name: 'exteriorColor', value: 'Silver' }],
+  images: [{ uri: 'https://pictures.dealer.com/1.jpg' }],
+  ...fields
+});
+
+const page = (inventory: unknown[]) => ({ inventory, pageInfo: { totalCount: inventory.length, pageSize: 100, pageStart: 0 } });
+
+describe('DealerComSchemaTracker', () => {
+  it('passes conforming pages through without drift', () => {
+    const tracker = new DealerComSchemaTracker('dealer-1', thresholds);
+    const result = tracker.validatePage(page([vehicle('VIN1'), vehicle('VIN2', { odometer: 12 })]));
+
+    expect(result.inventory).toHaveLength(2);
+    expect(result.dropped).toBe(0);
+    expect(tracker.getReport()).toMatchObject({
+      pages_validated: 1,
+      vehicles_checked: 2,
+      invalid_vehicles: 0,
+      unknown_fields: {},
+      missing_fields: {},
+      drift_detected: false,
+      blocking: false
+    });
+  });
+
+  it('counts unknown and missing fields across pages and flags drift past the ratio', () => {
+    const tracker = new DealerComSchemaTracker('dealer-1', thresholds);
+    tracker.validatePage(page([vehicle('VIN1', { priceV2: {} }), vehicle('VIN2', { images: null })]));
+    tracker.validatePage(page([vehicle('VIN3', { priceV2: {} }), vehicle('VIN4')]));
+
+    const report = tracker.getReport();
+    expect(report).toMatchObject({
+      pages_validated: 2,
+      vehicles_checked: 4,
+      unknown_fields: { priceV2: 2 },
+      missing_fields: { images: 1 },
+      drift_detected: true,
+      blocking: false
+    });
+    expect(report.reasons).toEqual(['unknown field "priceV2" present on 2/4 vehicles']);
+  });
+
+  it('drops invalid vehicles, tallies their issues and blocks past the invalid ratio', () => {
+    const tracker = new DealerComSchemaTracker('dealer-1', thresholds);
+    const result = tracker.validatePage(page([vehicle('VIN1'), vehicle('VIN2', { year: '2025' }), { make: 'Ford' }]));
+
+    expect(result.inventory.map(item => item.vin)).toEqual(['VIN1']);
+    expect(result.dropped).toBe(2);
+
+    const report = tracker.getReport();
+    expect(report.invalid_vehicles).toBe(2);
+    expect(Object.keys(report.issues)).toEqual(expect.arrayContaining([expect.stringMatching(/^year: /), expect.stringMatching(/^vin: /)]));
+    expect(report.reasons[0]).toBe('2/3 vehicles failed validation');
+    expect(report.blocking).toBe(true);
+  });
+
+  it('throws on an unusable envelope', () => {
+    const tracker = new DealerComSchemaTracker('dealer-1', thresholds);
+    expect(() => tracker.validatePage({ vehicles: [] })).toThrow(/failed schema validation: inventory: /);
+    expect(tracker.getReport()).toMatchObject({ pages_validated: 0, vehicles_checked: 0, blocking: false });
+  });
+});
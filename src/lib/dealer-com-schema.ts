@@ -0,0 +1,257 @@
+/**
+ * Dealer.com Response Schema
+ *
+ * zod schema for the ws-inv-data getInventory response. Every page is validated
+ * before its vehicles reach the transformer: vehicles that don't match are
+ * dropped and counted, and fields the schema doesn't know about (or expected
+ * fields that stop arriving) are counted per dealer so a payload change shows
+ * up as schema drift before bad data is stored.
+ */
+
+import { z } from 'zod';
+
+const DealerComTrackingAttributeSchema = z.object({
+  name: z.string(),
+  value: z.string().nullish()
+}).passthrough();
+
+const DealerComImageSchema = z.object({
+  uri: z.string(),
+  alt: z.string().nullish(),
+  title: z.string().nullish(),
+  id: z.union([z.string(), z.number()]).nullish()
+}).passthrough();
+
+const DealerComPriceSchema = z.object({
+  typeClass: z.string().nullish(),
+  type: z.string().nullish(),
+  label: z.string().nullish(),
+  value: z.string().nullish()
+}).passthrough();
+
+const DealerComPricingSchema = z.object({
+  retailPrice: z.string().nullish(),
+  dprice: z.array(DealerComPriceSchema).nullish()
+}).passthrough();
+
+const DealerComEquipmentSchema = z.object({
+  category: z.string(),
+  specifications: z.array(z.object({ description: z.string() }).passthrough()).nullish()
+}).passthrough();
+
+const DealerComCalloutSchema = z.object({
+  badgeClasses: z.array(z.string()).nullish(),
+  href: z.string().nullish()
+}).passthrough();
+
+export const DealerComVehicleSchema = z.object({
+  vin: z.string().min(1),
+  make: z.string().nullish(),
+  model: z.string().nullish(),
+  year: z.number().int().nullish(),
+  trim: z.string().nullish(),
+  title: z.array(z.string()).nullish(),
+  link: z.string().nullish(),
+  stockNumber: z.string().nullish(),
+  condition: z.string().nullish(),
+  status: z.string().nullish(),
+  certified: z.boolean().nullish(),
+  bodyStyle: z.string().nullish(),
+  fuelType: z.string().nullish(),
+  classification: z.string().nullish(),
+  inventoryDate: z.string().nullish(),
+  expectedArrivalDate: z.string().nullish(),
+  offSite: z.boolean().nullish(),
+  images: z.array(DealerComImageSchema).nullish(),
+  videoLinks: z.array(z.unknown()).nullish(),
+  trackingAttributes: z.array(DealerComTrackingAttributeSchema).nullish(),
+  trackingPricing: z.object({
+    internetPrice: z.string().nullish(),
+    salePrice: z.string().nullish(),
+    msrp: z.string().nullish()
+  }).passthrough().nullish(),
+  pricing: DealerComPricingSchema.nullish(),
+  equipment: z.array(DealerComEquipmentSchema).nullish(),
+  packages: z.array(z.unknown()).nullish(),
+  callout: z.array(DealerComCalloutSchema).nullish(),
+  highlightedAttributes: z.array(z.object({ labeledValue: z.unknown() }).passthrough()).nullish(),
+  featuredPromotion: z.unknown(),
+  spotlightedVehicle: z.unknown(),
+  newCarBoost: z.unknown(),
+  isNewCarBoost: z.unknown()
+}).passthrough();
+
+export const DealerComInventoryResponseSchema = z.object({
+  inventory: z.array(z.unknown()),
+  pageInfo: z.object({
+    totalCount: z.number().nullish(),
+    pageSize: z.number().nullish(),
+    pageStart: z.number().nullish()
+  }).passthrough().nullish(),
+  error: z.string().nullish()
+}).passthrough();
+
+export type DealerComVehicle = z.infer<typeof DealerComVehicleSchema>;
+
+const DealerComInventoryPageSchema = DealerComInventoryResponseSchema.extend({
+  inventory: z.array(DealerComVehicleSchema)
+});
+
+export type DealerComInventoryResponse = z.infer<typeof DealerComInventoryPageSchema>;
+
+/**
+ * Vehicle fields the schema knows about; anything else is counted as unknown.
+ * Includes fields Dealer.com sends that the transformer doesn't read yet.
+ */
+const KNOWN_VEHICLE_FIELDS = new Set([
+  ...Object.keys(DealerComVehicleSchema.shape),
+  'accountId', 'accountName', 'address', 'attributes', 'autodataCaId', 'chromeId', 'driveLine',
+  'exteriorColor', 'interiorColor', 'cityFuelEconomy', 'highwayFuelEconomy', 'odometer',
+  'hasCarFaxReport', 'incentiveIds', 'modelCode', 'paymentMonthly', 'type', 'uuid'
+]);
+
+/**
+ * Fields nearly every listing carries; a field going missing across a page is drift
+ */
+const EXPECTED_VEHICLE_FIELDS = [
+  'make', 'model', 'year', 'link', 'condition', 'pricing', 'trackingAttributes', 'images'
+];
+
+export interface DealerComSchemaThresholds {
+  missing_field_ratio: number;   // expected field absent on this share of vehicles => drift
+  unknown_field_ratio: number;   // unknown field present on this share of vehicles => drift
+  max_invalid_ratio: number;     // invalid vehicles above this share block the run
+}
+
+export interface DealerComSchemaReport {
+  dealer_id: string;
+  pages_validated: number;
+  vehicles_checked: number;
+  invalid_vehicles: number;
+  unknown_fields: Record<string, number>;
+  missing_fields: Record<string, number>;
+  issues: Record<string, number>;  // "<path>: <message>" => occurrences
+  drift_detected: boolean;
+  blocking: boolean;
+  reasons: string[];
+}
+
+/**
+ * Default drift thresholds (overridable via environment)
+ */
+export function getDefaultSchemaThresholds(): DealerComSchemaThresholds {
+  return {
+    missing_field_ratio: parseFloat(process.env.DEALER_COM_SCHEMA_MISSING_FIELD_RATIO || '0.5'),
+    unknown_field_ratio: parseFloat(process.env.DEALER_COM_SCHEMA_UNKNOWN_FIELD_RATIO || '0.5'),
+    max_invalid_ratio: parseFloat(process.env.DEALER_COM_SCHEMA_MAX_INVALID_RATIO || '0.1')
+  };
+}
+
+/**
+ * Increment a counter in a plain-object tally
+ */
+function increment(tally: Record<string, number>, key: string): void {
+  tally[key] = (tally[key] || 0) + 1;
+}
+
+/**
+ * Format a zod issue as "<path>: <message>"
+ */
+function describeIssue(issue: z.ZodIssue): string {
+  return `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`;
+}
+
+/**
+ * Validates Dealer.com pages for one dealer and tallies how the payload
+ * deviates from the schema across the run
+ */
+export class DealerComSchemaTracker {
+  private dealerId: string;
+  private thresholds: DealerComSchemaThresholds;
+  private pages = 0;
+  private checked = 0;
+  private invalid = 0;
+  private unknownFields: Record<string, number> = {};
+  private missingFields: Record<string, number> = {};
+  private issues: Record<string, number> = {};
+
+  constructor(dealerId: string, thresholds?: Partial<DealerComSchemaThresholds>) {
+    this.dealerId = dealerId;
+    this.thresholds = { ...getDefaultSchemaThresholds(), ...thresholds };
+  }
+
+  /**
+   * Validate one getInventory response; throws when the envelope itself is
+   * unusable, otherwise returns the page with non-conforming vehicles dropped
+   */
+  validatePage(payload: unknown): DealerComInventoryResponse & { dropped: number } {
+    const envelope = DealerComInventoryResponseSchema.safeParse(payload);
+    if (!envelope.success) {
+      const summary = envelope.error.issues.slice(0, 5).map(describeIssue).join('; ');
+      for (const issue of envelope.error.issues) increment(this.issues, describeIssue(issue));
+      throw new Error(`Dealer.com response failed schema validation: ${summary}`);
+    }
+
+    this.pages++;
+    const inventory: DealerComVehicle[] = [];
+
+    for (const raw of envelope.data.inventory) {
+      this.checked++;
+
+      if (raw && typeof raw === 'object' && !Array.isArray(raw)) {
+        const record = raw as Record<string, unknown>;
+        for (const key of Object.keys(record)) {
+          if (!KNOWN_VEHICLE_FIELDS.has(key)) increment(this.unknownFields, key);
+        }
+        for (const field of EXPECTED_VEHICLE_FIELDS) {
+          if (record[field] === undefined || record[field] === null) increment(this.missingFields, field);
+        }
+      }
+
+      const vehicle = DealerComVehicleSchema.safeParse(raw);
+      if (vehicle.success) {
+        inventory.push(vehicle.data);
+      } else {
+        this.invalid++;
+        for (const issue of vehicle.error.issues) increment(this.issues, describeIssue(issue));
+      }
+    }
+
+    return { ...envelope.data, inventory, dropped: envelope.data.inventory.length - inventory.length };
+  }
+
+  /**
+   * Summarize what was seen so far and decide whether it amounts to drift
+   */
+  getReport(): DealerComSchemaReport {
+    const reasons: string[] = [];
+    const share = (count: number) => this.checked > 0 ? count / this.checked : 0;
+
+    if (this.invalid > 0) {
+      reasons.push(`${this.invalid}/${this.checked} vehicles failed validation`);
+    }
+    for (const [field, count] of Object.entries(this.missingFields)) {
+      if (share(count) >= this.thresholds.missing_field_ratio) {
+        reasons.push(`expected field "${field}" missing on ${count}/${this.checked} vehicles`);
+      }
+    }
+    for (const [field, count] of Object.entries(this.unknownFields)) {
+      if (share(count) >= this.thresholds.unknown_field_ratio) {
+        reasons.push(`unknown field "${field}" present on ${count}/${this.checked} vehicles`);
+      }
+    }
+
+    return {
+      dealer_id: this.dealerId,
+      pages_validated: this.pages,
+      vehicles_checked: this.checked,
+      invalid_vehicles: this.invalid,
+      unknown_fields: { ...this.unknownFields },
+      missing_fields: { ...this.missingFields },
+      issues: { ...this.issues },
+      drift_detected: reasons.length > 0,
+      blocking: this.checked > 0 && share(this.invalid) > this.thresholds.max_invalid_ratio,
+      reasons
+    };
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Dealer Directory
+ *
+ * Looks dealers up in the Open Dealer DB API and resolves the origin of a
+ * dealer's own website, which every site-based platform (Dealer.com, sitemaps,
+ * detail page scraping) fetches from.
+ */
+
+/**
+ * Get a dealer record from the DB API
+ */
+export async function getDealer(dealerId: string): Promise<any> {
+  const dbApiUrl = process.env.OD_DB_API_URL || 'http://localhost:3001';
+
+  const response = await fetch(`${dbApiUrl}/api/v1/dealers/${dealerId}`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to get dealer info: ${response.status} ${response.statusText}`);
+  }
+
+  const result = await response.json() as { data: any };
+  return result.data;
+}
+
+/**
+ * Resolve a dealer's site origin (e.g. https://www.porschesantabarbara.com) from a
+ * configured base URL, falling back to the dealer's domain
+ */
+export function resolveDealerSiteOrigin(dealer: any, configuredBaseUrl?: string): string {
+  const configured = configuredBaseUrl || dealer.domain;
+
+  if (!configured || typeof configured !== 'string') {
+    throw new Error(`No site base URL or domain configured for dealer: ${dealer.name}`);
+  }
+
+  const trimmed = configured.trim();
+  let url: URL;
+  try {
+    url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  } catch {
+    throw new Error(`Invalid site base URL '${configured}' for dealer: ${dealer.name}`);
+  }
+
+  if ((url.protocol !== 'https:' && url.protocol !== 'http:') || !url.hostname.includes('.')) {
+    throw new Error(`Invalid site base URL '${configured}' for dealer: ${dealer.name}`);
+  }
+
+  // Bare domains (porschesantabarbara.com) are served from www
+  if (url.hostname.split('.').length === 2) {
+    url.hostname = `www.${url.hostname}`;
+  }
+
+  return url.origin;
+}
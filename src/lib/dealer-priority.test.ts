@@ -0,0 +1,75 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { DEALER_PRIORITY_TIERS, getPlanTiers, isDealerPriority, resolveDealerPriority, type DealerPriorityOverride } from './dealer-priority.js';
+
+const env = { ...process.env };
+
+afterEach(() => {
+  process.env = { ...env };
+});
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+const override = (expiresAt: string | null): DealerPriorityOverride => ({
+  dealer_id: 'dealer-1',
+  priority: 'premium',
+  reason: 'Launch week',
+  expires_at: expiresAt ? new Date(expiresAt) : null,
+  updated_at: new Date('2026-10-18T12:00:00Z')
+});
+
+describe('getPlanTiers', () => {
+  it('maps the default subscription plans', () => {
+    delete process.env.DEALER_PLAN_TIERS;
+    expect(getPlanTiers()).toEqual({
+      enterprise: 'premium',
+      premium: 'premium',
+      professional: 'standard',
+      standard: 'standard',
+      basic: 'economy',
+      starter: 'economy'
+    });
+  });
+
+  it('reads plan:tier pairs from the environment, normalizing case and skipping bad pairs', () => {
+    process.env.DEALER_PLAN_TIERS = ' Gold : PREMIUM ,silver:standard,bronze:platinum,:economy,trial';
+    expect(getPlanTiers()).toEqual({ gold: 'premium', silver: 'standard' });
+  });
+});
+
+describe('isDealerPriority', () => {
+  it('accepts only the tier names', () => {
+    expect(DEALER_PRIORITY_TIERS.every(isDealerPriority)).toBe(true);
+    expect(isDealerPriority('Premium')).toBe(false);
+    expect(isDealerPriority(undefined)).toBe(false);
+  });
+});
+
+describe('resolveDealerPriority', () => {
+  it('prefers an active override over the dealer fields', () => {
+    const dealer = { priority_tier: 'economy', subscription_plan: 'basic' };
+    expect(resolveDealerPriority(dealer, override(null), now)).toEqual({ priority: 'premium', source: 'override' });
+    expect(resolveDealerPriority(dealer, override('2026-10-20T00:00:00Z'), now)).toEqual({ priority: 'premium', source: 'override' });
+  });
+
+  it('ignores an expired override', () => {
+    expect(resolveDealerPriority({ priority_tier: 'economy' }, override('2026-10-19T12:00:00Z'), now))
+      .toEqual({ priority: 'economy', source: 'dealer' });
+  });
+
+  it('uses the dealer tier, then its subscription plan, then the default', () => {
+    delete process.env.DEALER_PLAN_TIERS;
+    expect(resolveDealerPriority({ priority_tier: ' Premium ', subscription_plan: 'basic' }, null, now))
+      .toEqual({ priority: 'premium', source: 'dealer' });
+    expect(resolveDealerPriority({ priority_tier: 'gold', subscription_plan: ' Enterprise' }, null, now))
+      .toEqual({ priority: 'premium', source: 'plan' });
+    expect(resolveDealerPriority({ subscription_plan: 'starter' }, null, now)).toEqual({ priority: 'economy', source: 'plan' });
+    expect(resolveDealerPriority({ subscription_plan: 'legacy' }, null, now)).toEqual({ priority: 'standard', source: 'default' });
+    expect(resolveDealerPriority({}, undefined, now)).toEqual({ priority: 'standard', source: 'default' });
+  });
+
+  it('maps plans through DEALER_PLAN_TIERS', () => {
+    process.env.DEALER_PLAN_TIERS = 'legacy:economy';
+    expect(resolveDealerPriority({ subscription_plan: 'legacy' }, null, now)).toEqual({ priority: 'economy', source: 'plan' });
+    expect(resolveDealerPriority({ subscription_plan: 'enterprise' }, null, now)).toEqual({ priority: 'standard', source: 'default' });
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Dealer Priority Tiers
+ *
+ * Decides each dealer's scheduling tier (premium / standard / economy), which
+ * orders the queue and staggers the timezone schedule. The tier comes from, in
+ * order: an operator override (dealer_priority_overrides, set through the
+ * schedules API), the dealer's explicit `priority_tier`, its `subscription_plan`
+ * mapped through DEALER_PLAN_TIERS, and finally 'standard'.
+ */
+
+import type { Pool } from 'pg';
+import { databaseManager } from '../utils/database.js';
+import type { JobPriority } from '../queue/job-queue.js';
+
+export type DealerPrioritySource = 'override' | 'dealer' | 'plan' | 'default';
+
+export interface DealerPriority {
+  priority: JobPriority;
+  source: DealerPrioritySource;
+}
+
+export interface DealerPriorityOverride {
+  dealer_id: string;
+  priority: JobPriority;
+  reason: string | null;
+  expires_at: Date | null;   // null = until removed
+  updated_at: Date;
+}
+
+export const DEALER_PRIORITY_TIERS: JobPriority[] = ['premium', 'standard', 'economy'];
+
+/**
+ * Get the pool holding the override table (next to the queue tables)
+ */
+function getOverridePool(pool?: Pool): Pool {
+  return pool || databaseManager.getSchedulerPool();
+}
+
+/**
+ * Whether a value names a priority tier
+ */
+export function isDealerPriority(value: unknown): value is JobPriority {
+  return typeof value === 'string' && DEALER_PRIORITY_TIERS.includes(value as JobPriority);
+}
+
+/**
+ * Subscription plan → tier map, as `plan:tier` pairs (overridable via environment)
+ */
+export function getPlanTiers(): Record<string, JobPriority> {
+  const pairs = (process.env.DEALER_PLAN_TIERS || 'enterprise:premium,premium:premium,professional:standard,standard:standard,basic:economy,starter:economy')
+    .split(',')
+    .map(pair => pair.split(':').map(part => part.trim().toLowerCase()));
+
+  const tiers: Record<string, JobPriority> = {};
+  for (const [plan, tier] of pairs) {
+    if (plan && isDealerPriority(tier)) tiers[plan] = tier;
+  }
+  return tiers;
+}
+
+/**
+ * Resolve a dealer's tier from an active override, its own fields, or the default
+ */
+export function resolveDealerPriority(
+  dealer: { priority_tier?: string | null; subscription_plan?: string | null },
+  override?: DealerPriorityOverride | null,
+  now: Date = new Date()
+): DealerPriority {
+  if (override && (!override.expires_at || override.expires_at > now)) {
+    return { priority: override.priority, source: 'override' };
+  }
+
+  const explicit = dealer.priority_tier?.trim().toLowerCase();
+  if (isDealerPriority(explicit)) {
+    return { priority: explicit, source: 'dealer' };
+  }
+
+  const planTier = dealer.subscription_plan ? getPlanTiers()[dealer.subscription_plan.trim().toLowerCase()] : undefined;
+  if (planTier) {
+    return { priority: planTier, source: 'plan' };
+  }
+
+  return { priority: 'standard', source: 'default' };
+}
+
+/**
+ * Map an override row
+ */
+function toOverride(row: any): DealerPriorityOverride {
+  return {
+    dealer_id: row.dealer_id,
+    priority: row.priority,
+    reason: row.reason || null,
+    expires_at: row.expires_at ? new Date(row.expires_at) : null,
+    updated_at: new Date(row.updated_at)
+  };
+}
+
+/**
+ * Get the overrides that haven't expired, by dealer
+ */
+export async function listDealerPriorityOverrides(pool?: Pool): Promise<Map<string, DealerPriorityOverride>> {
+  const { data, error } = await databaseManager.executeQuery(
+    getOverridePool(pool),
+    `SELECT dealer_id, priority, reason, expires_at, updated_at
+     FROM dealer_priority_overrides
+     WHERE expires_at IS NULL OR expires_at > NOW()
+     ORDER BY dealer_id`
+  );
+
+  if (error || !data) {
+    throw new Error(`Failed to load dealer priority overrides: ${error}`);
+  }
+
+  return new Map(data.map(row => [row.dealer_id, toOverride(row)]));
+}
+
+/**
+ * Set (or replace) a dealer's override
+ */
+export async function saveDealerPriorityOverride(
+  override: Omit<DealerPriorityOverride, 'updated_at'>,
+  pool?: Pool
+): Promise<DealerPriorityOverride> {
+  const { data, error } = await databaseManager.executeQuery(
+    getOverridePool(pool),
+    `INSERT INTO dealer_priority_overrides (dealer_id, priority, reason, expires_at, updated_at)
+     VALUES ($1, $2, $3, $4, NOW())
+     ON CONFLICT (dealer_id) DO UPDATE SET
+       priority = EXCLUDED.priority,
+       reason = EXCLUDED.reason,
+       expires_at = EXCLUDED.expires_at,
+       updated_at = EXCLUDED.updated_at
+     RETURNING dealer_id, priority, reason, expires_at, updated_at`,
+    [override.dealer_id, override.priority, override.reason, override.expires_at]
+  );
+
+  if (error || !data?.[0]) {
+    throw new Error(`Failed to save priority override for dealer ${override.dealer_id}: ${error}`);
+  }
+
+  return toOverride(data[0]);
+}
+
+/**
+ * Remove a dealer's override; returns whether one existed
+ */
+export async function deleteDealerPriorityOverride(dealerId: string, pool?: Pool): Promise<boolean> {
+  const { data, error } = await databaseManager.executeQuery(
+    getOverridePool(pool),
+    `DELETE FROM dealer_priority_overrides WHERE dealer_id = $1 RETURNING dealer_id`,
+    [dealerId]
+  );
+
+  if (error || !data) {
+    throw new Error(`Failed to delete priority override for dealer ${dealerId}: ${error}`);
+  }
+
+  return data.length > 0;
+}
@@ -0,0 +1,146 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { fetchHomeNetVehicles, parseHomeNetResponse, transformHomeNetVehicle } from './homenet-feed.js';
+
+/**
+ * Responses recorded from the SOAP transformer (JSON) and HomeNet IOL (SOAP passthrough)
+ */
+const fixture = (name: string) => readFileSync(join(__dirname, '__fixtures__', 'homenet', name), 'utf8');
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('parseHomeNetResponse', () => {
+  it('collects the vehicles of a SOAP envelope', () => {
+    const page = parseHomeNetResponse(fixture('soap-get-vehicles.xml'));
+
+    expect(page.total_count).toBeNull();
+    expect(page.has_more).toBeNull();
+    expect(page.vehicles).toHaveLength(3);
+    expect(page.vehicles[0]).toMatchObject({ id: '88213407', VIN: '1hgcy1f34ra012345', SellingPrice: '$31,995' });
+  });
+
+  it('raises SOAP faults', () => {
+    expect(() => parseHomeNetResponse(fixture('soap-fault.xml'))).toThrow('HomeNet SOAP fault: Invalid integration token');
+  });
+
+  it('reads the transformer JSON page envelope', () => {
+    const page = parseHomeNetResponse(fixture('json-page-1.json'));
+
+    expect(page.total_count).toBe(3);
+    expect(page.has_more).toBe(true);
+    expect(page.vehicles.map(vehicle => vehicle.vin)).toEqual(['1HGCY1F34RA012345', '19XFL2H88RE021877']);
+  });
+
+  it('raises transformer errors', () => {
+    expect(() => parseHomeNetResponse('{"error":"rooftop collection not found"}'))
+      .toThrow('HomeNet transformer error: rooftop collection not found');
+  });
+});
+
+describe('transformHomeNetVehicle', () => {
+  it('normalizes a SOAP vehicle', () => {
+    const [accord, pilot, noVin] = parseHomeNetResponse(fixture('soap-get-vehicles.xml')).vehicles.map(transformHomeNetVehicle);
+
+    expect(accord).toMatchObject({
+      vin: '1HGCY1F34RA012345',
+      stock_number: 'P4471',
+      year: 2024,
+      make: 'Honda',
+      model: 'Accord',
+      trim: 'EX-L Hybrid',
+      price: 31995,
+      msrp: 35270,
+      condition: 'used',
+      certified: true,
+      mileage: 12408,
+      city_mpg: 46,
+      highway_mpg: 41,
+      combined_mpg: 44,
+      drivetrain: 'FWD',
+      color_ext: 'Platinum White Pearl',
+      factory_options: ['Heated Seats', 'Apple CarPlay', 'Adaptive Cruise Control'],
+      images: [
+        { url: 'https://content.homenetiol.com/2000292/88213407/640x480/1.jpg' },
+        { url: 'https://content.homenetiol.com/2000292/88213407/640x480/2.jpg' }
+      ],
+      homenet_last_modified: '2026-10-18T21:14:03Z',
+      source_priority: 2,
+      url_source: 'homenet'
+    });
+    expect(pilot).toMatchObject({ condition: 'new', certified: false, mileage: 8, factory_options: null, images: null });
+    expect(noVin).toBeNull();
+  });
+
+  it('normalizes a transformer JSON vehicle the same way', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-19T12:00:00Z'));
+
+    const [accord] = parseHomeNetResponse(fixture('json-page-1.json')).vehicles.map(transformHomeNetVehicle);
+
+    expect(accord).toMatchObject({
+      vin: '1HGCY1F34RA012345',
+      stock_number: 'P4471',
+      year: 2024,
+      trim: 'EX-L Hybrid',
+      body_style: 'Sedan',
+      price: 30995,
+      condition: 'used',
+      certified: true,
+      mileage: 12408,
+      factory_options: ['Heated Seats', 'Apple CarPlay'],
+      images: [{ url: 'https://content.homenetiol.com/2000292/88213407/640x480/1.jpg' }],
+      days_in_inventory: 20
+    });
+  });
+});
+
+describe('fetchHomeNetVehicles', () => {
+  const config = {
+    transformerUrl: 'https://soap-transformer.example.com/',
+    integrationToken: 'token-123',
+    rooftopCollection: 'RC-10482',
+    updatedSince: new Date('2026-10-18T00:00:00Z'),
+    pageSize: 2
+  };
+
+  it('asks for the changes since the cursor and pages until the feed has no more', async () => {
+    const pages = [fixture('json-page-1.json'), fixture('json-page-2.json')];
+    const fetchMock = vi.fn(async () => new Response(pages.shift()));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await fetchHomeNetVehicles(config);
+
+    expect(result).toMatchObject({ pages: 2, complete: true });
+    expect(result.vehicles.map(vehicle => vehicle.vin)).toEqual(['1HGCY1F34RA012345', '19XFL2H88RE021877', '2HKRS4H73SH400551']);
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('https://soap-transformer.example.com/homenet/vehicles');
+    expect(fetchMock.mock.calls.map(call => JSON.parse(String((call as unknown as [string, RequestInit])[1].body)))).toEqual([
+      { integration_token: 'token-123', rooftop_collection: 'RC-10482', updated_since: '2026-10-18T00:00:00.000Z', page: 1, page_size: 2 },
+      { integration_token: 'token-123', rooftop_collection: 'RC-10482', updated_since: '2026-10-18T00:00:00.000Z', page: 2, page_size: 2 }
+    ]);
+    expect(init.method).toBe('POST');
+  });
+
+  it('reports a pull cut short by maxPages as incomplete so the cursor stays put', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(fixture('json-page-1.json'))));
+
+    const result = await fetchHomeNetVehicles({ ...config, maxPages: 1 });
+
+    expect(result).toMatchObject({ pages: 1, complete: false });
+    expect(result.vehicles).toHaveLength(2);
+  });
+
+  it('treats a SOAP page as the whole change set when it is shorter than a page', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(fixture('soap-get-vehicles.xml'), { headers: { 'Content-Type': 'text/xml' } })));
+
+    const result = await fetchHomeNetVehicles({ ...config, pageSize: 100 });
+
+    expect(result).toMatchObject({ pages: 1, complete: true });
+    expect(result.vehicles).toHaveLength(3);
+  });
+});
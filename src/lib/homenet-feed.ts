@@ -0,0 +1,296 @@
+/**
+ * HomeNet IOL Feed
+ *
+ * Pulls a rooftop collection's vehicles from HomeNet Inventory Online through
+ * the SOAP transformer service, incrementally: only vehicles updated since the
+ * given timestamp are requested. Responses are parsed whether the transformer
+ * returned JSON or passed the SOAP envelope through, so a recorded response of
+ * either kind can be fed straight to `parseHomeNetResponse`. Vehicles are
+ * normalized into the same shape transformDealerComVehicle produces.
+ */
+
+import { XMLParser } from 'fast-xml-parser';
+import { throttledFetch, createResponseError, type RequestMetrics } from './host-throttle.js';
+
+export interface HomeNetFeedConfig {
+  transformerUrl: string;       // OD_SOAP_TRANSFORMER_URL
+  integrationToken: string;
+  rooftopCollection: string;
+  updatedSince: Date;
+  bearerToken?: string;         // for the transformer service
+  pageSize?: number;
+  maxPages?: number;
+  metrics?: RequestMetrics;
+}
+
+/**
+ * One vehicle as HomeNet sent it (field names vary in case between the SOAP and JSON forms)
+ */
+export type HomeNetVehicle = Record<string, unknown>;
+
+export interface HomeNetPage {
+  vehicles: HomeNetVehicle[];
+  total_count: number | null;
+  has_more: boolean | null;     // null when the response doesn't say
+}
+
+export interface HomeNetFetchResult {
+  vehicles: HomeNetVehicle[];
+  pages: number;
+  complete: boolean;            // false when maxPages cut the pull short
+}
+
+/**
+ * Accepted spellings of each field, compared lower case without separators
+ */
+const FIELD_ALIASES: Record<string, string[]> = {
+  vin: ['vin'],
+  stock: ['stock', 'stocknumber', 'stockno'],
+  type: ['type', 'newused', 'condition', 'vehicletype'],
+  year: ['year', 'modelyear'],
+  make: ['make'],
+  model: ['model'],
+  trim: ['trim', 'series'],
+  body: ['body', 'bodystyle', 'bodytype'],
+  ext_color: ['extcolor', 'exteriorcolor', 'colorext'],
+  int_color: ['intcolor', 'interiorcolor', 'colorint'],
+  engine: ['engine', 'enginedescription'],
+  transmission: ['transmission', 'trans'],
+  drivetrain: ['drivetrain', 'drivetype', 'driveline'],
+  fuel: ['fueltype', 'fuel'],
+  miles: ['miles', 'mileage', 'odometer'],
+  price: ['sellingprice', 'internetprice', 'specialprice', 'price'],
+  msrp: ['msrp', 'retailprice'],
+  certified: ['certified', 'iscertified'],
+  date_in_stock: ['dateinstock', 'instockdate', 'datein'],
+  description: ['description', 'comments', 'sellernotes'],
+  options: ['options', 'optionslist', 'features'],
+  images: ['imagelist', 'images', 'imageurls', 'photourls'],
+  city_mpg: ['citympg', 'epacity'],
+  highway_mpg: ['highwaympg', 'hwympg', 'epahighway'],
+  last_modified: ['lastmodified', 'lastmodifieddate', 'dateupdated', 'updatedat']
+};
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '',
+  removeNSPrefix: true,
+  parseTagValue: false
+});
+
+/**
+ * Read a field by the first of its aliases the vehicle has; empty strings count as missing
+ */
+function getField(vehicle: HomeNetVehicle, field: keyof typeof FIELD_ALIASES): unknown {
+  const entries = Object.entries(vehicle).map(([key, value]) => [key.toLowerCase().replace(/[_\s-]/g, ''), value] as const);
+  for (const alias of FIELD_ALIASES[field]) {
+    for (const [key, value] of entries) {
+      if (key === alias && value !== null && value !== undefined && value !== '') return value;
+    }
+  }
+  return null;
+}
+
+/**
+ * Read a field as trimmed text
+ */
+function getText(vehicle: HomeNetVehicle, field: keyof typeof FIELD_ALIASES): string | null {
+  const value = getField(vehicle, field);
+  if (value === null || typeof value === 'object') return null;
+  const text = String(value).trim();
+  return text.length > 0 ? text : null;
+}
+
+/**
+ * Read a field as a number ("$32,995", "12,345 mi")
+ */
+function getNumber(vehicle: HomeNetVehicle, field: keyof typeof FIELD_ALIASES): number | null {
+  const text = getText(vehicle, field);
+  if (!text) return null;
+  const parsed = parseFloat(text.replace(/[^\d.-]/g, ''));
+  return isNaN(parsed) || parsed === 0 ? null : parsed;
+}
+
+/**
+ * Read a field as a list: arrays as-is, strings split on commas or pipes
+ */
+function getList(vehicle: HomeNetVehicle, field: keyof typeof FIELD_ALIASES): string[] | null {
+  const value = getField(vehicle, field);
+  const items = Array.isArray(value)
+    ? value.map(item => typeof item === 'object' && item ? Object.values(item)[0] : item)
+    : typeof value === 'string' ? value.split(/[|,]/) : [];
+  const list = items.map(item => String(item ?? '').trim()).filter(item => item.length > 0);
+  return list.length > 0 ? list : null;
+}
+
+/**
+ * Collect every element named Vehicle anywhere in a parsed SOAP document
+ */
+function collectXmlVehicles(node: unknown, found: HomeNetVehicle[] = []): HomeNetVehicle[] {
+  if (Array.isArray(node)) {
+    for (const item of node) collectXmlVehicles(item, found);
+  } else if (node && typeof node === 'object') {
+    for (const [key, value] of Object.entries(node)) {
+      if (key.toLowerCase() === 'vehicle') {
+        for (const vehicle of Array.isArray(value) ? value : [value]) {
+          if (vehicle && typeof vehicle === 'object') found.push(vehicle as HomeNetVehicle);
+        }
+      } else {
+        collectXmlVehicles(value, found);
+      }
+    }
+  }
+  return found;
+}
+
+/**
+ * Parse one HomeNet response (transformer JSON or SOAP XML)
+ */
+export function parseHomeNetResponse(body: string): HomeNetPage {
+  const trimmed = body.trim();
+
+  if (trimmed.startsWith('<')) {
+    const document = xmlParser.parse(trimmed);
+    const fault = JSON.stringify(document).match(/"faultstring":"([^"]*)"/i);
+    if (fault) {
+      throw new Error(`HomeNet SOAP fault: ${fault[1]}`);
+    }
+    return { vehicles: collectXmlVehicles(document), total_count: null, has_more: null };
+  }
+
+  const payload = JSON.parse(trimmed);
+  const root = payload?.data ?? payload;
+  if (payload?.error || root?.error) {
+    throw new Error(`HomeNet transformer error: ${payload?.error || root?.error}`);
+  }
+
+  const vehicles = Array.isArray(root) ? root : root?.vehicles ?? root?.Vehicles ?? root?.Vehicle ?? [];
+  if (!Array.isArray(vehicles)) {
+    throw new Error('HomeNet response has no vehicle list');
+  }
+
+  return {
+    vehicles,
+    total_count: typeof root?.total_count === 'number' ? root.total_count : null,
+    has_more: typeof root?.has_more === 'boolean' ? root.has_more : null
+  };
+}
+
+/**
+ * Request one page of vehicles updated since the cursor
+ */
+async function fetchHomeNetPage(config: HomeNetFeedConfig, page: number): Promise<HomeNetPage> {
+  const response = await throttledFetch(`${config.transformerUrl.replace(/\/$/, '')}/homenet/vehicles`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/xml;q=0.9',
+      ...(config.bearerToken && { Authorization: `Bearer ${config.bearerToken}` })
+    },
+    body: JSON.stringify({
+      integration_token: config.integrationToken,
+      rooftop_collection: config.rooftopCollection,
+      updated_since: config.updatedSince.toISOString(),
+      page,
+      page_size: config.pageSize || 100
+    })
+  }, config.metrics);
+
+  if (!response.ok) {
+    throw createResponseError(response);
+  }
+
+  return parseHomeNetResponse(await response.text());
+}
+
+/**
+ * Pull every vehicle updated since `config.updatedSince`, page by page
+ */
+export async function fetchHomeNetVehicles(
+  config: HomeNetFeedConfig,
+  logFunction?: (level: string, message: string, data?: any) => void
+): Promise<HomeNetFetchResult> {
+  const pageSize = config.pageSize || 100;
+  const maxPages = config.maxPages || 50;
+  const vehicles: HomeNetVehicle[] = [];
+
+  for (let page = 1; page <= maxPages; page++) {
+    const result = await fetchHomeNetPage(config, page);
+    vehicles.push(...result.vehicles);
+
+    logFunction?.('info', `Retrieved ${result.vehicles.length} HomeNet vehicles from page ${page}`, {
+      rooftopCollection: config.rooftopCollection,
+      updatedSince: config.updatedSince.toISOString(),
+      totalCount: result.total_count
+    });
+
+    const more = result.has_more ?? (result.total_count !== null
+      ? vehicles.length < result.total_count
+      : result.vehicles.length >= pageSize);
+    if (!more || result.vehicles.length === 0) {
+      return { vehicles, pages: page, complete: true };
+    }
+  }
+
+  logFunction?.('warn', `HomeNet pull truncated at ${maxPages} pages`, { rooftopCollection: config.rooftopCollection });
+  return { vehicles, pages: maxPages, complete: false };
+}
+
+/**
+ * Whole days since a date, or null
+ */
+function daysSince(value: string | null): number | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : Math.max(0, Math.floor((Date.now() - date.getTime()) / (24 * 60 * 60 * 1000)));
+}
+
+/**
+ * Normalize a HomeNet vehicle into the shape transformDealerComVehicle produces
+ */
+export function transformHomeNetVehicle(vehicle: HomeNetVehicle): Record<string, any> | null {
+  const vin = getText(vehicle, 'vin')?.toUpperCase();
+  if (!vin) return null;
+
+  const type = getText(vehicle, 'type')?.toLowerCase() || '';
+  const certifiedText = getText(vehicle, 'certified')?.toLowerCase();
+  const certified = certifiedText === 'true' || certifiedText === 'yes' || certifiedText === '1' || type.includes('certified');
+  const cityMpg = getNumber(vehicle, 'city_mpg');
+  const highwayMpg = getNumber(vehicle, 'highway_mpg');
+  const year = getNumber(vehicle, 'year');
+  const miles = getNumber(vehicle, 'miles');
+  const options = getList(vehicle, 'options');
+  const images = getList(vehicle, 'images');
+
+  return {
+    vin,
+    stock_number: getText(vehicle, 'stock'),
+    year: year ? Math.round(year) : null,
+    make: getText(vehicle, 'make'),
+    model: getText(vehicle, 'model'),
+    trim: getText(vehicle, 'trim'),
+    description: getText(vehicle, 'description'),
+    price: getNumber(vehicle, 'price'),
+    msrp: getNumber(vehicle, 'msrp'),
+    condition: type.startsWith('n') ? 'new' : type ? 'used' : null,
+    certified,
+    mileage: miles !== null ? Math.round(miles) : null,
+    city_mpg: cityMpg ? Math.round(cityMpg) : null,
+    highway_mpg: highwayMpg ? Math.round(highwayMpg) : null,
+    combined_mpg: cityMpg && highwayMpg ? Math.round(0.55 * cityMpg + 0.45 * highwayMpg) : null,
+    engine_specification: getText(vehicle, 'engine'),
+    transmission: getText(vehicle, 'transmission'),
+    drivetrain: getText(vehicle, 'drivetrain'),
+    body_style: getText(vehicle, 'body'),
+    fuel_type: getText(vehicle, 'fuel'),
+    color_ext: getText(vehicle, 'ext_color'),
+    color_int: getText(vehicle, 'int_color'),
+    factory_options: options,
+    images: images?.map(url => ({ url })) || null,
+    days_in_inventory: daysSince(getText(vehicle, 'date_in_stock')),
+    homenet_last_modified: getText(vehicle, 'last_modified'),
+    raw: vehicle,
+    source_priority: 2, // 2 = homenet (after dealer_com)
+    url_source: 'homenet'
+  };
+}
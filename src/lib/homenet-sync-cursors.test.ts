@@ -0,0 +1,42 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { Pool } from 'pg';
+import { getHomeNetSyncCursor, saveHomeNetSyncCursor } from './homenet-sync-cursors.js';
+
+const poolReturning = (rows: any[]) => ({ query: vi.fn(async () => ({ rows })) }) as unknown as Pool & { query: ReturnType<typeof vi.fn> };
+
+describe('HomeNet sync cursors', () => {
+  it('returns null before the first pull', async () => {
+    expect(await getHomeNetSyncCursor('dealer-1', 'RC-10482', poolReturning([]))).toBeNull();
+  });
+
+  it('reads the stored watermark', async () => {
+    const pool = poolReturning([{
+      dealer_id: 'dealer-1',
+      rooftop_collection: 'RC-10482',
+      updated_since: '2026-10-19T06:00:00.000Z',
+      vehicles_received: 3,
+      synced_at: '2026-10-19T06:00:41.000Z'
+    }]);
+
+    const cursor = await getHomeNetSyncCursor('dealer-1', 'RC-10482', pool);
+
+    expect(cursor?.updated_since.toISOString()).toBe('2026-10-19T06:00:00.000Z');
+    expect(cursor?.vehicles_received).toBe(3);
+    expect(pool.query.mock.calls[0][1]).toEqual(['dealer-1', 'RC-10482']);
+  });
+
+  it('moves the watermark to the pull start', async () => {
+    const pool = poolReturning([]);
+    const startedAt = new Date('2026-10-19T07:00:00Z');
+
+    await saveHomeNetSyncCursor('dealer-1', 'RC-10482', startedAt, 3, pool);
+
+    expect(pool.query.mock.calls[0][0]).toContain('ON CONFLICT (dealer_id, rooftop_collection) DO UPDATE');
+    expect(pool.query.mock.calls[0][1]).toEqual(['dealer-1', 'RC-10482', startedAt, 3]);
+  });
+
+  it('throws when the cursor cannot be read', async () => {
+    const pool = { query: vi.fn(async () => { throw new Error('relation "homenet_sync_cursors" does not exist'); }) } as unknown as Pool;
+    await expect(getHomeNetSyncCursor('dealer-1', 'RC-10482', pool)).rejects.toThrow(/Failed to load HomeNet sync cursor for dealer dealer-1/);
+  });
+});
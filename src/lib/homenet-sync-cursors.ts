@@ -0,0 +1,84 @@
+/**
+ * HomeNet Sync Cursors
+ *
+ * The updated-since watermark of each dealer's HomeNet pull, keyed on
+ * (dealer_id, rooftop_collection). A pull asks only for vehicles changed since
+ * the cursor; the cursor moves to the pull's start time once the pull is
+ * stored, so a failed run simply asks for the same window again.
+ */
+
+import type { Pool } from 'pg';
+import { databaseManager } from '../utils/database.js';
+
+export interface HomeNetSyncCursor {
+  dealer_id: string;
+  rooftop_collection: string;
+  updated_since: Date;
+  vehicles_received: number;  // by the pull that set this cursor
+  synced_at: Date;
+}
+
+/**
+ * Get the pool holding the cursor table (next to the vehicles table)
+ */
+function getCursorPool(pool?: Pool): Pool {
+  return pool || databaseManager.getSftpGoPool();
+}
+
+/**
+ * Get a dealer's cursor for a rooftop collection, or null before the first pull
+ */
+export async function getHomeNetSyncCursor(
+  dealerId: string,
+  rooftopCollection: string,
+  pool?: Pool
+): Promise<HomeNetSyncCursor | null> {
+  const { data, error } = await databaseManager.executeQuery(
+    getCursorPool(pool),
+    `SELECT dealer_id, rooftop_collection, updated_since, vehicles_received, synced_at
+     FROM homenet_sync_cursors
+     WHERE dealer_id = $1 AND rooftop_collection = $2`,
+    [dealerId, rooftopCollection]
+  );
+
+  if (error || !data) {
+    throw new Error(`Failed to load HomeNet sync cursor for dealer ${dealerId}: ${error}`);
+  }
+
+  const row = data[0];
+  if (!row) return null;
+
+  return {
+    dealer_id: row.dealer_id,
+    rooftop_collection: row.rooftop_collection,
+    updated_since: new Date(row.updated_since),
+    vehicles_received: row.vehicles_received,
+    synced_at: new Date(row.synced_at)
+  };
+}
+
+/**
+ * Move a dealer's cursor after a stored pull
+ */
+export async function saveHomeNetSyncCursor(
+  dealerId: string,
+  rooftopCollection: string,
+  updatedSince: Date,
+  vehiclesReceived: number,
+  pool?: Pool
+): Promise<void> {
+  const { error } = await databaseManager.executeQuery(
+    getCursorPool(pool),
+    `INSERT INTO homenet_sync_cursors (dealer_id, rooftop_collection, updated_since, vehicles_received, synced_at)
+     VALUES ($1, $2, $3, $4, NOW())
+     ON CONFLICT (dealer_id, rooftop_collection) DO UPDATE SET
+       updated_since = EXCLUDED.updated_since,
+       vehicles_received = EXCLUDED.vehicles_received,
+       synced_at = EXCLUDED.synced_at`,
+    [dealerId, rooftopCollection, updatedSince, vehiclesReceived]
+  );
+
+  if (error) {
+    throw new Error(`Failed to save HomeNet sync cursor for dealer ${dealerId}: ${error}`);
+  }
+}
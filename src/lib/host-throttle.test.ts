@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRequestMetrics, createResponseError, parseRetryAfter, throttledFetch } from './host-throttle.js';
+
+const env = { ...process.env };
+let hostCount = 0;
+
+/**
+ * A host no earlier test has used, so each test starts with a fresh bucket and breaker
+ */
+const freshUrl = () => `https://dealer-${++hostCount}.example.com/inventory`;
+
+/**
+ * Whether a promise has settled after flushing pending microtasks
+ */
+async function isSettled(promise: Promise<unknown>): Promise<boolean> {
+  let settled = false;
+  promise.then(() => { settled = true; }, () => { settled = true; });
+  await vi.advanceTimersByTimeAsync(0);
+  return settled;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  process.env.HOST_RATE_LIMIT_PER_SECOND = '1';
+  process.env.HOST_RATE_LIMIT_BURST = '2';
+  process.env.HOST_CIRCUIT_FAILURE_THRESHOLD = '2';
+  process.env.HOST_CIRCUIT_COOLDOWN_MS = '60000';
+  process.env.HOST_MAX_RETRY_AFTER_MS = '30000';
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  process.env = { ...env };
+});
+
+describe('parseRetryAfter', () => {
+  it('reads delta-seconds and HTTP dates', () => {
+    const now = Date.parse('2026-10-19T12:00:00Z');
+    expect(parseRetryAfter('120', now)).toBe(120000);
+    expect(parseRetryAfter('Mon, 19 Oct 2026 12:00:30 GMT', now)).toBe(30000);
+    expect(parseRetryAfter('Mon, 19 Oct 2026 11:00:00 GMT', now)).toBe(0);
+    expect(parseRetryAfter('soon', now)).toBeNull();
+    expect(parseRetryAfter(null, now)).toBeNull();
+  });
+
+  it('carries status and Retry-After on response errors', () => {
+    const error = createResponseError(new Response('', { status: 429, statusText: 'Too Many Requests', headers: { 'retry-after': '5' } }));
+    expect(error).toMatchObject({ message: 'HTTP 429: Too Many Requests', status: 429, retryAfterMs: 5000 });
+  });
+});
+
+describe('throttledFetch token bucket', () => {
+  it('lets a burst through and spaces out the rest at the refill rate', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('ok')));
+    const url = freshUrl();
+
+    await throttledFetch(url);
+    await throttledFetch(url);
+
+    const third = throttledFetch(url);
+    expect(await isSettled(third)).toBe(false);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(await isSettled(third)).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(await isSettled(third)).toBe(true);
+  });
+
+  it('waits out a short Retry-After once and retries', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response('', { status: 429, headers: { 'retry-after': '10' } }))
+      .mockResolvedValueOnce(new Response('ok'));
+    vi.stubGlobal('fetch', fetchMock);
+    const metrics = createRequestMetrics();
+
+    const request = throttledFetch(freshUrl(), undefined, metrics);
+    await vi.advanceTimersByTimeAsync(9999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect((await request).status).toBe(200);
+    expect(metrics).toMatchObject({ api_calls: 2, rate_limits_hit: 1 });
+  });
+});
+
+describe('throttledFetch circuit breaker', () => {
+  it('opens after consecutive failures and fails fast until the cooldown passes', async () => {
+    const fetchMock = vi.fn(async () => new Response('', { status: 503 }));
+    vi.stubGlobal('fetch', fetchMock);
+    const url = freshUrl();
+
+    expect((await throttledFetch(url)).status).toBe(503);
+    expect((await throttledFetch(url)).status).toBe(503);
+    await expect(throttledFetch(url)).rejects.toMatchObject({ code: 'CIRCUIT_OPEN', retryAfterMs: 60000 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    // After the cooldown one trial goes out; its success closes the circuit
+    await vi.advanceTimersByTimeAsync(60000);
+    fetchMock.mockImplementation(async () => new Response('ok'));
+    expect((await throttledFetch(url)).status).toBe(200);
+    expect((await throttledFetch(url)).status).toBe(200);
+  });
+
+  it('re-opens when the half-open trial fails', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 500 })));
+    const url = freshUrl();
+
+    await throttledFetch(url);
+    await throttledFetch(url);
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect((await throttledFetch(url)).status).toBe(500);
+    await expect(throttledFetch(url)).rejects.toMatchObject({ code: 'CIRCUIT_OPEN' });
+  });
+
+  it('does not count client errors as failures', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 404 })));
+    const url = freshUrl();
+
+    for (let i = 0; i < 3; i++) {
+      const request = throttledFetch(url);
+      await vi.advanceTimersByTimeAsync(1000);
+      expect((await request).status).toBe(404);
+    }
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * Per-Host Request Throttling
+ *
+ * Outbound requests to dealer sites go through `throttledFetch`, which keeps
+ * one token bucket and one circuit breaker per host for the whole worker
+ * process, so concurrent jobs hitting the same rooftop or CDN share a budget.
+ * A 429/503 carrying `Retry-After` pauses the host's bucket for that long (and
+ * the request is retried once when the wait is short); repeated 429/5xx
+ * responses open the host's circuit so further requests fail fast until it
+ * cools down.
+ */
+
+export interface HostThrottleConfig {
+  requests_per_second: number;
+  burst: number;
+  failure_threshold: number;    // consecutive 429/5xx responses that open the circuit
+  cooldown_ms: number;          // how long an open circuit rejects requests
+  max_retry_after_ms: number;   // longest Retry-After waited out in-line
+}
+
+export interface RequestMetrics {
+  api_calls: number;
+  rate_limits_hit: number;
+  total_response_ms: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Default throttle settings (overridable via environment)
+ */
+export function getDefaultHostThrottleConfig(): HostThrottleConfig {
+  return {
+    requests_per_second: parseFloat(process.env.HOST_RATE_LIMIT_PER_SECOND || '2'),
+    burst: parseInt(process.env.HOST_RATE_LIMIT_BURST || '5'),
+    failure_threshold: parseInt(process.env.HOST_CIRCUIT_FAILURE_THRESHOLD || '5'),
+    cooldown_ms: parseInt(process.env.HOST_CIRCUIT_COOLDOWN_MS || '60000'),
+    max_retry_after_ms: parseInt(process.env.HOST_MAX_RETRY_AFTER_MS || '30000')
+  };
+}
+
+/**
+ * Resolve after the given number of milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Token bucket that hands out reservations: callers that find it empty take a
+ * token on credit and wait until it would have refilled, so waiters are spaced
+ * out in arrival order
+ */
+class TokenBucket {
+  private ratePerSecond: number;
+  private capacity: number;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+
+  constructor(ratePerSecond: number, capacity: number) {
+    this.ratePerSecond = ratePerSecond;
+    this.capacity = capacity;
+    this.tokens = capacity;
+  }
+
+  /**
+   * Wait for a token (and for any Retry-After pause to pass)
+   */
+  async take(): Promise<void> {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.ratePerSecond);
+    this.lastRefill = now;
+    this.tokens -= 1;
+
+    const refillWait = this.tokens < 0 ? (-this.tokens / this.ratePerSecond) * 1000 : 0;
+    const pauseWait = Math.max(0, this.pausedUntil - now);
+    const wait = Math.max(refillWait, pauseWait);
+    if (wait > 0) await sleep(wait);
+  }
+
+  /**
+   * Hold every request to the host for the given time
+   */
+  pauseFor(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+}
+
+/**
+ * Consecutive-failure circuit breaker; after the cooldown a single trial
+ * request is let through (half-open) and its outcome closes or re-opens it
+ */
+class CircuitBreaker {
+  private failureThreshold: number;
+  private cooldownMs: number;
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openUntil = 0;
+  private trialInFlight = false;
+
+  constructor(failureThreshold: number, cooldownMs: number) {
+    this.failureThreshold = failureThreshold;
+    this.cooldownMs = cooldownMs;
+  }
+
+  /**
+   * Whether a request may go out now (claims the trial slot when half-open)
+   */
+  allowRequest(): boolean {
+    if (this.state === 'open') {
+      if (Date.now() < this.openUntil) return false;
+      this.state = 'half_open';
+    }
+    if (this.state === 'half_open') {
+      if (this.trialInFlight) return false;
+      this.trialInFlight = true;
+    }
+    return true;
+  }
+
+  /**
+   * The host answered with something other than 429/5xx
+   */
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.failures = 0;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * The host answered 429/5xx; opens the circuit at the threshold (or on a failed trial)
+   */
+  recordFailure(retryAfterMs: number | null): void {
+    this.failures++;
+    this.trialInFlight = false;
+    if (this.state === 'half_open' || this.failures >= this.failureThreshold) {
+      this.state = 'open';
+      this.openUntil = Date.now() + Math.max(this.cooldownMs, retryAfterMs ?? 0);
+    }
+  }
+
+  /**
+   * The request never got an answer (network error); frees the trial slot
+   */
+  release(): void {
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Current state, reporting an expired open circuit as half-open
+   */
+  getState(): CircuitState {
+    return this.state === 'open' && Date.now() >= this.openUntil ? 'half_open' : this.state;
+  }
+
+  /**
+   * Time until an open circuit lets a trial request through
+   */
+  remainingOpenMs(): number {
+    return Math.max(0, this.openUntil - Date.now());
+  }
+}
+
+interface HostState {
+  bucket: TokenBucket;
+  breaker: CircuitBreaker;
+}
+
+const hosts = new Map<string, HostState>();
+
+/**
+ * Get (creating on first use) the shared limiter and breaker for a host
+ */
+function getHostState(host: string): HostState {
+  let state = hosts.get(host);
+  if (!state) {
+    const config = getDefaultHostThrottleConfig();
+    state = {
+      bucket: new TokenBucket(config.requests_per_second, config.burst),
+      breaker: new CircuitBreaker(config.failure_threshold, config.cooldown_ms)
+    };
+    hosts.set(host, state);
+  }
+  return state;
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number | null {
+  if (!header) return null;
+
+  const trimmed = header.trim();
+  if (/^\d+$/.test(trimmed)) return parseInt(trimmed) * 1000;
+
+  const date = Date.parse(trimmed);
+  return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Empty per-job request metrics
+ */
+export function createRequestMetrics(): RequestMetrics {
+  return { api_calls: 0, rate_limits_hit: 0, total_response_ms: 0 };
+}
+
+/**
+ * Average response time in milliseconds across the calls in `metrics`
+ */
+export function getAverageResponseTime(metrics: RequestMetrics): number {
+  return metrics.api_calls > 0 ? Math.round(metrics.total_response_ms / metrics.api_calls) : 0;
+}
+
+/**
+ * Build the error for a failed response, carrying its status and any
+ * Retry-After so the retry policy can honour it
+ */
+export function createResponseError(response: Response, message?: string): Error {
+  return Object.assign(new Error(message || `HTTP ${response.status}: ${response.statusText}`), {
+    status: response.status,
+    retryAfterMs: parseRetryAfter(response.headers.get('retry-after')) ?? undefined
+  });
+}
+
+/**
+ * fetch() through the host's rate limiter and circuit breaker, recording the
+ * call in `metrics`. Throws (code CIRCUIT_OPEN) without sending when the host's
+ * circuit is open; 429/5xx responses are returned to the caller as usual.
+ */
+export async function throttledFetch(url: string, init?: RequestInit, metrics?: RequestMetrics): Promise<Response> {
+  const host = new URL(url).host;
+  const state = getHostState(host);
+  const { max_retry_after_ms } = getDefaultHostThrottleConfig();
+
+  for (let attempt = 1; ; attempt++) {
+    if (!state.breaker.allowRequest()) {
+      const retryAfterMs = state.breaker.remainingOpenMs();
+      throw Object.assign(new Error(`Circuit open for ${host}; retry in ${Math.ceil(retryAfterMs / 1000)}s`), {
+        code: 'CIRCUIT_OPEN',
+        retryAfterMs
+      });
+    }
+
+    await state.bucket.take();
+
+    const startedAt = Date.now();
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } catch (error) {
+      state.breaker.release();
+      throw error;
+    } finally {
+      if (metrics) {
+        metrics.api_calls++;
+        metrics.total_response_ms += Date.now() - startedAt;
+      }
+    }
+
+    if (response.status !== 429 && response.status < 500) {
+      state.breaker.recordSuccess();
+      return response;
+    }
+
+    if (response.status === 429 && metrics) metrics.rate_limits_hit++;
+
+    const retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+    if (retryAfterMs !== null) state.bucket.pauseFor(retryAfterMs);
+    state.breaker.recordFailure(retryAfterMs);
+
+    // Wait out a short Retry-After once instead of failing the whole job
+    if (attempt === 1 && retryAfterMs !== null && retryAfterMs <= max_retry_after_ms && state.breaker.getState() === 'closed') {
+      await response.body?.cancel();
+      continue;
+    }
+
+    return response;
+  }
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { diffInventory } from './inventory-changes.js';
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+const stored = (vin: string, fields: Record<string, any> = {}) => ({
+  vin,
+  price: '25000.00',
+  msrp: '27000.00',
+  make: 'Honda',
+  model: 'Civic',
+  mileage: 12000,
+  created_at: '2026-10-09T12:00:00Z',
+  ...fields
+});
+
+const pulled = (vin: string, fields: Record<string, any> = {}) => ({
+  vin,
+  price: 25000,
+  msrp: 27000,
+  make: 'Honda',
+  model: 'Civic',
+  mileage: 12000,
+  ...fields
+});
+
+describe('diffInventory', () => {
+  it('counts added, unchanged and repriced vehicles', () => {
+    const diff = diffInventory(
+      'dealer-1',
+      [stored('VIN1'), stored('VIN2')],
+      [pulled('vin1'), pulled('VIN2', { price: 24000, days_in_inventory: 11 }), pulled('VIN3')],
+      { complete: true, now }
+    );
+
+    expect(diff.counts).toEqual({ added: 1, price_changed: 1, attributes_changed: 0, removed: 0, unchanged: 1 });
+    expect(diff.changes.find(change => change.vin === 'VIN2')).toMatchObject({
+      change_type: 'price_changed',
+      changed_fields: ['price'],
+      before: { price: '25000.00', msrp: '27000.00' },
+      after: { price: 24000, msrp: 27000 },
+      days_since_first_seen: 10,
+      days_in_inventory_reported: 11
+    });
+    expect(diff.changes.find(change => change.vin === 'VIN3')).toMatchObject({ change_type: 'added', first_seen_at: now });
+  });
+
+  it('reports price and attribute changes of one vehicle separately', () => {
+    const diff = diffInventory('dealer-1', [stored('VIN1')], [pulled('VIN1', { msrp: 26500, mileage: 12500 })], { complete: true, now });
+
+    expect(diff.counts).toMatchObject({ price_changed: 1, attributes_changed: 1, unchanged: 0 });
+    expect(diff.changes.map(change => [change.change_type, change.changed_fields])).toEqual([
+      ['price_changed', ['msrp']],
+      ['attributes_changed', ['mileage']]
+    ]);
+  });
+
+  it('only detects removals from complete pulls', () => {
+    const previous = [stored('VIN1'), stored('VIN2')];
+
+    const complete = diffInventory('dealer-1', previous, [pulled('VIN1')], { complete: true, now });
+    expect(complete.removed_vins).toEqual(['VIN2']);
+    expect(complete.counts.removed).toBe(1);
+
+    const partial = diffInventory('dealer-1', previous, [], { complete: false, now });
+    expect(partial.removed_vins).toEqual([]);
+    expect(partial.changes).toEqual([]);
+  });
+
+  it('ignores vehicles without a VIN and duplicate VINs in the pull', () => {
+    const diff = diffInventory('dealer-1', [], [pulled(''), pulled('VIN1'), pulled('VIN1', { price: 1 })], { complete: true, now });
+    expect(diff.counts.added).toBe(1);
+    expect(diff.changes[0].after).toMatchObject({ price: 25000 });
+  });
+});
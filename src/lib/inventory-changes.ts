@@ -0,0 +1,302 @@
+/**
+ * Inventory Change Tracking
+ *
+ * Compares a dealer's freshly pulled inventory with what we had stored and
+ * classifies each vehicle as a new arrival, a price change, an attribute
+ * change, or a removal (likely sold). Changes are recorded with before/after
+ * values in vehicle_inventory_changes and feed the per-dealer change feed.
+ */
+
+import type { Pool } from 'pg';
+import { databaseManager } from '../utils/database.js';
+import { normalizeVin } from './vehicle-store.js';
+
+export type InventoryChangeType = 'added' | 'price_changed' | 'attributes_changed' | 'removed';
+
+export interface InventoryChange {
+  dealer_id: string;
+  vin: string;
+  change_type: InventoryChangeType;
+  changed_fields: string[];
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+  first_seen_at: Date | null;
+  days_since_first_seen: number | null;
+  days_in_inventory_reported: number | null;
+}
+
+export interface InventoryDiff {
+  changes: InventoryChange[];
+  counts: Record<InventoryChangeType, number> & { unchanged: number };
+  removed_vins: string[];
+}
+
+export interface InventoryDiffOptions {
+  /**
+   * Whether the pull covered the dealer's whole inventory; removals are only
+   * detected from complete pulls so a truncated or empty fetch can't "sell" stock
+   */
+  complete: boolean;
+  now?: Date;
+}
+
+export interface InventoryChangeFilter {
+  dealer_id?: string;
+  vin?: string;
+  change_type?: InventoryChangeType;
+  since?: Date;
+  until?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+export interface StoredInventoryChange extends InventoryChange {
+  id: number;
+  job_id: string | null;
+  detected_at: Date;
+}
+
+export const INVENTORY_CHANGE_TYPES: InventoryChangeType[] = ['added', 'price_changed', 'attributes_changed', 'removed'];
+
+const PRICE_FIELDS = ['price', 'msrp'];
+
+/**
+ * Listing attributes whose changes are tracked (pricing is tracked separately)
+ */
+const TRACKED_ATTRIBUTES = [
+  'stock_number', 'year', 'make', 'model', 'trim', 'condition', 'certified', 'availability_status',
+  'mileage', 'body_style', 'fuel_type', 'color_ext', 'color_int', 'engine_specification',
+  'transmission', 'drivetrain', 'dealer_page_url', 'offsite_location', 'expected_arrival_date'
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Compare two field values, treating numeric strings from the database as numbers
+ */
+function sameValue(a: any, b: any): boolean {
+  if ((a === null || a === undefined) && (b === null || b === undefined)) return true;
+  if (typeof a === 'number' || typeof b === 'number') {
+    return Number(a) === Number(b);
+  }
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Pick a subset of fields from a vehicle record
+ */
+function pickFields(vehicle: Record<string, any>, fields: string[]): Record<string, any> {
+  const picked: Record<string, any> = {};
+  for (const field of fields) {
+    picked[field] = vehicle[field] ?? null;
+  }
+  return picked;
+}
+
+/**
+ * Diff a dealer's stored inventory (available vehicles) against a fresh pull
+ */
+export function diffInventory(
+  dealerId: string,
+  previous: Record<string, any>[],
+  current: Record<string, any>[],
+  options: InventoryDiffOptions
+): InventoryDiff {
+  const now = options.now || new Date();
+  const counts = { added: 0, price_changed: 0, attributes_changed: 0, removed: 0, unchanged: 0 };
+  const changes: InventoryChange[] = [];
+
+  const previousByVin = new Map<string, Record<string, any>>();
+  for (const vehicle of previous) {
+    const vin = normalizeVin(vehicle.vin);
+    if (vin) previousByVin.set(vin, vehicle);
+  }
+
+  const currentVins = new Set<string>();
+  for (const vehicle of current) {
+    const vin = normalizeVin(vehicle.vin);
+    if (!vin || currentVins.has(vin)) continue;
+    currentVins.add(vin);
+
+    const before = previousByVin.get(vin);
+    const reportedDays = typeof vehicle.days_in_inventory === 'number' ? vehicle.days_in_inventory : null;
+
+    if (!before) {
+      counts.added++;
+      changes.push({
+        dealer_id: dealerId,
+        vin,
+        change_type: 'added',
+        changed_fields: [],
+        before: null,
+        after: pickFields(vehicle, [...PRICE_FIELDS, ...TRACKED_ATTRIBUTES]),
+        first_seen_at: now,
+        days_since_first_seen: 0,
+        days_in_inventory_reported: reportedDays
+      });
+      continue;
+    }
+
+    const firstSeenAt = before.created_at ? new Date(before.created_at) : null;
+    const lifecycle = {
+      first_seen_at: firstSeenAt,
+      days_since_first_seen: firstSeenAt ? Math.floor((now.getTime() - firstSeenAt.getTime()) / DAY_MS) : null,
+      days_in_inventory_reported: reportedDays
+    };
+
+    const changedPrices = PRICE_FIELDS.filter(field => !sameValue(before[field], vehicle[field]));
+    const changedAttributes = TRACKED_ATTRIBUTES.filter(field => !sameValue(before[field], vehicle[field]));
+
+    if (changedPrices.length > 0) {
+      counts.price_changed++;
+      changes.push({
+        dealer_id: dealerId,
+        vin,
+        change_type: 'price_changed',
+        changed_fields: changedPrices,
+        before: pickFields(before, PRICE_FIELDS),
+        after: pickFields(vehicle, PRICE_FIELDS),
+        ...lifecycle
+      });
+    }
+    if (changedAttributes.length > 0) {
+      counts.attributes_changed++;
+      changes.push({
+        dealer_id: dealerId,
+        vin,
+        change_type: 'attributes_changed',
+        changed_fields: changedAttributes,
+        before: pickFields(before, changedAttributes),
+        after: pickFields(vehicle, changedAttributes),
+        ...lifecycle
+      });
+    }
+    if (changedPrices.length === 0 && changedAttributes.length === 0) {
+      counts.unchanged++;
+    }
+  }
+
+  const removedVins: string[] = [];
+  if (options.complete) {
+    for (const [vin, before] of previousByVin) {
+      if (currentVins.has(vin)) continue;
+
+      const firstSeenAt = before.created_at ? new Date(before.created_at) : null;
+      counts.removed++;
+      removedVins.push(vin);
+      changes.push({
+        dealer_id: dealerId,
+        vin,
+        change_type: 'removed',
+        changed_fields: [],
+        before: pickFields(before, [...PRICE_FIELDS, ...TRACKED_ATTRIBUTES]),
+        after: null,
+        first_seen_at: firstSeenAt,
+        days_since_first_seen: firstSeenAt ? Math.floor((now.getTime() - firstSeenAt.getTime()) / DAY_MS) : null,
+        days_in_inventory_reported: typeof before.days_in_inventory === 'number' ? before.days_in_inventory : null
+      });
+    }
+  }
+
+  return { changes, counts, removed_vins: removedVins };
+}
+
+/**
+ * Get the pool holding the vehicles and vehicle_inventory_changes tables
+ */
+function getChangePool(pool?: Pool): Pool {
+  return pool || databaseManager.getSftpGoPool();
+}
+
+/**
+ * Record inventory changes detected by a job
+ */
+export async function recordInventoryChanges(
+  changes: InventoryChange[],
+  jobId: string | null,
+  pool?: Pool
+): Promise<void> {
+  const batchSize = 200;
+
+  for (let start = 0; start < changes.length; start += batchSize) {
+    const batch = changes.slice(start, start + batchSize);
+    const values: any[] = [];
+    const rows = batch.map(change => {
+      const offset = values.length;
+      values.push(
+        change.dealer_id,
+        change.vin,
+        change.change_type,
+        change.changed_fields,
+        change.before ? JSON.stringify(change.before) : null,
+        change.after ? JSON.stringify(change.after) : null,
+        change.first_seen_at,
+        change.days_since_first_seen,
+        change.days_in_inventory_reported,
+        jobId
+      );
+      const p = (index: number) => `$${offset + index}`;
+      return `(${p(1)}, ${p(2)}, ${p(3)}, ${p(4)}, ${p(5)}::jsonb, ${p(6)}::jsonb, ${p(7)}, ${p(8)}, ${p(9)}, ${p(10)})`;
+    });
+
+    const { error } = await databaseManager.executeQuery(
+      getChangePool(pool),
+      `INSERT INTO vehicle_inventory_changes (
+         dealer_id, vin, change_type, changed_fields, before, after,
+         first_seen_at, days_since_first_seen, days_in_inventory_reported, job_id
+       )
+       VALUES ${rows.join(', ')}`,
+      values
+    );
+
+    if (error) {
+      throw new Error(`Failed to record inventory changes: ${error}`);
+    }
+  }
+}
+
+/**
+ * List recorded inventory changes, newest first
+ */
+export async function listInventoryChanges(
+  filter: InventoryChangeFilter = {},
+  pool?: Pool
+): Promise<{ changes: StoredInventoryChange[]; total: number }> {
+  const conditions: string[] = [];
+  const params: any[] = [];
+  const addCondition = (sql: string, value: any) => {
+    params.push(value);
+    conditions.push(sql.replace('?', `$${params.length}`));
+  };
+
+  if (filter.dealer_id) addCondition('dealer_id = ?', filter.dealer_id);
+  if (filter.vin) addCondition('vin = ?', normalizeVin(filter.vin));
+  if (filter.change_type) addCondition('change_type = ?', filter.change_type);
+  if (filter.since) addCondition('detected_at >= ?', filter.since);
+  if (filter.until) addCondition('detected_at < ?', filter.until);
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const changePool = getChangePool(pool);
+
+  const { data: countRows, error: countError } = await databaseManager.executeQuery(
+    changePool,
+    `SELECT COUNT(*)::int AS total FROM vehicle_inventory_changes ${where}`,
+    params
+  );
+  if (countError || !countRows) {
+    throw new Error(`Failed to count inventory changes: ${countError}`);
+  }
+
+  const { data, error } = await databaseManager.executeQuery<StoredInventoryChange>(
+    changePool,
+    `SELECT * FROM vehicle_inventory_changes ${where}
+     ORDER BY detected_at DESC, id DESC
+     LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+    [...params, filter.limit ?? 100, filter.offset ?? 0]
+  );
+  if (error || !data) {
+    throw new Error(`Failed to list inventory changes: ${error}`);
+  }
+
+  return { changes: data, total: countRows[0].total };
+}
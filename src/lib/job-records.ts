@@ -0,0 +1,318 @@
+/**
+ * Job Records
+ *
+ * Jobs created through the jobs API (`POST /api/jobs`, `POST /api/jobs/trigger`)
+ * with their type, dealer, priority, schedule and parameters, plus the status,
+ * progress and result reported for them. Records live in the job_records table on the
+ * scheduler database. A record in a terminal status (completed, failed,
+ * cancelled) no longer changes.
+ */
+
+import type { Pool } from 'pg';
+import { databaseManager } from '../utils/database.js';
+import type { JobPriority } from '../queue/job-queue.js';
+
+export type JobRecordStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+export type JobRecordPriority = 'low' | 'normal' | 'high' | 'critical';
+
+export interface JobRecordSchedule {
+  type: 'immediate' | 'delayed' | 'recurring';
+  delay_ms?: number;
+  cron_expression?: string;
+  timezone?: string;
+}
+
+export interface JobRecord {
+  job_id: string;
+  job_type: string;
+  dealer_id: string | null;
+  status: JobRecordStatus;
+  priority: JobRecordPriority;
+  schedule: JobRecordSchedule;
+  parameters: Record<string, any>;
+  progress_percent: number | null;
+  result: Record<string, any> | null;
+  error_message: string | null;
+  metadata: Record<string, any>;
+  created_at: Date;
+  started_at: Date | null;
+  completed_at: Date | null;
+  last_heartbeat_at: Date | null;
+  updated_at: Date;
+}
+
+export interface JobRecordFilters {
+  status?: string[];
+  job_type?: string[];
+  dealer_id?: string;
+  priority?: string[];
+  created_after?: Date;
+  created_before?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+export interface JobRecordUpdate {
+  status?: JobRecordStatus;
+  priority?: JobRecordPriority;
+  progress_percent?: number;
+  parameters?: Record<string, any>;
+  result?: Record<string, any>;
+  error_message?: string;
+  metadata?: Record<string, any>;   // merged into the stored metadata
+}
+
+export const JOB_TYPES = [
+  'dealer_ingestion',
+  'vehicle_sync',
+  'data_validation',
+  'dealer_com_sync',
+  'homenet_sync',
+  'sitemap_processing',
+  'url_generation',
+  'data_cleanup'
+];
+
+export const JOB_RECORD_STATUSES: JobRecordStatus[] = ['pending', 'running', 'completed', 'failed', 'cancelled'];
+export const JOB_RECORD_PRIORITIES: JobRecordPriority[] = ['low', 'normal', 'high', 'critical'];
+export const TERMINAL_JOB_STATUSES: JobRecordStatus[] = ['completed', 'failed', 'cancelled'];
+
+/**
+ * Queue tier a record's jobs are leased at; null keeps each dealer's own tier
+ */
+export const JOB_RECORD_QUEUE_PRIORITIES: Record<JobRecordPriority, JobPriority | null> = {
+  low: 'economy',
+  normal: null,
+  high: 'premium',
+  critical: 'premium'
+};
+
+/**
+ * Get the pool holding the job records (next to the queue tables)
+ */
+function getRecordPool(pool?: Pool): Pool {
+  return pool || databaseManager.getSchedulerPool();
+}
+
+/**
+ * Generate a job record ID
+ */
+export function generateJobRecordId(): string {
+  return `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Whether a status is final
+ */
+export function isTerminalJobStatus(status: JobRecordStatus): boolean {
+  return TERMINAL_JOB_STATUSES.includes(status);
+}
+
+/**
+ * Map a job_records row
+ */
+function toJobRecord(row: any): JobRecord {
+  return {
+    job_id: row.job_id,
+    job_type: row.job_type,
+    dealer_id: row.dealer_id || null,
+    status: row.status,
+    priority: row.priority,
+    schedule: row.schedule || { type: 'immediate' },
+    parameters: row.parameters || {},
+    progress_percent: row.progress_percent ?? null,
+    result: row.result || null,
+    error_message: row.error_message || null,
+    metadata: row.metadata || {},
+    created_at: new Date(row.created_at),
+    started_at: row.started_at ? new Date(row.started_at) : null,
+    completed_at: row.completed_at ? new Date(row.completed_at) : null,
+    last_heartbeat_at: row.last_heartbeat_at ? new Date(row.last_heartbeat_at) : null,
+    updated_at: new Date(row.updated_at)
+  };
+}
+
+/**
+ * Store a new pending job
+ */
+export async function createJobRecord(
+  job: Pick<JobRecord, 'job_id' | 'job_type' | 'dealer_id' | 'priority' | 'schedule' | 'parameters' | 'metadata'>,
+  pool?: Pool
+): Promise<JobRecord> {
+  const { data, error } = await databaseManager.executeQuery(
+    getRecordPool(pool),
+    `INSERT INTO job_records (job_id, job_type, dealer_id, status, priority, schedule, parameters, metadata)
+     VALUES ($1, $2, $3, 'pending', $4, $5::jsonb, $6::jsonb, $7::jsonb)
+     RETURNING *`,
+    [
+      job.job_id,
+      job.job_type,
+      job.dealer_id,
+      job.priority,
+      JSON.stringify(job.schedule),
+      JSON.stringify(job.parameters),
+      JSON.stringify(job.metadata)
+    ]
+  );
+
+  if (error || !data?.[0]) {
+    throw new Error(`Failed to create job ${job.job_id}: ${error}`);
+  }
+
+  return toJobRecord(data[0]);
+}
+
+/**
+ * Get a job record by ID
+ */
+export async function getJobRecord(jobId: string, pool?: Pool): Promise<JobRecord | null> {
+  const { data, error } = await databaseManager.executeQuery(
+    getRecordPool(pool),
+    `SELECT * FROM job_records WHERE job_id = $1`,
+    [jobId]
+  );
+
+  if (error || !data) {
+    throw new Error(`Failed to load job ${jobId}: ${error}`);
+  }
+
+  return data.length > 0 ? toJobRecord(data[0]) : null;
+}
+
+/**
+ * List job records matching the filters, newest first
+ */
+export async function listJobRecords(
+  filters: JobRecordFilters = {},
+  pool?: Pool
+): Promise<{ jobs: JobRecord[]; total: number }> {
+  const conditions: string[] = [];
+  const params: any[] = [];
+
+  for (const column of ['status', 'job_type', 'priority'] as const) {
+    const values = filters[column];
+    if (values && values.length > 0) {
+      params.push(values);
+      conditions.push(`${column} = ANY($${params.length})`);
+    }
+  }
+  if (filters.dealer_id) {
+    params.push(filters.dealer_id);
+    conditions.push(`dealer_id = $${params.length}`);
+  }
+  if (filters.created_after) {
+    params.push(filters.created_after);
+    conditions.push(`created_at >= $${params.length}`);
+  }
+  if (filters.created_before) {
+    params.push(filters.created_before);
+    conditions.push(`created_at <= $${params.length}`);
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const recordPool = getRecordPool(pool);
+
+  const count = await databaseManager.executeQuery(
+    recordPool,
+    `SELECT COUNT(*)::int AS total FROM job_records ${where}`,
+    params
+  );
+  const rows = await databaseManager.executeQuery(
+    recordPool,
+    `SELECT * FROM job_records ${where}
+     ORDER BY created_at DESC
+     LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+    [...params, filters.limit ?? 20, filters.offset ?? 0]
+  );
+
+  if (count.error || !count.data || rows.error || !rows.data) {
+    throw new Error(`Failed to list jobs: ${count.error || rows.error}`);
+  }
+
+  return { jobs: rows.data.map(toJobRecord), total: count.data[0]?.total ?? 0 };
+}
+
+/**
+ * Count the pending jobs created before a job
+ */
+export async function countPendingJobsBefore(job: JobRecord, pool?: Pool): Promise<number> {
+  const { data, error } = await databaseManager.executeQuery(
+    getRecordPool(pool),
+    `SELECT COUNT(*)::int AS ahead FROM job_records
+     WHERE status = 'pending' AND created_at < $1 AND job_id <> $2`,
+    [job.created_at, job.job_id]
+  );
+
+  if (error || !data) {
+    throw new Error(`Failed to count pending jobs: ${error}`);
+  }
+
+  return data[0]?.ahead ?? 0;
+}
+
+/**
+ * Apply an update to a job that hasn't finished. Moving to running stamps
+ * started_at, a terminal status stamps completed_at, and status or progress
+ * updates count as a heartbeat. Returns null when the job is missing or
+ * already finished.
+ */
+export async function updateJobRecord(jobId: string, update: JobRecordUpdate, pool?: Pool): Promise<JobRecord | null> {
+  const { data, error } = await databaseManager.executeQuery(
+    getRecordPool(pool),
+    `UPDATE job_records SET
+       status = COALESCE($2::text, status),
+       priority = COALESCE($3::text, priority),
+       progress_percent = COALESCE($4::real, progress_percent),
+       parameters = COALESCE($5::jsonb, parameters),
+       result = COALESCE($6::jsonb, result),
+       error_message = COALESCE($7::text, error_message),
+       metadata = metadata || COALESCE($9::jsonb, '{}'::jsonb),
+       started_at = CASE WHEN $2::text = 'running' THEN COALESCE(started_at, NOW()) ELSE started_at END,
+       completed_at = CASE WHEN $2::text = ANY($8::text[]) THEN NOW() ELSE completed_at END,
+       last_heartbeat_at = CASE WHEN $2::text IS NOT NULL OR $4::real IS NOT NULL THEN NOW() ELSE last_heartbeat_at END,
+       updated_at = NOW()
+     WHERE job_id = $1 AND NOT (status = ANY($8::text[]))
+     RETURNING *`,
+    [
+      jobId,
+      update.status ?? null,
+      update.priority ?? null,
+      update.progress_percent ?? null,
+      update.parameters ? JSON.stringify(update.parameters) : null,
+      update.result ? JSON.stringify(update.result) : null,
+      update.error_message ?? null,
+      TERMINAL_JOB_STATUSES,
+      update.metadata ? JSON.stringify(update.metadata) : null
+    ]
+  );
+
+  if (error || !data) {
+    throw new Error(`Failed to update job ${jobId}: ${error}`);
+  }
+
+  return data.length > 0 ? toJobRecord(data[0]) : null;
+}
+
+/**
+ * Cancel a pending or running job; null when it is missing or already finished
+ */
+export async function cancelJobRecord(jobId: string, reason: string, pool?: Pool): Promise<JobRecord | null> {
+  return updateJobRecord(jobId, { status: 'cancelled', error_message: reason }, pool);
+}
+
+/**
+ * Delete a job record; returns whether it existed
+ */
+export async function deleteJobRecord(jobId: string, pool?: Pool): Promise<boolean> {
+  const { data, error } = await databaseManager.executeQuery(
+    getRecordPool(pool),
+    `DELETE FROM job_records WHERE job_id = $1 RETURNING job_id`,
+    [jobId]
+  );
+
+  if (error || !data) {
+    throw new Error(`Failed to delete job ${jobId}: ${error}`);
+  }
+
+  return data.length > 0;
+}
@@ -0,0 +1,361 @@
+/**
+ * Job Statistics
+ *
+ * Stores a job_executions row after every attempt (retries included) and
+ * aggregates them into success rates, duration percentiles, vehicle
+ * throughput per dealer and platform, error classes and a time series for
+ * charting. Rows are written and read through the same pool.
+ */
+
+import type { Pool } from 'pg';
+import type { JobExecution } from '../types.js';
+import { databaseManager } from '../utils/database.js';
+import { classifyJobError, type JobErrorCategory } from './retry-policy.js';
+
+export type JobStatsBucket = 'hour' | 'day';
+
+export interface JobStatsQuery {
+  from: Date;
+  to: Date;
+  bucket: JobStatsBucket;
+  dealer_id?: string;
+  platform?: string;
+  group_limit?: number;         // max dealers/platforms/error messages listed (default 20)
+}
+
+export interface DurationStats {
+  avg_ms: number | null;
+  p50_ms: number | null;
+  p95_ms: number | null;
+  p99_ms: number | null;
+  min_ms: number | null;
+  max_ms: number | null;
+}
+
+export interface ExecutionTotals {
+  executions: number;
+  completed: number;
+  failed: number;
+  retries: number;              // attempts that were retries of an earlier failure
+  success_rate: number | null;  // completed / executions, null when nothing ran
+  vehicles_found: number;
+  vehicles_processed: number;
+}
+
+export interface JobStatsGroup extends ExecutionTotals {
+  key: string;                  // dealer ID or platform
+  p50_ms: number | null;
+  p95_ms: number | null;
+}
+
+export interface JobStatsBucketPoint extends ExecutionTotals {
+  bucket_start: Date;
+  p50_ms: number | null;
+  p95_ms: number | null;
+}
+
+export interface JobErrorMessageCount {
+  message: string;
+  category: JobErrorCategory;
+  count: number;
+  last_seen: Date;
+}
+
+export interface RecentJobError {
+  execution_id: string;
+  job_id: string;
+  dealer_id: string;
+  platform: string;
+  category: JobErrorCategory;
+  error_message: string;
+  retry_count: number;
+  timestamp: Date;
+}
+
+export interface JobStats {
+  totals: ExecutionTotals;
+  duration: DurationStats;
+  by_dealer: JobStatsGroup[];
+  by_platform: JobStatsGroup[];
+  errors: {
+    by_category: Partial<Record<JobErrorCategory, number>>;
+    top_messages: JobErrorMessageCount[];
+    recent: RecentJobError[];
+  };
+  series: JobStatsBucketPoint[];
+}
+
+const BUCKET_MS: Record<JobStatsBucket, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000
+};
+
+/**
+ * Attempt duration: the recorded duration_ms, else end - start
+ */
+const DURATION_SQL = `COALESCE((performance_metrics->>'duration_ms')::float8, EXTRACT(EPOCH FROM (end_time - start_time)) * 1000)`;
+
+/**
+ * Per-group totals and duration percentiles
+ */
+const TOTALS_SQL = `
+  COUNT(*)::int AS executions,
+  COUNT(*) FILTER (WHERE status = 'completed')::int AS completed,
+  COUNT(*) FILTER (WHERE status = 'failed')::int AS failed,
+  COUNT(*) FILTER (WHERE COALESCE(retry_count, 0) > 0)::int AS retries,
+  COALESCE(SUM(vehicles_found), 0)::bigint AS vehicles_found,
+  COALESCE(SUM(vehicles_processed), 0)::bigint AS vehicles_processed,
+  percentile_cont(0.5) WITHIN GROUP (ORDER BY ${DURATION_SQL}) AS p50_ms,
+  percentile_cont(0.95) WITHIN GROUP (ORDER BY ${DURATION_SQL}) AS p95_ms`;
+
+/**
+ * Pick the bucket size for a range: hourly up to two days, daily beyond
+ */
+export function getDefaultStatsBucket(from: Date, to: Date): JobStatsBucket {
+  return to.getTime() - from.getTime() <= 2 * BUCKET_MS.day ? 'hour' : 'day';
+}
+
+/**
+ * Get the pool holding job_executions (next to the queue tables)
+ */
+function getStatsPool(pool?: Pool): Pool {
+  return pool || databaseManager.getSchedulerPool();
+}
+
+/**
+ * Store job executions
+ */
+export async function recordJobExecutions(executions: JobExecution[], pool?: Pool): Promise<void> {
+  if (executions.length === 0) return;
+
+  const values: any[] = [];
+  const rows = executions.map(execution => {
+    const offset = values.length;
+    values.push(
+      execution.id,
+      execution.job_id,
+      execution.dealer_id,
+      execution.platform,
+      execution.status,
+      execution.start_time,
+      execution.end_time || null,
+      execution.vehicles_found || 0,
+      execution.vehicles_processed || 0,
+      execution.errors || null,
+      execution.error_message || null,
+      execution.retry_count || 0,
+      execution.max_retries ?? null,
+      execution.correlation_id || null,
+      execution.trace_id || null,
+      execution.span_id || null,
+      execution.performance_metrics ? JSON.stringify(execution.performance_metrics) : null
+    );
+    return `(${Array.from({ length: 17 }, (_, index) => `$${offset + index + 1}`).join(', ')})`;
+  });
+
+  const { error } = await databaseManager.executeQuery(
+    getStatsPool(pool),
+    `INSERT INTO job_executions (id, job_id, dealer_id, platform, status, start_time, end_time, vehicles_found,
+       vehicles_processed, errors, error_message, retry_count, max_retries, correlation_id, trace_id, span_id,
+       performance_metrics)
+     VALUES ${rows.join(', ')}`,
+    values
+  );
+
+  if (error) {
+    throw new Error(`Failed to store job executions: ${error}`);
+  }
+}
+
+/**
+ * Run a stats query, throwing on database errors
+ */
+async function query(sql: string, params: any[], what: string, pool?: Pool): Promise<any[]> {
+  const { data, error } = await databaseManager.executeQuery(getStatsPool(pool), sql, params);
+  if (error || !data) {
+    throw new Error(`Failed to load ${what}: ${error}`);
+  }
+  return data;
+}
+
+/**
+ * Read a nullable numeric column (pg returns bigint and numeric as strings)
+ */
+function toNumber(value: any): number | null {
+  return value === null || value === undefined ? null : Math.round(Number(value));
+}
+
+/**
+ * Map the TOTALS_SQL columns of a row
+ */
+function toTotals(row: any): ExecutionTotals {
+  const executions = Number(row.executions) || 0;
+  const completed = Number(row.completed) || 0;
+  return {
+    executions,
+    completed,
+    failed: Number(row.failed) || 0,
+    retries: Number(row.retries) || 0,
+    success_rate: executions > 0 ? Math.round((completed / executions) * 10000) / 10000 : null,
+    vehicles_found: Number(row.vehicles_found) || 0,
+    vehicles_processed: Number(row.vehicles_processed) || 0
+  };
+}
+
+/**
+ * Map a grouped row
+ */
+function toGroup(row: any): JobStatsGroup {
+  return {
+    key: row.key,
+    ...toTotals(row),
+    p50_ms: toNumber(row.p50_ms),
+    p95_ms: toNumber(row.p95_ms)
+  };
+}
+
+/**
+ * Start of the bucket holding `date`; buckets are UTC hours and days, as
+ * date_trunc gives them on a UTC database
+ */
+function bucketStart(date: Date, bucket: JobStatsBucket): number {
+  return Math.floor(date.getTime() / BUCKET_MS[bucket]) * BUCKET_MS[bucket];
+}
+
+/**
+ * Fill the series so every bucket in the range [from, to) is present, empty ones zeroed
+ */
+function fillSeries(rows: any[], query: JobStatsQuery): JobStatsBucketPoint[] {
+  const byBucket = new Map(rows.map(row => [bucketStart(new Date(row.bucket_start), query.bucket), row]));
+  const series: JobStatsBucketPoint[] = [];
+
+  for (let start = bucketStart(query.from, query.bucket); start < query.to.getTime(); start += BUCKET_MS[query.bucket]) {
+    const row = byBucket.get(start) || {};
+    series.push({
+      bucket_start: new Date(start),
+      ...toTotals(row),
+      p50_ms: toNumber(row.p50_ms),
+      p95_ms: toNumber(row.p95_ms)
+    });
+  }
+  return series;
+}
+
+/**
+ * Compute job statistics over a time range
+ */
+export async function getJobStats(statsQuery: JobStatsQuery, pool?: Pool): Promise<JobStats> {
+  const params: any[] = [statsQuery.from, statsQuery.to];
+  const conditions = ['start_time >= $1', 'start_time < $2'];
+  if (statsQuery.dealer_id) {
+    params.push(statsQuery.dealer_id);
+    conditions.push(`dealer_id = $${params.length}`);
+  }
+  if (statsQuery.platform) {
+    params.push(statsQuery.platform);
+    conditions.push(`platform = $${params.length}`);
+  }
+  const where = `WHERE ${conditions.join(' AND ')}`;
+  const groupLimit = statsQuery.group_limit ?? 20;
+
+  const [overviewRows, dealerRows, platformRows, seriesRows, messageRows, recentRows] = await Promise.all([
+    query(
+      `SELECT ${TOTALS_SQL},
+         percentile_cont(0.99) WITHIN GROUP (ORDER BY ${DURATION_SQL}) AS p99_ms,
+         AVG(${DURATION_SQL}) AS avg_ms,
+         MIN(${DURATION_SQL}) AS min_ms,
+         MAX(${DURATION_SQL}) AS max_ms
+       FROM job_executions ${where}`,
+      params,
+      'job execution totals',
+      pool
+    ),
+    query(
+      `SELECT dealer_id AS key, ${TOTALS_SQL}
+       FROM job_executions ${where}
+       GROUP BY dealer_id
+       ORDER BY executions DESC, dealer_id
+       LIMIT ${groupLimit}`,
+      params,
+      'job executions by dealer',
+      pool
+    ),
+    query(
+      `SELECT platform AS key, ${TOTALS_SQL}
+       FROM job_executions ${where}
+       GROUP BY platform
+       ORDER BY executions DESC, platform
+       LIMIT ${groupLimit}`,
+      params,
+      'job executions by platform',
+      pool
+    ),
+    query(
+      `SELECT date_trunc('${statsQuery.bucket}', start_time) AS bucket_start, ${TOTALS_SQL}
+       FROM job_executions ${where}
+       GROUP BY 1
+       ORDER BY 1`,
+      params,
+      'job execution series',
+      pool
+    ),
+    // The most frequent failure messages, classified into the error classes. Messages
+    // beyond the cap are rare ones and left out of by_category.
+    query(
+      `SELECT COALESCE(error_message, '') AS message, COUNT(*)::int AS count, MAX(start_time) AS last_seen
+       FROM job_executions ${where} AND status = 'failed'
+       GROUP BY 1
+       ORDER BY count DESC, last_seen DESC
+       LIMIT ${groupLimit * 10}`,
+      params,
+      'job execution errors',
+      pool
+    ),
+    query(
+      `SELECT id, job_id, dealer_id, platform, error_message, retry_count, start_time
+       FROM job_executions ${where} AND status = 'failed'
+       ORDER BY start_time DESC
+       LIMIT 10`,
+      params,
+      'recent job execution errors',
+      pool
+    )
+  ]);
+
+  const overview = overviewRows[0] || {};
+  const byCategory: Partial<Record<JobErrorCategory, number>> = {};
+  const messages: JobErrorMessageCount[] = messageRows.map(row => {
+    const category = row.message ? classifyJobError(new Error(row.message)).category : 'unknown';
+    byCategory[category] = (byCategory[category] || 0) + Number(row.count);
+    return { message: row.message, category, count: Number(row.count), last_seen: new Date(row.last_seen) };
+  });
+
+  return {
+    totals: toTotals(overview),
+    duration: {
+      avg_ms: toNumber(overview.avg_ms),
+      p50_ms: toNumber(overview.p50_ms),
+      p95_ms: toNumber(overview.p95_ms),
+      p99_ms: toNumber(overview.p99_ms),
+      min_ms: toNumber(overview.min_ms),
+      max_ms: toNumber(overview.max_ms)
+    },
+    by_dealer: dealerRows.map(toGroup),
+    by_platform: platformRows.map(toGroup),
+    errors: {
+      by_category: byCategory,
+      top_messages: messages.slice(0, groupLimit),
+      recent: recentRows.map(row => ({
+        execution_id: row.id,
+        job_id: row.job_id,
+        dealer_id: row.dealer_id,
+        platform: row.platform,
+        category: row.error_message ? classifyJobError(new Error(row.error_message)).category : 'unknown',
+        error_message: row.error_message || '',
+        retry_count: Number(row.retry_count) || 0,
+        timestamp: new Date(row.start_time)
+      }))
+    },
+    series: fillSeries(seriesRows, statsQuery)
+  };
+}
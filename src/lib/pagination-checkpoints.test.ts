@@ -0,0 +1,54 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { Pool } from 'pg';
+import { loadPaginationCheckpoint, savePaginationCheckpointPage } from './pagination-checkpoints.js';
+
+const row = (page_start: number, page_size: number, vins: string[], created_at: string, site_id = 'site-1') => ({
+  site_id,
+  segment: 'auto-new',
+  page_start,
+  segment_total: 300,
+  page_size,
+  vins,
+  vehicles: vins.map(vin => ({ vin })),
+  created_at
+});
+
+const poolReturning = (rows: any[]) => ({ query: vi.fn(async () => ({ rows })) }) as unknown as Pool & { query: ReturnType<typeof vi.fn> };
+
+describe('loadPaginationCheckpoint', () => {
+  const now = new Date();
+  const at = (minutesAgo: number) => new Date(now.getTime() - minutesAgo * 60000).toISOString();
+
+  it('resumes from the newest page with the page size it was taken with', async () => {
+    const pool = poolReturning([row(0, 100, ['A'], at(3)), row(100, 100, ['B'], at(2))]);
+    const checkpoint = await loadPaginationCheckpoint('job-1', 'site-1', { pool });
+
+    expect(checkpoint).toMatchObject({ segment: 'auto-new', page_start: 100, page_size: 100, seen_vins: ['A', 'B'] });
+  });
+
+  it('drops pages taken with another page size', async () => {
+    const pool = poolReturning([row(0, 100, ['A'], at(3)), row(100, 100, ['B'], at(2)), row(50, 50, ['C'], at(1))]);
+    const checkpoint = await loadPaginationCheckpoint('job-1', 'site-1', { pool });
+
+    expect(checkpoint?.page_size).toBe(50);
+    expect(checkpoint?.pages.map(page => page.page_start)).toEqual([50]);
+    expect(checkpoint?.seen_vins).toEqual(['C']);
+  });
+
+  it('ignores checkpoints for another site or past the TTL', async () => {
+    expect(await loadPaginationCheckpoint('job-1', 'site-1', { pool: poolReturning([row(0, 100, ['A'], at(1), 'site-2')]) })).toBeNull();
+    expect(await loadPaginationCheckpoint('job-1', 'site-1', { pool: poolReturning([row(0, 100, ['A'], at(10))]), maxAgeMs: 60000 })).toBeNull();
+    expect(await loadPaginationCheckpoint('job-1', 'site-1', { pool: poolReturning([]) })).toBeNull();
+  });
+});
+
+describe('savePaginationCheckpointPage', () => {
+  it('stores the page size with the page', async () => {
+    const pool = poolReturning([]);
+    await savePaginationCheckpointPage('job-1', 'dealer-1', 'site-1', {
+      segment: 'auto-used', page_start: 200, segment_total: 450, page_size: 100, vins: ['A'], vehicles: [{ vin: 'A' } as any]
+    }, pool);
+
+    expect(pool.query.mock.calls[0][1]).toEqual(['job-1', 'dealer-1', 'site-1', 'auto-used', 200, 450, 100, ['A'], '[{"vin":"A"}]']);
+  });
+});
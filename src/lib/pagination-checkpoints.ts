@@ -0,0 +1,147 @@
+/**
+ * Dealer.com Pagination Checkpoints
+ *
+ * Records each page of a Dealer.com pull as it completes (segment, pageStart,
+ * the VINs it added and their vehicles) so a retried job can pick up where
+ * the failed attempt stopped instead of walking every segment again. Rows are
+ * per page, so saving a checkpoint never rewrites earlier pages; the newest
+ * row is the resume point. Checkpoints are cleared once the run is stored.
+ */
+
+import type { Pool } from 'pg';
+import { databaseManager } from '../utils/database.js';
+import type { DealerComVehicle } from './dealer-com-schema.js';
+
+export interface CheckpointPage {
+  segment: string;
+  page_start: number;
+  segment_total: number;
+  page_size: number;            // page size the page was requested with
+  vins: string[];               // VINs first seen on this page
+  vehicles: DealerComVehicle[]; // their (validated) payloads
+}
+
+export interface PaginationCheckpoint {
+  job_id: string;
+  site_id: string;
+  segment: string;      // resume point: last completed page
+  page_start: number;
+  page_size: number;    // page size of the resume point; pages taken with another size are dropped
+  seen_vins: string[];
+  pages: CheckpointPage[];
+  updated_at: Date;
+}
+
+/**
+ * Get the pool holding the checkpoint table (next to the vehicles table)
+ */
+function getCheckpointPool(pool?: Pool): Pool {
+  return pool || databaseManager.getSftpGoPool();
+}
+
+/**
+ * How old a checkpoint may be and still be resumed (overridable via environment)
+ */
+export function getCheckpointTtlMs(): number {
+  return parseInt(process.env.DEALER_COM_CHECKPOINT_TTL_MS || '21600000');
+}
+
+/**
+ * Record a completed page for a job's pull
+ */
+export async function savePaginationCheckpointPage(
+  jobId: string,
+  dealerId: string,
+  siteId: string,
+  page: CheckpointPage,
+  pool?: Pool
+): Promise<void> {
+  const { error } = await databaseManager.executeQuery(
+    getCheckpointPool(pool),
+    `INSERT INTO dealer_com_pagination_checkpoints (
+       job_id, dealer_id, site_id, segment, page_start, segment_total, page_size, vins, vehicles
+     )
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9::jsonb)
+     ON CONFLICT (job_id, segment, page_start) DO UPDATE SET
+       site_id = EXCLUDED.site_id,
+       segment_total = EXCLUDED.segment_total,
+       page_size = EXCLUDED.page_size,
+       vins = EXCLUDED.vins,
+       vehicles = EXCLUDED.vehicles,
+       created_at = NOW()`,
+    [
+      jobId, dealerId, siteId, page.segment, page.page_start, page.segment_total, page.page_size,
+      page.vins, JSON.stringify(page.vehicles)
+    ]
+  );
+
+  if (error) {
+    throw new Error(`Failed to save pagination checkpoint for job ${jobId}: ${error}`);
+  }
+}
+
+/**
+ * Load a job's checkpoint; returns null when there is none, it was taken
+ * against another site ID, or it is older than the TTL. Only pages taken with
+ * the resume point's page size are kept, since other offsets don't line up.
+ */
+export async function loadPaginationCheckpoint(
+  jobId: string,
+  siteId: string,
+  options: { maxAgeMs?: number; pool?: Pool } = {}
+): Promise<PaginationCheckpoint | null> {
+  const { data, error } = await databaseManager.executeQuery(
+    getCheckpointPool(options.pool),
+    `SELECT site_id, segment, page_start, segment_total, page_size, vins, vehicles, created_at
+     FROM dealer_com_pagination_checkpoints
+     WHERE job_id = $1
+     ORDER BY created_at ASC`,
+    [jobId]
+  );
+
+  if (error || !data) {
+    throw new Error(`Failed to load pagination checkpoint for job ${jobId}: ${error}`);
+  }
+  if (data.length === 0) return null;
+
+  const latest = data[data.length - 1];
+  const maxAgeMs = options.maxAgeMs ?? getCheckpointTtlMs();
+  if (data.some(row => row.site_id !== siteId) || Date.now() - new Date(latest.created_at).getTime() > maxAgeMs) {
+    return null;
+  }
+
+  const pages: CheckpointPage[] = data.filter(row => row.page_size === latest.page_size).map(row => ({
+    segment: row.segment,
+    page_start: row.page_start,
+    segment_total: row.segment_total,
+    page_size: row.page_size,
+    vins: row.vins || [],
+    vehicles: row.vehicles || []
+  }));
+
+  return {
+    job_id: jobId,
+    site_id: siteId,
+    segment: latest.segment,
+    page_start: latest.page_start,
+    page_size: latest.page_size,
+    seen_vins: pages.flatMap(page => page.vins),
+    pages,
+    updated_at: new Date(latest.created_at)
+  };
+}
+
+/**
+ * Drop a job's checkpoint (after the pull is stored, or before a fresh pull)
+ */
+export async function clearPaginationCheckpoint(jobId: string, pool?: Pool): Promise<void> {
+  const { error } = await databaseManager.executeQuery(
+    getCheckpointPool(pool),
+    'DELETE FROM dealer_com_pagination_checkpoints WHERE job_id = $1',
+    [jobId]
+  );
+
+  if (error) {
+    throw new Error(`Failed to clear pagination checkpoint for job ${jobId}: ${error}`);
+  }
+}
@@ -0,0 +1,70 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import type { InventoryChange } from './inventory-changes.js';
+import { detectPriceDrops, resolvePriceDropThresholds } from './price-history.js';
+
+const change = (vin: string, before: any, after: any, change_type: InventoryChange['change_type'] = 'price_changed'): InventoryChange => ({
+  dealer_id: 'dealer-1',
+  vin,
+  change_type,
+  changed_fields: ['price'],
+  before: { price: before, msrp: 30000 },
+  after: { price: after, msrp: 30000 },
+  first_seen_at: null,
+  days_since_first_seen: null,
+  days_in_inventory_reported: null
+});
+
+describe('detectPriceDrops', () => {
+  const thresholds = { min_amount: 500, min_percent: 2 };
+
+  it('reports drops that meet both thresholds', () => {
+    expect(detectPriceDrops([change('VIN1', '25000.00', 24000)], thresholds)).toEqual([{
+      vin: 'VIN1',
+      previous_price: 25000,
+      current_price: 24000,
+      previous_msrp: 30000,
+      current_msrp: 30000,
+      drop_amount: 1000,
+      drop_percent: 4
+    }]);
+  });
+
+  it('skips drops below either threshold', () => {
+    // $400 is 4% of $10,000 but under the amount threshold
+    expect(detectPriceDrops([change('VIN1', 10000, 9600)], thresholds)).toEqual([]);
+    // $900 is over the amount threshold but only 1% of $90,000
+    expect(detectPriceDrops([change('VIN2', 90000, 89100)], thresholds)).toEqual([]);
+  });
+
+  it('ignores increases, missing prices and other change types', () => {
+    expect(detectPriceDrops([
+      change('VIN1', 20000, 22000),
+      change('VIN2', null, 15000),
+      change('VIN3', 20000, null),
+      change('VIN4', 0, 0),
+      change('VIN5', 20000, 10000, 'attributes_changed')
+    ], thresholds)).toEqual([]);
+  });
+});
+
+describe('resolvePriceDropThresholds', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('merges dealer overrides over the defaults', () => {
+    delete process.env.PRICE_DROP_MIN_AMOUNT;
+    delete process.env.PRICE_DROP_MIN_PERCENT;
+
+    expect(resolvePriceDropThresholds(null)).toEqual({ min_amount: 100, min_percent: 1 });
+    expect(resolvePriceDropThresholds({ min_percent: 5 })).toEqual({ min_amount: 100, min_percent: 5 });
+    expect(resolvePriceDropThresholds({ min_amount: 0, min_percent: 0 })).toEqual({ min_amount: 0, min_percent: 0 });
+  });
+
+  it('reads the defaults from the environment', () => {
+    process.env.PRICE_DROP_MIN_AMOUNT = '250';
+    expect(resolvePriceDropThresholds()).toMatchObject({ min_amount: 250 });
+  });
+});
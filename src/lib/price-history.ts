@@ -0,0 +1,223 @@
+/**
+ * Vehicle Price History
+ *
+ * Keeps a time-series of internet price, MSRP and incentives per VIN. A point
+ * is recorded the first time a VIN is seen and whenever any of the three
+ * changes, so the series stays compact across hourly runs. Price drops large
+ * enough to cross the configured thresholds are surfaced for publishing as
+ * scheduler.vehicle.price_changed events.
+ */
+
+import type { Pool } from 'pg';
+import { databaseManager } from '../utils/database.js';
+import { normalizeVin } from './vehicle-store.js';
+import type { InventoryChange } from './inventory-changes.js';
+
+export interface PricePoint {
+  dealer_id: string;
+  vin: string;
+  price: number | null;
+  msrp: number | null;
+  incentives: string[] | null;
+  job_id: string | null;
+  recorded_at: Date;
+}
+
+export interface PriceDropThresholds {
+  min_amount: number;   // dollars
+  min_percent: number;  // percent of the previous price
+}
+
+export interface PriceDrop {
+  vin: string;
+  previous_price: number;
+  current_price: number;
+  previous_msrp: number | null;
+  current_msrp: number | null;
+  drop_amount: number;
+  drop_percent: number;
+}
+
+export interface PriceHistoryFilter {
+  dealer_id?: string;
+  since?: Date;
+  limit?: number;
+}
+
+/**
+ * Get the pool holding the vehicles and price history tables
+ */
+function getPricePool(pool?: Pool): Pool {
+  return pool || databaseManager.getSftpGoPool();
+}
+
+/**
+ * Convert a price value (number or numeric string) to a number
+ */
+function toPrice(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const price = Number(value);
+  return isNaN(price) ? null : price;
+}
+
+/**
+ * Default price drop thresholds (overridable via environment)
+ */
+export function getDefaultPriceDropThresholds(): PriceDropThresholds {
+  return {
+    min_amount: parseFloat(process.env.PRICE_DROP_MIN_AMOUNT || '100'),
+    min_percent: parseFloat(process.env.PRICE_DROP_MIN_PERCENT || '1')
+  };
+}
+
+/**
+ * Merge a dealer's (possibly partial) price_drop_thresholds over the defaults
+ */
+export function resolvePriceDropThresholds(thresholds?: Partial<PriceDropThresholds> | null): PriceDropThresholds {
+  const defaults = getDefaultPriceDropThresholds();
+  return {
+    min_amount: thresholds?.min_amount ?? defaults.min_amount,
+    min_percent: thresholds?.min_percent ?? defaults.min_percent
+  };
+}
+
+/**
+ * Pick the price drops out of an inventory diff that meet both thresholds
+ */
+export function detectPriceDrops(changes: InventoryChange[], thresholds: PriceDropThresholds): PriceDrop[] {
+  const drops: PriceDrop[] = [];
+
+  for (const change of changes) {
+    if (change.change_type !== 'price_changed') continue;
+
+    const previousPrice = toPrice(change.before?.price);
+    const currentPrice = toPrice(change.after?.price);
+    if (previousPrice === null || currentPrice === null || previousPrice <= 0 || currentPrice >= previousPrice) {
+      continue;
+    }
+
+    const dropAmount = previousPrice - currentPrice;
+    const dropPercent = (dropAmount / previousPrice) * 100;
+    if (dropAmount < thresholds.min_amount || dropPercent < thresholds.min_percent) continue;
+
+    drops.push({
+      vin: change.vin,
+      previous_price: previousPrice,
+      current_price: currentPrice,
+      previous_msrp: toPrice(change.before?.msrp),
+      current_msrp: toPrice(change.after?.msrp),
+      drop_amount: dropAmount,
+      drop_percent: Math.round(dropPercent * 100) / 100
+    });
+  }
+
+  return drops;
+}
+
+/**
+ * Record a price point for each vehicle whose price, MSRP or incentives differ
+ * from its latest point (or that has no history yet); returns points recorded
+ */
+export async function recordPriceHistory(
+  dealerId: string,
+  vehicles: Record<string, any>[],
+  jobId: string | null,
+  pool?: Pool
+): Promise<number> {
+  const batchSize = 200;
+  let recorded = 0;
+
+  const byVin = new Map<string, Record<string, any>>();
+  for (const vehicle of vehicles) {
+    const vin = normalizeVin(vehicle.vin);
+    if (vin) byVin.set(vin, vehicle);
+  }
+  const entries = Array.from(byVin.entries());
+
+  for (let start = 0; start < entries.length; start += batchSize) {
+    const batch = entries.slice(start, start + batchSize);
+    const values: any[] = [];
+    const rows = batch.map(([vin, vehicle]) => {
+      const offset = values.length;
+      values.push(
+        dealerId,
+        vin,
+        toPrice(vehicle.price),
+        toPrice(vehicle.msrp),
+        Array.isArray(vehicle.incentives) ? JSON.stringify(vehicle.incentives) : null,
+        jobId
+      );
+      const p = (index: number) => `$${offset + index}`;
+      return `(${p(1)}::text, ${p(2)}::text, ${p(3)}::numeric, ${p(4)}::numeric, ${p(5)}::jsonb, ${p(6)}::text)`;
+    });
+
+    const { data, error } = await databaseManager.executeQuery(
+      getPricePool(pool),
+      `INSERT INTO vehicle_price_history (dealer_id, vin, price, msrp, incentives, job_id)
+       SELECT v.dealer_id, v.vin, v.price, v.msrp, v.incentives, v.job_id
+       FROM (VALUES ${rows.join(', ')}) AS v(dealer_id, vin, price, msrp, incentives, job_id)
+       LEFT JOIN LATERAL (
+         SELECT true AS found, h.price, h.msrp, h.incentives
+         FROM vehicle_price_history h
+         WHERE h.dealer_id = v.dealer_id AND h.vin = v.vin
+         ORDER BY h.recorded_at DESC
+         LIMIT 1
+       ) latest ON true
+       WHERE latest.found IS NULL
+          OR latest.price IS DISTINCT FROM v.price
+          OR latest.msrp IS DISTINCT FROM v.msrp
+          OR latest.incentives IS DISTINCT FROM v.incentives
+       RETURNING vin`,
+      values
+    );
+
+    if (error || !data) {
+      throw new Error(`Failed to record price history for dealer ${dealerId}: ${error}`);
+    }
+    recorded += data.length;
+  }
+
+  return recorded;
+}
+
+/**
+ * Get a VIN's price history, oldest point first
+ */
+export async function getPriceHistory(vin: string, filter: PriceHistoryFilter = {}, pool?: Pool): Promise<PricePoint[]> {
+  const params: any[] = [normalizeVin(vin)];
+  const conditions = ['vin = $1'];
+
+  if (filter.dealer_id) {
+    params.push(filter.dealer_id);
+    conditions.push(`dealer_id = $${params.length}`);
+  }
+  if (filter.since) {
+    params.push(filter.since);
+    conditions.push(`recorded_at >= $${params.length}`);
+  }
+  params.push(filter.limit ?? 500);
+
+  // Newest `limit` points, returned in chronological order
+  const { data, error } = await databaseManager.executeQuery(
+    getPricePool(pool),
+    `SELECT * FROM (
+       SELECT dealer_id, vin, price, msrp, incentives, job_id, recorded_at
+       FROM vehicle_price_history
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY recorded_at DESC
+       LIMIT $${params.length}
+     ) points
+     ORDER BY recorded_at ASC`,
+    params
+  );
+
+  if (error || !data) {
+    throw new Error(`Failed to load price history for ${vin}: ${error}`);
+  }
+
+  return data.map(row => ({
+    ...row,
+    price: toPrice(row.price),
+    msrp: toPrice(row.msrp)
+  }));
+}
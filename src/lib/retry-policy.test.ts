@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { calculateRetryDelayMs, classifyJobError, decideRetry, validateRetryConfig, type RetryConfig } from './retry-policy.js';
+
+const config: RetryConfig = { max_retries: 3, retry_delay_ms: 1000, exponential_backoff: true, max_delay_ms: 5000 };
+
+describe('classifyJobError', () => {
+  it('classifies HTTP statuses from properties and messages', () => {
+    expect(classifyJobError(Object.assign(new Error('Too Many Requests'), { status: 429 }))).toMatchObject({
+      category: 'rate_limited', retryable: true, statusCode: 429
+    });
+    expect(classifyJobError(new Error('HTTP 503: Service Unavailable'))).toMatchObject({ category: 'server_error', retryable: true });
+    expect(classifyJobError(new Error('Failed to fetch page: 404 Not Found'))).toMatchObject({ category: 'client_error', retryable: false });
+    expect(classifyJobError(new Error('HTTP 408: Request Timeout')).category).toBe('timeout');
+  });
+
+  it('classifies timeouts, network failures and bad bodies', () => {
+    expect(classifyJobError(Object.assign(new Error('aborted'), { name: 'TimeoutError' })).category).toBe('timeout');
+    expect(classifyJobError(Object.assign(new Error('connect'), { code: 'ECONNRESET' })).category).toBe('network');
+    expect(classifyJobError(new TypeError('fetch failed')).category).toBe('network');
+    expect(classifyJobError(new SyntaxError('Unexpected token < in JSON at position 0'))).toMatchObject({
+      category: 'parse', retryable: false
+    });
+  });
+
+  it('keeps the server-requested wait and recognises open circuits', () => {
+    const error = Object.assign(new Error('circuit open for api.example.com'), { code: 'CIRCUIT_OPEN', retryAfterMs: 30000 });
+    expect(classifyJobError(error)).toMatchObject({ category: 'circuit_open', retryable: true, retryAfterMs: 30000 });
+  });
+
+  it('treats anything else as a permanent unknown error', () => {
+    expect(classifyJobError('Platform adapter reported a failed run')).toMatchObject({
+      category: 'unknown', retryable: false, message: 'Platform adapter reported a failed run'
+    });
+  });
+});
+
+describe('calculateRetryDelayMs', () => {
+  it('doubles per retry up to the cap, with equal jitter', () => {
+    expect(calculateRetryDelayMs(1, config, () => 0)).toBe(500);
+    expect(calculateRetryDelayMs(1, config, () => 1)).toBe(1000);
+    expect(calculateRetryDelayMs(3, config, () => 1)).toBe(4000);
+    expect(calculateRetryDelayMs(5, config, () => 1)).toBe(5000);
+  });
+
+  it('keeps a fixed base without exponential backoff', () => {
+    expect(calculateRetryDelayMs(4, { ...config, exponential_backoff: false }, () => 1)).toBe(1000);
+  });
+});
+
+describe('decideRetry', () => {
+  const now = new Date('2026-10-19T12:00:00Z');
+
+  it('schedules retryable failures until the limit', () => {
+    const decision = decideRetry(classifyJobError(new Error('HTTP 502: Bad Gateway')), 0, config, now);
+    expect(decision).toMatchObject({ retry: true, retryNumber: 1 });
+    expect(decision.delayMs).toBeGreaterThanOrEqual(500);
+    expect(decision.delayMs).toBeLessThanOrEqual(1000);
+    expect(decision.retryAt?.getTime()).toBe(now.getTime() + decision.delayMs);
+
+    expect(decideRetry(classifyJobError(new Error('HTTP 502: Bad Gateway')), 3, config, now)).toMatchObject({
+      retry: false, retryAt: null, reason: 'retry limit reached (3)'
+    });
+  });
+
+  it('never retries permanent failures', () => {
+    expect(decideRetry(classifyJobError(new Error('HTTP 401: Unauthorized')), 0, config, now)).toMatchObject({
+      retry: false, reason: 'client_error errors are not retryable'
+    });
+  });
+
+  it('waits at least as long as Retry-After asks', () => {
+    const error = Object.assign(new Error('HTTP 429'), { status: 429, retryAfterMs: 120000 });
+    expect(decideRetry(classifyJobError(error), 0, config, now).delayMs).toBe(120000);
+  });
+});
+
+describe('validateRetryConfig', () => {
+  it('accepts the schedules API shape and rejects bad values', () => {
+    expect(validateRetryConfig(config)).toEqual({ valid: true });
+    expect(validateRetryConfig({ ...config, max_retries: -1 }).valid).toBe(false);
+    expect(validateRetryConfig({ ...config, max_delay_ms: 10 }).error).toContain('max_delay_ms');
+  });
+});
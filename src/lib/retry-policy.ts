@@ -0,0 +1,198 @@
+/**
+ * Retry Policy Engine
+ *
+ * Classifies job failures as retryable or permanent and schedules retries
+ * with exponential backoff and jitter. Retry settings use the same
+ * `retry_config` shape accepted by POST /api/schedules.
+ */
+
+export type JobErrorCategory =
+  | 'rate_limited'   // HTTP 429
+  | 'server_error'   // HTTP 5xx
+  | 'timeout'        // request or socket timeout
+  | 'network'        // connection refused/reset, DNS failure
+  | 'circuit_open'   // host's circuit breaker is open after repeated 429/5xx
+  | 'parse'          // malformed response body
+  | 'client_error'   // other HTTP 4xx
+  | 'unknown';
+
+export interface ClassifiedJobError {
+  category: JobErrorCategory;
+  retryable: boolean;
+  message: string;
+  statusCode?: number;
+  retryAfterMs?: number;    // server-requested wait (Retry-After) or circuit cooldown
+}
+
+export interface RetryConfig {
+  max_retries: number;
+  retry_delay_ms: number;
+  exponential_backoff: boolean;
+  max_delay_ms?: number;
+}
+
+export interface RetryDecision {
+  retry: boolean;
+  retryNumber: number;      // 1-based number of the retry being scheduled
+  delayMs: number;
+  retryAt: Date | null;
+  reason: string;
+}
+
+const RETRYABLE_CATEGORIES = new Set<JobErrorCategory>(['rate_limited', 'server_error', 'timeout', 'network', 'circuit_open']);
+
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNREFUSED', 'ECONNRESET', 'EPIPE', 'ENOTFOUND', 'EAI_AGAIN', 'EHOSTUNREACH', 'ENETUNREACH',
+  'UND_ERR_SOCKET', 'UND_ERR_CLOSED'
+]);
+
+const TIMEOUT_ERROR_CODES = new Set([
+  'ETIMEDOUT', 'ESOCKETTIMEDOUT', 'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_HEADERS_TIMEOUT', 'UND_ERR_BODY_TIMEOUT'
+]);
+
+/**
+ * Pull an HTTP status code from an error's properties or its message
+ * (runners throw "HTTP 503: ..." or "Failed to fetch page: 503 Service Unavailable")
+ */
+function extractStatusCode(error: any): number | undefined {
+  const status = error?.status ?? error?.statusCode ?? error?.response?.status;
+  if (typeof status === 'number') return status;
+
+  const match = /(?:\bHTTP |: )([45]\d{2})\b/.exec(String(error?.message ?? ''));
+  return match ? parseInt(match[1]) : undefined;
+}
+
+/**
+ * Classify a job failure as retryable (429, 5xx, timeouts, network errors, open circuits) or permanent
+ */
+export function classifyJobError(error: unknown): ClassifiedJobError {
+  const err = error as any;
+  const message = error instanceof Error ? error.message : String(error);
+  const retryAfterMs = typeof err?.retryAfterMs === 'number' ? err.retryAfterMs : undefined;
+  const classified = (category: JobErrorCategory, statusCode?: number): ClassifiedJobError => ({
+    category,
+    retryable: RETRYABLE_CATEGORIES.has(category),
+    message,
+    ...(statusCode !== undefined && { statusCode }),
+    ...(retryAfterMs !== undefined && { retryAfterMs })
+  });
+
+  if (err?.code === 'CIRCUIT_OPEN') return classified('circuit_open');
+
+  const statusCode = extractStatusCode(err);
+  if (statusCode === 429) return classified('rate_limited', statusCode);
+  if (statusCode === 408) return classified('timeout', statusCode);
+  if (statusCode !== undefined && statusCode >= 500) return classified('server_error', statusCode);
+  if (statusCode !== undefined && statusCode >= 400) return classified('client_error', statusCode);
+
+  const code = err?.code ?? err?.cause?.code;
+  if (err?.name === 'TimeoutError' || err?.name === 'AbortError' || TIMEOUT_ERROR_CODES.has(code) || /timed? ?out/i.test(message)) {
+    return classified('timeout');
+  }
+  if (NETWORK_ERROR_CODES.has(code) || (err?.name === 'TypeError' && /fetch failed/i.test(message))) {
+    return classified('network');
+  }
+  if (err instanceof SyntaxError || /unexpected token|invalid json|json at position|unexpected end of json/i.test(message)) {
+    return classified('parse');
+  }
+
+  return classified('unknown');
+}
+
+/**
+ * Default retry settings (overridable via environment)
+ */
+export function getDefaultRetryConfig(): RetryConfig {
+  return {
+    max_retries: parseInt(process.env.SCHEDULER_RETRY_MAX_RETRIES || '3'),
+    retry_delay_ms: parseInt(process.env.SCHEDULER_RETRY_DELAY_MS || '60000'),
+    exponential_backoff: process.env.SCHEDULER_RETRY_EXPONENTIAL_BACKOFF !== 'false',
+    max_delay_ms: parseInt(process.env.SCHEDULER_RETRY_MAX_DELAY_MS || '3600000')
+  };
+}
+
+/**
+ * Merge a (possibly partial) retry_config over the defaults
+ */
+export function resolveRetryConfig(config?: Partial<RetryConfig> | null): RetryConfig {
+  const defaults = getDefaultRetryConfig();
+  if (!config) return defaults;
+
+  return {
+    max_retries: config.max_retries ?? defaults.max_retries,
+    retry_delay_ms: config.retry_delay_ms ?? defaults.retry_delay_ms,
+    exponential_backoff: config.exponential_backoff ?? defaults.exponential_backoff,
+    max_delay_ms: config.max_delay_ms ?? defaults.max_delay_ms
+  };
+}
+
+/**
+ * Validate a retry_config object as accepted by the schedules API
+ */
+export function validateRetryConfig(config: unknown): { valid: boolean; error?: string } {
+  if (typeof config !== 'object' || config === null) {
+    return { valid: false, error: 'retry_config must be an object' };
+  }
+
+  const { max_retries, retry_delay_ms, exponential_backoff, max_delay_ms } = config as Record<string, unknown>;
+  if (!Number.isInteger(max_retries) || (max_retries as number) < 0) {
+    return { valid: false, error: 'max_retries must be a non-negative integer' };
+  }
+  if (typeof retry_delay_ms !== 'number' || !(retry_delay_ms >= 0)) {
+    return { valid: false, error: 'retry_delay_ms must be a non-negative number' };
+  }
+  if (typeof exponential_backoff !== 'boolean') {
+    return { valid: false, error: 'exponential_backoff must be a boolean' };
+  }
+  if (max_delay_ms !== undefined && (typeof max_delay_ms !== 'number' || max_delay_ms < retry_delay_ms)) {
+    return { valid: false, error: 'max_delay_ms must be a number no smaller than retry_delay_ms' };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Delay before the given retry (1-based): base delay, doubled per retry when
+ * exponential, capped at max_delay_ms, then "equal jitter" (half fixed, half
+ * random) so retries from a failed batch don't hit the source in lockstep.
+ */
+export function calculateRetryDelayMs(
+  retryNumber: number,
+  config: RetryConfig,
+  random: () => number = Math.random
+): number {
+  const multiplier = config.exponential_backoff ? Math.pow(2, Math.max(0, retryNumber - 1)) : 1;
+  const cap = config.max_delay_ms ?? Number.MAX_SAFE_INTEGER;
+  const base = Math.min(config.retry_delay_ms * multiplier, cap);
+  return Math.round(base / 2 + random() * (base / 2));
+}
+
+/**
+ * Decide whether (and when) to retry a failed job that has already been retried `retryCount` times
+ * A Retry-After (or circuit cooldown) on the error pushes the retry out to at least that long.
+ */
+export function decideRetry(
+  error: ClassifiedJobError,
+  retryCount: number,
+  config: RetryConfig,
+  now: Date = new Date()
+): RetryDecision {
+  const retryNumber = retryCount + 1;
+  const noRetry = (reason: string): RetryDecision => ({ retry: false, retryNumber, delayMs: 0, retryAt: null, reason });
+
+  if (!error.retryable) {
+    return noRetry(`${error.category} errors are not retryable`);
+  }
+  if (retryCount >= config.max_retries) {
+    return noRetry(`retry limit reached (${config.max_retries})`);
+  }
+
+  const delayMs = Math.max(calculateRetryDelayMs(retryNumber, config), error.retryAfterMs ?? 0);
+  return {
+    retry: true,
+    retryNumber,
+    delayMs,
+    retryAt: new Date(now.getTime() + delayMs),
+    reason: `${error.category} error, retry ${retryNumber}/${config.max_retries}`
+  };
+}
@@ -0,0 +1,128 @@
+/**
+ * Dealer.com Rooftop Profiles
+ *
+ * What a rooftop's getInventory endpoint turned out to accept, learned once
+ * and cached per siteId: the largest page size it honours, whether it pages by
+ * `pageStart` offsets or page numbers, and which widget/body variant answers.
+ * Later runs start from the profile instead of rediscovering it on every
+ * page. Profiles expire after a TTL and are dropped when the rooftop starts
+ * returning errors, so a changed site is relearned.
+ */
+
+import type { Pool } from 'pg';
+import { databaseManager } from '../utils/database.js';
+
+export type WidgetBody = 'inventory_parameters' | 'preferences';
+
+export interface WidgetVariant {
+  page_alias: string;
+  body: WidgetBody;
+}
+
+export interface RooftopProfile {
+  site_id: string;
+  page_size: number;                     // largest page size the rooftop honours
+  use_page_number: boolean;              // ignores pageStart; page by page number
+  offsets_verified: boolean;             // paging mode confirmed against a second page
+  widget_variant: WidgetVariant | null;  // first widget/body combination that answered
+  learned_at: Date;
+}
+
+/**
+ * Get the pool holding the profile table (next to the vehicles table)
+ */
+function getProfilePool(pool?: Pool): Pool {
+  return pool || databaseManager.getSftpGoPool();
+}
+
+/**
+ * How long a learned profile is trusted (overridable via environment)
+ */
+export function getRooftopProfileTtlMs(): number {
+  return parseInt(process.env.DEALER_COM_PROFILE_TTL_MS || '604800000');
+}
+
+/**
+ * Page sizes tried, largest first, when a rooftop has no profile yet
+ */
+export function getPageSizeCandidates(): number[] {
+  return (process.env.DEALER_COM_PAGE_SIZE_CANDIDATES || '250,200,150,100')
+    .split(',')
+    .map(value => parseInt(value.trim()))
+    .filter(value => value > 0)
+    .sort((a, b) => b - a);
+}
+
+/**
+ * Get a rooftop's profile; null when none is cached or it has expired
+ */
+export async function getRooftopProfile(siteId: string, pool?: Pool): Promise<RooftopProfile | null> {
+  const { data, error } = await databaseManager.executeQuery(
+    getProfilePool(pool),
+    `SELECT site_id, page_size, use_page_number, offsets_verified, widget_variant, learned_at
+     FROM dealer_com_rooftop_profiles
+     WHERE site_id = $1 AND learned_at > $2`,
+    [siteId, new Date(Date.now() - getRooftopProfileTtlMs())]
+  );
+
+  if (error || !data) {
+    throw new Error(`Failed to load rooftop profile for ${siteId}: ${error}`);
+  }
+  if (data.length === 0) return null;
+
+  const row = data[0];
+  return {
+    site_id: row.site_id,
+    page_size: row.page_size,
+    use_page_number: row.use_page_number,
+    offsets_verified: row.offsets_verified,
+    widget_variant: row.widget_variant || null,
+    learned_at: new Date(row.learned_at)
+  };
+}
+
+/**
+ * Store (or replace) a rooftop's profile
+ */
+export async function saveRooftopProfile(profile: RooftopProfile, pool?: Pool): Promise<void> {
+  const { error } = await databaseManager.executeQuery(
+    getProfilePool(pool),
+    `INSERT INTO dealer_com_rooftop_profiles (
+       site_id, page_size, use_page_number, offsets_verified, widget_variant, learned_at
+     )
+     VALUES ($1, $2, $3, $4, $5::jsonb, $6)
+     ON CONFLICT (site_id) DO UPDATE SET
+       page_size = EXCLUDED.page_size,
+       use_page_number = EXCLUDED.use_page_number,
+       offsets_verified = EXCLUDED.offsets_verified,
+       widget_variant = EXCLUDED.widget_variant,
+       learned_at = EXCLUDED.learned_at`,
+    [
+      profile.site_id,
+      profile.page_size,
+      profile.use_page_number,
+      profile.offsets_verified,
+      profile.widget_variant ? JSON.stringify(profile.widget_variant) : null,
+      profile.learned_at
+    ]
+  );
+
+  if (error) {
+    throw new Error(`Failed to save rooftop profile for ${profile.site_id}: ${error}`);
+  }
+}
+
+/**
+ * Forget a rooftop's profile so the next run relearns it
+ */
+export async function invalidateRooftopProfile(siteId: string, pool?: Pool): Promise<void> {
+  const { error } = await databaseManager.executeQuery(
+    getProfilePool(pool),
+    'DELETE FROM dealer_com_rooftop_profiles WHERE site_id = $1',
+    [siteId]
+  );
+
+  if (error) {
+    throw new Error(`Failed to invalidate rooftop profile for ${siteId}: ${error}`);
+  }
+}
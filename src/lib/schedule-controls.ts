@@ -0,0 +1,331 @@
+/**
+ * Schedule Controls
+ *
+ * Operator controls over what the scheduler runs: pausing and resuming a
+ * schedule definition, skipping its next run, and pausing every job of a
+ * dealer (e.g. while its website migrates and its feed returns garbage). A
+ * pause may carry `paused_until`, after which it lifts by itself. Every
+ * control is written to schedule_control_audit with who did it and why.
+ */
+
+import type { Pool } from 'pg';
+import { databaseManager } from '../utils/database.js';
+import { calculateScheduleNextRun, toScheduleDefinition, type ScheduleDefinition } from './schedule-definitions.js';
+
+export type ScheduleControlTarget = 'schedule' | 'dealer';
+export type ScheduleControlAction = 'pause' | 'resume' | 'skip_next';
+
+export interface ScheduleControlRequest {
+  actor: string;                // who is acting
+  reason: string | null;
+  until?: Date | null;          // pauses only; null = until resumed
+}
+
+export interface DealerPause {
+  dealer_id: string;
+  paused_by: string;
+  reason: string | null;
+  paused_at: Date;
+  paused_until: Date | null;
+}
+
+export interface ScheduleControlAuditEntry {
+  id: number;
+  target_type: ScheduleControlTarget;
+  target_id: string;
+  action: ScheduleControlAction;
+  actor: string;
+  reason: string | null;
+  paused_until: Date | null;
+  created_at: Date;
+}
+
+/**
+ * Outcome of a schedule control; `conflict` explains why nothing changed
+ */
+export type ScheduleControlResult =
+  | { schedule: ScheduleDefinition; conflict?: undefined }
+  | { schedule: ScheduleDefinition | null; conflict: string };
+
+/**
+ * Actor recorded when an expired pause lifts itself
+ */
+const SYSTEM_ACTOR = 'system';
+
+/**
+ * Get the pool holding the control tables (next to the queue tables)
+ */
+function getControlPool(pool?: Pool): Pool {
+  return pool || databaseManager.getSchedulerPool();
+}
+
+/**
+ * Run a control query, throwing on database errors
+ */
+async function query(sql: string, params: any[], action: string, pool?: Pool): Promise<any[]> {
+  const { data, error } = await databaseManager.executeQuery(getControlPool(pool), sql, params);
+  if (error || !data) {
+    throw new Error(`Failed to ${action}: ${error}`);
+  }
+  return data;
+}
+
+/**
+ * Write an audit entry
+ */
+async function audit(
+  targetType: ScheduleControlTarget,
+  targetId: string,
+  action: ScheduleControlAction,
+  request: ScheduleControlRequest,
+  pool?: Pool
+): Promise<void> {
+  await query(
+    `INSERT INTO schedule_control_audit (target_type, target_id, action, actor, reason, paused_until)
+     VALUES ($1, $2, $3, $4, $5, $6)`,
+    [targetType, targetId, action, request.actor, request.reason, request.until ?? null],
+    `audit ${action} of ${targetType} ${targetId}`,
+    pool
+  );
+}
+
+/**
+ * Load a schedule for a control
+ */
+async function loadSchedule(scheduleId: string, pool?: Pool): Promise<ScheduleDefinition | null> {
+  const rows = await query(
+    `SELECT * FROM schedule_definitions WHERE schedule_id = $1`,
+    [scheduleId],
+    `load schedule ${scheduleId}`,
+    pool
+  );
+  return rows.length > 0 ? toScheduleDefinition(rows[0]) : null;
+}
+
+/**
+ * Pause an active (or re-pause a paused) schedule
+ */
+export async function pauseSchedule(scheduleId: string, request: ScheduleControlRequest, pool?: Pool): Promise<ScheduleControlResult | null> {
+  const rows = await query(
+    `UPDATE schedule_definitions
+     SET status = 'paused',
+         paused_by = $2,
+         pause_reason = $3,
+         paused_at = NOW(),
+         paused_until = $4,
+         updated_at = NOW()
+     WHERE schedule_id = $1 AND status IN ('active', 'paused')
+     RETURNING *`,
+    [scheduleId, request.actor, request.reason, request.until ?? null],
+    `pause schedule ${scheduleId}`,
+    pool
+  );
+
+  if (rows.length === 0) {
+    const schedule = await loadSchedule(scheduleId, pool);
+    return schedule && { schedule, conflict: `Schedule is ${schedule.status}` };
+  }
+
+  await audit('schedule', scheduleId, 'pause', request, pool);
+  return { schedule: toScheduleDefinition(rows[0]) };
+}
+
+/**
+ * Resume a paused schedule. Its next run is recalculated from now, so runs
+ * missed while paused are not made up.
+ */
+export async function resumeSchedule(
+  scheduleId: string,
+  request: ScheduleControlRequest,
+  now: Date = new Date(),
+  pool?: Pool
+): Promise<ScheduleControlResult | null> {
+  const schedule = await loadSchedule(scheduleId, pool);
+  if (!schedule) return null;
+  if (schedule.status !== 'paused') {
+    return { schedule, conflict: `Schedule is ${schedule.status}` };
+  }
+
+  const rows = await query(
+    `UPDATE schedule_definitions
+     SET status = 'active',
+         paused_by = NULL,
+         pause_reason = NULL,
+         paused_at = NULL,
+         paused_until = NULL,
+         next_run_at = $2,
+         updated_at = NOW()
+     WHERE schedule_id = $1 AND status = 'paused'
+     RETURNING *`,
+    [scheduleId, calculateScheduleNextRun(schedule.schedule, now)],
+    `resume schedule ${scheduleId}`,
+    pool
+  );
+
+  if (rows.length === 0) {
+    return { schedule: await loadSchedule(scheduleId, pool), conflict: 'Schedule was resumed or changed concurrently' };
+  }
+
+  await audit('schedule', scheduleId, 'resume', { actor: request.actor, reason: request.reason }, pool);
+  return { schedule: toScheduleDefinition(rows[0]) };
+}
+
+/**
+ * Skip a schedule's next run: it is claimed at its time but enqueues nothing
+ */
+export async function skipNextScheduleRun(scheduleId: string, request: ScheduleControlRequest, pool?: Pool): Promise<ScheduleControlResult | null> {
+  const rows = await query(
+    `UPDATE schedule_definitions
+     SET skip_next_run = TRUE, updated_at = NOW()
+     WHERE schedule_id = $1 AND status IN ('active', 'paused') AND next_run_at IS NOT NULL
+     RETURNING *`,
+    [scheduleId],
+    `skip next run of schedule ${scheduleId}`,
+    pool
+  );
+
+  if (rows.length === 0) {
+    const schedule = await loadSchedule(scheduleId, pool);
+    return schedule && {
+      schedule,
+      conflict: schedule.next_run_at ? `Schedule is ${schedule.status}` : 'Schedule has no next run'
+    };
+  }
+
+  await audit('schedule', scheduleId, 'skip_next', { actor: request.actor, reason: request.reason }, pool);
+  return { schedule: toScheduleDefinition(rows[0]) };
+}
+
+/**
+ * Resume the schedules whose pause has expired; returns their IDs
+ */
+export async function resumeExpiredSchedulePauses(now: Date = new Date(), pool?: Pool): Promise<string[]> {
+  const rows = await query(
+    `SELECT schedule_id FROM schedule_definitions
+     WHERE status = 'paused' AND paused_until IS NOT NULL AND paused_until <= $1`,
+    [now],
+    'load expired schedule pauses',
+    pool
+  );
+
+  const resumed: string[] = [];
+  for (const { schedule_id } of rows) {
+    const result = await resumeSchedule(schedule_id, { actor: SYSTEM_ACTOR, reason: 'Pause expired' }, now, pool);
+    if (result && !result.conflict) resumed.push(schedule_id);
+  }
+  return resumed;
+}
+
+/**
+ * Map a dealer_schedule_pauses row
+ */
+function toDealerPause(row: any): DealerPause {
+  return {
+    dealer_id: row.dealer_id,
+    paused_by: row.paused_by,
+    reason: row.reason || null,
+    paused_at: new Date(row.paused_at),
+    paused_until: row.paused_until ? new Date(row.paused_until) : null
+  };
+}
+
+/**
+ * Get the dealer pauses that haven't expired, by dealer
+ */
+export async function listDealerPauses(pool?: Pool): Promise<Map<string, DealerPause>> {
+  const rows = await query(
+    `SELECT dealer_id, paused_by, reason, paused_at, paused_until
+     FROM dealer_schedule_pauses
+     WHERE paused_until IS NULL OR paused_until > NOW()
+     ORDER BY dealer_id`,
+    [],
+    'load dealer pauses',
+    pool
+  );
+  return new Map(rows.map(row => [row.dealer_id, toDealerPause(row)]));
+}
+
+/**
+ * Pause (or re-pause) every job of a dealer
+ */
+export async function pauseDealer(dealerId: string, request: ScheduleControlRequest, pool?: Pool): Promise<DealerPause> {
+  const rows = await query(
+    `INSERT INTO dealer_schedule_pauses (dealer_id, paused_by, reason, paused_at, paused_until)
+     VALUES ($1, $2, $3, NOW(), $4)
+     ON CONFLICT (dealer_id) DO UPDATE SET
+       paused_by = EXCLUDED.paused_by,
+       reason = EXCLUDED.reason,
+       paused_at = EXCLUDED.paused_at,
+       paused_until = EXCLUDED.paused_until
+     RETURNING dealer_id, paused_by, reason, paused_at, paused_until`,
+    [dealerId, request.actor, request.reason, request.until ?? null],
+    `pause dealer ${dealerId}`,
+    pool
+  );
+
+  await audit('dealer', dealerId, 'pause', request, pool);
+  return toDealerPause(rows[0]);
+}
+
+/**
+ * Lift a dealer's pause; returns whether an active pause existed
+ */
+export async function resumeDealer(dealerId: string, request: ScheduleControlRequest, pool?: Pool): Promise<boolean> {
+  const rows = await query(
+    `DELETE FROM dealer_schedule_pauses
+     WHERE dealer_id = $1
+     RETURNING paused_until`,
+    [dealerId],
+    `resume dealer ${dealerId}`,
+    pool
+  );
+
+  // An expired pause had already lifted; removing it is just cleanup
+  const active = rows.some(row => !row.paused_until || new Date(row.paused_until) > new Date());
+  if (active) {
+    await audit('dealer', dealerId, 'resume', { actor: request.actor, reason: request.reason }, pool);
+  }
+  return active;
+}
+
+/**
+ * List audit entries, newest first
+ */
+export async function listScheduleControlAudit(
+  filter: { target_type?: ScheduleControlTarget; target_id?: string; limit?: number } = {},
+  pool?: Pool
+): Promise<ScheduleControlAuditEntry[]> {
+  const conditions: string[] = [];
+  const params: any[] = [];
+
+  if (filter.target_type) {
+    params.push(filter.target_type);
+    conditions.push(`target_type = $${params.length}`);
+  }
+  if (filter.target_id) {
+    params.push(filter.target_id);
+    conditions.push(`target_id = $${params.length}`);
+  }
+  params.push(filter.limit ?? 100);
+
+  const rows = await query(
+    `SELECT * FROM schedule_control_audit
+     ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+     ORDER BY created_at DESC, id DESC
+     LIMIT $${params.length}`,
+    params,
+    'list schedule control audit',
+    pool
+  );
+
+  return rows.map(row => ({
+    id: Number(row.id),
+    target_type: row.target_type,
+    target_id: row.target_id,
+    action: row.action,
+    actor: row.actor,
+    reason: row.reason || null,
+    paused_until: row.paused_until ? new Date(row.paused_until) : null,
+    created_at: new Date(row.created_at)
+  }));
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateScheduleNextRun,
+  getSchedulePlatforms,
+  isPlatformJobType,
+  matchesDealerFilter,
+  type ScheduleDefinition
+} from './schedule-definitions.js';
+
+const definition = (jobType: string, parameters: Record<string, any> = {}): ScheduleDefinition => ({
+  schedule_id: 'sched_1',
+  name: 'Nightly sync',
+  description: null,
+  job_type: jobType,
+  status: 'active',
+  schedule: { type: 'daily' },
+  dealer_filter: null,
+  parameters,
+  metadata: {},
+  created_at: new Date('2026-10-01T00:00:00Z'),
+  updated_at: new Date('2026-10-01T00:00:00Z'),
+  last_run_at: null,
+  next_run_at: null,
+  run_count: 0,
+  success_count: 0,
+  failure_count: 0,
+  paused_by: null,
+  pause_reason: null,
+  paused_at: null,
+  paused_until: null,
+  skip_next_run: false
+});
+
+describe('isPlatformJobType', () => {
+  it('accepts job types that run one or all platforms', () => {
+    for (const jobType of ['dealer_com_sync', 'homenet_sync', 'sitemap_processing', 'dealer_ingestion', 'vehicle_sync']) {
+      expect(isPlatformJobType(jobType)).toBe(true);
+    }
+  });
+
+  it('rejects job types without a platform', () => {
+    for (const jobType of ['data_validation', 'url_generation', 'data_cleanup', 'toString']) {
+      expect(isPlatformJobType(jobType)).toBe(false);
+    }
+  });
+});
+
+describe('getSchedulePlatforms', () => {
+  const dealerPlatforms = ['dealer.com', 'sitemap'];
+
+  it('runs the platform a job type names when the dealer has it', () => {
+    expect(getSchedulePlatforms(definition('dealer_com_sync'), dealerPlatforms)).toEqual(['dealer.com']);
+    expect(getSchedulePlatforms(definition('homenet_sync'), dealerPlatforms)).toEqual([]);
+  });
+
+  it('lets parameters.platform pick the platform', () => {
+    expect(getSchedulePlatforms(definition('vehicle_sync', { platform: 'sitemap' }), dealerPlatforms)).toEqual(['sitemap']);
+    expect(getSchedulePlatforms(definition('dealer_ingestion', { platform: 'homenet' }), dealerPlatforms)).toEqual([]);
+  });
+
+  it('runs every dealer platform for ingestion and sync jobs', () => {
+    expect(getSchedulePlatforms(definition('dealer_ingestion'), dealerPlatforms)).toEqual(dealerPlatforms);
+    expect(getSchedulePlatforms(definition('vehicle_sync'), [])).toEqual([]);
+  });
+
+  it('runs nothing for job types without a platform', () => {
+    expect(getSchedulePlatforms(definition('data_cleanup'), dealerPlatforms)).toEqual([]);
+  });
+});
+
+describe('matchesDealerFilter', () => {
+  const dealer = { id: 'dealer-1', slug: 'porsche-santa-barbara', api_config: { tags: ['west', 'luxury'] } };
+
+  it('selects every dealer without a filter', () => {
+    expect(matchesDealerFilter(dealer, null)).toBe(true);
+    expect(matchesDealerFilter(dealer, {})).toBe(true);
+  });
+
+  it('includes and excludes dealers by ID or slug', () => {
+    expect(matchesDealerFilter(dealer, { include_dealers: ['porsche-santa-barbara'] })).toBe(true);
+    expect(matchesDealerFilter(dealer, { include_dealers: ['dealer-2'] })).toBe(false);
+    expect(matchesDealerFilter(dealer, { include_dealers: [] })).toBe(true);
+    expect(matchesDealerFilter(dealer, { exclude_dealers: ['dealer-1'] })).toBe(false);
+    expect(matchesDealerFilter(dealer, { include_dealers: ['dealer-1'], exclude_dealers: ['porsche-santa-barbara'] })).toBe(false);
+  });
+
+  it('keeps dealers with any of the tags', () => {
+    expect(matchesDealerFilter(dealer, { dealer_tags: ['east', 'luxury'] })).toBe(true);
+    expect(matchesDealerFilter(dealer, { dealer_tags: ['east'] })).toBe(false);
+    expect(matchesDealerFilter({ id: 'dealer-2' }, { dealer_tags: ['west'] })).toBe(false);
+  });
+});
+
+describe('calculateScheduleNextRun', () => {
+  const after = new Date('2026-10-19T12:00:00Z');
+
+  it('evaluates cron and calendar schedules in their timezone', () => {
+    expect(calculateScheduleNextRun({ type: 'cron', expression: '0 6 * * *', timezone: 'America/New_York' }, after)?.toISOString())
+      .toBe('2026-10-20T10:00:00.000Z');
+    expect(calculateScheduleNextRun({ type: 'daily' }, after)?.toISOString()).toBe('2026-10-20T00:00:00.000Z');
+  });
+
+  it('adds interval milliseconds and rejects non-positive intervals', () => {
+    expect(calculateScheduleNextRun({ type: 'interval', expression: '900000' }, after)?.toISOString()).toBe('2026-10-19T12:15:00.000Z');
+    expect(calculateScheduleNextRun({ type: 'interval', expression: '0' }, after)).toBeNull();
+  });
+});
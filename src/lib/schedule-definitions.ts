@@ -0,0 +1,358 @@
+/**
+ * Schedule Definitions
+ *
+ * Schedules created through `POST /api/schedules`: a job type run on a cron,
+ * interval or calendar cadence for the dealers its `dealer_filter` selects.
+ * Definitions live in the schedule_definitions table on the scheduler
+ * database. Each cron tick, runJobs claims the active definitions whose
+ * `next_run_at` has passed, moves them to their next fire time and enqueues a
+ * job per selected dealer and platform.
+ */
+
+import type { Pool } from 'pg';
+import { databaseManager } from '../utils/database.js';
+import { CronExpression } from './cron-expression.js';
+import type { RetryConfig } from './retry-policy.js';
+
+export type ScheduleType = 'cron' | 'interval' | 'daily' | 'weekly' | 'monthly';
+export type ScheduleStatus = 'active' | 'paused' | 'disabled';
+
+export interface ScheduleTiming {
+  type: ScheduleType;
+  expression?: string;          // cron expression, or interval milliseconds
+  timezone?: string;
+}
+
+export interface DealerFilter {
+  include_dealers?: string[];   // dealer IDs or slugs; empty = every dealer
+  exclude_dealers?: string[];
+  dealer_tags?: string[];       // dealer has any of these in api_config.tags
+}
+
+export interface ScheduleMetadata {
+  created_by?: string;
+  priority?: 'low' | 'normal' | 'high' | 'critical';
+  retry_config?: RetryConfig;
+}
+
+export interface ScheduleDefinition {
+  schedule_id: string;
+  name: string;
+  description: string | null;
+  job_type: string;
+  status: ScheduleStatus;
+  schedule: ScheduleTiming;
+  dealer_filter: DealerFilter | null;
+  parameters: Record<string, any>;
+  metadata: ScheduleMetadata;
+  created_at: Date;
+  updated_at: Date;
+  last_run_at: Date | null;
+  next_run_at: Date | null;     // null = never fires again
+  run_count: number;
+  success_count: number;        // jobs the schedule enqueued that succeeded
+  failure_count: number;        // ...and that failed for good
+  paused_by: string | null;
+  pause_reason: string | null;
+  paused_at: Date | null;
+  paused_until: Date | null;    // a pause resumes itself at this time; null = until resumed
+  skip_next_run: boolean;
+}
+
+export interface ScheduleRunClaim {
+  schedule: ScheduleDefinition;
+  skipped: boolean;             // the run was claimed only to be skipped (skip-next)
+}
+
+export interface ScheduleDefinitionFilters {
+  status?: string[];
+  job_type?: string[];
+  dealer_id?: string;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Default cron expressions for the calendar schedule types
+ */
+const CALENDAR_SCHEDULE_DEFAULTS: Record<string, string> = {
+  daily: '@daily',
+  weekly: '@weekly',
+  monthly: '@monthly'
+};
+
+/**
+ * Inventory platform each platform-specific job type runs against
+ */
+export const JOB_TYPE_PLATFORMS: Record<string, string> = {
+  dealer_com_sync: 'dealer.com',
+  homenet_sync: 'homenet',
+  sitemap_processing: 'sitemap'
+};
+
+/**
+ * Job types that run every platform the dealer has configured
+ */
+const ALL_PLATFORM_JOB_TYPES = new Set(['dealer_ingestion', 'vehicle_sync']);
+
+/**
+ * Whether a job type runs platform jobs: one platform, or all of a dealer's
+ */
+export function isPlatformJobType(jobType: string): boolean {
+  return Object.hasOwn(JOB_TYPE_PLATFORMS, jobType) || ALL_PLATFORM_JOB_TYPES.has(jobType);
+}
+
+/**
+ * Get the pool holding the definitions (next to the queue tables)
+ */
+function getDefinitionPool(pool?: Pool): Pool {
+  return pool || databaseManager.getSchedulerPool();
+}
+
+/**
+ * Generate a schedule ID
+ */
+export function generateScheduleId(): string {
+  return `sched_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Calculate the next run time of a schedule in its timezone
+ *
+ * Cron and calendar types are evaluated as cron expressions (calendar types
+ * fall back to midnight defaults); interval expressions are milliseconds.
+ */
+export function calculateScheduleNextRun(schedule: ScheduleTiming, after: Date = new Date()): Date | null {
+  if (schedule.type === 'interval') {
+    const intervalMs = Number(schedule.expression);
+    return intervalMs > 0 ? new Date(after.getTime() + intervalMs) : null;
+  }
+
+  const expression = schedule.expression || CALENDAR_SCHEDULE_DEFAULTS[schedule.type];
+  return CronExpression.parse(expression).next(after, schedule.timezone || 'UTC');
+}
+
+/**
+ * Whether a dealer is selected by a schedule's dealer filter
+ */
+export function matchesDealerFilter(
+  dealer: { id: string; slug?: string | null; api_config?: { tags?: string[] } | null },
+  filter?: DealerFilter | null
+): boolean {
+  if (!filter) return true;
+
+  const names = [dealer.id, dealer.slug].filter((name): name is string => !!name);
+  if (filter.include_dealers?.length && !filter.include_dealers.some(name => names.includes(name))) {
+    return false;
+  }
+  if (filter.exclude_dealers?.some(name => names.includes(name))) {
+    return false;
+  }
+  if (filter.dealer_tags?.length) {
+    const tags = dealer.api_config?.tags || [];
+    return filter.dealer_tags.some(tag => tags.includes(tag));
+  }
+  return true;
+}
+
+/**
+ * Platforms a schedule runs for a dealer: the one named by `parameters.platform`
+ * or implied by the job type, or all of the dealer's platforms for ingestion
+ * and sync jobs. Only platforms the dealer has configured are returned.
+ */
+export function getSchedulePlatforms(definition: ScheduleDefinition, dealerPlatforms: string[]): string[] {
+  const platform = definition.parameters.platform || JOB_TYPE_PLATFORMS[definition.job_type];
+  if (platform) {
+    return dealerPlatforms.includes(platform) ? [platform] : [];
+  }
+  return ALL_PLATFORM_JOB_TYPES.has(definition.job_type) ? dealerPlatforms : [];
+}
+
+/**
+ * Map a schedule_definitions row
+ */
+export function toScheduleDefinition(row: any): ScheduleDefinition {
+  return {
+    schedule_id: row.schedule_id,
+    name: row.name,
+    description: row.description || null,
+    job_type: row.job_type,
+    status: row.status,
+    schedule: row.schedule,
+    dealer_filter: row.dealer_filter || null,
+    parameters: row.parameters || {},
+    metadata: row.metadata || {},
+    created_at: new Date(row.created_at),
+    updated_at: new Date(row.updated_at),
+    last_run_at: row.last_run_at ? new Date(row.last_run_at) : null,
+    next_run_at: row.next_run_at ? new Date(row.next_run_at) : null,
+    run_count: row.run_count,
+    success_count: row.success_count,
+    failure_count: row.failure_count,
+    paused_by: row.paused_by || null,
+    pause_reason: row.pause_reason || null,
+    paused_at: row.paused_at ? new Date(row.paused_at) : null,
+    paused_until: row.paused_until ? new Date(row.paused_until) : null,
+    skip_next_run: !!row.skip_next_run
+  };
+}
+
+/**
+ * Store a new active schedule
+ */
+export async function createScheduleDefinition(
+  definition: Pick<ScheduleDefinition, 'schedule_id' | 'name' | 'description' | 'job_type' | 'schedule' | 'dealer_filter' | 'parameters' | 'metadata' | 'next_run_at'>,
+  pool?: Pool
+): Promise<ScheduleDefinition> {
+  const { data, error } = await databaseManager.executeQuery(
+    getDefinitionPool(pool),
+    `INSERT INTO schedule_definitions
+       (schedule_id, name, description, job_type, status, schedule, dealer_filter, parameters, metadata, next_run_at)
+     VALUES ($1, $2, $3, $4, 'active', $5::jsonb, $6::jsonb, $7::jsonb, $8::jsonb, $9)
+     RETURNING *`,
+    [
+      definition.schedule_id,
+      definition.name,
+      definition.description,
+      definition.job_type,
+      JSON.stringify(definition.schedule),
+      definition.dealer_filter ? JSON.stringify(definition.dealer_filter) : null,
+      JSON.stringify(definition.parameters),
+      JSON.stringify(definition.metadata),
+      definition.next_run_at
+    ]
+  );
+
+  if (error || !data?.[0]) {
+    throw new Error(`Failed to create schedule ${definition.schedule_id}: ${error}`);
+  }
+
+  return toScheduleDefinition(data[0]);
+}
+
+/**
+ * Get a schedule by ID
+ */
+export async function getScheduleDefinition(scheduleId: string, pool?: Pool): Promise<ScheduleDefinition | null> {
+  const { data, error } = await databaseManager.executeQuery(
+    getDefinitionPool(pool),
+    `SELECT * FROM schedule_definitions WHERE schedule_id = $1`,
+    [scheduleId]
+  );
+
+  if (error || !data) {
+    throw new Error(`Failed to load schedule ${scheduleId}: ${error}`);
+  }
+
+  return data.length > 0 ? toScheduleDefinition(data[0]) : null;
+}
+
+/**
+ * List schedules matching the filters, oldest first. A dealer filter matches
+ * schedules whose include list names the dealer or that have no include list.
+ */
+export async function listScheduleDefinitions(
+  filters: ScheduleDefinitionFilters = {},
+  pool?: Pool
+): Promise<{ schedules: ScheduleDefinition[]; total: number }> {
+  const conditions: string[] = [];
+  const params: any[] = [];
+
+  if (filters.status && filters.status.length > 0) {
+    params.push(filters.status);
+    conditions.push(`status = ANY($${params.length})`);
+  }
+  if (filters.job_type && filters.job_type.length > 0) {
+    params.push(filters.job_type);
+    conditions.push(`job_type = ANY($${params.length})`);
+  }
+  if (filters.dealer_id) {
+    params.push(filters.dealer_id);
+    conditions.push(`(COALESCE(jsonb_array_length(dealer_filter->'include_dealers'), 0) = 0
+      OR dealer_filter->'include_dealers' ? $${params.length})`);
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const definitionPool = getDefinitionPool(pool);
+
+  const count = await databaseManager.executeQuery(
+    definitionPool,
+    `SELECT COUNT(*)::int AS total FROM schedule_definitions ${where}`,
+    params
+  );
+  const rows = await databaseManager.executeQuery(
+    definitionPool,
+    `SELECT * FROM schedule_definitions ${where}
+     ORDER BY created_at ASC
+     LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+    [...params, filters.limit ?? 20, filters.offset ?? 0]
+  );
+
+  if (count.error || !count.data || rows.error || !rows.data) {
+    throw new Error(`Failed to list schedules: ${count.error || rows.error}`);
+  }
+
+  return { schedules: rows.data.map(toScheduleDefinition), total: count.data[0]?.total ?? 0 };
+}
+
+/**
+ * Get the active schedules whose next run time has passed
+ */
+export async function listDueScheduleDefinitions(now: Date = new Date(), pool?: Pool): Promise<ScheduleDefinition[]> {
+  const { data, error } = await databaseManager.executeQuery(
+    getDefinitionPool(pool),
+    `SELECT * FROM schedule_definitions
+     WHERE status = 'active' AND next_run_at IS NOT NULL AND next_run_at <= $1
+     ORDER BY next_run_at ASC`,
+    [now]
+  );
+
+  if (error || !data) {
+    throw new Error(`Failed to load due schedules: ${error}`);
+  }
+
+  return data.map(toScheduleDefinition);
+}
+
+/**
+ * Claim a due run: move the schedule to its next fire time after `now` unless
+ * another scheduler already did, consuming a pending skip-next. Returns null
+ * when the run was claimed elsewhere.
+ */
+export async function claimScheduleRun(definition: ScheduleDefinition, now: Date = new Date(), pool?: Pool): Promise<ScheduleRunClaim | null> {
+  const { data, error } = await databaseManager.executeQuery(
+    getDefinitionPool(pool),
+    `UPDATE schedule_definitions d
+     SET last_run_at = CASE WHEN previous.skip_next_run THEN d.last_run_at ELSE $3 END,
+         next_run_at = $4,
+         run_count = d.run_count + CASE WHEN previous.skip_next_run THEN 0 ELSE 1 END,
+         skip_next_run = FALSE,
+         updated_at = NOW()
+     FROM (SELECT skip_next_run FROM schedule_definitions WHERE schedule_id = $1) previous
+     WHERE d.schedule_id = $1 AND d.next_run_at = $2
+     RETURNING d.*, previous.skip_next_run AS skipped`,
+    [definition.schedule_id, definition.next_run_at, now, calculateScheduleNextRun(definition.schedule, now)]
+  );
+
+  if (error || !data) {
+    throw new Error(`Failed to claim run of schedule ${definition.schedule_id}: ${error}`);
+  }
+
+  return data.length > 0 ? { schedule: toScheduleDefinition(data[0]), skipped: !!data[0].skipped } : null;
+}
+
+/**
+ * Count a settled job against the schedule that enqueued it
+ */
+export async function recordScheduleOutcome(scheduleId: string, success: boolean, pool?: Pool): Promise<void> {
+  const column = success ? 'success_count' : 'failure_count';
+  const { error } = await databaseManager.executeQuery(
+    getDefinitionPool(pool),
+    `UPDATE schedule_definitions SET ${column} = ${column} + 1 WHERE schedule_id = $1`,
+    [scheduleId]
+  );
+
+  if (error) {
+    throw new Error(`Failed to record outcome for schedule ${scheduleId}: ${error}`);
+  }
+}
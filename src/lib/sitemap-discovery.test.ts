@@ -0,0 +1,167 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { gzipSync } from 'zlib';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { throttledFetch } from './host-throttle.js';
+import {
+  discoverSitemapVehicles,
+  extractStockNumberFromUrl,
+  extractVinFromUrl,
+  isVehicleDetailUrl,
+  parseSitemapXml,
+  reconcileSitemapVins
+} from './sitemap-discovery.js';
+
+vi.mock('./host-throttle.js', async importOriginal => ({
+  ...(await importOriginal<typeof import('./host-throttle.js')>()),
+  throttledFetch: vi.fn()
+}));
+
+const fixture = (name: string) => readFileSync(join(__dirname, '__fixtures__', 'sitemap', name));
+
+const SITE = 'https://www.example-porsche.com';
+
+/**
+ * Serve fixture bodies by URL through the (mocked) throttled fetch
+ */
+function serveSitemaps(bodies: Record<string, Buffer>) {
+  vi.mocked(throttledFetch).mockImplementation(async (url: string) => {
+    const body = bodies[url];
+    return body ? new Response(body) : new Response('Not Found', { status: 404, statusText: 'Not Found' });
+  });
+}
+
+afterEach(() => {
+  vi.mocked(throttledFetch).mockReset();
+});
+
+describe('extractVinFromUrl', () => {
+  it('finds a VIN in the path or query string', () => {
+    expect(extractVinFromUrl(`${SITE}/new/Porsche/2025-Porsche-911-Carrera-WP0AB2A99KS123456.htm`)).toBe('WP0AB2A99KS123456');
+    expect(extractVinFromUrl(`${SITE}/vehicle-details?vin=4t1g11ak5mu123456`)).toBe('4T1G11AK5MU123456');
+  });
+
+  it('ignores 17-character tokens that are not VINs', () => {
+    expect(extractVinFromUrl(`${SITE}/blog/MANUFACTURERSPECS`)).toBeNull();
+    expect(extractVinFromUrl(`${SITE}/new/Porsche/2025-Porsche-911-Carrera.htm`)).toBeNull();
+    // I, O and Q never appear in a VIN
+    expect(extractVinFromUrl(`${SITE}/used/WP0AB2A99KS12345O.htm`)).toBeNull();
+    expect(extractVinFromUrl('not a url')).toBeNull();
+  });
+});
+
+describe('extractStockNumberFromUrl', () => {
+  it('reads stock numbers from query parameters and path segments', () => {
+    expect(extractStockNumberFromUrl(`${SITE}/used/Toyota/2021-Toyota-Camry.htm?stock=u1234a`)).toBe('U1234A');
+    expect(extractStockNumberFromUrl(`${SITE}/vehicle-details/2020-bmw-x5?stk=B4455`)).toBe('B4455');
+    expect(extractStockNumberFromUrl(`${SITE}/inventory/certified-2022-porsche-macan-stock-P9876/`)).toBe('P9876');
+    expect(extractStockNumberFromUrl(`${SITE}/inventory/used-2019-audi-q5-stockno_A1122.htm`)).toBe('A1122');
+  });
+
+  it('returns null when the URL carries no stock number', () => {
+    expect(extractStockNumberFromUrl(`${SITE}/new/Porsche/2025-Porsche-911-Carrera-WP0AB2A99KS123456.htm`)).toBeNull();
+    expect(extractStockNumberFromUrl(`${SITE}/inventory?stock=%20`)).toBeNull();
+  });
+});
+
+describe('isVehicleDetailUrl', () => {
+  it('recognises vehicle detail pages on common platforms', () => {
+    expect(isVehicleDetailUrl(`${SITE}/new/Porsche/2025-Porsche-911-Carrera-WP0AB2A99KS123456.htm`)).toBe(true);
+    expect(isVehicleDetailUrl(`${SITE}/inventory/certified-2022-porsche-macan-stock-P9876/`)).toBe(true);
+    expect(isVehicleDetailUrl(`${SITE}/vehicle-details/2020-bmw-x5?stk=B4455`)).toBe(true);
+    expect(isVehicleDetailUrl(`${SITE}/vdp/12345`)).toBe(true);
+    expect(isVehicleDetailUrl(`${SITE}/listing?vin=WP0AB2A99KS123456`)).toBe(true);
+  });
+
+  it('rejects listing, content and service pages', () => {
+    expect(isVehicleDetailUrl(`${SITE}/`)).toBe(false);
+    expect(isVehicleDetailUrl(`${SITE}/new-inventory/index.htm`)).toBe(false);
+    expect(isVehicleDetailUrl(`${SITE}/service/schedule-service.htm`)).toBe(false);
+    expect(isVehicleDetailUrl(`${SITE}/blog/MANUFACTURERSPECS`)).toBe(false);
+    expect(isVehicleDetailUrl('not a url')).toBe(false);
+  });
+
+  it('uses custom patterns when given', () => {
+    expect(isVehicleDetailUrl(`${SITE}/cars/2025-porsche-911`, [/^\/cars\//])).toBe(true);
+    expect(isVehicleDetailUrl(`${SITE}/vdp/12345`, [/^\/cars\//])).toBe(false);
+  });
+});
+
+describe('parseSitemapXml', () => {
+  it('reads page URLs and lastmod from a urlset', () => {
+    const { sitemaps, urls } = parseSitemapXml(fixture('sitemap-inventory.xml').toString('utf8'));
+
+    expect(sitemaps).toEqual([]);
+    expect(urls).toHaveLength(6);
+    expect(urls[2]).toEqual({
+      loc: `${SITE}/new/Porsche/2025-Porsche-911-Carrera-WP0AB2A99KS123456.htm`,
+      lastmod: '2026-10-18'
+    });
+    expect(urls[0]).toEqual({ loc: `${SITE}/`, lastmod: null });
+  });
+
+  it('reads child sitemaps from a sitemap index', () => {
+    const { sitemaps, urls } = parseSitemapXml(fixture('sitemap-index.xml').toString('utf8'));
+
+    expect(sitemaps).toEqual([`${SITE}/sitemap-inventory.xml`, `${SITE}/sitemap-used.xml.gz`]);
+    expect(urls).toEqual([]);
+  });
+
+  it('treats a single entry as a list and ignores documents that are not sitemaps', () => {
+    const single = '<urlset><url><loc>https://www.example-porsche.com/vdp/1</loc></url></urlset>';
+    expect(parseSitemapXml(single).urls).toEqual([{ loc: `${SITE}/vdp/1`, lastmod: null }]);
+    expect(parseSitemapXml('<html><body>Not Found</body></html>')).toEqual({ sitemaps: [], urls: [] });
+  });
+});
+
+describe('discoverSitemapVehicles', () => {
+  it('walks a sitemap index, gunzips .gz sitemaps and keeps only vehicle pages', async () => {
+    serveSitemaps({
+      [`${SITE}/sitemap.xml`]: fixture('sitemap-index.xml'),
+      [`${SITE}/sitemap-inventory.xml`]: fixture('sitemap-inventory.xml'),
+      [`${SITE}/sitemap-used.xml.gz`]: gzipSync(fixture('sitemap-used.xml'))
+    });
+
+    const result = await discoverSitemapVehicles({ sitemapUrls: [`${SITE}/sitemap.xml`] });
+
+    expect(result).toMatchObject({ sitemaps_fetched: 3, sitemap_errors: [], urls_scanned: 9, truncated: false });
+    expect(result.entries.map(entry => [entry.vin, entry.stock_number, entry.condition])).toEqual([
+      ['WP0AB2A99KS123456', null, 'new'],
+      [null, 'P9876', 'certified'],
+      ['4T1G11AK5MU123456', 'U1234A', 'used'],
+      [null, 'B4455', null]
+    ]);
+    expect(result.vins).toEqual(['WP0AB2A99KS123456', '4T1G11AK5MU123456']);
+  });
+
+  it('records unreadable sitemaps and stops at the document cap', async () => {
+    serveSitemaps({
+      [`${SITE}/sitemap.xml`]: fixture('sitemap-index.xml'),
+      [`${SITE}/sitemap-inventory.xml`]: fixture('sitemap-inventory.xml')
+    });
+
+    const result = await discoverSitemapVehicles({ sitemapUrls: [`${SITE}/missing.xml`, `${SITE}/sitemap.xml`], maxSitemaps: 3 });
+
+    expect(result.sitemap_errors.map(error => error.url)).toEqual([`${SITE}/missing.xml`]);
+    expect(result.sitemaps_fetched).toBe(2);
+    expect(result.truncated).toBe(true);
+  });
+
+  it('fails when no sitemap could be read', async () => {
+    serveSitemaps({});
+
+    await expect(discoverSitemapVehicles({ sitemapUrls: [`${SITE}/sitemap.xml`] })).rejects.toThrow('No sitemap could be read');
+  });
+});
+
+describe('reconcileSitemapVins', () => {
+  it('splits VINs into matched and missing on either side', () => {
+    expect(reconcileSitemapVins(['wp0ab2a99ks123456', '4T1G11AK5MU123456'], ['WP0AB2A99KS123456', '5YJ3E1EA7KF317000'])).toEqual({
+      sitemap_vins: 2,
+      api_vins: 2,
+      matched: 1,
+      missing_from_api: ['4T1G11AK5MU123456'],
+      missing_from_sitemap: ['5YJ3E1EA7KF317000']
+    });
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * Sitemap Inventory Discovery
+ *
+ * Walks a dealer's sitemap.xml (following sitemap indexes, gzipped or not),
+ * keeps the URLs that look like vehicle detail pages and pulls the VIN and
+ * stock number out of each URL. The resulting VIN list is reconciled against
+ * the vehicles the Dealer.com pull stored, to find listings the API missed.
+ */
+
+import { gunzipSync } from 'zlib';
+import { XMLParser } from 'fast-xml-parser';
+import { throttledFetch, createResponseError, type RequestMetrics } from './host-throttle.js';
+
+export type SitemapCondition = 'new' | 'used' | 'certified';
+
+export interface SitemapDiscoveryConfig {
+  sitemapUrls: string[];     // entry points: sitemap.xml files or sitemap indexes
+  maxSitemaps?: number;      // cap on sitemap documents fetched, indexes included
+  vdpPatterns?: RegExp[];    // URLs matching any of these are vehicle detail pages
+  metrics?: RequestMetrics;
+}
+
+export interface SitemapVehicleEntry {
+  url: string;
+  vin: string | null;
+  stock_number: string | null;
+  condition: SitemapCondition | null;
+  lastmod: string | null;
+}
+
+export interface SitemapDiscoveryResult {
+  sitemaps_fetched: number;
+  sitemap_errors: Array<{ url: string; error: string }>;
+  urls_scanned: number;
+  entries: SitemapVehicleEntry[];  // one per vehicle detail page URL
+  vins: string[];                  // unique VINs found in those URLs
+  truncated: boolean;              // maxSitemaps reached before every index was followed
+}
+
+export interface SitemapReconciliation {
+  sitemap_vins: number;
+  api_vins: number;
+  matched: number;
+  missing_from_api: string[];      // listed in the sitemap, absent from the API pull
+  missing_from_sitemap: string[];  // in the API pull, not (yet) in the sitemap
+}
+
+/**
+ * URL shapes of vehicle detail pages on common dealer site platforms
+ */
+const DEFAULT_VDP_PATTERNS = [
+  /\/(new|used|certified|pre-?owned)\/[^?#]+\.html?$/i,  // Dealer.com: /new/Porsche/2024-Porsche-911-....htm
+  /\/inventory\/(new|used|certified|pre-?owned)-/i,      // /inventory/used-2021-toyota-camry-.../
+  /\/vehicle-?details?\//i,
+  /\/vdp\//i
+];
+
+/**
+ * Query parameters and path forms that carry a stock number
+ */
+const STOCK_QUERY_PARAMS = ['stock', 'stocknumber', 'stock_number', 'stockno', 'stk'];
+const STOCK_PATH_PATTERN = /(?:^|[/_-])(?:stock|stk)(?:[-_]?(?:no|num|number))?[-_/:]([A-Z0-9]{3,20})(?=$|[/_.-])/i;
+
+const VIN_PATTERN = /(?:^|[^A-Z0-9])([A-HJ-NPR-Z0-9]{17})(?=$|[^A-Z0-9])/gi;
+
+const parser = new XMLParser({
+  ignoreAttributes: true,
+  removeNSPrefix: true,
+  parseTagValue: false,
+  isArray: name => name === 'url' || name === 'sitemap'
+});
+
+/**
+ * Default cap on sitemap documents fetched per run (overridable via environment)
+ */
+export function getDefaultMaxSitemaps(): number {
+  return parseInt(process.env.SITEMAP_MAX_DOCUMENTS || '50');
+}
+
+/**
+ * Whether a URL looks like a vehicle detail page (or carries a VIN)
+ */
+export function isVehicleDetailUrl(url: string, patterns: RegExp[] = DEFAULT_VDP_PATTERNS): boolean {
+  let path: string;
+  try {
+    path = decodeURIComponent(new URL(url).pathname);
+  } catch {
+    return false;
+  }
+  return patterns.some(pattern => pattern.test(path)) || extractVinFromUrl(url) !== null;
+}
+
+/**
+ * Pull a VIN out of a URL: a 17-character token of VIN characters with both
+ * letters and digits, so slugs and model names don't match
+ */
+export function extractVinFromUrl(url: string): string | null {
+  let decoded: string;
+  try {
+    const parsed = new URL(url);
+    decoded = decodeURIComponent(parsed.pathname + parsed.search);
+  } catch {
+    return null;
+  }
+
+  for (const match of decoded.matchAll(VIN_PATTERN)) {
+    const candidate = match[1].toUpperCase();
+    if (/[A-Z]/.test(candidate) && /\d/.test(candidate)) return candidate;
+  }
+  return null;
+}
+
+/**
+ * Pull a stock number out of a URL's query string (stock=, stk=, ...) or path (stock-12345)
+ */
+export function extractStockNumberFromUrl(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  for (const [key, value] of parsed.searchParams) {
+    if (STOCK_QUERY_PARAMS.includes(key.toLowerCase()) && value.trim()) return value.trim().toUpperCase();
+  }
+
+  const match = decodeURIComponent(parsed.pathname).match(STOCK_PATH_PATTERN);
+  return match ? match[1].toUpperCase() : null;
+}
+
+/**
+ * Infer new/used/certified from the URL path
+ */
+function extractCondition(url: string): SitemapCondition | null {
+  const path = url.toLowerCase();
+  if (/\/(certified|cpo)[/-]/.test(path)) return 'certified';
+  if (/\/(used|pre-?owned)[/-]/.test(path)) return 'used';
+  if (/\/new[/-]/.test(path)) return 'new';
+  return null;
+}
+
+/**
+ * Parse a sitemap document into child sitemaps (index) and page URLs (urlset)
+ */
+export function parseSitemapXml(xml: string): { sitemaps: string[]; urls: Array<{ loc: string; lastmod: string | null }> } {
+  const document = parser.parse(xml);
+  const locOf = (entry: any): string | null => typeof entry?.loc === 'string' ? entry.loc.trim() : null;
+
+  const sitemaps = (document?.sitemapindex?.sitemap || [])
+    .map(locOf)
+    .filter((loc: string | null): loc is string => !!loc);
+  const urls = (document?.urlset?.url || [])
+    .map((entry: any) => ({ loc: locOf(entry), lastmod: typeof entry?.lastmod === 'string' ? entry.lastmod : null }))
+    .filter((entry: { loc: string | null }) => !!entry.loc);
+
+  return { sitemaps, urls };
+}
+
+/**
+ * Fetch one sitemap document through the host throttle, gunzipping .gz sitemaps
+ */
+async function fetchSitemap(url: string, metrics?: RequestMetrics): Promise<string> {
+  const response = await throttledFetch(url, {
+    headers: { Accept: 'application/xml, text/xml;q=0.9, */*;q=0.8' }
+  }, metrics);
+
+  if (!response.ok) {
+    throw createResponseError(response);
+  }
+
+  const body = Buffer.from(await response.arrayBuffer());
+  const gzipped = body.length > 2 && body[0] === 0x1f && body[1] === 0x8b;
+  return (gzipped ? gunzipSync(body) : body).toString('utf8');
+}
+
+/**
+ * Walk the sitemaps breadth first and collect vehicle detail page URLs.
+ * Unreadable sitemaps are recorded and skipped; throws only when none could be read.
+ */
+export async function discoverSitemapVehicles(
+  config: SitemapDiscoveryConfig,
+  logFunction?: (level: string, message: string, data?: any) => void
+): Promise<SitemapDiscoveryResult> {
+  const maxSitemaps = config.maxSitemaps || getDefaultMaxSitemaps();
+  const pending = [...config.sitemapUrls];
+  const visited = new Set<string>();
+  const entries = new Map<string, SitemapVehicleEntry>();
+  const result: SitemapDiscoveryResult = {
+    sitemaps_fetched: 0,
+    sitemap_errors: [],
+    urls_scanned: 0,
+    entries: [],
+    vins: [],
+    truncated: false
+  };
+
+  while (pending.length > 0) {
+    const url = pending.shift()!;
+    if (visited.has(url)) continue;
+    if (visited.size >= maxSitemaps) {
+      result.truncated = true;
+      break;
+    }
+    visited.add(url);
+
+    let parsed: ReturnType<typeof parseSitemapXml>;
+    try {
+      parsed = parseSitemapXml(await fetchSitemap(url, config.metrics));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      result.sitemap_errors.push({ url, error: message });
+      logFunction?.('warn', 'Failed to read sitemap', { url, error: message });
+      continue;
+    }
+
+    result.sitemaps_fetched++;
+    pending.push(...parsed.sitemaps);
+    result.urls_scanned += parsed.urls.length;
+
+    for (const { loc, lastmod } of parsed.urls) {
+      if (entries.has(loc) || !isVehicleDetailUrl(loc, config.vdpPatterns)) continue;
+      entries.set(loc, {
+        url: loc,
+        vin: extractVinFromUrl(loc),
+        stock_number: extractStockNumberFromUrl(loc),
+        condition: extractCondition(loc),
+        lastmod
+      });
+    }
+
+    logFunction?.('info', 'Read sitemap', {
+      url,
+      childSitemaps: parsed.sitemaps.length,
+      urls: parsed.urls.length,
+      vehiclePages: entries.size
+    });
+  }
+
+  if (result.sitemaps_fetched === 0) {
+    throw new Error(`No sitemap could be read: ${result.sitemap_errors.map(e => `${e.url} (${e.error})`).join('; ')}`);
+  }
+
+  result.entries = [...entries.values()];
+  result.vins = [...new Set(result.entries.map(entry => entry.vin).filter((vin): vin is string => !!vin))];
+  return result;
+}
+
+/**
+ * Compare the sitemap's VINs with the VINs the API pull stored
+ */
+export function reconcileSitemapVins(sitemapVins: string[], apiVins: string[]): SitemapReconciliation {
+  const sitemap = new Set(sitemapVins.map(vin => vin.toUpperCase()));
+  const api = new Set(apiVins.map(vin => vin.toUpperCase()));
+
+  const missingFromApi = [...sitemap].filter(vin => !api.has(vin));
+  const missingFromSitemap = [...api].filter(vin => !sitemap.has(vin));
+
+  return {
+    sitemap_vins: sitemap.size,
+    api_vins: api.size,
+    matched: sitemap.size - missingFromApi.length,
+    missing_from_api: missingFromApi,
+    missing_from_sitemap: missingFromSitemap
+  };
+}
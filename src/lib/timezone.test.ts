@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatUtcOffset,
+  getTimezoneOffsetMinutes,
+  getZonedDateParts,
+  getZonedTimeCandidates,
+  isValidTimeZone,
+  resolveZonedTime,
+  zonedTimeToUtc
+} from './timezone.js';
+
+describe('timezone offsets', () => {
+  it('reports DST and standard offsets for the same zone', () => {
+    expect(getTimezoneOffsetMinutes(new Date('2026-07-01T12:00:00Z'), 'America/New_York')).toBe(-240);
+    expect(getTimezoneOffsetMinutes(new Date('2026-12-01T12:00:00Z'), 'America/New_York')).toBe(-300);
+    expect(getTimezoneOffsetMinutes(new Date('2026-07-01T12:00:00Z'), 'Asia/Kolkata')).toBe(330);
+  });
+
+  it('leaves zones without DST alone', () => {
+    expect(getTimezoneOffsetMinutes(new Date('2026-07-01T12:00:00Z'), 'America/Phoenix')).toBe(-420);
+    expect(getTimezoneOffsetMinutes(new Date('2026-12-01T12:00:00Z'), 'America/Phoenix')).toBe(-420);
+  });
+
+  it('gets wall-clock parts with the weekday', () => {
+    expect(getZonedDateParts(new Date('2026-10-19T02:30:00Z'), 'America/Los_Angeles')).toEqual({
+      year: 2026, month: 10, day: 18, hour: 19, minute: 30, second: 0, weekday: 0
+    });
+  });
+
+  it('formats offsets', () => {
+    expect(formatUtcOffset(-300)).toBe('-05:00');
+    expect(formatUtcOffset(330)).toBe('+05:30');
+    expect(formatUtcOffset(0)).toBe('+00:00');
+  });
+
+  it('validates zone names', () => {
+    expect(isValidTimeZone('America/Chicago')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+    expect(isValidTimeZone('')).toBe(false);
+  });
+});
+
+describe('resolveZonedTime', () => {
+  const springGap = { year: 2027, month: 3, day: 14, hour: 2, minute: 30 };
+  const fallOverlap = { year: 2026, month: 11, day: 1, hour: 1, minute: 30 };
+
+  it('resolves ordinary times exactly', () => {
+    const resolved = resolveZonedTime({ year: 2026, month: 10, day: 19, hour: 1, minute: 0 }, 'America/New_York');
+    expect(resolved).toMatchObject({ resolution: 'exact', offsetMinutes: -240 });
+    expect(resolved.instant.toISOString()).toBe('2026-10-19T05:00:00.000Z');
+  });
+
+  it('shifts times skipped by spring-forward', () => {
+    expect(getZonedTimeCandidates(springGap, 'America/New_York')).toEqual([]);
+
+    const compatible = resolveZonedTime(springGap, 'America/New_York');
+    expect(compatible.resolution).toBe('gap');
+    expect(compatible.instant.toISOString()).toBe('2027-03-14T07:30:00.000Z');
+    expect(resolveZonedTime(springGap, 'America/New_York', 'earlier').instant.toISOString()).toBe('2027-03-14T06:30:00.000Z');
+    expect(() => resolveZonedTime(springGap, 'America/New_York', 'reject')).toThrow(/Nonexistent local time/);
+  });
+
+  it('picks one instant of times repeated by fall-back', () => {
+    expect(getZonedTimeCandidates(fallOverlap, 'America/New_York').map(date => date.toISOString()))
+      .toEqual(['2026-11-01T05:30:00.000Z', '2026-11-01T06:30:00.000Z']);
+
+    expect(resolveZonedTime(fallOverlap, 'America/New_York')).toMatchObject({ resolution: 'overlap', offsetMinutes: -240 });
+    expect(resolveZonedTime(fallOverlap, 'America/New_York', 'later').offsetMinutes).toBe(-300);
+    expect(() => resolveZonedTime(fallOverlap, 'America/New_York', 'reject')).toThrow(/Ambiguous local time/);
+  });
+
+  it('converts with the compatible policy', () => {
+    expect(zonedTimeToUtc(fallOverlap, 'America/New_York').toISOString()).toBe('2026-11-01T05:30:00.000Z');
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * IANA Timezone Utilities
+ *
+ * Converts between UTC instants and wall-clock times in an IANA timezone
+ * using the offsets reported by Intl.DateTimeFormat, so daylight saving
+ * transitions are honoured without a bundled timezone database.
+ */
+
+export interface ZonedDateParts {
+  year: number;
+  month: number;    // 1-12
+  day: number;      // 1-31
+  hour: number;     // 0-23
+  minute: number;
+  second: number;
+  weekday: number;  // 0 = Sunday
+}
+
+export type ZonedTimeInput = Omit<ZonedDateParts, 'weekday' | 'second'> & { second?: number };
+
+const WEEKDAY_INDEX: Record<string, number> = {
+  Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6
+};
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Get (and cache) a formatter that reports wall-clock parts for a timezone
+ */
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short'
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Get the wall-clock date parts of an instant in the given timezone
+ */
+export function getZonedDateParts(date: Date, timeZone: string): ZonedDateParts {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: parseInt(parts.year),
+    month: parseInt(parts.month),
+    day: parseInt(parts.day),
+    hour: parseInt(parts.hour) % 24,
+    minute: parseInt(parts.minute),
+    second: parseInt(parts.second),
+    weekday: WEEKDAY_INDEX[parts.weekday]
+  };
+}
+
+/**
+ * Get the UTC offset (in minutes, east of UTC positive) of a timezone at an instant
+ */
+export function getTimezoneOffsetMinutes(date: Date, timeZone: string): number {
+  const parts = getZonedDateParts(date, timeZone);
+  const wallClockMs = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  const instantMs = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((wallClockMs - instantMs) / 60000);
+}
+
+/**
+ * Get every UTC instant at which a wall-clock time occurs in a timezone.
+ *
+ * Returns one instant normally, two (earliest first) when the time is
+ * repeated by a fall-back transition, and none when it is skipped by a
+ * spring-forward transition.
+ */
+export function getZonedTimeCandidates(input: ZonedTimeInput, timeZone: string): Date[] {
+  const wallClockMs = Date.UTC(input.year, input.month - 1, input.day, input.hour, input.minute, input.second ?? 0);
+
+  // Offsets a day either side bracket any transition affecting this wall time
+  const offsetBefore = getTimezoneOffsetMinutes(new Date(wallClockMs - 86400000), timeZone);
+  const offsetAfter = getTimezoneOffsetMinutes(new Date(wallClockMs + 86400000), timeZone);
+
+  return [offsetBefore, offsetAfter]
+    .map(offset => wallClockMs - offset * 60000)
+    .filter((instantMs, index, all) => all.indexOf(instantMs) === index)
+    .filter(instantMs => {
+      const parts = getZonedDateParts(new Date(instantMs), timeZone);
+      return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second) === wallClockMs;
+    })
+    .sort((a, b) => a - b)
+    .map(instantMs => new Date(instantMs));
+}
+
+export type ZonedTimeResolution = 'exact' | 'gap' | 'overlap';
+
+/**
+ * How to resolve wall-clock times affected by a DST transition:
+ * - compatible: gaps shift forward by the gap length, overlaps take the earlier instant
+ * - earlier / later: pick the instant before or after the transition
+ * - reject: throw instead of guessing
+ */
+export type DstDisambiguation = 'compatible' | 'earlier' | 'later' | 'reject';
+
+export interface ResolvedZonedTime {
+  instant: Date;
+  resolution: ZonedTimeResolution;
+  offsetMinutes: number;
+}
+
+/**
+ * Resolve a wall-clock time in a timezone to a UTC instant, reporting
+ * whether the time was skipped (gap) or repeated (overlap) by a DST transition.
+ */
+export function resolveZonedTime(
+  input: ZonedTimeInput,
+  timeZone: string,
+  disambiguation: DstDisambiguation = 'compatible'
+): ResolvedZonedTime {
+  const wallClockMs = Date.UTC(input.year, input.month - 1, input.day, input.hour, input.minute, input.second ?? 0);
+  const candidates = getZonedTimeCandidates(input, timeZone);
+  const describe = () => `${new Date(wallClockMs).toISOString().slice(0, 19)} in ${timeZone}`;
+
+  let instant: Date;
+  let resolution: ZonedTimeResolution;
+
+  if (candidates.length === 1) {
+    instant = candidates[0];
+    resolution = 'exact';
+  } else if (candidates.length > 1) {
+    if (disambiguation === 'reject') {
+      throw new Error(`Ambiguous local time ${describe()} (repeated by DST fall-back)`);
+    }
+    instant = disambiguation === 'later' ? candidates[candidates.length - 1] : candidates[0];
+    resolution = 'overlap';
+  } else {
+    if (disambiguation === 'reject') {
+      throw new Error(`Nonexistent local time ${describe()} (skipped by DST spring-forward)`);
+    }
+    const offsetBefore = getTimezoneOffsetMinutes(new Date(wallClockMs - 86400000), timeZone);
+    const offsetAfter = getTimezoneOffsetMinutes(new Date(wallClockMs + 86400000), timeZone);
+    // Pre-transition offset lands after the gap, post-transition offset lands before it
+    const offset = disambiguation === 'earlier' ? offsetAfter : offsetBefore;
+    instant = new Date(wallClockMs - offset * 60000);
+    resolution = 'gap';
+  }
+
+  return {
+    instant,
+    resolution,
+    offsetMinutes: getTimezoneOffsetMinutes(instant, timeZone)
+  };
+}
+
+/**
+ * Convert a wall-clock time in a timezone to the UTC instant it denotes.
+ *
+ * Times skipped by a spring-forward transition are shifted forward by the
+ * length of the gap; times repeated by a fall-back transition resolve to
+ * the earlier of the two instants.
+ */
+export function zonedTimeToUtc(input: ZonedTimeInput, timeZone: string): Date {
+  return resolveZonedTime(input, timeZone, 'compatible').instant;
+}
+
+/**
+ * Check whether a string is an IANA timezone the runtime recognises
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Format a UTC offset in minutes as "+HH:MM" / "-HH:MM"
+ */
+export function formatUtcOffset(offsetMinutes: number): string {
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const absolute = Math.abs(offsetMinutes);
+  return `${sign}${String(Math.floor(absolute / 60)).padStart(2, '0')}:${String(absolute % 60).padStart(2, '0')}`;
+}
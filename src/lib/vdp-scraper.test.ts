@@ -0,0 +1,117 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { throttledFetch } from './host-throttle.js';
+import { applyVdpDetails, parseVehicleDetailPage, scrapeVehicleDetailPage, type VdpDetails } from './vdp-scraper.js';
+
+vi.mock('./host-throttle.js', async importOriginal => ({
+  ...(await importOriginal<typeof import('./host-throttle.js')>()),
+  throttledFetch: vi.fn()
+}));
+
+const fixture = (name: string) => readFileSync(join(__dirname, '__fixtures__', 'vdp', name), 'utf8');
+
+const PORSCHE_URL = 'https://www.example-porsche.com/new/Porsche/2025-Porsche-911-Carrera-WP0AB2A99KS123456.htm';
+const TOYOTA_URL = 'https://www.example-toyota.com/used/Toyota/2021-Toyota-Camry-SE-4T1G11AK5MU123456.htm';
+
+afterEach(() => {
+  vi.mocked(throttledFetch).mockReset();
+});
+
+describe('parseVehicleDetailPage', () => {
+  it('reads a Car node from a JSON-LD @graph, skipping unparseable scripts', () => {
+    const details = parseVehicleDetailPage(fixture('json-ld-graph.html'), PORSCHE_URL);
+
+    expect(details).toMatchObject({
+      vin: 'WP0AB2A99KS123456',
+      description: 'One owner. Sport Chrono Package, heated seats and a clean history.',
+      mileage: 1205,
+      color_ext: 'GT Silver Metallic',
+      color_int: 'Black Leather',
+      features: ['Sport Chrono Package', '21/20-inch Carrera S wheels']
+    });
+    expect(details.field_sources).toMatchObject({
+      vin: 'json_ld',
+      description: 'json_ld',
+      mileage: 'json_ld',
+      features: 'json_ld'
+    });
+  });
+
+  it('falls back to selectors only for fields JSON-LD did not supply', () => {
+    const details = parseVehicleDetailPage(fixture('json-ld-graph.html'), PORSCHE_URL);
+
+    expect(details.window_sticker_url).toBe('https://www.example-porsche.com/windowsticker.pdf?vin=WP0AB2A99KS123456');
+    expect(details.field_sources.window_sticker_url).toBe('selector');
+    expect(details.options).toBeNull();
+  });
+
+  it('reads pages without vehicle JSON-LD through the default selectors', () => {
+    const details = parseVehicleDetailPage(fixture('selectors-only.html'), TOYOTA_URL);
+
+    expect(details).toMatchObject({
+      vin: null,
+      description: 'Clean Carfax, new tires and a full service history at our dealership.',
+      window_sticker_url: 'https://media.example-cdn.com/monroney/4T1G11AK5MU123456.pdf',
+      options: ['Moonroof Package', 'All-Weather Floor Mats'],
+      features: null,
+      mileage: null
+    });
+    expect(details.field_sources).toEqual({
+      description: 'selector',
+      window_sticker_url: 'selector',
+      options: 'selector'
+    });
+  });
+
+  it('uses per-site selector overrides', () => {
+    const details = parseVehicleDetailPage(fixture('selectors-only.html'), TOYOTA_URL, {
+      features: '.custom-specs .spec',
+      window_sticker: 'a[href^="/window-sticker/"]'
+    });
+
+    expect(details.features).toEqual(['Adaptive Cruise Control', 'Lane Departure Alert']);
+    expect(details.window_sticker_url).toBe('https://www.example-toyota.com/window-sticker/4T1G11AK5MU123456');
+  });
+});
+
+describe('scrapeVehicleDetailPage', () => {
+  it('fetches and parses a page through the host throttle', async () => {
+    vi.mocked(throttledFetch).mockResolvedValue(new Response(fixture('selectors-only.html')));
+
+    const details = await scrapeVehicleDetailPage(TOYOTA_URL);
+
+    expect(throttledFetch).toHaveBeenCalledWith(TOYOTA_URL, expect.anything(), undefined);
+    expect(details.options).toEqual(['Moonroof Package', 'All-Weather Floor Mats']);
+  });
+
+  it('throws on an error response', async () => {
+    vi.mocked(throttledFetch).mockResolvedValue(new Response('Gone', { status: 410, statusText: 'Gone' }));
+
+    await expect(scrapeVehicleDetailPage(TOYOTA_URL)).rejects.toThrow(/410/);
+  });
+});
+
+describe('applyVdpDetails', () => {
+  const details = parseVehicleDetailPage(fixture('json-ld-graph.html'), PORSCHE_URL);
+
+  it('fills only the fields the record is missing', () => {
+    const vehicle = { vin: 'WP0AB2A99KS123456', mileage: 1100, full_description: '', features: [] };
+
+    expect(applyVdpDetails(vehicle, details)).toMatchObject({
+      mileage: 1100,
+      full_description: 'One owner. Sport Chrono Package, heated seats and a clean history.',
+      features: ['Sport Chrono Package', '21/20-inch Carrera S wheels'],
+      window_sticker_url: 'https://www.example-porsche.com/windowsticker.pdf?vin=WP0AB2A99KS123456',
+      color_ext: 'GT Silver Metallic'
+    });
+  });
+
+  it('returns the same record when there is nothing to fill', () => {
+    const empty: VdpDetails = { ...details, description: null, window_sticker_url: null, features: null, mileage: null, color_ext: null, color_int: null };
+    const vehicle = { vin: 'WP0AB2A99KS123456' };
+
+    expect(applyVdpDetails(vehicle, empty)).toBe(vehicle);
+    expect(applyVdpDetails(vehicle, null)).toBe(vehicle);
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Vehicle Detail Page Scraper
+ *
+ * Reads a dealer's vehicle detail page (the `dealer_page_url` of a stored
+ * vehicle) for what the Dealer.com inventory API leaves out: the full
+ * description, the window sticker link and option lists. Schema.org JSON-LD
+ * (`Vehicle`/`Car`) is read first; fields it doesn't carry fall back to CSS
+ * selectors, which dealers can override per site.
+ */
+
+import * as cheerio from 'cheerio';
+import { throttledFetch, createResponseError, type RequestMetrics } from './host-throttle.js';
+
+export interface VdpSelectors {
+  description: string;
+  window_sticker: string;  // link whose href is the sticker
+  options: string;         // one element per installed option
+  features: string;        // one element per feature
+}
+
+export type VdpFieldSource = 'json_ld' | 'selector';
+
+export interface VdpDetails {
+  vin: string | null;
+  description: string | null;
+  window_sticker_url: string | null;
+  options: string[] | null;
+  features: string[] | null;
+  mileage: number | null;
+  color_ext: string | null;
+  color_int: string | null;
+  field_sources: Partial<Record<Exclude<keyof VdpDetails, 'field_sources'>, VdpFieldSource>>;
+}
+
+/**
+ * Selectors for the markup common dealer site platforms use
+ */
+export const DEFAULT_VDP_SELECTORS: VdpSelectors = {
+  description: '[itemprop="description"], .vehicle-description, .vdp-description, #vehicle-description, [data-vehicle-description]',
+  window_sticker: 'a[href*="window-sticker" i], a[href*="windowsticker" i], a[href*="monroney" i], a[href*="sticker.pdf" i]',
+  options: '.installed-options li, .vehicle-options li, .options-list li, [data-installed-options] li',
+  features: '.vehicle-features li, .features-list li, .highlighted-features li'
+};
+
+const VEHICLE_TYPES = ['Vehicle', 'Car', 'Motorcycle', 'BusOrCoach'];
+
+/**
+ * Collapse whitespace; null for empty text
+ */
+function cleanText(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const text = value.replace(/\s+/g, ' ').trim();
+  return text.length > 0 ? text : null;
+}
+
+/**
+ * Whether a JSON-LD node is typed as a vehicle
+ */
+function isVehicleNode(node: any): boolean {
+  const types = Array.isArray(node?.['@type']) ? node['@type'] : [node?.['@type']];
+  return types.some((type: unknown) => typeof type === 'string' && VEHICLE_TYPES.includes(type.replace(/^.*[/:]/, '')));
+}
+
+/**
+ * Find the first vehicle node in a JSON-LD document (arrays and @graph included)
+ */
+function findVehicleNode(node: any): any | null {
+  if (Array.isArray(node)) {
+    for (const item of node) {
+      const found = findVehicleNode(item);
+      if (found) return found;
+    }
+    return null;
+  }
+  if (!node || typeof node !== 'object') return null;
+  if (isVehicleNode(node)) return node;
+  return node['@graph'] ? findVehicleNode(node['@graph']) : null;
+}
+
+/**
+ * Read a mileage (QuantitativeValue, number or "12,345 mi") as an integer
+ */
+function parseMileage(value: any): number | null {
+  const raw = value && typeof value === 'object' ? value.value : value;
+  if (typeof raw === 'number') return Math.round(raw);
+  if (typeof raw !== 'string') return null;
+  const parsed = parseInt(raw.replace(/[^\d]/g, ''));
+  return isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Text of every element a selector matches, de-duplicated; null when none
+ */
+function selectList($: cheerio.CheerioAPI, selector: string): string[] | null {
+  const items = $(selector).toArray()
+    .map(element => cleanText($(element).text()))
+    .filter((text): text is string => !!text);
+  return items.length > 0 ? [...new Set(items)] : null;
+}
+
+/**
+ * Parse a vehicle detail page; relative links are resolved against `pageUrl`
+ */
+export function parseVehicleDetailPage(
+  html: string,
+  pageUrl: string,
+  selectors: Partial<VdpSelectors> = {}
+): VdpDetails {
+  const $ = cheerio.load(html);
+  const resolved = { ...DEFAULT_VDP_SELECTORS, ...selectors };
+  const details: VdpDetails = {
+    vin: null,
+    description: null,
+    window_sticker_url: null,
+    options: null,
+    features: null,
+    mileage: null,
+    color_ext: null,
+    color_int: null,
+    field_sources: {}
+  };
+
+  const set = <K extends Exclude<keyof VdpDetails, 'field_sources'>>(field: K, value: VdpDetails[K], source: VdpFieldSource) => {
+    if (details[field] !== null || value === null || value === undefined) return;
+    details[field] = value;
+    details.field_sources[field] = source;
+  };
+
+  // JSON-LD first: structured, and the same on every platform that emits it
+  for (const script of $('script[type="application/ld+json"]').toArray()) {
+    let document: unknown;
+    try {
+      document = JSON.parse($(script).contents().text());
+    } catch {
+      continue;
+    }
+
+    const vehicle = findVehicleNode(document);
+    if (!vehicle) continue;
+
+    const featureList = (Array.isArray(vehicle.additionalProperty) ? vehicle.additionalProperty : [])
+      .map((property: any) => cleanText(property?.value === true ? property?.name : property?.value ?? property?.name))
+      .filter((text: string | null): text is string => !!text);
+
+    set('vin', cleanText(vehicle.vehicleIdentificationNumber)?.toUpperCase() ?? null, 'json_ld');
+    set('description', cleanText(vehicle.description), 'json_ld');
+    set('mileage', parseMileage(vehicle.mileageFromOdometer), 'json_ld');
+    set('color_ext', cleanText(vehicle.color), 'json_ld');
+    set('color_int', cleanText(vehicle.vehicleInteriorColor), 'json_ld');
+    set('features', featureList.length > 0 ? featureList : null, 'json_ld');
+    break;
+  }
+
+  // Selectors for whatever JSON-LD didn't supply
+  const description = $(resolved.description).toArray()
+    .map(element => cleanText($(element).text()))
+    .filter((text): text is string => !!text)
+    .sort((a, b) => b.length - a.length)[0];
+  set('description', description ?? null, 'selector');
+
+  const stickerHref = $(resolved.window_sticker).first().attr('href');
+  if (stickerHref) {
+    try {
+      set('window_sticker_url', new URL(stickerHref, pageUrl).toString(), 'selector');
+    } catch {
+      // Unusable href; leave the field empty
+    }
+  }
+
+  set('options', selectList($, resolved.options), 'selector');
+  set('features', selectList($, resolved.features), 'selector');
+
+  return details;
+}
+
+/**
+ * Fetch and parse one vehicle detail page through the host throttle
+ */
+export async function scrapeVehicleDetailPage(
+  url: string,
+  options: { selectors?: Partial<VdpSelectors>; metrics?: RequestMetrics } = {}
+): Promise<VdpDetails> {
+  const response = await throttledFetch(url, {
+    headers: { Accept: 'text/html,application/xhtml+xml' }
+  }, options.metrics);
+
+  if (!response.ok) {
+    throw createResponseError(response);
+  }
+
+  return parseVehicleDetailPage(await response.text(), response.url || url, options.selectors);
+}
+
+/**
+ * Whether a stored field counts as a gap the scrape may fill
+ */
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Fill the gaps in a vehicle record from its scraped detail page; fields the
+ * record already has are kept. Returns the record unchanged (same object) when
+ * there was nothing to fill.
+ */
+export function applyVdpDetails<T extends Record<string, any>>(vehicle: T, details: VdpDetails | null | undefined): T {
+  if (!details) return vehicle;
+
+  const fills: Record<string, unknown> = {
+    full_description: details.description,
+    window_sticker_url: details.window_sticker_url,
+    installed_options: details.options,
+    factory_options: details.options,
+    features: details.features,
+    mileage: details.mileage,
+    color_ext: details.color_ext,
+    color_int: details.color_int
+  };
+
+  const patch: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(fills)) {
+    if (!isEmpty(value) && isEmpty(vehicle[field])) patch[field] = value;
+  }
+
+  return Object.keys(patch).length > 0 ? { ...vehicle, ...patch } : vehicle;
+}
@@ -0,0 +1,88 @@
+/**
+ * Vehicle Detail Page Cache
+ *
+ * The last scrape of each vehicle's detail page, keyed on (dealer_id, vin).
+ * Scrapes are slow and rate limited, so pages are only re-read after a TTL or
+ * when the vehicle's URL changes; failed scrapes are kept (with their error) so
+ * a dead page isn't retried on every run. Inventory pulls re-apply the cached
+ * details so filled gaps survive the next pull.
+ */
+
+import type { Pool } from 'pg';
+import { databaseManager } from '../utils/database.js';
+import type { VdpDetails } from './vdp-scraper.js';
+
+export interface VehicleDetailPage {
+  vin: string;
+  url: string;
+  details: VdpDetails | null;  // null when the scrape failed
+  error: string | null;
+  scraped_at: Date;
+}
+
+/**
+ * Get the pool holding the detail page table (next to the vehicles table)
+ */
+function getDetailPagePool(pool?: Pool): Pool {
+  return pool || databaseManager.getSftpGoPool();
+}
+
+/**
+ * How long a scraped page is trusted before it is read again (overridable via environment)
+ */
+export function getDetailPageTtlMs(): number {
+  return parseInt(process.env.VDP_RESCRAPE_AFTER_MS || '604800000');
+}
+
+/**
+ * Get a dealer's cached detail pages by VIN
+ */
+export async function getVehicleDetailPages(dealerId: string, pool?: Pool): Promise<Map<string, VehicleDetailPage>> {
+  const { data, error } = await databaseManager.executeQuery(
+    getDetailPagePool(pool),
+    `SELECT vin, url, details, error, scraped_at
+     FROM vehicle_detail_pages
+     WHERE dealer_id = $1`,
+    [dealerId]
+  );
+
+  if (error || !data) {
+    throw new Error(`Failed to load vehicle detail pages for dealer ${dealerId}: ${error}`);
+  }
+
+  return new Map(data.map(row => [row.vin, {
+    vin: row.vin,
+    url: row.url,
+    details: row.details || null,
+    error: row.error || null,
+    scraped_at: new Date(row.scraped_at)
+  }]));
+}
+
+/**
+ * Store (or replace) a vehicle's scraped detail page
+ */
+export async function saveVehicleDetailPage(dealerId: string, page: VehicleDetailPage, pool?: Pool): Promise<void> {
+  const { error } = await databaseManager.executeQuery(
+    getDetailPagePool(pool),
+    `INSERT INTO vehicle_detail_pages (dealer_id, vin, url, details, error, scraped_at)
+     VALUES ($1, $2, $3, $4::jsonb, $5, $6)
+     ON CONFLICT (dealer_id, vin) DO UPDATE SET
+       url = EXCLUDED.url,
+       details = EXCLUDED.details,
+       error = EXCLUDED.error,
+       scraped_at = EXCLUDED.scraped_at`,
+    [dealerId, page.vin, page.url, page.details ? JSON.stringify(page.details) : null, page.error, page.scraped_at]
+  );
+
+  if (error) {
+    throw new Error(`Failed to save vehicle detail page for ${page.vin}: ${error}`);
+  }
+}
+
+/**
+ * Whether a vehicle's page needs (re)scraping: never scraped, URL changed, or older than the TTL
+ */
+export function isDetailPageDue(cached: VehicleDetailPage | undefined, url: string, ttlMs: number = getDetailPageTtlMs()): boolean {
+  return !cached || cached.url !== url || Date.now() - cached.scraped_at.getTime() > ttlMs;
+}
@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import { mergeVehicleRecords, resolveMergeRules } from './vehicle-merge.js';
+import { hashVehicleContent } from './vehicle-store.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const day1 = new Date('2026-10-18T06:00:00Z');
+const day2 = new Date(day1.getTime() + DAY_MS);
+
+const dealerCom = (fields: Record<string, any> = {}) => ({
+  vin: '1HGCY1F34RA012345',
+  make: 'Honda',
+  model: 'Accord',
+  price: 32995,
+  description: null,
+  mileage: 12400,
+  days_in_inventory: 19,
+  raw: { vin: '1HGCY1F34RA012345', fetched: day1.toISOString() },
+  source_priority: 1,
+  ...fields
+});
+
+const homenet = (fields: Record<string, any> = {}) => ({
+  vin: '1HGCY1F34RA012345',
+  price: 31995,
+  description: 'One owner, Honda certified.',
+  mileage: 12408,
+  source_priority: 2,
+  ...fields
+});
+
+/**
+ * What getDealerVehicles returns for a stored merged record
+ */
+const asStored = (merged: Record<string, any>) => ({ ...merged, dealer_id: 'dealer-1', status: 'available', updated_at: day1.toISOString() });
+
+describe('mergeVehicleRecords', () => {
+  it('picks each field by the default precedence and records provenance', () => {
+    const merged = mergeVehicleRecords([
+      { source: 'dealer.com', record: dealerCom(), observed_at: day1 },
+      { source: 'homenet', record: homenet(), observed_at: day1 }
+    ], null, { fallbackSource: 'dealer.com' });
+
+    expect(merged).toMatchObject({ make: 'Honda', price: 31995, mileage: 12408, description: 'One owner, Honda certified.' });
+    expect(merged.provenance.make).toEqual({ source: 'dealer.com', supplied_at: day1.toISOString() });
+    expect(merged.provenance.price.source).toBe('homenet');
+  });
+
+  it('keeps what other sources supplied when one source pulls again', () => {
+    const stored = asStored(mergeVehicleRecords([
+      { source: 'dealer.com', record: dealerCom(), observed_at: day1 },
+      { source: 'homenet', record: homenet(), observed_at: day1 }
+    ], null, { fallbackSource: 'dealer.com' }));
+
+    const merged = mergeVehicleRecords([{ source: 'dealer.com', record: dealerCom({ model: 'Accord Hybrid' }), observed_at: day2 }], stored, {
+      fallbackSource: 'dealer.com'
+    });
+
+    expect(merged).toMatchObject({ model: 'Accord Hybrid', price: 31995, description: 'One owner, Honda certified.' });
+    expect(merged.provenance.model.supplied_at).toBe(day2.toISOString());
+    expect(merged.provenance.make.supplied_at).toBe(day1.toISOString());
+    expect(merged).not.toHaveProperty('status');
+  });
+
+  it('only replaces the fields a partial record carries', () => {
+    const stored = asStored(mergeVehicleRecords([
+      { source: 'homenet', record: homenet(), observed_at: day1 }
+    ], null, { fallbackSource: 'dealer.com' }));
+
+    const merged = mergeVehicleRecords([
+      { source: 'homenet', record: { vin: '1HGCY1F34RA012345', price: 30995, description: '' }, observed_at: day2, partial: true }
+    ], stored, { fallbackSource: 'dealer.com' });
+
+    expect(merged).toMatchObject({ price: 30995, description: 'One owner, Honda certified.', mileage: 12408 });
+  });
+
+  it('lets a fresher source win once a value is older than max_age_ms', () => {
+    const rules = resolveMergeRules({ fields: { price: { precedence: ['dealer.com', 'homenet'], max_age_ms: DAY_MS } } });
+    const now = Date.now();
+
+    const merged = mergeVehicleRecords([
+      { source: 'dealer.com', record: dealerCom(), observed_at: new Date(now - 3 * DAY_MS) },
+      { source: 'homenet', record: homenet(), observed_at: new Date(now - 60000) }
+    ], null, { rules, fallbackSource: 'dealer.com' });
+
+    expect(merged.price).toBe(31995);
+    expect(merged.make).toBe('Honda');
+  });
+
+  it('clears a field only when its rule allows empty values', () => {
+    const stored = asStored(mergeVehicleRecords([{ source: 'dealer.com', record: dealerCom({ trim: 'EX-L' }), observed_at: day1 }], null, {
+      fallbackSource: 'dealer.com'
+    }));
+    const incoming = [{ source: 'dealer.com', record: dealerCom({ trim: null }), observed_at: day2 }];
+
+    expect(mergeVehicleRecords(incoming, stored, { fallbackSource: 'dealer.com' })).not.toHaveProperty('trim');
+    const rules = resolveMergeRules({ fields: { trim: { allow_null: true } } });
+    expect(mergeVehicleRecords(incoming, stored, { rules, fallbackSource: 'dealer.com' }).trim).toBeNull();
+  });
+
+  it('credits stored fields without provenance to the fallback source', () => {
+    const legacy = { vin: '1HGCY1F34RA012345', price: 33995, make: 'Honda', updated_at: day1.toISOString() };
+    const merged = mergeVehicleRecords([{ source: 'homenet', record: homenet(), observed_at: day2, partial: true }], legacy, {
+      rules: resolveMergeRules({ fields: { price: { precedence: ['dealer.com', 'homenet'] } } }),
+      fallbackSource: 'dealer.com'
+    });
+
+    expect(merged.price).toBe(33995);
+    expect(merged.provenance.price).toEqual({ source: 'dealer.com', supplied_at: day1.toISOString() });
+  });
+});
+
+describe('merged content hash', () => {
+  it('is unchanged when the same listing is pulled on the next day', () => {
+    const first = mergeVehicleRecords([{ source: 'dealer.com', record: dealerCom(), observed_at: day1 }], null, {
+      fallbackSource: 'dealer.com'
+    });
+    const second = mergeVehicleRecords([{
+      source: 'dealer.com',
+      record: dealerCom({ days_in_inventory: 20, raw: { vin: '1HGCY1F34RA012345', fetched: day2.toISOString() } }),
+      observed_at: day2
+    }], asStored(first), { fallbackSource: 'dealer.com' });
+
+    expect(second.provenance.days_in_inventory.supplied_at).toBe(day2.toISOString());
+    expect(hashVehicleContent(second)).toBe(hashVehicleContent(first));
+  });
+
+  it('changes when the listing changes', () => {
+    const first = mergeVehicleRecords([{ source: 'dealer.com', record: dealerCom(), observed_at: day1 }], null, {
+      fallbackSource: 'dealer.com'
+    });
+    const repriced = mergeVehicleRecords([{ source: 'dealer.com', record: dealerCom({ price: 31495 }), observed_at: day2 }], asStored(first), {
+      fallbackSource: 'dealer.com'
+    });
+
+    expect(hashVehicleContent(repriced)).not.toBe(hashVehicleContent(first));
+  });
+});
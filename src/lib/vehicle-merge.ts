@@ -0,0 +1,179 @@
+/**
+ * Vehicle Source Merge
+ *
+ * Merges the records different sources (Dealer.com, HomeNet, ...) hold for one
+ * vehicle, field by field. Each field has a rule: an ordered source precedence,
+ * an optional freshness window after which a source's value yields to a fresher
+ * one, and whether an empty value from a source may clear the field. The merged
+ * record keeps `provenance`: for each field, the source that supplied the value
+ * and when it first supplied it. A stored record is split back into per-source
+ * values through its provenance, so a later pull from one source never erases
+ * what another supplied.
+ */
+
+export interface VehicleSourceRecord {
+  source: string;                 // e.g. 'dealer.com', 'homenet'
+  record: Record<string, any>;
+  observed_at: Date;
+  partial?: boolean;              // only the fields it carries are current (incremental pulls)
+}
+
+export interface MergeFieldRule {
+  precedence: string[];           // sources in order of preference; unlisted sources follow by source_priority
+  max_age_ms: number | null;      // a value older than this yields to any fresher one
+  allow_null: boolean;            // an empty value from a full record may win (and clear the field)
+}
+
+export interface MergeRules {
+  default: MergeFieldRule;
+  fields: Record<string, Partial<MergeFieldRule>>;
+}
+
+export interface FieldProvenance {
+  source: string;
+  supplied_at: string;            // ISO time the source first supplied the current value
+}
+
+export type VehicleProvenance = Record<string, FieldProvenance>;
+
+interface MergeCandidate {
+  source: string;
+  value: unknown;
+  observed_at: Date;
+  provenance: FieldProvenance | null;   // stored values keep their original provenance
+}
+
+/**
+ * Stored-row columns that belong to no source
+ */
+const BOOKKEEPING_FIELDS = new Set(['dealer_id', 'status', 'created_at', 'updated_at', 'provenance']);
+
+/**
+ * Dealer.com wins by default; HomeNet keeps the description, mileage and price
+ * it has always supplied in multi-source mode
+ */
+export const DEFAULT_MERGE_RULES: MergeRules = {
+  default: { precedence: ['dealer.com', 'homenet'], max_age_ms: null, allow_null: false },
+  fields: {
+    description: { precedence: ['homenet', 'dealer.com'] },
+    mileage: { precedence: ['homenet', 'dealer.com'] },
+    price: { precedence: ['homenet', 'dealer.com'] }
+  }
+};
+
+/**
+ * Layer a dealer's overrides (`api_config.merge_rules`) on the default rules
+ */
+export function resolveMergeRules(overrides?: { default?: Partial<MergeFieldRule>; fields?: Record<string, Partial<MergeFieldRule>> } | null): MergeRules {
+  return {
+    default: { ...DEFAULT_MERGE_RULES.default, ...(overrides?.default || {}) },
+    fields: { ...DEFAULT_MERGE_RULES.fields, ...(overrides?.fields || {}) }
+  };
+}
+
+/**
+ * Whether a value counts as missing
+ */
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Whether two field values are the same
+ */
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Split a stored vehicle back into the values each source supplied. Fields with
+ * no provenance (records stored before merging) are credited to `fallbackSource`.
+ */
+function splitStoredVehicle(stored: Record<string, any>, fallbackSource: string): Map<string, Map<string, MergeCandidate>> {
+  const provenance: VehicleProvenance = stored.provenance || {};
+  const fallbackTime = stored.updated_at ? new Date(stored.updated_at) : new Date(0);
+  const bySource = new Map<string, Map<string, MergeCandidate>>();
+
+  for (const [field, value] of Object.entries(stored)) {
+    if (BOOKKEEPING_FIELDS.has(field) || isEmpty(value)) continue;
+
+    const entry = provenance[field] || null;
+    const source = entry?.source || fallbackSource;
+    if (!bySource.has(source)) bySource.set(source, new Map());
+    bySource.get(source)!.set(field, {
+      source,
+      value,
+      observed_at: entry ? new Date(entry.supplied_at) : fallbackTime,
+      provenance: entry
+    });
+  }
+
+  return bySource;
+}
+
+/**
+ * Merge the fresh records of one vehicle with what is stored for it. A full
+ * record replaces everything its source supplied before; a partial record only
+ * replaces the fields it carries.
+ */
+export function mergeVehicleRecords(
+  incoming: VehicleSourceRecord[],
+  stored: Record<string, any> | null | undefined,
+  options: { rules?: MergeRules; fallbackSource: string }
+): Record<string, any> {
+  const rules = options.rules || DEFAULT_MERGE_RULES;
+  const candidatesBySource = stored ? splitStoredVehicle(stored, options.fallbackSource) : new Map<string, Map<string, MergeCandidate>>();
+  const sourcePriority = new Map<string, number>();
+
+  for (const { source, record, observed_at, partial } of incoming) {
+    if (!partial || !candidatesBySource.has(source)) candidatesBySource.set(source, new Map());
+    const candidates = candidatesBySource.get(source)!;
+    if (typeof record.source_priority === 'number') sourcePriority.set(source, record.source_priority);
+
+    for (const [field, value] of Object.entries(record)) {
+      if (BOOKKEEPING_FIELDS.has(field)) continue;
+      const rule = { ...rules.default, ...(rules.fields[field] || {}) };
+      if (isEmpty(value) && (partial || !rule.allow_null)) continue;
+      candidates.set(field, { source, value: value ?? null, observed_at, provenance: null });
+    }
+  }
+
+  const fields = new Set<string>();
+  for (const candidates of candidatesBySource.values()) {
+    for (const field of candidates.keys()) fields.add(field);
+  }
+
+  const merged: Record<string, any> = {};
+  const provenance: VehicleProvenance = {};
+  const now = Date.now();
+
+  for (const field of fields) {
+    const rule = { ...rules.default, ...(rules.fields[field] || {}) };
+    const rank = (candidate: MergeCandidate) => {
+      const index = rule.precedence.indexOf(candidate.source);
+      return index >= 0 ? index : rule.precedence.length + (sourcePriority.get(candidate.source) ?? Number.MAX_SAFE_INTEGER);
+    };
+    const isStale = (candidate: MergeCandidate) =>
+      rule.max_age_ms !== null && now - candidate.observed_at.getTime() > rule.max_age_ms;
+
+    const candidates = [...candidatesBySource.values()]
+      .map(bySource => bySource.get(field))
+      .filter((candidate): candidate is MergeCandidate => !!candidate)
+      .sort((a, b) =>
+        Number(isStale(a)) - Number(isStale(b)) ||
+        rank(a) - rank(b) ||
+        b.observed_at.getTime() - a.observed_at.getTime());
+
+    const winner = candidates[0];
+    merged[field] = winner.value;
+
+    // An unchanged value from the same source keeps the time it was first supplied
+    const previous = stored?.provenance?.[field] as FieldProvenance | undefined;
+    provenance[field] = winner.provenance
+      || (previous && previous.source === winner.source && sameValue(stored?.[field], winner.value)
+        ? previous
+        : { source: winner.source, supplied_at: winner.observed_at.toISOString() });
+  }
+
+  return { ...merged, provenance };
+}
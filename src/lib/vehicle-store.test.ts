@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { hashVehicleContent, normalizeVin, stableStringify } from './vehicle-store.js';
+
+describe('stableStringify', () => {
+  it('sorts object keys at every depth', () => {
+    expect(stableStringify({ b: 1, a: { d: [2, { f: 3, e: 4 }], c: 'x' } }))
+      .toBe('{"a":{"c":"x","d":[2,{"e":4,"f":3}]},"b":1}');
+    expect(stableStringify({ make: 'Porsche', model: '911' })).toBe(stableStringify({ model: '911', make: 'Porsche' }));
+  });
+
+  it('keeps array order', () => {
+    expect(stableStringify(['b', 'a'])).not.toBe(stableStringify(['a', 'b']));
+  });
+
+  it('drops undefined properties and serializes missing values as null', () => {
+    expect(stableStringify({ vin: 'WP0', trim: undefined })).toBe(stableStringify({ vin: 'WP0' }));
+    expect(stableStringify([undefined, null])).toBe('[null,null]');
+    expect(stableStringify(undefined)).toBe('null');
+  });
+});
+
+describe('hashVehicleContent', () => {
+  const vehicle = { vin: 'WP0AB2A99KS123456', make: 'Porsche', model: '911', price: 129900 };
+
+  it('hashes equal records equally regardless of key order', () => {
+    const reordered = { price: 129900, model: '911', make: 'Porsche', vin: 'WP0AB2A99KS123456' };
+    expect(hashVehicleContent(reordered)).toBe(hashVehicleContent(vehicle));
+    expect(hashVehicleContent(vehicle)).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('changes when listing data changes', () => {
+    expect(hashVehicleContent({ ...vehicle, price: 124900 })).not.toBe(hashVehicleContent(vehicle));
+  });
+
+  it('ignores volatile fields and undefined values', () => {
+    const rescraped = { ...vehicle, raw: { fetched_at: '2026-10-19T09:00:00Z' }, days_in_inventory: 12, trim: undefined };
+    expect(hashVehicleContent(rescraped)).toBe(hashVehicleContent(vehicle));
+  });
+});
+
+describe('normalizeVin', () => {
+  it('trims and upper-cases VINs and rejects missing ones', () => {
+    expect(normalizeVin(' wp0ab2a99ks123456 ')).toBe('WP0AB2A99KS123456');
+    expect(normalizeVin('  ')).toBeNull();
+    expect(normalizeVin(undefined)).toBeNull();
+  });
+});
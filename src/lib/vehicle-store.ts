@@ -0,0 +1,228 @@
+/**
+ * Vehicle Inventory Store
+ *
+ * Persists scraped inventory to the vehicles table, keyed on (dealer_id, vin).
+ * Writes are batched multi-row upserts; a content hash of each record lets the
+ * upsert skip rows whose data hasn't changed, so the counts returned separate
+ * created, updated and unchanged vehicles.
+ */
+
+import { createHash } from 'crypto';
+import type { Pool } from 'pg';
+import { databaseManager } from '../utils/database.js';
+
+export interface VehicleUpsertCounts {
+  created: number;
+  updated: number;
+  unchanged: number;
+}
+
+export interface VehicleUpsertOptions {
+  source: string;
+  batchSize?: number;
+  pool?: Pool;
+}
+
+/**
+ * Fields that change without the listing changing; excluded from the content hash.
+ * Provenance is bookkeeping: a volatile field's supplied_at moves on every pull.
+ */
+const VOLATILE_FIELDS = new Set(['raw', 'days_in_inventory', 'provenance']);
+
+/**
+ * Get the pool holding the vehicles table
+ */
+function getVehiclePool(pool?: Pool): Pool {
+  return pool || databaseManager.getSftpGoPool();
+}
+
+/**
+ * Default upsert batch size (overridable via environment)
+ */
+function getDefaultBatchSize(): number {
+  return parseInt(process.env.VEHICLE_UPSERT_BATCH_SIZE || '200');
+}
+
+/**
+ * Serialize a value with sorted object keys so equal records hash equally
+ */
+export function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort()
+      .filter(key => value[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Hash the listing data of a vehicle record (ignoring volatile fields)
+ */
+export function hashVehicleContent(vehicle: Record<string, any>): string {
+  const content: Record<string, any> = {};
+  for (const [key, value] of Object.entries(vehicle)) {
+    if (!VOLATILE_FIELDS.has(key)) content[key] = value;
+  }
+  return createHash('sha256').update(stableStringify(content)).digest('hex');
+}
+
+/**
+ * Normalize a VIN for keying (trimmed, upper case); returns null for missing VINs
+ */
+export function normalizeVin(vin: unknown): string | null {
+  if (typeof vin !== 'string') return null;
+  const normalized = vin.trim().toUpperCase();
+  return normalized.length > 0 ? normalized : null;
+}
+
+/**
+ * Upsert a dealer's vehicles in batches, returning created/updated/unchanged counts
+ * Vehicles without a VIN are skipped; duplicate VINs keep the last record.
+ */
+export async function upsertVehicles(
+  dealerId: string,
+  vehicles: Record<string, any>[],
+  options: VehicleUpsertOptions
+): Promise<VehicleUpsertCounts> {
+  const counts: VehicleUpsertCounts = { created: 0, updated: 0, unchanged: 0 };
+  const pool = getVehiclePool(options.pool);
+  const batchSize = Math.max(1, options.batchSize || getDefaultBatchSize());
+
+  const byVin = new Map<string, Record<string, any>>();
+  for (const vehicle of vehicles) {
+    const vin = normalizeVin(vehicle.vin);
+    if (vin) byVin.set(vin, { ...vehicle, vin });
+  }
+  const unique = Array.from(byVin.values());
+
+  for (let start = 0; start < unique.length; start += batchSize) {
+    const batch = unique.slice(start, start + batchSize);
+    const values: any[] = [];
+    const rows = batch.map(vehicle => {
+      const offset = values.length;
+      values.push(
+        dealerId,
+        vehicle.vin,
+        vehicle.stock_number ?? null,
+        vehicle.year ?? null,
+        vehicle.make ?? null,
+        vehicle.model ?? null,
+        vehicle.trim ?? null,
+        vehicle.price ?? null,
+        vehicle.msrp ?? null,
+        vehicle.condition ?? null,
+        vehicle.dealer_page_url ?? null,
+        JSON.stringify(vehicle),
+        hashVehicleContent(vehicle),
+        options.source
+      );
+      return `(${Array.from({ length: 14 }, (_, index) =>
+        index === 11 ? `$${offset + index + 1}::jsonb` : `$${offset + index + 1}`).join(', ')})`;
+    });
+
+    // Unchanged rows fail the DO UPDATE condition and are not returned
+    const { data, error } = await databaseManager.executeQuery<{ inserted: boolean }>(
+      pool,
+      `INSERT INTO vehicles (
+         dealer_id, vin, stock_number, year, make, model, trim, price, msrp, condition,
+         dealer_page_url, data, content_hash, source
+       )
+       VALUES ${rows.join(', ')}
+       ON CONFLICT (dealer_id, vin) DO UPDATE SET
+         stock_number = EXCLUDED.stock_number,
+         year = EXCLUDED.year,
+         make = EXCLUDED.make,
+         model = EXCLUDED.model,
+         trim = EXCLUDED.trim,
+         price = EXCLUDED.price,
+         msrp = EXCLUDED.msrp,
+         condition = EXCLUDED.condition,
+         dealer_page_url = EXCLUDED.dealer_page_url,
+         data = EXCLUDED.data,
+         content_hash = EXCLUDED.content_hash,
+         source = EXCLUDED.source,
+         status = 'available',
+         updated_at = NOW()
+       WHERE vehicles.content_hash IS DISTINCT FROM EXCLUDED.content_hash
+          OR vehicles.status IS DISTINCT FROM 'available'
+       RETURNING (xmax = 0) AS inserted`,
+      values
+    );
+
+    if (error || !data) {
+      throw new Error(`Vehicle upsert failed for dealer ${dealerId}: ${error}`);
+    }
+
+    const created = data.filter(row => row.inserted).length;
+    counts.created += created;
+    counts.updated += data.length - created;
+    counts.unchanged += batch.length - data.length;
+  }
+
+  return counts;
+}
+
+/**
+ * Get a dealer's stored vehicles; the stored record wins over the typed columns
+ * (which pg may return as strings, e.g. NUMERIC prices)
+ */
+export async function getDealerVehicles(
+  dealerId: string,
+  options: { availableOnly?: boolean; pool?: Pool } = {}
+): Promise<Record<string, any>[]> {
+  const { data, error } = await databaseManager.executeQuery(
+    getVehiclePool(options.pool),
+    `SELECT dealer_id, vin, stock_number, year, make, model, trim, price, msrp, condition,
+            status, data, created_at, updated_at
+     FROM vehicles
+     WHERE dealer_id = $1${options.availableOnly ? " AND status = 'available'" : ''}`,
+    [dealerId]
+  );
+
+  if (error || !data) {
+    throw new Error(`Failed to load vehicles for dealer ${dealerId}: ${error}`);
+  }
+
+  return data.map(row => ({
+    vin: row.vin,
+    stock_number: row.stock_number,
+    year: row.year,
+    make: row.make,
+    model: row.model,
+    trim: row.trim,
+    price: row.price,
+    msrp: row.msrp,
+    condition: row.condition,
+    ...(row.data || {}),
+    dealer_id: row.dealer_id,
+    status: row.status,
+    created_at: row.created_at,
+    updated_at: row.updated_at
+  }));
+}
+
+/**
+ * Mark vehicles that dropped out of a dealer's inventory as removed (likely sold)
+ */
+export async function markVehiclesRemoved(dealerId: string, vins: string[], pool?: Pool): Promise<number> {
+  if (vins.length === 0) return 0;
+
+  const { data, error } = await databaseManager.executeQuery(
+    getVehiclePool(pool),
+    `UPDATE vehicles
+     SET status = 'removed', updated_at = NOW()
+     WHERE dealer_id = $1 AND vin = ANY($2) AND status = 'available'
+     RETURNING vin`,
+    [dealerId, vins]
+  );
+
+  if (error || !data) {
+    throw new Error(`Failed to mark vehicles removed for dealer ${dealerId}: ${error}`);
+  }
+
+  return data.length;
+}
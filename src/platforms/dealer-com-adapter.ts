@@ -0,0 +1,93 @@
+import type { ScheduledJob } from '../types.js'
+import { DealerComJobRunner } from '../jobs/dealer-com.js'
+import { isSourceEnabled } from '../config/dealer-sources.js'
+import type { DealerComVehicle } from '../lib/dealer-com-schema.js'
+import type {
+  PlatformAdapter,
+  PlatformCapabilities,
+  PlatformFetchResult,
+  PlatformHealth,
+  PlatformRunOptions,
+  PlatformRunResult
+} from './platform-adapter.js'
+
+/**
+ * Dealer.com adapter: the paginated ws-inv-data pull run by DealerComJobRunner
+ */
+export class DealerComPlatformAdapter implements PlatformAdapter<DealerComVehicle> {
+  readonly platform = 'dealer.com'
+  readonly capabilities: PlatformCapabilities = {
+    default_schedule: 'hourly',
+    full_inventory: true,
+    incremental: false,
+    resumable: true,
+    vehicle_details: false
+  }
+
+  /**
+   * Dealer.com is always enabled (primary source or fallback)
+   */
+  isEnabled(): boolean {
+    return isSourceEnabled('dealer_com')
+  }
+
+  /**
+   * The dealer's dealer_com_config
+   */
+  getDealerConfig(dealer: any): Record<string, any> {
+    return dealer.api_config?.dealer_com_config || dealer.dealer_com_config || {}
+  }
+
+  /**
+   * Page through the dealer's inventory
+   */
+  async fetch(job: ScheduledJob, options: PlatformRunOptions = {}): Promise<PlatformFetchResult<DealerComVehicle>> {
+    const { baseUrl, fetched } = await new DealerComJobRunner(job, options).fetchInventory()
+
+    return {
+      records: fetched.vehicles,
+      total_count: fetched.totalCount,
+      complete: fetched.complete,
+      source_url: baseUrl
+    }
+  }
+
+  /**
+   * Transform a vehicle, resolving its detail page against the dealer's site
+   */
+  transform(record: DealerComVehicle, job: ScheduledJob, fetched: Pick<PlatformFetchResult, 'source_url'>): any {
+    return new DealerComJobRunner(job).transformVehicle(record, fetched.source_url)
+  }
+
+  /**
+   * HEAD the dealer's site through the host throttle
+   */
+  async healthCheck(job?: ScheduledJob): Promise<PlatformHealth> {
+    const health: PlatformHealth = {
+      platform: this.platform,
+      enabled: this.isEnabled(),
+      healthy: this.isEnabled(),
+      checked_at: new Date()
+    }
+    if (!job || !health.enabled) return health
+
+    try {
+      const probe = await new DealerComJobRunner(job).probeSite()
+      return {
+        ...health,
+        healthy: probe.status < 500 && probe.status !== 429,
+        status_code: probe.status,
+        response_time_ms: probe.responseTimeMs
+      }
+    } catch (error) {
+      return { ...health, healthy: false, error: error instanceof Error ? error.message : String(error) }
+    }
+  }
+
+  /**
+   * Run the full pull: fetch, diff, store, price history
+   */
+  async run(job: ScheduledJob, options: PlatformRunOptions = {}): Promise<PlatformRunResult> {
+    return new DealerComJobRunner(job, options).execute()
+  }
+}
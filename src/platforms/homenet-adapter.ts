@@ -0,0 +1,216 @@
+import type { ScheduledJob } from '../types.js'
+import { env } from '../env.js'
+import { isSourceEnabled } from '../config/dealer-sources.js'
+import { getDealer } from '../lib/dealer-directory.js'
+import { getDealerVehicles, upsertVehicles } from '../lib/vehicle-store.js'
+import { mergeVehicleRecords, resolveMergeRules } from '../lib/vehicle-merge.js'
+import { diffInventory, recordInventoryChanges } from '../lib/inventory-changes.js'
+import { recordPriceHistory, detectPriceDrops, resolvePriceDropThresholds } from '../lib/price-history.js'
+import { createRequestMetrics, throttledFetch } from '../lib/host-throttle.js'
+import {
+  fetchHomeNetVehicles,
+  transformHomeNetVehicle,
+  type HomeNetVehicle
+} from '../lib/homenet-feed.js'
+import { getHomeNetSyncCursor, saveHomeNetSyncCursor } from '../lib/homenet-sync-cursors.js'
+import { logInfo, logError } from '@adamehrheart/utils'
+import type {
+  PlatformAdapter,
+  PlatformCapabilities,
+  PlatformFetchResult,
+  PlatformHealth,
+  PlatformRunOptions,
+  PlatformRunResult
+} from './platform-adapter.js'
+
+interface HomeNetPull {
+  rooftopCollection: string
+  updatedSince: Date
+  startedAt: Date              // becomes the next cursor once the pull is stored
+  fetched: PlatformFetchResult<HomeNetVehicle>
+}
+
+/**
+ * HomeNet adapter: pulls the vehicles of the dealer's HomeNet IOL rooftop
+ * collection that changed since the last stored pull (the SOAP transformer
+ * does the SOAP), normalizes them into the Dealer.com record shape and merges
+ * them into the vehicles table by the dealer's field precedence, where the
+ * multi-source Dealer.com run enriches them. Pulls are incremental, so
+ * vehicles are never removed from here.
+ *
+ * Dealer config (`api_config.homenet_config`): `rooftop_collection` (defaults
+ * to OD_HOMENET_ROOFTOP_COLLECTION), `integration_token` (defaults to
+ * OD_HOMENET_INTEGRATION_TOKEN), `updated_since` (first pull's cursor, defaults
+ * to OD_UPDATED_SINCE), `page_size` and `max_pages`.
+ */
+export class HomeNetPlatformAdapter implements PlatformAdapter<HomeNetVehicle> {
+  readonly platform = 'homenet'
+  readonly capabilities: PlatformCapabilities = {
+    default_schedule: 'hourly',
+    full_inventory: false,
+    incremental: true,
+    resumable: false,
+    vehicle_details: false
+  }
+
+  /**
+   * Enabled with ENABLE_HOMENET
+   */
+  isEnabled(): boolean {
+    return isSourceEnabled('homenet')
+  }
+
+  /**
+   * The dealer's homenet_config
+   */
+  getDealerConfig(dealer: any): Record<string, any> {
+    return dealer.api_config?.homenet_config || {}
+  }
+
+  /**
+   * Pull the vehicles updated since the dealer's cursor
+   */
+  async fetch(job: ScheduledJob, options: PlatformRunOptions = {}): Promise<PlatformFetchResult<HomeNetVehicle>> {
+    return (await this.pull(job, options)).fetched
+  }
+
+  /**
+   * Normalize a HomeNet vehicle into the shared record shape
+   */
+  transform(record: HomeNetVehicle): any {
+    return transformHomeNetVehicle(record)
+  }
+
+  /**
+   * GET the SOAP transformer's health endpoint
+   */
+  async healthCheck(): Promise<PlatformHealth> {
+    const health: PlatformHealth = {
+      platform: this.platform,
+      enabled: this.isEnabled(),
+      healthy: this.isEnabled(),
+      checked_at: new Date()
+    }
+    if (!health.enabled) return health
+
+    try {
+      const startedAt = Date.now()
+      const response = await throttledFetch(`${env.OD_SOAP_TRANSFORMER_URL.replace(/\/$/, '')}/v1/health`)
+      return {
+        ...health,
+        healthy: response.ok,
+        status_code: response.status,
+        response_time_ms: Date.now() - startedAt
+      }
+    } catch (error) {
+      return { ...health, healthy: false, error: error instanceof Error ? error.message : String(error) }
+    }
+  }
+
+  /**
+   * Pull changed vehicles, merge them into the stored inventory and move the cursor
+   */
+  async run(job: ScheduledJob, options: PlatformRunOptions = {}): Promise<PlatformRunResult> {
+    const startTime = Date.now()
+    const { rooftopCollection, updatedSince, startedAt, fetched } = await this.pull(job, options)
+
+    // Incremental records are partial: fields HomeNet left empty keep what the
+    // stored record (or another source) supplied
+    const rules = resolveMergeRules((await getDealer(job.dealer_id))?.api_config?.merge_rules)
+    const stored = new Map((await getDealerVehicles(job.dealer_id)).map(vehicle => [vehicle.vin, vehicle]))
+    const vehicles = fetched.records
+      .map(record => this.transform(record))
+      .filter((vehicle): vehicle is Record<string, any> => !!vehicle)
+      .map(vehicle => mergeVehicleRecords(
+        [{ source: 'homenet', record: vehicle, observed_at: startedAt, partial: true }],
+        stored.get(vehicle.vin),
+        { rules, fallbackSource: 'dealer.com' }
+      ))
+
+    const available = [...stored.values()].filter(vehicle => vehicle.status === 'available')
+    const diff = diffInventory(job.dealer_id, available, vehicles, { complete: false })
+    await recordInventoryChanges(diff.changes, job.id)
+
+    const counts = await upsertVehicles(job.dealer_id, vehicles, { source: 'homenet' })
+    const pricePoints = await recordPriceHistory(job.dealer_id, vehicles, job.id)
+    const priceDrops = detectPriceDrops(diff.changes, resolvePriceDropThresholds(job.config?.price_drop_thresholds))
+
+    // A truncated pull keeps its cursor so the next run asks for the same window
+    if (fetched.complete) {
+      await saveHomeNetSyncCursor(job.dealer_id, rooftopCollection, startedAt, fetched.records.length)
+    }
+
+    logInfo('HomeNet sync completed', {
+      dealer_id: job.dealer_id,
+      rooftop_collection: rooftopCollection,
+      updated_since: updatedSince.toISOString(),
+      vehicles_received: fetched.records.length,
+      vehicles_created: counts.created,
+      vehicles_updated: counts.updated,
+      inventory_changes: diff.counts,
+      complete: fetched.complete
+    })
+
+    return {
+      success: true,
+      vehicles_found: vehicles.length,
+      vehicles_created: counts.created,
+      vehicles_updated: counts.updated,
+      vehicles_unchanged: counts.unchanged,
+      vehicles_removed: 0,
+      price_drops: priceDrops,
+      duration_ms: Date.now() - startTime,
+      inventory_changes: diff.counts,
+      price_points_recorded: pricePoints,
+      details: {
+        homenet: {
+          rooftop_collection: rooftopCollection,
+          updated_since: updatedSince.toISOString(),
+          next_updated_since: fetched.complete ? startedAt.toISOString() : updatedSince.toISOString(),
+          vehicles_received: fetched.records.length,
+          vehicles_without_vin: fetched.records.length - vehicles.length,
+          complete: fetched.complete
+        }
+      }
+    }
+  }
+
+  /**
+   * Resolve the dealer's rooftop collection and cursor, then pull
+   */
+  private async pull(job: ScheduledJob, options: PlatformRunOptions): Promise<HomeNetPull> {
+    const config = job.config || {}
+    const rooftopCollection: string | undefined = config.rooftop_collection || env.OD_HOMENET_ROOFTOP_COLLECTION
+    const integrationToken: string | undefined = config.integration_token || env.OD_HOMENET_INTEGRATION_TOKEN
+    if (!rooftopCollection || !integrationToken) {
+      throw new Error(`HomeNet not configured for dealer ${job.dealer_id}: rooftop collection and integration token are required`)
+    }
+
+    const cursor = await getHomeNetSyncCursor(job.dealer_id, rooftopCollection)
+    const updatedSince = cursor?.updated_since || new Date(config.updated_since || env.OD_UPDATED_SINCE)
+    const startedAt = new Date()
+
+    const result = await fetchHomeNetVehicles({
+      transformerUrl: env.OD_SOAP_TRANSFORMER_URL,
+      integrationToken,
+      rooftopCollection,
+      updatedSince,
+      bearerToken: env.OD_BEARER_TOKEN,
+      pageSize: config.page_size,
+      maxPages: config.max_pages,
+      metrics: options.metrics || createRequestMetrics()
+    }, (level, message, data) => level === 'error' ? logError(message, data) : logInfo(message, { dealer_id: job.dealer_id, ...data }))
+
+    return {
+      rooftopCollection,
+      updatedSince,
+      startedAt,
+      fetched: {
+        records: result.vehicles,
+        total_count: result.vehicles.length,
+        complete: result.complete,
+        source_url: env.OD_SOAP_TRANSFORMER_URL
+      }
+    }
+  }
+}
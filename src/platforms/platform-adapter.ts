@@ -0,0 +1,97 @@
+import type { ScheduledJob } from '../types.js'
+import type { PriceDrop } from '../lib/price-history.js'
+import type { RequestMetrics } from '../lib/host-throttle.js'
+
+/**
+ * Inventory Platform Adapters
+ *
+ * Each inventory source (Dealer.com, HomeNet, sitemaps, ...) is a module that
+ * implements PlatformAdapter and is registered in the platform registry. The
+ * scheduler only talks to the registry: it looks up the adapter for a job's
+ * platform to run it, and refuses to create jobs for platforms that have no
+ * registered (or no enabled) adapter.
+ */
+
+export type PlatformSchedule = 'hourly' | 'daily' | 'weekly'
+
+export interface PlatformCapabilities {
+  default_schedule: PlatformSchedule  // cadence when the dealer's config sets no cron_expression
+  full_inventory: boolean             // a complete pull lists every vehicle, so missing VINs can be marked removed
+  incremental: boolean                // can pull only what changed since a timestamp
+  resumable: boolean                  // a retried job continues from where the failed attempt stopped
+  vehicle_details: boolean            // supplies per-vehicle detail (descriptions, options) rather than listings
+}
+
+export interface PlatformRunOptions {
+  metrics?: RequestMetrics  // collects API calls / rate limits for the execution record
+  resume?: boolean          // retried or re-leased job: continue from the previous attempt
+}
+
+/**
+ * Summary of one platform run, mapped onto the job's JobExecution by the scheduler
+ */
+export interface PlatformRunResult {
+  success: boolean
+  vehicles_found: number
+  vehicles_created: number
+  vehicles_updated: number
+  vehicles_unchanged: number
+  vehicles_removed: number
+  price_drops: PriceDrop[]
+  duration_ms: number
+  error?: string                 // why the run failed, when success is false
+  details?: Record<string, any>  // platform-specific summary, merged into the job result's data
+  [key: string]: any
+}
+
+export interface PlatformFetchResult<TRecord = unknown> {
+  records: TRecord[]
+  total_count: number
+  complete: boolean   // false when the pull is known to be partial
+  source_url: string  // where the records came from; transform resolves links against it
+}
+
+export interface PlatformHealth {
+  platform: string
+  enabled: boolean
+  healthy: boolean
+  status_code?: number
+  response_time_ms?: number
+  error?: string
+  checked_at: Date
+}
+
+export interface PlatformAdapter<TRecord = unknown> {
+  readonly platform: string
+  readonly capabilities: PlatformCapabilities
+
+  /**
+   * Whether the source is switched on (DEALER_SOURCES.enabled)
+   */
+  isEnabled(): boolean
+
+  /**
+   * The dealer's configuration for this platform (a slice of dealer.api_config)
+   */
+  getDealerConfig(dealer: any): Record<string, any>
+
+  /**
+   * Pull the job's raw records from the source without storing anything
+   */
+  fetch(job: ScheduledJob, options?: PlatformRunOptions): Promise<PlatformFetchResult<TRecord>>
+
+  /**
+   * Normalize one raw record into our vehicle shape
+   */
+  transform(record: TRecord, job: ScheduledJob, fetched: Pick<PlatformFetchResult<TRecord>, 'source_url'>): any
+
+  /**
+   * Check the source answers; without a job, only reports whether the platform is enabled
+   */
+  healthCheck(job?: ScheduledJob): Promise<PlatformHealth>
+
+  /**
+   * Run the job end to end: fetch, transform, diff and store
+   */
+  run(job: ScheduledJob, options?: PlatformRunOptions): Promise<PlatformRunResult>
+}
@@ -0,0 +1,69 @@
+import type { PlatformAdapter } from './platform-adapter.js'
+import { DealerComPlatformAdapter } from './dealer-com-adapter.js'
+import { HomeNetPlatformAdapter } from './homenet-adapter.js'
+import { SitemapPlatformAdapter } from './sitemap-adapter.js'
+import { VdpScrapingPlatformAdapter } from './vdp-scraping-adapter.js'
+
+/**
+ * Platform Registry
+ *
+ * Maps a job's `platform` to the adapter that runs it. Built-in adapters are
+ * registered below; a new inventory source is a module implementing
+ * PlatformAdapter plus one registerPlatformAdapter call.
+ */
+
+const adapters = new Map<string, PlatformAdapter>()
+
+/**
+ * Register (or replace) the adapter for its platform
+ */
+export function registerPlatformAdapter(adapter: PlatformAdapter<any>): void {
+  adapters.set(adapter.platform, adapter)
+}
+
+/**
+ * Get the adapter registered for a platform, or null
+ */
+export function getPlatformAdapter(platform: string): PlatformAdapter | null {
+  return adapters.get(platform) || null
+}
+
+/**
+ * Get the enabled adapter for a platform; throws when it is unknown or switched off
+ */
+export function requirePlatformAdapter(platform: string): PlatformAdapter {
+  const adapter = adapters.get(platform)
+  if (!adapter) {
+    throw new Error(`Unsupported platform: ${platform}`)
+  }
+  if (!adapter.isEnabled()) {
+    throw new Error(`Platform disabled: ${platform}`)
+  }
+  return adapter
+}
+
+/**
+ * Whether jobs can be scheduled for a platform (registered and enabled)
+ */
+export function isPlatformSupported(platform: string): boolean {
+  return adapters.get(platform)?.isEnabled() || false
+}
+
+/**
+ * Every registered adapter, enabled or not
+ */
+export function listPlatformAdapters(): PlatformAdapter[] {
+  return [...adapters.values()]
+}
+
+/**
+ * Platforms jobs can currently be scheduled for
+ */
+export function getSupportedPlatforms(): string[] {
+  return listPlatformAdapters().filter(adapter => adapter.isEnabled()).map(adapter => adapter.platform)
+}
+
+registerPlatformAdapter(new DealerComPlatformAdapter())
+registerPlatformAdapter(new HomeNetPlatformAdapter())
+registerPlatformAdapter(new SitemapPlatformAdapter())
+registerPlatformAdapter(new VdpScrapingPlatformAdapter())
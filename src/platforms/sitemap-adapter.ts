@@ -0,0 +1,191 @@
+import type { ScheduledJob } from '../types.js'
+import { isSourceEnabled } from '../config/dealer-sources.js'
+import { getDealer, resolveDealerSiteOrigin } from '../lib/dealer-directory.js'
+import { getDealerVehicles } from '../lib/vehicle-store.js'
+import { createRequestMetrics, throttledFetch } from '../lib/host-throttle.js'
+import {
+  discoverSitemapVehicles,
+  reconcileSitemapVins,
+  type SitemapVehicleEntry
+} from '../lib/sitemap-discovery.js'
+import { enterpriseLogger } from '../utils/enterprise-logger.js'
+import { logInfo, logError } from '@adamehrheart/utils'
+import type {
+  PlatformAdapter,
+  PlatformCapabilities,
+  PlatformFetchResult,
+  PlatformHealth,
+  PlatformRunOptions,
+  PlatformRunResult
+} from './platform-adapter.js'
+
+/**
+ * Sitemap adapter: lists the vehicle detail pages in a dealer's sitemap.xml and
+ * reconciles their VINs against the stored (Dealer.com) inventory. It stores
+ * nothing itself; a sitemap lags the live inventory, so it never removes vehicles.
+ *
+ * Dealer config (`api_config.sitemap_config`): `sitemap_urls` (defaults to
+ * `<site>/sitemap.xml`), `base_url` (defaults to the Dealer.com base URL, then the
+ * dealer's domain), `vdp_patterns` (regex strings) and `max_sitemaps`.
+ */
+export class SitemapPlatformAdapter implements PlatformAdapter<SitemapVehicleEntry> {
+  readonly platform = 'sitemap'
+  readonly capabilities: PlatformCapabilities = {
+    default_schedule: 'daily',
+    full_inventory: false,
+    incremental: false,
+    resumable: false,
+    vehicle_details: false
+  }
+
+  /**
+   * Enabled with ENABLE_SITEMAP
+   */
+  isEnabled(): boolean {
+    return isSourceEnabled('sitemap')
+  }
+
+  /**
+   * The dealer's sitemap_config
+   */
+  getDealerConfig(dealer: any): Record<string, any> {
+    return dealer.api_config?.sitemap_config || {}
+  }
+
+  /**
+   * Walk the dealer's sitemaps and collect vehicle detail pages
+   */
+  async fetch(job: ScheduledJob, options: PlatformRunOptions = {}): Promise<PlatformFetchResult<SitemapVehicleEntry>> {
+    const { origin, sitemapUrls, config } = await this.resolveSitemaps(job)
+
+    const discovery = await discoverSitemapVehicles({
+      sitemapUrls,
+      maxSitemaps: config.max_sitemaps,
+      vdpPatterns: Array.isArray(config.vdp_patterns)
+        ? config.vdp_patterns.map((pattern: string) => new RegExp(pattern, 'i'))
+        : undefined,
+      metrics: options.metrics
+    }, (level, message, data) => level === 'error' ? logError(message, data) : logInfo(message, data))
+
+    return {
+      records: discovery.entries,
+      total_count: discovery.entries.length,
+      complete: !discovery.truncated && discovery.sitemap_errors.length === 0,
+      source_url: origin
+    }
+  }
+
+  /**
+   * A sitemap entry carries only what its URL reveals
+   */
+  transform(record: SitemapVehicleEntry, job: ScheduledJob): any {
+    return {
+      dealer_id: job.dealer_id,
+      vin: record.vin,
+      stock_number: record.stock_number,
+      condition: record.condition,
+      dealer_page_url: record.url,
+      sitemap_lastmod: record.lastmod,
+      source: 'sitemap'
+    }
+  }
+
+  /**
+   * HEAD the dealer's first sitemap through the host throttle
+   */
+  async healthCheck(job?: ScheduledJob): Promise<PlatformHealth> {
+    const health: PlatformHealth = {
+      platform: this.platform,
+      enabled: this.isEnabled(),
+      healthy: this.isEnabled(),
+      checked_at: new Date()
+    }
+    if (!job || !health.enabled) return health
+
+    try {
+      const { sitemapUrls } = await this.resolveSitemaps(job)
+      const startedAt = Date.now()
+      const response = await throttledFetch(sitemapUrls[0], { method: 'HEAD' })
+      return {
+        ...health,
+        healthy: response.ok,
+        status_code: response.status,
+        response_time_ms: Date.now() - startedAt
+      }
+    } catch (error) {
+      return { ...health, healthy: false, error: error instanceof Error ? error.message : String(error) }
+    }
+  }
+
+  /**
+   * Discover the sitemap's vehicles and report the VINs the stored inventory lacks
+   */
+  async run(job: ScheduledJob, options: PlatformRunOptions = {}): Promise<PlatformRunResult> {
+    const startTime = Date.now()
+    const metrics = options.metrics || createRequestMetrics()
+
+    const fetched = await this.fetch(job, { ...options, metrics })
+    const sitemapVins = fetched.records.map(entry => entry.vin).filter((vin): vin is string => !!vin)
+    const stored = await getDealerVehicles(job.dealer_id, { availableOnly: true })
+    const reconciliation = reconcileSitemapVins(sitemapVins, stored.map(vehicle => vehicle.vin))
+
+    if (reconciliation.missing_from_api.length > 0) {
+      enterpriseLogger.logWarning('Sitemap lists vehicles missing from the inventory pull', {
+        dealerId: job.dealer_id,
+        jobId: job.id,
+        operation: 'sitemap-reconciliation',
+        metadata: {
+          dealer_name: job.dealer_name,
+          missing_from_api: reconciliation.missing_from_api.length,
+          sample_vins: reconciliation.missing_from_api.slice(0, 20)
+        }
+      })
+    }
+
+    logInfo('Sitemap reconciliation completed', {
+      dealer_id: job.dealer_id,
+      vehicle_pages: fetched.records.length,
+      sitemap_vins: reconciliation.sitemap_vins,
+      matched: reconciliation.matched,
+      missing_from_api: reconciliation.missing_from_api.length,
+      missing_from_sitemap: reconciliation.missing_from_sitemap.length
+    })
+
+    return {
+      success: true,
+      vehicles_found: fetched.records.length,
+      vehicles_created: 0,
+      vehicles_updated: 0,
+      vehicles_unchanged: 0,
+      vehicles_removed: 0,
+      price_drops: [],
+      duration_ms: Date.now() - startTime,
+      details: {
+        sitemap: {
+          complete: fetched.complete,
+          vehicle_pages: fetched.records.length,
+          pages_without_vin: fetched.records.length - sitemapVins.length,
+          ...reconciliation
+        }
+      }
+    }
+  }
+
+  /**
+   * Resolve the dealer's site origin and sitemap entry points
+   */
+  private async resolveSitemaps(job: ScheduledJob): Promise<{ origin: string; sitemapUrls: string[]; config: Record<string, any> }> {
+    const dealer = await getDealer(job.dealer_id)
+    if (!dealer) {
+      throw new Error(`Dealer not found: ${job.dealer_id}`)
+    }
+
+    const config = this.getDealerConfig(dealer)
+    const origin = resolveDealerSiteOrigin(dealer, config.base_url || dealer.api_config?.dealer_com_config?.base_url)
+    const sitemapUrls: string[] = Array.isArray(config.sitemap_urls) && config.sitemap_urls.length > 0
+      ? config.sitemap_urls.map((url: string) => new URL(url, origin).toString())
+      : [`${origin}/sitemap.xml`]
+
+    return { origin, sitemapUrls, config }
+  }
+}
@@ -0,0 +1,232 @@
+import type { ScheduledJob } from '../types.js'
+import { isSourceEnabled } from '../config/dealer-sources.js'
+import { getDealer } from '../lib/dealer-directory.js'
+import { getDealerVehicles, upsertVehicles } from '../lib/vehicle-store.js'
+import { mergeVehicleRecords, resolveMergeRules } from '../lib/vehicle-merge.js'
+import { createRequestMetrics, throttledFetch, type RequestMetrics } from '../lib/host-throttle.js'
+import { scrapeVehicleDetailPage, applyVdpDetails, type VdpSelectors } from '../lib/vdp-scraper.js'
+import {
+  getVehicleDetailPages,
+  saveVehicleDetailPage,
+  isDetailPageDue,
+  type VehicleDetailPage
+} from '../lib/vehicle-detail-pages.js'
+import { logInfo, logError } from '@adamehrheart/utils'
+import type {
+  PlatformAdapter,
+  PlatformCapabilities,
+  PlatformFetchResult,
+  PlatformHealth,
+  PlatformRunOptions,
+  PlatformRunResult
+} from './platform-adapter.js'
+
+interface DetailPageScrape {
+  stored: Record<string, any>[]
+  pages: VehicleDetailPage[]   // scraped this run, failures included
+  due: number
+  circuitOpen: boolean         // the site's circuit opened; remaining pages were left for the next run
+}
+
+/**
+ * Default cap on detail pages scraped per job (overridable via environment)
+ */
+function getDefaultMaxPages(): number {
+  return parseInt(process.env.VDP_MAX_PAGES_PER_RUN || '50')
+}
+
+/**
+ * Vehicle detail page adapter: scrapes the `dealer_page_url` of the dealer's stored
+ * vehicles and fills the gaps the inventory API left (full description, window
+ * sticker, options). Pages are cached in vehicle_detail_pages and only re-read
+ * after VDP_RESCRAPE_AFTER_MS or when the URL changes.
+ *
+ * Dealer config (`api_config.web_scraping_config`): `selectors` (overrides for
+ * `description`, `window_sticker`, `options`, `features`) and `max_pages`.
+ */
+export class VdpScrapingPlatformAdapter implements PlatformAdapter<VehicleDetailPage> {
+  readonly platform = 'web_scraping'
+  readonly capabilities: PlatformCapabilities = {
+    default_schedule: 'daily',
+    full_inventory: false,
+    incremental: false,
+    resumable: false,
+    vehicle_details: true
+  }
+
+  /**
+   * Enabled with ENABLE_SCRAPING
+   */
+  isEnabled(): boolean {
+    return isSourceEnabled('scraping')
+  }
+
+  /**
+   * The dealer's web_scraping_config
+   */
+  getDealerConfig(dealer: any): Record<string, any> {
+    return dealer.api_config?.web_scraping_config || {}
+  }
+
+  /**
+   * Scrape the detail pages that are due
+   */
+  async fetch(job: ScheduledJob, options: PlatformRunOptions = {}): Promise<PlatformFetchResult<VehicleDetailPage>> {
+    const scrape = await this.scrapeDuePages(job, options.metrics || createRequestMetrics())
+
+    return {
+      records: scrape.pages,
+      total_count: scrape.due,
+      complete: scrape.pages.length === scrape.due,
+      source_url: scrape.pages[0] ? new URL(scrape.pages[0].url).origin : ''
+    }
+  }
+
+  /**
+   * A scraped page becomes a patch holding only the fields it supplied
+   */
+  transform(record: VehicleDetailPage): any {
+    return { vin: record.vin, ...applyVdpDetails({}, record.details) }
+  }
+
+  /**
+   * GET one of the dealer's detail pages through the host throttle
+   */
+  async healthCheck(job?: ScheduledJob): Promise<PlatformHealth> {
+    const health: PlatformHealth = {
+      platform: this.platform,
+      enabled: this.isEnabled(),
+      healthy: this.isEnabled(),
+      checked_at: new Date()
+    }
+    if (!job || !health.enabled) return health
+
+    try {
+      const url = (await getDealerVehicles(job.dealer_id, { availableOnly: true }))
+        .find(vehicle => vehicle.dealer_page_url)?.dealer_page_url
+      if (!url) {
+        return { ...health, healthy: false, error: 'No stored vehicle has a dealer_page_url' }
+      }
+
+      const startedAt = Date.now()
+      const response = await throttledFetch(url, { method: 'HEAD' })
+      return {
+        ...health,
+        healthy: response.ok,
+        status_code: response.status,
+        response_time_ms: Date.now() - startedAt
+      }
+    } catch (error) {
+      return { ...health, healthy: false, error: error instanceof Error ? error.message : String(error) }
+    }
+  }
+
+  /**
+   * Scrape due pages, then merge what they supplied into the vehicles table as
+   * the `web_scraping` source (ranked after the inventory sources by default,
+   * so it only fills gaps)
+   */
+  async run(job: ScheduledJob, options: PlatformRunOptions = {}): Promise<PlatformRunResult> {
+    const startTime = Date.now()
+    const scrape = await this.scrapeDuePages(job, options.metrics || createRequestMetrics())
+
+    const rules = resolveMergeRules((await getDealer(job.dealer_id))?.api_config?.merge_rules)
+    const scraped = new Map(scrape.pages.filter(page => page.details).map(page => [page.vin, page]))
+    const filled = scrape.stored
+      .filter(vehicle => scraped.has(vehicle.vin))
+      .map(vehicle => {
+        const page = scraped.get(vehicle.vin)!
+        return mergeVehicleRecords(
+          [{ source: this.platform, record: this.transform(page), observed_at: page.scraped_at, partial: true }],
+          vehicle,
+          { rules, fallbackSource: 'dealer.com' }
+        )
+      })
+
+    // The listing is still the inventory pull's; only its gaps were filled
+    const counts = await upsertVehicles(job.dealer_id, filled, { source: 'dealer.com' })
+    const failed = scrape.pages.filter(page => page.error)
+    const pagesRead = scrape.pages.length - failed.length
+
+    logInfo('Vehicle detail page scraping completed', {
+      dealer_id: job.dealer_id,
+      pages_due: scrape.due,
+      pages_scraped: scrape.pages.length,
+      pages_failed: failed.length,
+      vehicles_filled: counts.updated,
+      circuit_open: scrape.circuitOpen
+    })
+
+    return {
+      success: true,
+      vehicles_found: pagesRead,
+      vehicles_created: 0,
+      vehicles_updated: counts.updated,
+      // Only vehicles whose page was read this run were checked for gaps
+      vehicles_unchanged: pagesRead - counts.updated,
+      vehicles_removed: 0,
+      price_drops: [],
+      duration_ms: Date.now() - startTime,
+      details: {
+        vdp_scraping: {
+          pages_due: scrape.due,
+          pages_scraped: scrape.pages.length,
+          pages_failed: failed.length,
+          vehicles_filled: counts.updated,
+          circuit_open: scrape.circuitOpen
+        }
+      }
+    }
+  }
+
+  /**
+   * Scrape (and cache) the pages of stored vehicles never scraped, whose URL
+   * changed, or whose scrape is stale; never-scraped pages first, up to max_pages
+   */
+  private async scrapeDuePages(job: ScheduledJob, metrics: RequestMetrics): Promise<DetailPageScrape> {
+    const config = (job.config || {}) as { selectors?: Partial<VdpSelectors>; max_pages?: number }
+    const stored = await getDealerVehicles(job.dealer_id, { availableOnly: true })
+    const cached = await getVehicleDetailPages(job.dealer_id)
+
+    const due = stored
+      .filter(vehicle => vehicle.dealer_page_url && isDetailPageDue(cached.get(vehicle.vin), vehicle.dealer_page_url))
+      .sort((a, b) => (cached.get(a.vin)?.scraped_at.getTime() ?? 0) - (cached.get(b.vin)?.scraped_at.getTime() ?? 0))
+    const batch = due.slice(0, config.max_pages || getDefaultMaxPages())
+
+    const pages: VehicleDetailPage[] = []
+    let circuitOpen = false
+
+    for (const vehicle of batch) {
+      const page: VehicleDetailPage = { vin: vehicle.vin, url: vehicle.dealer_page_url, details: null, error: null, scraped_at: new Date() }
+
+      try {
+        const details = await scrapeVehicleDetailPage(vehicle.dealer_page_url, { selectors: config.selectors, metrics })
+        if (details.vin && details.vin !== vehicle.vin) {
+          // Redirected to another vehicle (or a search page) - likely sold
+          page.error = `Detail page shows VIN ${details.vin}`
+        } else {
+          page.details = details
+        }
+      } catch (error) {
+        if ((error as { code?: string })?.code === 'CIRCUIT_OPEN') {
+          circuitOpen = true
+          break
+        }
+        page.error = error instanceof Error ? error.message : String(error)
+      }
+
+      try {
+        await saveVehicleDetailPage(job.dealer_id, page)
+      } catch (error) {
+        logError('Failed to cache vehicle detail page', {
+          dealer_id: job.dealer_id,
+          vin: vehicle.vin,
+          error: error instanceof Error ? error.message : String(error)
+        })
+      }
+      pages.push(page)
+    }
+
+    return { stored, pages, due: due.length, circuitOpen }
+  }
+}
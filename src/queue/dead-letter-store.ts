@@ -0,0 +1,103 @@
+import type { ScheduledJob, JobExecution, JobResult } from '../types.js'
+import type { JobPriority, QueuedJob } from './job-queue.js'
+
+/**
+ * Dead-Letter Store
+ *
+ * Jobs that exhaust their retries (or whose workers keep dying) are moved
+ * here with everything needed to diagnose and replay them: the execution,
+ * the error, the job with its dealer config snapshot, and trace IDs.
+ */
+
+export type DeadLetterStatus = 'dead' | 'replayed'
+
+export interface DeadLetterEntry {
+  id: string
+  queued_job_id: string
+  batch_id: string | null
+  job_id: string
+  dealer_id: string
+  dealer_name: string
+  platform: string
+  priority: JobPriority
+  job: ScheduledJob
+  dealer_config: Record<string, any> | null
+  execution: JobExecution | null
+  error_message: string
+  retry_count: number
+  attempts: number
+  correlation_id: string | null
+  trace_id: string | null
+  span_id: string | null
+  status: DeadLetterStatus
+  replay_count: number
+  last_replayed_at: Date | null
+  last_replay_queued_job_id: string | null
+  dead_lettered_at: Date
+}
+
+export interface DeadLetterFilter {
+  dealer_id?: string
+  platform?: string
+  status?: DeadLetterStatus
+  limit?: number
+  offset?: number
+}
+
+export interface DeadLetterStore {
+  /**
+   * Store a dead-lettered job; returns null if this queue entry was already dead-lettered
+   */
+  add(entry: DeadLetterEntry): Promise<DeadLetterEntry | null>
+
+  /**
+   * Get a dead-letter entry by ID
+   */
+  get(id: string): Promise<DeadLetterEntry | null>
+
+  /**
+   * List dead-letter entries, newest first
+   */
+  list(filter?: DeadLetterFilter): Promise<{ entries: DeadLetterEntry[]; total: number }>
+
+  /**
+   * Record that an entry was replayed as a new queue entry
+   */
+  markReplayed(id: string, queuedJobId: string): Promise<void>
+}
+
+/**
+ * Build a dead-letter entry from a queue entry that failed for good
+ */
+export function buildDeadLetterEntry(
+  queued: QueuedJob,
+  result: JobResult | null,
+  error: string | null
+): DeadLetterEntry {
+  const execution = result?.execution || null
+
+  return {
+    id: `dlq_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    queued_job_id: queued.id,
+    batch_id: queued.batch_id,
+    job_id: queued.job.id,
+    dealer_id: queued.job.dealer_id,
+    dealer_name: queued.job.dealer_name,
+    platform: queued.job.platform,
+    priority: queued.priority,
+    job: queued.job,
+    dealer_config: (queued.job.config as Record<string, any>) || null,
+    execution,
+    error_message: error || result?.error?.message || execution?.error_message || 'Unknown error',
+    retry_count: queued.retry_count,
+    attempts: queued.attempts,
+    correlation_id: result?.correlation_id || queued.job.correlation_id || null,
+    trace_id: result?.trace_id || queued.job.trace_id || null,
+    span_id: result?.span_id || queued.job.span_id || null,
+    status: 'dead',
+    replay_count: 0,
+    last_replayed_at: null,
+    last_replay_queued_job_id: null,
+    dead_lettered_at: new Date()
+  }
+}
@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { countByTier, getFairShareOptions, planTierSlots, type FairShareOptions } from './fair-share.js'
+
+const options: FairShareOptions = {
+  tiers: {
+    premium: { weight: 20, minShare: 0.1 },
+    standard: { weight: 12, minShare: 0.1 },
+    economy: { weight: 8, minShare: 0.1 }
+  },
+  maxPerDealer: 2
+}
+
+const idle = { premium: 0, standard: 0, economy: 0 }
+
+describe('planTierSlots', () => {
+  it('splits an idle pool by weight when every tier is backlogged', () => {
+    expect(planTierSlots(20, 20, idle, ['premium', 'standard', 'economy'], options))
+      .toEqual({ premium: 10, standard: 6, economy: 4 })
+  })
+
+  it('gives a lone backlogged tier the whole pool', () => {
+    expect(planTierSlots(20, 20, idle, ['economy'], options)).toEqual({ premium: 0, standard: 0, economy: 20 })
+  })
+
+  it('guarantees each backlogged tier its minimum share before weighting', () => {
+    const running = { premium: 18, standard: 0, economy: 0 }
+    expect(planTierSlots(2, 20, running, ['premium', 'economy'], options)).toEqual({ premium: 0, standard: 0, economy: 2 })
+  })
+
+  it('hands free slots to the tier furthest below its weight', () => {
+    const running = { premium: 10, standard: 2, economy: 4 }
+    expect(planTierSlots(4, 20, running, ['premium', 'standard', 'economy'], options))
+      .toEqual({ premium: 0, standard: 4, economy: 0 })
+  })
+
+  it('plans nothing without backlog or free slots', () => {
+    expect(planTierSlots(5, 20, idle, [], options)).toEqual(idle)
+    expect(planTierSlots(0, 20, idle, ['premium'], options)).toEqual(idle)
+  })
+
+  it('only gives a zero-weight tier its minimum share', () => {
+    const zeroWeight = { ...options, tiers: { ...options.tiers, economy: { weight: 0, minShare: 0.1 } } }
+    expect(planTierSlots(10, 10, idle, ['standard', 'economy'], zeroWeight)).toEqual({ premium: 0, standard: 9, economy: 1 })
+  })
+})
+
+describe('countByTier', () => {
+  it('counts in-flight jobs per tier', () => {
+    expect(countByTier(['premium', 'economy', 'premium'])).toEqual({ premium: 2, standard: 0, economy: 1 })
+  })
+})
+
+describe('getFairShareOptions', () => {
+  const env = { ...process.env }
+
+  afterEach(() => {
+    process.env = { ...env }
+  })
+
+  it('reads weights and shares from the environment, ignoring invalid values', () => {
+    process.env.SCHEDULER_MAX_CONCURRENT_PREMIUM = '30'
+    process.env.SCHEDULER_MIN_SHARE_ECONOMY = '0.25'
+    process.env.SCHEDULER_MAX_CONCURRENT_STANDARD = '-4'
+    process.env.SCHEDULER_MAX_CONCURRENT_PER_DEALER = '3.7'
+
+    const read = getFairShareOptions()
+    expect(read.tiers.premium.weight).toBe(30)
+    expect(read.tiers.standard.weight).toBe(12)
+    expect(read.tiers.economy.minShare).toBe(0.25)
+    expect(read.maxPerDealer).toBe(3)
+    expect(getFairShareOptions({ maxPerDealer: 0 }).maxPerDealer).toBe(0)
+  })
+})
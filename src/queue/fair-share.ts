@@ -0,0 +1,98 @@
+import { PRIORITY_RANK, type JobPriority } from './job-queue.js'
+
+/**
+ * Weighted Fair Share
+ *
+ * Splits a worker's slots between the priority tiers. Every tier with queued
+ * work first gets its minimum share of the pool; beyond that, each free slot
+ * goes to the tier running the fewest jobs relative to its weight. Tiers with
+ * nothing queued take no slots, so a lone tier can fill the whole pool.
+ */
+
+export interface TierShare {
+  weight: number      // relative share of the pool while other tiers have work
+  minShare: number    // fraction of the pool the tier gets whenever it has work
+}
+
+export interface FairShareOptions {
+  tiers: Record<JobPriority, TierShare>
+  maxPerDealer: number  // jobs of one dealer in flight at once (0 = no cap)
+}
+
+export type TierSlots = Record<JobPriority, number>
+
+const TIERS = (Object.keys(PRIORITY_RANK) as JobPriority[])
+  .sort((a, b) => PRIORITY_RANK[a] - PRIORITY_RANK[b])
+
+/**
+ * Read a non-negative number from the environment
+ */
+function readNumber(name: string, fallback: string): number {
+  const value = parseFloat(process.env[name] || fallback)
+  return isNaN(value) || value < 0 ? parseFloat(fallback) : value
+}
+
+/**
+ * Build fair-share options from environment variables. The former per-lane
+ * limits SCHEDULER_MAX_CONCURRENT_* are the tier weights.
+ */
+export function getFairShareOptions(overrides: Partial<FairShareOptions> = {}): FairShareOptions {
+  return {
+    tiers: {
+      premium: {
+        weight: readNumber('SCHEDULER_MAX_CONCURRENT_PREMIUM', '20'),
+        minShare: readNumber('SCHEDULER_MIN_SHARE_PREMIUM', '0.1')
+      },
+      standard: {
+        weight: readNumber('SCHEDULER_MAX_CONCURRENT_STANDARD', '12'),
+        minShare: readNumber('SCHEDULER_MIN_SHARE_STANDARD', '0.1')
+      },
+      economy: {
+        weight: readNumber('SCHEDULER_MAX_CONCURRENT_ECONOMY', '8'),
+        minShare: readNumber('SCHEDULER_MIN_SHARE_ECONOMY', '0.1')
+      }
+    },
+    maxPerDealer: Math.floor(readNumber('SCHEDULER_MAX_CONCURRENT_PER_DEALER', '2')),
+    ...overrides
+  }
+}
+
+/**
+ * Count in-flight jobs by tier
+ */
+export function countByTier(priorities: Iterable<JobPriority>): TierSlots {
+  const counts: TierSlots = { premium: 0, standard: 0, economy: 0 }
+  for (const priority of priorities) counts[priority]++
+  return counts
+}
+
+/**
+ * Hand out `free` slots to the backlogged tiers, given what each already runs
+ * in a pool of `concurrency` slots
+ */
+export function planTierSlots(
+  free: number,
+  concurrency: number,
+  running: TierSlots,
+  backlogged: Iterable<JobPriority>,
+  options: FairShareOptions
+): TierSlots {
+  const plan: TierSlots = { premium: 0, standard: 0, economy: 0 }
+  const candidates = TIERS.filter(tier => [...backlogged].includes(tier))
+  if (candidates.length === 0) return plan
+
+  const occupied = (tier: JobPriority) => running[tier] + plan[tier]
+  const minimum = (tier: JobPriority) => Math.ceil(options.tiers[tier].minShare * concurrency)
+  const load = (tier: JobPriority) => {
+    const weight = options.tiers[tier].weight
+    return weight > 0 ? occupied(tier) / weight : Number.POSITIVE_INFINITY
+  }
+
+  for (let slot = 0; slot < free; slot++) {
+    const starved = candidates.find(tier => occupied(tier) < minimum(tier))
+    const next = starved || candidates.reduce((best, tier) => load(tier) < load(best) ? tier : best)
+    plan[next]++
+  }
+
+  return plan
+}
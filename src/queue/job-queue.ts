@@ -0,0 +1,160 @@
+import type { ScheduledJob, JobResult } from '../types.js'
+
+/**
+ * Durable Job Queue
+ *
+ * Jobs are enqueued by runJobs and drained by one or more workers. A worker
+ * leases a job for a visibility timeout and extends the lease with heartbeats
+ * while it runs; if the worker dies the lease expires and the job is
+ * re-queued for another worker to pick up.
+ */
+
+export type JobPriority = 'premium' | 'standard' | 'economy'
+export type JobTrigger = 'scheduled' | 'manual' | 'retry'
+export type QueuedJobStatus = 'queued' | 'leased' | 'completed' | 'failed' | 'cancelled'
+
+/**
+ * Lease order of the priority tiers (lower ranks are leased first)
+ */
+export const PRIORITY_RANK: Record<JobPriority, number> = {
+  premium: 0,
+  standard: 1,
+  economy: 2
+}
+
+/**
+ * Timezone schedule snapshot carried with a queued job for event publishing
+ */
+export interface QueuedJobSchedule {
+  timezone: string
+  localTime: string
+  utcTime: string
+  priority: JobPriority
+}
+
+export interface QueuedJob {
+  id: string
+  batch_id: string | null
+  job: ScheduledJob
+  schedule: QueuedJobSchedule | null
+  priority: JobPriority
+  trigger: JobTrigger
+  status: QueuedJobStatus
+  attempts: number           // leases of the current try
+  max_attempts: number
+  retry_count: number        // retries scheduled by the retry policy
+  available_at: Date
+  lease_owner: string | null
+  lease_expires_at: Date | null
+  last_heartbeat_at: Date | null
+  result: JobResult | null
+  last_error: string | null
+  enqueued_at: Date
+  updated_at: Date
+  completed_at: Date | null
+}
+
+export interface EnqueueJobInput {
+  job: ScheduledJob
+  batch_id?: string
+  schedule?: QueuedJobSchedule
+  priority?: JobPriority
+  trigger?: JobTrigger
+  available_at?: Date
+  max_attempts?: number
+}
+
+export type QueueDepth = Record<QueuedJobStatus, number>
+
+export interface ExpiredLeaseRecovery {
+  requeued: number
+  failed: QueuedJob[]     // entries that ran out of attempts
+}
+
+/**
+ * Narrows what a lease may take: one tier only, one batch only, and no more
+ * than `maxPerDealer` jobs of a dealer counting those `dealerInFlight` already runs
+ */
+export interface LeaseFilter {
+  priority?: JobPriority
+  batchId?: string
+  maxPerDealer?: number
+  dealerInFlight?: Record<string, number>
+}
+
+export interface JobQueue {
+  /**
+   * Enqueue jobs, skipping any job that is already queued or leased.
+   * Returns only the entries that were newly enqueued.
+   */
+  enqueue(inputs: EnqueueJobInput[]): Promise<QueuedJob[]>
+
+  /**
+   * Lease up to `limit` available jobs for `leaseMs` that pass the filter,
+   * highest priority first, oldest first within a tier
+   */
+  lease(workerId: string, limit: number, leaseMs: number, filter?: LeaseFilter): Promise<QueuedJob[]>
+
+  /**
+   * Extend a lease held by the worker; false when the lease has been lost
+   */
+  heartbeat(id: string, workerId: string, leaseMs: number): Promise<boolean>
+
+  /**
+   * Mark a leased job completed with its result; false when the lease has been lost
+   */
+  complete(id: string, workerId: string, result: JobResult): Promise<boolean>
+
+  /**
+   * Mark a leased job failed; false when the lease has been lost
+   */
+  fail(id: string, workerId: string, error: string, result?: JobResult): Promise<boolean>
+
+  /**
+   * Re-queue a leased job to run again at `availableAt` with trigger 'retry'; false when the lease has been lost
+   */
+  retry(id: string, workerId: string, availableAt: Date, error: string, result?: JobResult): Promise<boolean>
+
+  /**
+   * Cancel the queued and leased entries reporting to a job record. A worker
+   * running a cancelled entry loses its lease at the next heartbeat.
+   * Returns the entries that were cancelled.
+   */
+  cancel(jobRecordId: string, reason: string): Promise<QueuedJob[]>
+
+  /**
+   * Re-queue jobs whose lease expired, failing those that are out of attempts
+   */
+  requeueExpired(): Promise<ExpiredLeaseRecovery>
+
+  /**
+   * Get a queue entry by ID
+   */
+  get(id: string): Promise<QueuedJob | null>
+
+  /**
+   * Get every queue entry belonging to a batch
+   */
+  listBatch(batchId: string): Promise<QueuedJob[]>
+
+  /**
+   * Count queue entries by status
+   */
+  getDepth(): Promise<QueueDepth>
+}
+
+export type JobQueueBackend = 'postgres' | 'redis'
+
+/**
+ * Generate a queue entry ID
+ */
+export function generateQueuedJobId(): string {
+  return `qjob_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+}
+
+/**
+ * Default attempt limit for newly enqueued jobs
+ */
+export function getDefaultMaxAttempts(): number {
+  return parseInt(process.env.SCHEDULER_QUEUE_MAX_ATTEMPTS || '3')
+}
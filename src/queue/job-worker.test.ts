@@ -0,0 +1,429 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { JobResult } from '../types.js'
+import { getFairShareOptions } from './fair-share.js'
+import { PRIORITY_RANK, type EnqueueJobInput, type ExpiredLeaseRecovery, type JobQueue, type LeaseFilter, type QueueDepth, type QueuedJob } from './job-queue.js'
+import { JobQueueWorker, type JobWorkerOptions, type QueuedJobOutcome } from './job-worker.js'
+
+vi.mock('@adamehrheart/utils', () => ({
+  logInfo: vi.fn(),
+  logError: vi.fn(),
+  logSuccess: vi.fn(),
+  createPerformanceTimer: () => ({ getDurationMs: () => 0 })
+}))
+
+/**
+ * In-memory JobQueue with the same lease semantics as the durable backends
+ */
+class InMemoryJobQueue implements JobQueue {
+  entries = new Map<string, QueuedJob>()
+  heartbeats: string[] = []
+  heldLeases = true
+  leaseError: Error | null = null
+  private sequence = 0
+
+  async enqueue(inputs: EnqueueJobInput[]): Promise<QueuedJob[]> {
+    const now = new Date()
+    const created: QueuedJob[] = []
+    for (const input of inputs) {
+      const duplicate = [...this.entries.values()].some(entry =>
+        entry.job.id === input.job.id && (entry.status === 'queued' || entry.status === 'leased'))
+      if (duplicate) continue
+
+      const entry: QueuedJob = {
+        id: `qjob_${++this.sequence}`,
+        batch_id: input.batch_id ?? null,
+        job: input.job,
+        schedule: input.schedule ?? null,
+        priority: input.priority ?? 'standard',
+        trigger: input.trigger ?? 'scheduled',
+        status: 'queued',
+        attempts: 0,
+        max_attempts: input.max_attempts ?? 3,
+        retry_count: 0,
+        available_at: input.available_at ?? now,
+        lease_owner: null,
+        lease_expires_at: null,
+        last_heartbeat_at: null,
+        result: null,
+        last_error: null,
+        enqueued_at: now,
+        updated_at: now,
+        completed_at: null
+      }
+      this.entries.set(entry.id, entry)
+      created.push(entry)
+    }
+    return created
+  }
+
+  async lease(workerId: string, limit: number, leaseMs: number, filter: LeaseFilter = {}): Promise<QueuedJob[]> {
+    if (this.leaseError) throw this.leaseError
+
+    const now = Date.now()
+    const candidates = [...this.entries.values()]
+      .filter(entry => entry.status === 'queued' && entry.available_at.getTime() <= now)
+      .filter(entry => !filter.priority || entry.priority === filter.priority)
+      .filter(entry => !filter.batchId || entry.batch_id === filter.batchId)
+      .sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || a.enqueued_at.getTime() - b.enqueued_at.getTime())
+
+    const dealerCounts = { ...filter.dealerInFlight }
+    const available: QueuedJob[] = []
+    for (const entry of candidates) {
+      if (available.length >= limit) break
+      const dealerId = entry.job.dealer_id
+      if (filter.maxPerDealer && (dealerCounts[dealerId] || 0) >= filter.maxPerDealer) continue
+      dealerCounts[dealerId] = (dealerCounts[dealerId] || 0) + 1
+      available.push(entry)
+    }
+
+    for (const entry of available) {
+      entry.status = 'leased'
+      entry.attempts++
+      entry.lease_owner = workerId
+      entry.lease_expires_at = new Date(now + leaseMs)
+    }
+    return available
+  }
+
+  async heartbeat(id: string, workerId: string, leaseMs: number): Promise<boolean> {
+    this.heartbeats.push(id)
+    const entry = this.entries.get(id)
+    if (!this.heldLeases || entry?.status !== 'leased' || entry.lease_owner !== workerId) return false
+    entry.lease_expires_at = new Date(Date.now() + leaseMs)
+    return true
+  }
+
+  async complete(id: string, workerId: string, result: JobResult): Promise<boolean> {
+    return this.settle(id, workerId, 'completed', null, result)
+  }
+
+  async fail(id: string, workerId: string, error: string, result?: JobResult): Promise<boolean> {
+    return this.settle(id, workerId, 'failed', error, result ?? null)
+  }
+
+  async retry(id: string, workerId: string, availableAt: Date, error: string, result?: JobResult): Promise<boolean> {
+    const entry = this.entries.get(id)
+    if (entry?.status !== 'leased' || entry.lease_owner !== workerId) return false
+    Object.assign(entry, {
+      status: 'queued',
+      trigger: 'retry',
+      retry_count: entry.retry_count + 1,
+      attempts: 0,
+      available_at: availableAt,
+      last_error: error,
+      result: result ?? null,
+      lease_owner: null,
+      lease_expires_at: null
+    })
+    return true
+  }
+
+  async cancel(jobRecordId: string, reason: string): Promise<QueuedJob[]> {
+    const cancelled = [...this.entries.values()].filter(entry =>
+      (entry.status === 'queued' || entry.status === 'leased') && entry.job.config?.job_record_id === jobRecordId)
+    for (const entry of cancelled) {
+      Object.assign(entry, { status: 'cancelled', last_error: reason, lease_owner: null, lease_expires_at: null, completed_at: new Date() })
+    }
+    return cancelled
+  }
+
+  async requeueExpired(): Promise<ExpiredLeaseRecovery> {
+    const recovery: ExpiredLeaseRecovery = { requeued: 0, failed: [] }
+    for (const entry of this.entries.values()) {
+      if (entry.status !== 'leased' || !entry.lease_expires_at || entry.lease_expires_at.getTime() > Date.now()) continue
+
+      entry.lease_owner = null
+      entry.lease_expires_at = null
+      if (entry.attempts >= entry.max_attempts) {
+        entry.status = 'failed'
+        entry.last_error = 'Lease expired too many times'
+        recovery.failed.push(entry)
+      } else {
+        entry.status = 'queued'
+        recovery.requeued++
+      }
+    }
+    return recovery
+  }
+
+  async get(id: string): Promise<QueuedJob | null> {
+    return this.entries.get(id) ?? null
+  }
+
+  async listBatch(batchId: string): Promise<QueuedJob[]> {
+    return [...this.entries.values()].filter(entry => entry.batch_id === batchId)
+  }
+
+  async getDepth(): Promise<QueueDepth> {
+    const depth: QueueDepth = { queued: 0, leased: 0, completed: 0, failed: 0, cancelled: 0 }
+    for (const entry of this.entries.values()) depth[entry.status]++
+    return depth
+  }
+
+  private settle(id: string, workerId: string, status: 'completed' | 'failed', error: string | null, result: JobResult | null): boolean {
+    const entry = this.entries.get(id)
+    if (entry?.status !== 'leased' || entry.lease_owner !== workerId) return false
+    entry.status = status
+    entry.last_error = error
+    entry.result = result
+    entry.lease_owner = null
+    entry.lease_expires_at = null
+    entry.completed_at = new Date()
+    return true
+  }
+}
+
+const workerOptions: Partial<JobWorkerOptions> = {
+  workerId: 'worker_test',
+  concurrency: 2,
+  leaseTimeoutMs: 1000,
+  heartbeatIntervalMs: 5,
+  maxRuntimeMs: 60000
+}
+
+function scheduledJob(id: string) {
+  return { id, dealer_id: `dealer_${id}`, dealer_name: `Dealer ${id}`, platform: 'dealer.com', schedule: 'daily', status: 'active' }
+}
+
+function jobResult(queued: QueuedJob, success: boolean, retryAt?: Date): QueuedJobOutcome {
+  return {
+    result: { job_id: queued.job.id, success, error: success ? undefined : { message: 'Upstream returned 500' } } as JobResult,
+    retryAt
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+describe('JobQueueWorker.drain', () => {
+  it('completes successful jobs and fails unsuccessful or throwing ones', async () => {
+    const queue = new InMemoryJobQueue()
+    const [ok, unsuccessful, throwing] = await queue.enqueue(['a', 'b', 'c'].map(id => ({ job: scheduledJob(id) })))
+    const settled: Array<[string, string]> = []
+
+    const worker = new JobQueueWorker(queue, async queued => {
+      if (queued.id === throwing.id) throw new Error('Adapter crashed')
+      return jobResult(queued, queued.id === ok.id)
+    }, workerOptions, async (queued, settlement) => {
+      settled.push([queued.id, settlement.status])
+    })
+
+    const summary = await worker.drain()
+
+    expect(summary).toMatchObject({ jobs_leased: 3, jobs_succeeded: 1, jobs_failed: 2, leases_lost: 0 })
+    expect(summary.results).toHaveLength(2)
+    expect(queue.entries.get(ok.id)?.status).toBe('completed')
+    expect(queue.entries.get(unsuccessful.id)).toMatchObject({ status: 'failed', last_error: 'Upstream returned 500' })
+    expect(queue.entries.get(throwing.id)).toMatchObject({ status: 'failed', last_error: 'Adapter crashed' })
+    expect(settled).toEqual(expect.arrayContaining([[ok.id, 'completed'], [unsuccessful.id, 'failed'], [throwing.id, 'failed']]))
+  })
+
+  it('re-queues a failed job that has a retry time instead of failing it', async () => {
+    const queue = new InMemoryJobQueue()
+    const [entry] = await queue.enqueue([{ job: scheduledJob('a') }])
+    const retryAt = new Date(Date.now() + 60000)
+
+    const worker = new JobQueueWorker(queue, async queued => jobResult(queued, false, retryAt), workerOptions)
+    const summary = await worker.drain()
+
+    // The retry isn't due yet, so the drain doesn't lease it again
+    expect(summary).toMatchObject({ jobs_leased: 1, jobs_retried: 1, jobs_failed: 0 })
+    expect(queue.entries.get(entry.id)).toMatchObject({
+      status: 'queued',
+      trigger: 'retry',
+      retry_count: 1,
+      attempts: 0,
+      available_at: retryAt,
+      last_error: 'Upstream returned 500'
+    })
+  })
+
+  it('keeps at most `concurrency` jobs in flight', async () => {
+    const queue = new InMemoryJobQueue()
+    await queue.enqueue(['a', 'b', 'c', 'd', 'e'].map(id => ({ job: scheduledJob(id) })))
+    let running = 0
+    let peak = 0
+
+    const worker = new JobQueueWorker(queue, async queued => {
+      peak = Math.max(peak, ++running)
+      await sleep(10)
+      running--
+      return jobResult(queued, true)
+    }, workerOptions)
+
+    const summary = await worker.drain()
+
+    expect(summary.jobs_succeeded).toBe(5)
+    expect(peak).toBe(2)
+  })
+
+  it('shares the slots between priority tiers by weight', async () => {
+    const queue = new InMemoryJobQueue()
+    await queue.enqueue([
+      ...['p1', 'p2', 'p3', 'p4', 'p5', 'p6'].map(id => ({ job: scheduledJob(id), priority: 'premium' as const })),
+      ...['e1', 'e2', 'e3', 'e4', 'e5', 'e6'].map(id => ({ job: scheduledJob(id), priority: 'economy' as const }))
+    ])
+    const started: string[] = []
+    const fairShare = getFairShareOptions({
+      tiers: {
+        premium: { weight: 3, minShare: 0 },
+        standard: { weight: 1, minShare: 0 },
+        economy: { weight: 1, minShare: 0 }
+      },
+      maxPerDealer: 0
+    })
+
+    const worker = new JobQueueWorker(queue, async queued => {
+      started.push(queued.priority)
+      await sleep(5)
+      return jobResult(queued, true)
+    }, { ...workerOptions, concurrency: 4, fairShare })
+
+    const summary = await worker.drain()
+
+    // The empty standard tier gives up its slot; economy keeps one despite the premium backlog
+    expect(started.slice(0, 4).sort()).toEqual(['economy', 'premium', 'premium', 'premium'])
+    expect(summary.jobs_leased_by_priority).toEqual({ premium: 6, standard: 0, economy: 6 })
+    expect(summary.jobs_succeeded).toBe(12)
+  })
+
+  it('runs no more than `maxPerDealer` jobs of one dealer at once', async () => {
+    const queue = new InMemoryJobQueue()
+    await queue.enqueue([
+      ...['a1', 'a2', 'a3'].map(id => ({ job: { ...scheduledJob(id), dealer_id: 'dealer_busy' } })),
+      { job: scheduledJob('b') }
+    ])
+    const running: Record<string, number> = {}
+    let busyPeak = 0
+
+    const worker = new JobQueueWorker(queue, async queued => {
+      const dealerId = queued.job.dealer_id
+      running[dealerId] = (running[dealerId] || 0) + 1
+      if (dealerId === 'dealer_busy') busyPeak = Math.max(busyPeak, running[dealerId])
+      await sleep(10)
+      running[dealerId]--
+      return jobResult(queued, true)
+    }, { ...workerOptions, concurrency: 4, fairShare: getFairShareOptions({ maxPerDealer: 2 }) })
+
+    const summary = await worker.drain()
+
+    expect(busyPeak).toBe(2)
+    expect(summary.jobs_succeeded).toBe(4)
+  })
+
+  it('leases only its own batch when given a batch ID', async () => {
+    const queue = new InMemoryJobQueue()
+    const [own] = await queue.enqueue([{ job: scheduledJob('a'), batch_id: 'batch_1' }])
+    const [other] = await queue.enqueue([{ job: scheduledJob('b'), batch_id: 'batch_2' }])
+
+    const worker = new JobQueueWorker(queue, async queued => jobResult(queued, true), { ...workerOptions, batchId: 'batch_1' })
+    const summary = await worker.drain()
+
+    expect(summary.jobs_leased).toBe(1)
+    expect(queue.entries.get(own.id)?.status).toBe('completed')
+    expect(queue.entries.get(other.id)?.status).toBe('queued')
+  })
+
+  it('heartbeats the lease while a job runs and stops once it settles', async () => {
+    const queue = new InMemoryJobQueue()
+    const [entry] = await queue.enqueue([{ job: scheduledJob('a') }])
+
+    const worker = new JobQueueWorker(queue, async queued => {
+      await sleep(40)
+      return jobResult(queued, true)
+    }, workerOptions)
+
+    await worker.drain()
+    const heartbeatsAtSettle = queue.heartbeats.length
+    await sleep(20)
+
+    expect(heartbeatsAtSettle).toBeGreaterThan(0)
+    expect(queue.heartbeats.every(id => id === entry.id)).toBe(true)
+    expect(queue.heartbeats).toHaveLength(heartbeatsAtSettle)
+  })
+
+  it('counts a lost lease and does not overwrite the new holder', async () => {
+    const queue = new InMemoryJobQueue()
+    const [entry] = await queue.enqueue([{ job: scheduledJob('a') }])
+    const onSettled = vi.fn(async () => {})
+
+    const worker = new JobQueueWorker(queue, async queued => {
+      // Another worker re-leases the job after this lease expired
+      queue.heldLeases = false
+      await sleep(20)
+      const current = queue.entries.get(queued.id)!
+      current.lease_owner = 'worker_other'
+      return jobResult(queued, true)
+    }, workerOptions, onSettled)
+
+    const summary = await worker.drain()
+
+    expect(summary.leases_lost).toBe(1)
+    expect(queue.entries.get(entry.id)).toMatchObject({ status: 'leased', lease_owner: 'worker_other' })
+    expect(onSettled).not.toHaveBeenCalled()
+  })
+
+  it('drops the outcome of a job cancelled while it runs', async () => {
+    const queue = new InMemoryJobQueue()
+    const [entry] = await queue.enqueue([{ job: { ...scheduledJob('a'), config: { job_record_id: 'job_1' } } }])
+    const onSettled = vi.fn(async () => {})
+
+    const worker = new JobQueueWorker(queue, async queued => {
+      await queue.cancel('job_1', 'Cancelled by user')
+      await sleep(20)
+      return jobResult(queued, true)
+    }, workerOptions, onSettled)
+
+    const summary = await worker.drain()
+
+    expect(summary).toMatchObject({ jobs_cancelled: 1, leases_lost: 0 })
+    expect(queue.entries.get(entry.id)).toMatchObject({ status: 'cancelled', last_error: 'Cancelled by user' })
+    expect(onSettled).not.toHaveBeenCalled()
+  })
+
+  it('re-queues expired leases before leasing and runs them again', async () => {
+    const queue = new InMemoryJobQueue()
+    const [retried, exhausted] = await queue.enqueue([
+      { job: scheduledJob('a') },
+      { job: scheduledJob('b'), max_attempts: 1 }
+    ])
+    await queue.lease('worker_crashed', 2, -1)
+    const onSettled = vi.fn(async () => {})
+
+    const worker = new JobQueueWorker(queue, async queued => jobResult(queued, true), workerOptions, onSettled)
+    const summary = await worker.drain()
+
+    expect(summary).toMatchObject({ expired_leases_requeued: 1, jobs_leased: 1, jobs_succeeded: 1 })
+    expect(queue.entries.get(retried.id)).toMatchObject({ status: 'completed', attempts: 2 })
+    expect(queue.entries.get(exhausted.id)).toMatchObject({ status: 'failed', attempts: 1 })
+    expect(onSettled).toHaveBeenCalledWith(expect.objectContaining({ id: exhausted.id }),
+      { status: 'failed', result: null, error: 'Lease expired too many times' })
+  })
+
+  it('does not lease once the runtime budget is spent', async () => {
+    const queue = new InMemoryJobQueue()
+    await queue.enqueue([{ job: scheduledJob('a') }])
+    const handler = vi.fn(async (queued: QueuedJob) => jobResult(queued, true))
+
+    const summary = await new JobQueueWorker(queue, handler, { ...workerOptions, maxRuntimeMs: 0 }).drain()
+
+    expect(summary.jobs_leased).toBe(0)
+    expect(handler).not.toHaveBeenCalled()
+    expect((await queue.getDepth()).queued).toBe(1)
+  })
+
+  it('stops leasing after a lease error but settles in-flight jobs', async () => {
+    const queue = new InMemoryJobQueue()
+    await queue.enqueue(['a', 'b', 'c'].map(id => ({ job: scheduledJob(id) })))
+
+    const worker = new JobQueueWorker(queue, async queued => {
+      queue.leaseError = new Error('Connection reset')
+      await sleep(5)
+      return jobResult(queued, true)
+    }, workerOptions)
+
+    const summary = await worker.drain()
+
+    expect(summary).toMatchObject({ jobs_leased: 2, jobs_succeeded: 2 })
+    expect((await queue.getDepth())).toMatchObject({ queued: 1, completed: 2 })
+  })
+})
@@ -0,0 +1,316 @@
+import { logInfo, logError, logSuccess, createPerformanceTimer } from '@adamehrheart/utils'
+import type { JobResult } from '../types.js'
+import type { JobPriority, JobQueue, QueuedJob } from './job-queue.js'
+import { countByTier, getFairShareOptions, planTierSlots, type FairShareOptions, type TierSlots } from './fair-share.js'
+
+export interface JobWorkerOptions {
+  workerId: string
+  concurrency: number
+  leaseTimeoutMs: number
+  heartbeatIntervalMs: number
+  maxRuntimeMs: number
+  fairShare: FairShareOptions
+  batchId: string | null       // only lease this batch's jobs
+}
+
+/**
+ * Outcome of a leased job: a failed result with `retryAt` is re-queued for a
+ * retry, otherwise it marks the entry failed
+ */
+export interface QueuedJobOutcome {
+  result: JobResult
+  retryAt?: Date | null
+}
+
+/**
+ * Executes a leased job
+ */
+export type QueuedJobHandler = (queued: QueuedJob) => Promise<QueuedJobOutcome>
+
+/**
+ * A job outcome that has been recorded in the queue
+ */
+export interface QueuedJobSettlement {
+  status: 'completed' | 'retrying' | 'failed'
+  result: JobResult | null
+  error: string | null
+}
+
+/**
+ * Called after a job's outcome has been recorded in the queue (not when the lease was lost)
+ */
+export type QueuedJobSettledHandler = (queued: QueuedJob, settlement: QueuedJobSettlement) => Promise<void>
+
+export interface DrainSummary {
+  worker_id: string
+  jobs_leased: number
+  jobs_leased_by_priority: TierSlots
+  jobs_succeeded: number
+  jobs_failed: number
+  jobs_retried: number
+  jobs_cancelled: number
+  leases_lost: number
+  expired_leases_requeued: number
+  results: JobResult[]
+  execution_time_ms: number
+}
+
+/**
+ * Build worker options from environment variables
+ */
+export function getJobWorkerOptions(overrides: Partial<JobWorkerOptions> = {}): JobWorkerOptions {
+  const leaseTimeoutMs = parseInt(process.env.SCHEDULER_LEASE_TIMEOUT_MS || '300000')
+
+  return {
+    workerId: `worker_${process.pid}_${Math.random().toString(36).substr(2, 9)}`,
+    concurrency: parseInt(process.env.SCHEDULER_WORKER_CONCURRENCY || '20'),
+    leaseTimeoutMs,
+    heartbeatIntervalMs: parseInt(process.env.SCHEDULER_HEARTBEAT_INTERVAL_MS || String(Math.floor(leaseTimeoutMs / 3))),
+    maxRuntimeMs: parseInt(process.env.SCHEDULER_WORKER_MAX_RUNTIME_MS || '240000'),
+    fairShare: getFairShareOptions(),
+    batchId: null,
+    ...overrides
+  }
+}
+
+/**
+ * Job Queue Worker
+ *
+ * Drains the queue with up to `concurrency` jobs in flight, refilling each
+ * slot as soon as its job settles. Free slots are shared between the priority
+ * tiers by weight (see fair-share.ts) and no dealer runs more than
+ * `maxPerDealer` jobs at once. Each job's lease is extended by heartbeats
+ * while it runs. No new jobs are leased once
+ * `maxRuntimeMs` has elapsed, so a serverless invocation finishes its
+ * in-flight work and leaves the rest for the next worker.
+ */
+export class JobQueueWorker {
+  private options: JobWorkerOptions
+
+  constructor(
+    private queue: JobQueue,
+    private handler: QueuedJobHandler,
+    options: Partial<JobWorkerOptions> = {},
+    private onSettled?: QueuedJobSettledHandler
+  ) {
+    this.options = getJobWorkerOptions(options)
+  }
+
+  /**
+   * Lease and run jobs until the queue is empty or the runtime budget is spent
+   */
+  async drain(): Promise<DrainSummary> {
+    const timer = createPerformanceTimer()
+    let deadline = Date.now() + this.options.maxRuntimeMs
+    const inFlight = new Map<string, Promise<void>>()
+    const running = new Map<string, QueuedJob>()
+    const summary: DrainSummary = {
+      worker_id: this.options.workerId,
+      jobs_leased: 0,
+      jobs_leased_by_priority: { premium: 0, standard: 0, economy: 0 },
+      jobs_succeeded: 0,
+      jobs_failed: 0,
+      jobs_retried: 0,
+      jobs_cancelled: 0,
+      leases_lost: 0,
+      expired_leases_requeued: 0,
+      results: [],
+      execution_time_ms: 0
+    }
+
+    logInfo('Starting queue worker', {
+      worker_id: this.options.workerId,
+      concurrency: this.options.concurrency,
+      max_per_dealer: this.options.fairShare.maxPerDealer,
+      lease_timeout_ms: this.options.leaseTimeoutMs
+    })
+
+    const recovery = await this.queue.requeueExpired()
+    summary.expired_leases_requeued = recovery.requeued
+    for (const exhausted of recovery.failed) {
+      await this.notifySettled(exhausted, { status: 'failed', result: exhausted.result, error: exhausted.last_error })
+    }
+
+    while (true) {
+      if (Date.now() < deadline && inFlight.size < this.options.concurrency) {
+        let leased: QueuedJob[] = []
+        try {
+          leased = await this.leaseFairShare(running)
+        } catch (error) {
+          // Stop leasing but let in-flight jobs finish and settle
+          logError('Failed to lease jobs from queue', error)
+          deadline = 0
+        }
+        summary.jobs_leased += leased.length
+
+        for (const queued of leased) {
+          summary.jobs_leased_by_priority[queued.priority]++
+          running.set(queued.id, queued)
+          inFlight.set(queued.id, this.runLeasedJob(queued, summary).finally(() => {
+            inFlight.delete(queued.id)
+            running.delete(queued.id)
+          }))
+        }
+
+        if (leased.length === 0 && inFlight.size === 0) break
+      }
+
+      if (inFlight.size === 0) break
+
+      await Promise.race(inFlight.values())
+    }
+
+    summary.execution_time_ms = timer.getDurationMs()
+
+    logSuccess('Queue worker finished', {
+      worker_id: summary.worker_id,
+      jobs_leased: summary.jobs_leased,
+      jobs_leased_by_priority: summary.jobs_leased_by_priority,
+      jobs_succeeded: summary.jobs_succeeded,
+      jobs_failed: summary.jobs_failed,
+      jobs_retried: summary.jobs_retried,
+      jobs_cancelled: summary.jobs_cancelled,
+      leases_lost: summary.leases_lost,
+      execution_time_ms: summary.execution_time_ms
+    })
+
+    return summary
+  }
+
+  /**
+   * Fill the free slots tier by tier in fair-share order. A tier that returns
+   * fewer jobs than planned (empty, or held back by dealer caps) drops out and
+   * its slots go to the others.
+   */
+  private async leaseFairShare(running: Map<string, QueuedJob>): Promise<QueuedJob[]> {
+    const { concurrency, fairShare } = this.options
+    const jobs = [...running.values()]
+    const tierCounts = countByTier(jobs.map(queued => queued.priority))
+    const dealerInFlight: Record<string, number> = {}
+    for (const queued of jobs) {
+      dealerInFlight[queued.job.dealer_id] = (dealerInFlight[queued.job.dealer_id] || 0) + 1
+    }
+
+    const backlogged = new Set<JobPriority>(['premium', 'standard', 'economy'])
+    const leased: QueuedJob[] = []
+    let free = concurrency - jobs.length
+
+    while (free > 0 && backlogged.size > 0) {
+      const plan = planTierSlots(free, concurrency, tierCounts, backlogged, fairShare)
+
+      for (const tier of backlogged) {
+        if (plan[tier] === 0) continue
+
+        const batch = await this.queue.lease(this.options.workerId, plan[tier], this.options.leaseTimeoutMs, {
+          priority: tier,
+          ...(this.options.batchId && { batchId: this.options.batchId }),
+          ...(fairShare.maxPerDealer > 0 && { maxPerDealer: fairShare.maxPerDealer, dealerInFlight })
+        })
+        if (batch.length < plan[tier]) backlogged.delete(tier)
+
+        for (const queued of batch) {
+          tierCounts[tier]++
+          dealerInFlight[queued.job.dealer_id] = (dealerInFlight[queued.job.dealer_id] || 0) + 1
+        }
+        leased.push(...batch)
+        free -= batch.length
+      }
+    }
+
+    return leased
+  }
+
+  /**
+   * Run one leased job, heartbeating its lease until it settles. A heartbeat
+   * that finds the entry cancelled stops heartbeating; the run's outcome is
+   * then discarded rather than recorded.
+   */
+  private async runLeasedJob(queued: QueuedJob, summary: DrainSummary): Promise<void> {
+    let leaseLost = false
+    const heartbeat = setInterval(() => {
+      this.queue.heartbeat(queued.id, this.options.workerId, this.options.leaseTimeoutMs)
+        .then(async held => {
+          if (held || leaseLost) return
+          leaseLost = true
+          if (await this.wasCancelled(queued.id)) {
+            clearInterval(heartbeat)
+            logInfo(`Queued job ${queued.id} (${queued.job.dealer_name} ${queued.job.platform}) was cancelled while running`)
+          } else {
+            logError(`Lost lease on queued job ${queued.id} (${queued.job.dealer_name} ${queued.job.platform})`)
+          }
+        })
+        .catch(error => logError(`Heartbeat failed for queued job ${queued.id}`, error))
+    }, this.options.heartbeatIntervalMs)
+
+    let settlement: QueuedJobSettlement | null = null
+    let recorded = false
+    try {
+      const outcome = await this.handler(queued)
+      const result = outcome.result
+      summary.results.push(result)
+
+      if (result.success) {
+        settlement = { status: 'completed', result, error: null }
+        recorded = await this.queue.complete(queued.id, this.options.workerId, result)
+        summary.jobs_succeeded++
+      } else if (outcome.retryAt) {
+        settlement = { status: 'retrying', result, error: result.error?.message || 'Job failed' }
+        recorded = await this.queue.retry(queued.id, this.options.workerId, outcome.retryAt, settlement.error!, result)
+        summary.jobs_retried++
+      } else {
+        settlement = { status: 'failed', result, error: result.error?.message || 'Job failed' }
+        recorded = await this.queue.fail(queued.id, this.options.workerId, settlement.error!, result)
+        summary.jobs_failed++
+      }
+    } catch (error) {
+      summary.jobs_failed++
+      logError(`Queued job ${queued.id} threw during execution`, error)
+      settlement = { status: 'failed', result: null, error: error instanceof Error ? error.message : String(error) }
+      try {
+        recorded = await this.queue.fail(queued.id, this.options.workerId, settlement.error!)
+      } catch (failError) {
+        logError(`Failed to record failure for queued job ${queued.id}`, failError)
+      }
+    } finally {
+      clearInterval(heartbeat)
+    }
+
+    // Unrecorded outcomes of cancelled jobs are dropped; the rest are left to
+    // lease expiry (another worker may own the job now)
+    if (!recorded) {
+      if (await this.wasCancelled(queued.id)) {
+        summary.jobs_cancelled++
+      } else {
+        summary.leases_lost++
+      }
+      return
+    }
+
+    await this.notifySettled(queued, settlement!)
+  }
+
+  /**
+   * Whether a queue entry has been cancelled
+   */
+  private async wasCancelled(id: string): Promise<boolean> {
+    try {
+      return (await this.queue.get(id))?.status === 'cancelled'
+    } catch (error) {
+      logError(`Failed to look up queued job ${id}`, error)
+      return false
+    }
+  }
+
+  /**
+   * Run the settled hook, logging rather than propagating its failures
+   */
+  private async notifySettled(queued: QueuedJob, settlement: QueuedJobSettlement): Promise<void> {
+    if (!this.onSettled) return
+
+    try {
+      await this.onSettled(queued, settlement)
+    } catch (error) {
+      logError(`Settled handler failed for queued job ${queued.id}`, error)
+    }
+  }
+}
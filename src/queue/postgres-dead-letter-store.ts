@@ -0,0 +1,111 @@
+import type { Pool } from 'pg'
+import { databaseManager } from '../utils/database.js'
+import type { DeadLetterEntry, DeadLetterFilter, DeadLetterStore } from './dead-letter-store.js'
+
+const TABLE = 'scheduler_dead_letter_jobs'
+
+const JSON_COLUMNS = new Set(['job', 'dealer_config', 'execution'])
+
+const INSERT_COLUMNS = [
+  'id', 'queued_job_id', 'batch_id', 'job_id', 'dealer_id', 'dealer_name', 'platform', 'priority',
+  'job', 'dealer_config', 'execution', 'error_message', 'retry_count', 'attempts',
+  'correlation_id', 'trace_id', 'span_id', 'status', 'dead_lettered_at'
+] as const
+
+/**
+ * PostgreSQL Dead-Letter Store (scheduler_dead_letter_jobs table, see README)
+ */
+export class PostgresDeadLetterStore implements DeadLetterStore {
+  private pool: Pool
+
+  constructor(pool?: Pool) {
+    this.pool = pool || databaseManager.getSchedulerPool()
+  }
+
+  /**
+   * Run a dead-letter query, throwing on database errors
+   */
+  private async query(sql: string, params: any[] = []): Promise<any[]> {
+    const { data, error } = await databaseManager.executeQuery(this.pool, sql, params)
+    if (error || !data) {
+      throw new Error(`Dead-letter query failed: ${error}`)
+    }
+    return data
+  }
+
+  /**
+   * Store a dead-lettered job unless its queue entry was already dead-lettered
+   */
+  async add(entry: DeadLetterEntry): Promise<DeadLetterEntry | null> {
+    const values = INSERT_COLUMNS.map(column => {
+      const value = entry[column]
+      return JSON_COLUMNS.has(column) && value !== null ? JSON.stringify(value) : value
+    })
+    const placeholders = INSERT_COLUMNS.map((column, index) =>
+      JSON_COLUMNS.has(column) ? `$${index + 1}::jsonb` : `$${index + 1}`)
+
+    const rows = await this.query(
+      `INSERT INTO ${TABLE} (${INSERT_COLUMNS.join(', ')})
+       VALUES (${placeholders.join(', ')})
+       ON CONFLICT (queued_job_id) DO NOTHING
+       RETURNING *`,
+      values
+    )
+    return rows.length > 0 ? rows[0] : null
+  }
+
+  /**
+   * Get a dead-letter entry by ID
+   */
+  async get(id: string): Promise<DeadLetterEntry | null> {
+    const rows = await this.query(`SELECT * FROM ${TABLE} WHERE id = $1`, [id])
+    return rows.length > 0 ? rows[0] : null
+  }
+
+  /**
+   * List dead-letter entries, newest first
+   */
+  async list(filter: DeadLetterFilter = {}): Promise<{ entries: DeadLetterEntry[]; total: number }> {
+    const conditions: string[] = []
+    const params: any[] = []
+
+    if (filter.dealer_id) {
+      params.push(filter.dealer_id)
+      conditions.push(`dealer_id = $${params.length}`)
+    }
+    if (filter.platform) {
+      params.push(filter.platform)
+      conditions.push(`platform = $${params.length}`)
+    }
+    if (filter.status) {
+      params.push(filter.status)
+      conditions.push(`status = $${params.length}`)
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+    const [{ total }] = await this.query(`SELECT COUNT(*)::int AS total FROM ${TABLE} ${where}`, params)
+    const entries = await this.query(
+      `SELECT * FROM ${TABLE} ${where}
+       ORDER BY dead_lettered_at DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, filter.limit ?? 50, filter.offset ?? 0]
+    )
+
+    return { entries, total }
+  }
+
+  /**
+   * Record that an entry was replayed as a new queue entry
+   */
+  async markReplayed(id: string, queuedJobId: string): Promise<void> {
+    await this.query(
+      `UPDATE ${TABLE}
+       SET status = 'replayed',
+           replay_count = replay_count + 1,
+           last_replayed_at = NOW(),
+           last_replay_queued_job_id = $2
+       WHERE id = $1`,
+      [id, queuedJobId]
+    )
+  }
+}
@@ -0,0 +1,350 @@
+import { logInfo } from '@adamehrheart/utils'
+import type { Pool } from 'pg'
+import type { JobResult } from '../types.js'
+import { databaseManager } from '../utils/database.js'
+import {
+  PRIORITY_RANK,
+  generateQueuedJobId,
+  getDefaultMaxAttempts,
+  type EnqueueJobInput,
+  type ExpiredLeaseRecovery,
+  type JobQueue,
+  type LeaseFilter,
+  type QueueDepth,
+  type QueuedJob
+} from './job-queue.js'
+
+const TABLE = 'scheduler_job_queue'
+
+const INSERT_COLUMNS = [
+  'id', 'batch_id', 'job_id', 'dealer_id', 'platform', 'priority', 'priority_rank',
+  'trigger', 'payload', 'schedule', 'max_attempts', 'available_at'
+]
+
+/**
+ * Convert a scheduler_job_queue row into a queue entry
+ */
+function rowToQueuedJob(row: any): QueuedJob {
+  return {
+    id: row.id,
+    batch_id: row.batch_id,
+    job: row.payload,
+    schedule: row.schedule,
+    priority: row.priority,
+    trigger: row.trigger,
+    status: row.status,
+    attempts: row.attempts,
+    max_attempts: row.max_attempts,
+    retry_count: row.retry_count,
+    available_at: row.available_at,
+    lease_owner: row.lease_owner,
+    lease_expires_at: row.lease_expires_at,
+    last_heartbeat_at: row.last_heartbeat_at,
+    result: row.result,
+    last_error: row.last_error,
+    enqueued_at: row.enqueued_at,
+    updated_at: row.updated_at,
+    completed_at: row.completed_at
+  }
+}
+
+/**
+ * PostgreSQL Job Queue
+ *
+ * Stores the queue in the scheduler_job_queue table (see README). Leasing uses
+ * FOR UPDATE SKIP LOCKED so concurrent workers never lease the same job, and a
+ * partial unique index on job_id keeps a job from being queued twice.
+ */
+export class PostgresJobQueue implements JobQueue {
+  private pool: Pool
+
+  constructor(pool?: Pool) {
+    this.pool = pool || databaseManager.getSchedulerPool()
+  }
+
+  /**
+   * Run a queue query, throwing on database errors
+   */
+  private async query(sql: string, params: any[] = []): Promise<any[]> {
+    const { data, error } = await databaseManager.executeQuery(this.pool, sql, params)
+    if (error || !data) {
+      throw new Error(`Job queue query failed: ${error}`)
+    }
+    return data
+  }
+
+  /**
+   * Enqueue jobs, skipping any job that is already queued or leased
+   */
+  async enqueue(inputs: EnqueueJobInput[]): Promise<QueuedJob[]> {
+    if (inputs.length === 0) return []
+
+    const values: any[] = []
+    const rows = inputs.map(input => {
+      const priority = input.priority || 'standard'
+      const offset = values.length
+      values.push(
+        generateQueuedJobId(),
+        input.batch_id || null,
+        input.job.id,
+        input.job.dealer_id,
+        input.job.platform,
+        priority,
+        PRIORITY_RANK[priority],
+        input.trigger || 'scheduled',
+        JSON.stringify(input.job),
+        input.schedule ? JSON.stringify(input.schedule) : null,
+        input.max_attempts ?? getDefaultMaxAttempts(),
+        input.available_at || new Date()
+      )
+      return `(${INSERT_COLUMNS.map((column, index) => {
+        const placeholder = `$${offset + index + 1}`
+        return column === 'payload' || column === 'schedule' ? `${placeholder}::jsonb` : placeholder
+      }).join(', ')})`
+    })
+
+    const inserted = await this.query(
+      `INSERT INTO ${TABLE} (${INSERT_COLUMNS.join(', ')})
+       VALUES ${rows.join(', ')}
+       ON CONFLICT DO NOTHING
+       RETURNING *`,
+      values
+    )
+
+    if (inserted.length < inputs.length) {
+      logInfo(`Skipped ${inputs.length - inserted.length} jobs already queued or running`)
+    }
+
+    return inserted.map(rowToQueuedJob)
+  }
+
+  /**
+   * Lease up to `limit` available jobs that pass the filter, highest priority first.
+   * Per-dealer caps rank each dealer's candidates and keep those that still fit.
+   */
+  async lease(workerId: string, limit: number, leaseMs: number, filter: LeaseFilter = {}): Promise<QueuedJob[]> {
+    if (limit <= 0) return []
+
+    const busyDealers = Object.entries(filter.dealerInFlight || {})
+    const leased = await this.query(
+      `UPDATE ${TABLE} q
+       SET status = 'leased',
+           lease_owner = $1,
+           lease_expires_at = NOW() + ($3 * INTERVAL '1 millisecond'),
+           last_heartbeat_at = NOW(),
+           attempts = q.attempts + 1,
+           updated_at = NOW()
+       FROM (
+         SELECT id FROM ${TABLE}
+         WHERE status = 'queued'
+           AND id IN (
+             SELECT id FROM (
+               SELECT id, priority_rank, available_at, enqueued_at,
+                      ROW_NUMBER() OVER (
+                        PARTITION BY dealer_id ORDER BY priority_rank, available_at, enqueued_at
+                      ) + COALESCE(busy.running, 0) AS dealer_slot
+               FROM ${TABLE}
+               LEFT JOIN unnest($5::text[], $6::int[]) AS busy(dealer_id, running) USING (dealer_id)
+               WHERE status = 'queued' AND available_at <= NOW()
+                 AND ($4::int IS NULL OR priority_rank = $4)
+                 AND ($8::text IS NULL OR batch_id = $8)
+             ) candidates
+             WHERE $7::int IS NULL OR dealer_slot <= $7
+             ORDER BY priority_rank, available_at, enqueued_at
+             LIMIT $2
+           )
+         FOR UPDATE SKIP LOCKED
+       ) next_jobs
+       WHERE q.id = next_jobs.id
+       RETURNING q.*`,
+      [
+        workerId,
+        limit,
+        leaseMs,
+        filter.priority ? PRIORITY_RANK[filter.priority] : null,
+        busyDealers.map(([dealerId]) => dealerId),
+        busyDealers.map(([, running]) => running),
+        filter.maxPerDealer ?? null,
+        filter.batchId ?? null
+      ]
+    )
+
+    return leased
+      .map(rowToQueuedJob)
+      .sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] ||
+        a.available_at.getTime() - b.available_at.getTime())
+  }
+
+  /**
+   * Extend a lease held by the worker
+   */
+  async heartbeat(id: string, workerId: string, leaseMs: number): Promise<boolean> {
+    const updated = await this.query(
+      `UPDATE ${TABLE}
+       SET lease_expires_at = NOW() + ($3 * INTERVAL '1 millisecond'),
+           last_heartbeat_at = NOW(),
+           updated_at = NOW()
+       WHERE id = $1 AND lease_owner = $2 AND status = 'leased'
+       RETURNING id`,
+      [id, workerId, leaseMs]
+    )
+    return updated.length > 0
+  }
+
+  /**
+   * Mark a leased job completed with its result
+   */
+  async complete(id: string, workerId: string, result: JobResult): Promise<boolean> {
+    return this.settle(id, workerId, 'completed', null, result)
+  }
+
+  /**
+   * Mark a leased job failed
+   */
+  async fail(id: string, workerId: string, error: string, result?: JobResult): Promise<boolean> {
+    return this.settle(id, workerId, 'failed', error, result)
+  }
+
+  /**
+   * Re-queue a leased job to run again at `availableAt` with trigger 'retry'
+   */
+  async retry(id: string, workerId: string, availableAt: Date, error: string, result?: JobResult): Promise<boolean> {
+    const updated = await this.query(
+      `UPDATE ${TABLE}
+       SET status = 'queued',
+           trigger = 'retry',
+           retry_count = retry_count + 1,
+           attempts = 0,
+           available_at = $3,
+           last_error = $4,
+           result = $5::jsonb,
+           lease_owner = NULL,
+           lease_expires_at = NULL,
+           updated_at = NOW()
+       WHERE id = $1 AND lease_owner = $2 AND status = 'leased'
+       RETURNING id`,
+      [id, workerId, availableAt, error, result ? JSON.stringify(result) : null]
+    )
+
+    if (updated.length === 0) {
+      logInfo(`Lease on queued job ${id} was lost before its retry could be scheduled`)
+    }
+    return updated.length > 0
+  }
+
+  /**
+   * Move a leased job to a terminal status if the worker still holds the lease
+   */
+  private async settle(
+    id: string,
+    workerId: string,
+    status: 'completed' | 'failed',
+    error: string | null,
+    result?: JobResult
+  ): Promise<boolean> {
+    const updated = await this.query(
+      `UPDATE ${TABLE}
+       SET status = $3,
+           last_error = $4,
+           result = $5::jsonb,
+           lease_owner = NULL,
+           lease_expires_at = NULL,
+           completed_at = NOW(),
+           updated_at = NOW()
+       WHERE id = $1 AND lease_owner = $2 AND status = 'leased'
+       RETURNING id`,
+      [id, workerId, status, error, result ? JSON.stringify(result) : null]
+    )
+
+    if (updated.length === 0) {
+      logInfo(`Lease on queued job ${id} was lost before it could be marked ${status}`)
+    }
+    return updated.length > 0
+  }
+
+  /**
+   * Cancel the queued and leased entries reporting to a job record
+   */
+  async cancel(jobRecordId: string, reason: string): Promise<QueuedJob[]> {
+    const cancelled = await this.query(
+      `UPDATE ${TABLE}
+       SET status = 'cancelled',
+           last_error = $2,
+           lease_owner = NULL,
+           lease_expires_at = NULL,
+           completed_at = NOW(),
+           updated_at = NOW()
+       WHERE status IN ('queued', 'leased') AND payload->'config'->>'job_record_id' = $1
+       RETURNING *`,
+      [jobRecordId, reason]
+    )
+
+    if (cancelled.length > 0) {
+      logInfo(`Cancelled ${cancelled.length} queued jobs of job ${jobRecordId}`)
+    }
+    return cancelled.map(rowToQueuedJob)
+  }
+
+  /**
+   * Re-queue jobs whose lease expired, failing those that are out of attempts
+   */
+  async requeueExpired(): Promise<ExpiredLeaseRecovery> {
+    const expired = await this.query(
+      `UPDATE ${TABLE} q
+       SET status = CASE WHEN q.attempts >= q.max_attempts THEN 'failed' ELSE 'queued' END,
+           last_error = 'Lease expired after attempt ' || q.attempts,
+           completed_at = CASE WHEN q.attempts >= q.max_attempts THEN NOW() ELSE NULL END,
+           lease_owner = NULL,
+           lease_expires_at = NULL,
+           updated_at = NOW()
+       FROM (
+         SELECT id FROM ${TABLE}
+         WHERE status = 'leased' AND lease_expires_at < NOW()
+         FOR UPDATE SKIP LOCKED
+       ) expired_jobs
+       WHERE q.id = expired_jobs.id
+       RETURNING q.*`
+    )
+
+    const requeued = expired.filter(row => row.status === 'queued').length
+    const failed = expired.filter(row => row.status === 'failed').map(rowToQueuedJob)
+    if (expired.length > 0) {
+      logInfo(`Recovered ${expired.length} expired leases`, {
+        requeued,
+        failed: failed.length
+      })
+    }
+    return { requeued, failed }
+  }
+
+  /**
+   * Get a queue entry by ID
+   */
+  async get(id: string): Promise<QueuedJob | null> {
+    const rows = await this.query(`SELECT * FROM ${TABLE} WHERE id = $1`, [id])
+    return rows.length > 0 ? rowToQueuedJob(rows[0]) : null
+  }
+
+  /**
+   * Get every queue entry belonging to a batch
+   */
+  async listBatch(batchId: string): Promise<QueuedJob[]> {
+    const rows = await this.query(
+      `SELECT * FROM ${TABLE} WHERE batch_id = $1 ORDER BY enqueued_at`,
+      [batchId]
+    )
+    return rows.map(rowToQueuedJob)
+  }
+
+  /**
+   * Count queue entries by status
+   */
+  async getDepth(): Promise<QueueDepth> {
+    const rows = await this.query(`SELECT status, COUNT(*)::int AS count FROM ${TABLE} GROUP BY status`)
+    const depth: QueueDepth = { queued: 0, leased: 0, completed: 0, failed: 0, cancelled: 0 }
+    for (const row of rows) {
+      depth[row.status as keyof QueueDepth] = row.count
+    }
+    return depth
+  }
+}
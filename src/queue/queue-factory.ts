@@ -0,0 +1,68 @@
+import type { JobQueue, JobQueueBackend } from './job-queue.js'
+import type { DeadLetterStore } from './dead-letter-store.js'
+import { PostgresJobQueue } from './postgres-job-queue.js'
+import { RedisJobQueue } from './redis-job-queue.js'
+import { PostgresDeadLetterStore } from './postgres-dead-letter-store.js'
+import { RedisDeadLetterStore } from './redis-dead-letter-store.js'
+
+let sharedQueue: JobQueue | null = null
+let sharedDeadLetterStore: DeadLetterStore | null = null
+
+/**
+ * Resolve the configured queue backend (SCHEDULER_QUEUE_BACKEND, default postgres)
+ */
+function resolveBackend(backend?: JobQueueBackend): JobQueueBackend {
+  return backend || (process.env.SCHEDULER_QUEUE_BACKEND as JobQueueBackend) || 'postgres'
+}
+
+/**
+ * Create the job queue for the configured backend
+ */
+export function createJobQueue(backend?: JobQueueBackend): JobQueue {
+  const selected = resolveBackend(backend)
+
+  switch (selected) {
+    case 'postgres':
+      return new PostgresJobQueue()
+    case 'redis':
+      return new RedisJobQueue()
+    default:
+      throw new Error(`Unsupported job queue backend: ${selected}`)
+  }
+}
+
+/**
+ * Get the process-wide job queue for the configured backend
+ */
+export function getJobQueue(): JobQueue {
+  if (!sharedQueue) {
+    sharedQueue = createJobQueue()
+  }
+  return sharedQueue
+}
+
+/**
+ * Create the dead-letter store for the configured backend
+ */
+export function createDeadLetterStore(backend?: JobQueueBackend): DeadLetterStore {
+  const selected = resolveBackend(backend)
+
+  switch (selected) {
+    case 'postgres':
+      return new PostgresDeadLetterStore()
+    case 'redis':
+      return new RedisDeadLetterStore()
+    default:
+      throw new Error(`Unsupported job queue backend: ${selected}`)
+  }
+}
+
+/**
+ * Get the process-wide dead-letter store for the configured backend
+ */
+export function getDeadLetterStore(): DeadLetterStore {
+  if (!sharedDeadLetterStore) {
+    sharedDeadLetterStore = createDeadLetterStore()
+  }
+  return sharedDeadLetterStore
+}
@@ -0,0 +1,117 @@
+import Redis from 'ioredis'
+import type { DeadLetterEntry, DeadLetterFilter, DeadLetterStore } from './dead-letter-store.js'
+
+/**
+ * Store an entry unless its queue entry was already dead-lettered
+ * KEYS: queued-id hash, entries hash, index zset
+ * ARGV: queued job id, entry id, dead_lettered_at ms, entry JSON
+ */
+const ADD_SCRIPT = `
+if redis.call('HSETNX', KEYS[1], ARGV[1], ARGV[2]) == 0 then return 0 end
+redis.call('HSET', KEYS[2], ARGV[2], ARGV[4])
+redis.call('ZADD', KEYS[3], ARGV[3], ARGV[2])
+return 1
+`
+
+/**
+ * Parse a stored entry, reviving its dates
+ */
+function parseEntry(json: string): DeadLetterEntry {
+  const entry = JSON.parse(json)
+  return {
+    ...entry,
+    dead_lettered_at: new Date(entry.dead_lettered_at),
+    last_replayed_at: entry.last_replayed_at ? new Date(entry.last_replayed_at) : null
+  }
+}
+
+/**
+ * Redis Dead-Letter Store
+ *
+ * Entries are JSON values in a hash, indexed by a zset scored by
+ * dead_lettered_at. Dead letters are kept until removed by hand; filtering
+ * happens in memory, which is fine for the volumes a DLQ should hold.
+ */
+export class RedisDeadLetterStore implements DeadLetterStore {
+  private redis: Redis
+  private prefix: string
+
+  constructor(redis?: Redis) {
+    this.redis = redis || new Redis(process.env.REDIS_URL || 'redis://redis:6379', {
+      maxRetriesPerRequest: 3
+    })
+    this.prefix = `${process.env.SCHEDULER_QUEUE_REDIS_PREFIX || 'scheduler:queue'}:dead`
+  }
+
+  /**
+   * Build a namespaced key
+   */
+  private key(...parts: string[]): string {
+    return [this.prefix, ...parts].join(':')
+  }
+
+  /**
+   * Store a dead-lettered job unless its queue entry was already dead-lettered
+   */
+  async add(entry: DeadLetterEntry): Promise<DeadLetterEntry | null> {
+    const added = await this.redis.eval(
+      ADD_SCRIPT,
+      3,
+      this.key('by_queued_job'),
+      this.key('entries'),
+      this.key('index'),
+      entry.queued_job_id,
+      entry.id,
+      entry.dead_lettered_at.getTime(),
+      JSON.stringify(entry)
+    )
+    return added === 1 ? entry : null
+  }
+
+  /**
+   * Get a dead-letter entry by ID
+   */
+  async get(id: string): Promise<DeadLetterEntry | null> {
+    const json = await this.redis.hget(this.key('entries'), id)
+    return json ? parseEntry(json) : null
+  }
+
+  /**
+   * List dead-letter entries, newest first
+   */
+  async list(filter: DeadLetterFilter = {}): Promise<{ entries: DeadLetterEntry[]; total: number }> {
+    const ids = await this.redis.zrevrange(this.key('index'), 0, -1)
+    if (ids.length === 0) return { entries: [], total: 0 }
+
+    const values = await this.redis.hmget(this.key('entries'), ...ids)
+    const matching = values
+      .filter((json): json is string => json !== null)
+      .map(parseEntry)
+      .filter(entry =>
+        (!filter.dealer_id || entry.dealer_id === filter.dealer_id) &&
+        (!filter.platform || entry.platform === filter.platform) &&
+        (!filter.status || entry.status === filter.status))
+
+    const offset = filter.offset ?? 0
+    return {
+      entries: matching.slice(offset, offset + (filter.limit ?? 50)),
+      total: matching.length
+    }
+  }
+
+  /**
+   * Record that an entry was replayed as a new queue entry
+   */
+  async markReplayed(id: string, queuedJobId: string): Promise<void> {
+    const entry = await this.get(id)
+    if (!entry) return
+
+    await this.redis.hset(this.key('entries'), id, JSON.stringify({
+      ...entry,
+      status: 'replayed',
+      replay_count: entry.replay_count + 1,
+      last_replayed_at: new Date(),
+      last_replay_queued_job_id: queuedJobId
+    }))
+  }
+}
@@ -0,0 +1,568 @@
+import Redis from 'ioredis'
+import { logInfo } from '@adamehrheart/utils'
+import type { JobResult } from '../types.js'
+import {
+  PRIORITY_RANK,
+  generateQueuedJobId,
+  getDefaultMaxAttempts,
+  type EnqueueJobInput,
+  type ExpiredLeaseRecovery,
+  type JobQueue,
+  type LeaseFilter,
+  type QueueDepth,
+  type QueuedJob
+} from './job-queue.js'
+
+const PRIORITY_RANKS = Object.values(PRIORITY_RANK).sort()
+
+/**
+ * Add an entry unless its job is already queued or leased
+ * KEYS: active hash, entry hash, ready zset, [batch set], [job record set]
+ * ARGV: job id, queue id, available_at ms, field/value pairs...
+ */
+const ENQUEUE_SCRIPT = `
+if redis.call('HSETNX', KEYS[1], ARGV[1], ARGV[2]) == 0 then return 0 end
+redis.call('HSET', KEYS[2], unpack(ARGV, 4))
+redis.call('ZADD', KEYS[3], ARGV[3], ARGV[2])
+for i = 4, #KEYS do redis.call('SADD', KEYS[i], ARGV[2]) end
+return 1
+`
+
+/**
+ * Move available entries from the ready sets (in rank order) to the lease set,
+ * skipping entries of other batches and entries whose dealer already has
+ * `max per dealer` jobs running
+ * KEYS: ready zsets by rank..., lease zset
+ * ARGV: now ms, limit, lease ms, worker id, entry key prefix, max per dealer ('' = no cap), running by dealer json,
+ *   batch id ('' = any batch)
+ */
+const LEASE_SCRIPT = `
+local leased = {}
+local remaining = tonumber(ARGV[2])
+local expires = tonumber(ARGV[1]) + tonumber(ARGV[3])
+local maxPerDealer = tonumber(ARGV[6])
+local running = cjson.decode(ARGV[7])
+local leaseKey = KEYS[#KEYS]
+for i = 1, #KEYS - 1 do
+  local skipped = 0
+  while remaining > 0 do
+    local ids = redis.call('ZRANGEBYSCORE', KEYS[i], '-inf', ARGV[1], 'LIMIT', skipped, remaining)
+    if #ids == 0 then break end
+    for _, id in ipairs(ids) do
+      local key = ARGV[5] .. id
+      local dealer = redis.call('HGET', key, 'dealer_id') or ''
+      local otherBatch = ARGV[8] ~= '' and redis.call('HGET', key, 'batch_id') ~= ARGV[8]
+      if otherBatch or (maxPerDealer and (running[dealer] or 0) >= maxPerDealer) then
+        skipped = skipped + 1
+      else
+        running[dealer] = (running[dealer] or 0) + 1
+        redis.call('ZREM', KEYS[i], id)
+        redis.call('ZADD', leaseKey, expires, id)
+        redis.call('HSET', key, 'status', 'leased', 'lease_owner', ARGV[4], 'lease_expires_at', expires,
+          'last_heartbeat_at', ARGV[1], 'updated_at', ARGV[1])
+        redis.call('HINCRBY', key, 'attempts', 1)
+        table.insert(leased, id)
+        remaining = remaining - 1
+      end
+    end
+  end
+end
+return leased
+`
+
+/**
+ * Extend a lease if the worker still holds it
+ * KEYS: entry hash, lease zset
+ * ARGV: queue id, worker id, now ms, new expiry ms
+ */
+const HEARTBEAT_SCRIPT = `
+if redis.call('HGET', KEYS[1], 'status') ~= 'leased' or redis.call('HGET', KEYS[1], 'lease_owner') ~= ARGV[2] then
+  return 0
+end
+redis.call('HSET', KEYS[1], 'lease_expires_at', ARGV[4], 'last_heartbeat_at', ARGV[3], 'updated_at', ARGV[3])
+redis.call('ZADD', KEYS[2], ARGV[4], ARGV[1])
+return 1
+`
+
+/**
+ * Move a leased entry to a terminal status if the worker still holds the lease
+ * KEYS: entry hash, lease zset, active hash, terminal status zset
+ * ARGV: queue id, worker id, now ms, status, error, result json, retention seconds
+ */
+const SETTLE_SCRIPT = `
+if redis.call('HGET', KEYS[1], 'status') ~= 'leased' or redis.call('HGET', KEYS[1], 'lease_owner') ~= ARGV[2] then
+  return 0
+end
+local jobId = redis.call('HGET', KEYS[1], 'job_id')
+redis.call('HSET', KEYS[1], 'status', ARGV[4], 'last_error', ARGV[5], 'result', ARGV[6], 'lease_owner', '',
+  'lease_expires_at', '', 'completed_at', ARGV[3], 'updated_at', ARGV[3])
+redis.call('ZREM', KEYS[2], ARGV[1])
+if redis.call('HGET', KEYS[3], jobId) == ARGV[1] then redis.call('HDEL', KEYS[3], jobId) end
+redis.call('ZADD', KEYS[4], ARGV[3], ARGV[1])
+redis.call('ZREMRANGEBYSCORE', KEYS[4], '-inf', tonumber(ARGV[3]) - tonumber(ARGV[7]) * 1000)
+redis.call('EXPIRE', KEYS[1], ARGV[7])
+return 1
+`
+
+/**
+ * Put a leased entry back in its ready set for a retry if the worker still holds the lease
+ * KEYS: entry hash, lease zset
+ * ARGV: queue id, worker id, now ms, available_at ms, error, result json, ready key prefix
+ */
+const RETRY_SCRIPT = `
+if redis.call('HGET', KEYS[1], 'status') ~= 'leased' or redis.call('HGET', KEYS[1], 'lease_owner') ~= ARGV[2] then
+  return 0
+end
+redis.call('HSET', KEYS[1], 'status', 'queued', 'trigger', 'retry', 'attempts', 0, 'available_at', ARGV[4],
+  'last_error', ARGV[5], 'result', ARGV[6], 'lease_owner', '', 'lease_expires_at', '', 'updated_at', ARGV[3])
+redis.call('HINCRBY', KEYS[1], 'retry_count', 1)
+redis.call('ZREM', KEYS[2], ARGV[1])
+redis.call('ZADD', ARGV[7] .. redis.call('HGET', KEYS[1], 'priority_rank'), ARGV[4], ARGV[1])
+return 1
+`
+
+/**
+ * Cancel the queued and leased entries of a job record
+ * KEYS: job record set, active hash, lease zset, cancelled zset
+ * ARGV: now ms, reason, entry key prefix, ready key prefix, retention seconds
+ */
+const CANCEL_SCRIPT = `
+local cancelled = {}
+for _, id in ipairs(redis.call('SMEMBERS', KEYS[1])) do
+  local key = ARGV[3] .. id
+  local status = redis.call('HGET', key, 'status')
+  if status == 'queued' or status == 'leased' then
+    if status == 'queued' then
+      redis.call('ZREM', ARGV[4] .. redis.call('HGET', key, 'priority_rank'), id)
+    else
+      redis.call('ZREM', KEYS[3], id)
+    end
+    local jobId = redis.call('HGET', key, 'job_id')
+    if redis.call('HGET', KEYS[2], jobId) == id then redis.call('HDEL', KEYS[2], jobId) end
+    redis.call('HSET', key, 'status', 'cancelled', 'last_error', ARGV[2], 'lease_owner', '', 'lease_expires_at', '',
+      'completed_at', ARGV[1], 'updated_at', ARGV[1])
+    redis.call('ZADD', KEYS[4], ARGV[1], id)
+    redis.call('EXPIRE', key, ARGV[5])
+    table.insert(cancelled, id)
+  end
+end
+redis.call('ZREMRANGEBYSCORE', KEYS[4], '-inf', tonumber(ARGV[1]) - tonumber(ARGV[5]) * 1000)
+return cancelled
+`
+
+/**
+ * Re-queue expired leases, failing entries that are out of attempts
+ * KEYS: lease zset, active hash, failed zset
+ * ARGV: now ms, entry key prefix, ready key prefix, retention seconds
+ */
+const REQUEUE_EXPIRED_SCRIPT = `
+local ids = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1])
+local requeued = 0
+local failed = {}
+for _, id in ipairs(ids) do
+  local key = ARGV[2] .. id
+  redis.call('ZREM', KEYS[1], id)
+  local attempts = tonumber(redis.call('HGET', key, 'attempts') or '0')
+  local maxAttempts = tonumber(redis.call('HGET', key, 'max_attempts') or '0')
+  local err = 'Lease expired after attempt ' .. attempts
+  if attempts >= maxAttempts then
+    local jobId = redis.call('HGET', key, 'job_id')
+    redis.call('HSET', key, 'status', 'failed', 'last_error', err, 'lease_owner', '', 'lease_expires_at', '',
+      'completed_at', ARGV[1], 'updated_at', ARGV[1])
+    if redis.call('HGET', KEYS[2], jobId) == id then redis.call('HDEL', KEYS[2], jobId) end
+    redis.call('ZADD', KEYS[3], ARGV[1], id)
+    redis.call('EXPIRE', key, ARGV[4])
+    table.insert(failed, id)
+  else
+    redis.call('HSET', key, 'status', 'queued', 'last_error', err, 'lease_owner', '', 'lease_expires_at', '',
+      'updated_at', ARGV[1])
+    redis.call('ZADD', ARGV[3] .. redis.call('HGET', key, 'priority_rank'), redis.call('HGET', key, 'available_at'), id)
+    requeued = requeued + 1
+  end
+end
+return {requeued, failed}
+`
+
+/**
+ * Parse an epoch-milliseconds hash field ('' means unset)
+ */
+function parseTime(value: string | undefined): Date | null {
+  return value ? new Date(Number(value)) : null
+}
+
+/**
+ * Parse a JSON hash field ('' means unset)
+ */
+function parseJson(value: string | undefined): any {
+  return value ? JSON.parse(value) : null
+}
+
+/**
+ * Convert an entry hash into a queue entry
+ */
+function hashToQueuedJob(hash: Record<string, string>): QueuedJob {
+  return {
+    id: hash.id,
+    batch_id: hash.batch_id || null,
+    job: parseJson(hash.payload),
+    schedule: parseJson(hash.schedule),
+    priority: hash.priority as QueuedJob['priority'],
+    trigger: hash.trigger as QueuedJob['trigger'],
+    status: hash.status as QueuedJob['status'],
+    attempts: parseInt(hash.attempts || '0'),
+    max_attempts: parseInt(hash.max_attempts || '0'),
+    retry_count: parseInt(hash.retry_count || '0'),
+    available_at: parseTime(hash.available_at)!,
+    lease_owner: hash.lease_owner || null,
+    lease_expires_at: parseTime(hash.lease_expires_at),
+    last_heartbeat_at: parseTime(hash.last_heartbeat_at),
+    result: parseJson(hash.result),
+    last_error: hash.last_error || null,
+    enqueued_at: parseTime(hash.enqueued_at)!,
+    updated_at: parseTime(hash.updated_at)!,
+    completed_at: parseTime(hash.completed_at)
+  }
+}
+
+/**
+ * Redis Job Queue
+ *
+ * Keeps each entry in a hash, available entries in one sorted set per
+ * priority rank (scored by available_at) and leased entries in a sorted set
+ * scored by lease expiry. Entries reporting to a job record are also listed in
+ * a set per record so they can be cancelled together. All state transitions
+ * run as Lua scripts so they are atomic across workers. Finished entries
+ * expire after the retention period.
+ */
+export class RedisJobQueue implements JobQueue {
+  private redis: Redis
+  private prefix: string
+  private retentionSeconds: number
+
+  constructor(redis?: Redis) {
+    this.redis = redis || new Redis(process.env.REDIS_URL || 'redis://redis:6379', {
+      maxRetriesPerRequest: 3
+    })
+    this.prefix = process.env.SCHEDULER_QUEUE_REDIS_PREFIX || 'scheduler:queue'
+    this.retentionSeconds = parseInt(process.env.SCHEDULER_QUEUE_RETENTION_SECONDS || '604800')
+  }
+
+  /**
+   * Build a namespaced key
+   */
+  private key(...parts: string[]): string {
+    return [this.prefix, ...parts].join(':')
+  }
+
+  /**
+   * Enqueue jobs, skipping any job that is already queued or leased
+   */
+  async enqueue(inputs: EnqueueJobInput[]): Promise<QueuedJob[]> {
+    const enqueued: QueuedJob[] = []
+
+    for (const input of inputs) {
+      const now = Date.now()
+      const priority = input.priority || 'standard'
+      const rank = PRIORITY_RANK[priority]
+      const entry: QueuedJob = {
+        id: generateQueuedJobId(),
+        batch_id: input.batch_id || null,
+        job: input.job,
+        schedule: input.schedule || null,
+        priority,
+        trigger: input.trigger || 'scheduled',
+        status: 'queued',
+        attempts: 0,
+        max_attempts: input.max_attempts ?? getDefaultMaxAttempts(),
+        retry_count: 0,
+        available_at: input.available_at || new Date(now),
+        lease_owner: null,
+        lease_expires_at: null,
+        last_heartbeat_at: null,
+        result: null,
+        last_error: null,
+        enqueued_at: new Date(now),
+        updated_at: new Date(now),
+        completed_at: null
+      }
+
+      const fields: Record<string, string | number> = {
+        id: entry.id,
+        batch_id: entry.batch_id || '',
+        job_id: input.job.id,
+        dealer_id: input.job.dealer_id,
+        platform: input.job.platform,
+        payload: JSON.stringify(entry.job),
+        schedule: entry.schedule ? JSON.stringify(entry.schedule) : '',
+        priority,
+        priority_rank: rank,
+        trigger: entry.trigger,
+        status: entry.status,
+        attempts: 0,
+        max_attempts: entry.max_attempts,
+        retry_count: 0,
+        available_at: entry.available_at.getTime(),
+        enqueued_at: now,
+        updated_at: now
+      }
+
+      const keys = [this.key('active'), this.key('entry', entry.id), this.key('ready', String(rank))]
+      if (entry.batch_id) {
+        keys.push(this.key('batch', entry.batch_id))
+      }
+      const jobRecordId = input.job.config?.job_record_id
+      if (jobRecordId) {
+        keys.push(this.key('record', jobRecordId))
+      }
+
+      const added = await this.redis.eval(
+        ENQUEUE_SCRIPT,
+        keys.length,
+        ...keys,
+        input.job.id,
+        entry.id,
+        entry.available_at.getTime(),
+        ...Object.entries(fields).flat()
+      )
+
+      if (added === 1) {
+        enqueued.push(entry)
+      }
+    }
+
+    const batchIds = new Set(enqueued.map(entry => entry.batch_id).filter((id): id is string => !!id))
+    for (const batchId of batchIds) {
+      await this.redis.expire(this.key('batch', batchId), this.retentionSeconds)
+    }
+    const jobRecordIds = new Set(enqueued.map(entry => entry.job.config?.job_record_id).filter((id): id is string => !!id))
+    for (const jobRecordId of jobRecordIds) {
+      await this.redis.expire(this.key('record', jobRecordId), this.retentionSeconds)
+    }
+
+    if (enqueued.length < inputs.length) {
+      logInfo(`Skipped ${inputs.length - enqueued.length} jobs already queued or running`)
+    }
+
+    return enqueued
+  }
+
+  /**
+   * Lease up to `limit` available jobs that pass the filter, highest priority first
+   */
+  async lease(workerId: string, limit: number, leaseMs: number, filter: LeaseFilter = {}): Promise<QueuedJob[]> {
+    if (limit <= 0) return []
+
+    const ranks = filter.priority ? [PRIORITY_RANK[filter.priority]] : PRIORITY_RANKS
+    const keys = [...ranks.map(rank => this.key('ready', String(rank))), this.key('leased')]
+    const ids = await this.redis.eval(
+      LEASE_SCRIPT,
+      keys.length,
+      ...keys,
+      Date.now(),
+      limit,
+      leaseMs,
+      workerId,
+      this.key('entry', ''),
+      filter.maxPerDealer ?? '',
+      JSON.stringify(filter.dealerInFlight || {}),
+      filter.batchId || ''
+    ) as string[]
+
+    const leased: QueuedJob[] = []
+    for (const id of ids) {
+      const entry = await this.get(id)
+      if (entry) leased.push(entry)
+    }
+    return leased
+  }
+
+  /**
+   * Extend a lease held by the worker
+   */
+  async heartbeat(id: string, workerId: string, leaseMs: number): Promise<boolean> {
+    const now = Date.now()
+    const extended = await this.redis.eval(
+      HEARTBEAT_SCRIPT,
+      2,
+      this.key('entry', id),
+      this.key('leased'),
+      id,
+      workerId,
+      now,
+      now + leaseMs
+    )
+    return extended === 1
+  }
+
+  /**
+   * Mark a leased job completed with its result
+   */
+  async complete(id: string, workerId: string, result: JobResult): Promise<boolean> {
+    return this.settle(id, workerId, 'completed', '', result)
+  }
+
+  /**
+   * Mark a leased job failed
+   */
+  async fail(id: string, workerId: string, error: string, result?: JobResult): Promise<boolean> {
+    return this.settle(id, workerId, 'failed', error, result)
+  }
+
+  /**
+   * Re-queue a leased job to run again at `availableAt` with trigger 'retry'
+   */
+  async retry(id: string, workerId: string, availableAt: Date, error: string, result?: JobResult): Promise<boolean> {
+    const requeued = await this.redis.eval(
+      RETRY_SCRIPT,
+      2,
+      this.key('entry', id),
+      this.key('leased'),
+      id,
+      workerId,
+      Date.now(),
+      availableAt.getTime(),
+      error,
+      result ? JSON.stringify(result) : '',
+      this.key('ready', '')
+    )
+
+    if (requeued !== 1) {
+      logInfo(`Lease on queued job ${id} was lost before its retry could be scheduled`)
+    }
+    return requeued === 1
+  }
+
+  /**
+   * Move a leased job to a terminal status if the worker still holds the lease
+   */
+  private async settle(
+    id: string,
+    workerId: string,
+    status: 'completed' | 'failed',
+    error: string,
+    result?: JobResult
+  ): Promise<boolean> {
+    const settled = await this.redis.eval(
+      SETTLE_SCRIPT,
+      4,
+      this.key('entry', id),
+      this.key('leased'),
+      this.key('active'),
+      this.key(status),
+      id,
+      workerId,
+      Date.now(),
+      status,
+      error,
+      result ? JSON.stringify(result) : '',
+      this.retentionSeconds
+    )
+
+    if (settled !== 1) {
+      logInfo(`Lease on queued job ${id} was lost before it could be marked ${status}`)
+    }
+    return settled === 1
+  }
+
+  /**
+   * Cancel the queued and leased entries reporting to a job record
+   */
+  async cancel(jobRecordId: string, reason: string): Promise<QueuedJob[]> {
+    const ids = await this.redis.eval(
+      CANCEL_SCRIPT,
+      4,
+      this.key('record', jobRecordId),
+      this.key('active'),
+      this.key('leased'),
+      this.key('cancelled'),
+      Date.now(),
+      reason,
+      this.key('entry', ''),
+      this.key('ready', ''),
+      this.retentionSeconds
+    ) as string[]
+
+    const cancelled: QueuedJob[] = []
+    for (const id of ids) {
+      const entry = await this.get(id)
+      if (entry) cancelled.push(entry)
+    }
+
+    if (cancelled.length > 0) {
+      logInfo(`Cancelled ${cancelled.length} queued jobs of job ${jobRecordId}`)
+    }
+    return cancelled
+  }
+
+  /**
+   * Re-queue jobs whose lease expired, failing those that are out of attempts
+   */
+  async requeueExpired(): Promise<ExpiredLeaseRecovery> {
+    const [requeued, failedIds] = await this.redis.eval(
+      REQUEUE_EXPIRED_SCRIPT,
+      3,
+      this.key('leased'),
+      this.key('active'),
+      this.key('failed'),
+      Date.now(),
+      this.key('entry', ''),
+      this.key('ready', ''),
+      this.retentionSeconds
+    ) as [number, string[]]
+
+    const failed: QueuedJob[] = []
+    for (const id of failedIds) {
+      const entry = await this.get(id)
+      if (entry) failed.push(entry)
+    }
+
+    if (requeued + failedIds.length > 0) {
+      logInfo(`Recovered ${requeued + failedIds.length} expired leases`, { requeued, failed: failedIds.length })
+    }
+    return { requeued, failed }
+  }
+
+  /**
+   * Get a queue entry by ID
+   */
+  async get(id: string): Promise<QueuedJob | null> {
+    const hash = await this.redis.hgetall(this.key('entry', id))
+    return hash.id ? hashToQueuedJob(hash) : null
+  }
+
+  /**
+   * Get every queue entry belonging to a batch
+   */
+  async listBatch(batchId: string): Promise<QueuedJob[]> {
+    const ids = await this.redis.smembers(this.key('batch', batchId))
+    const entries: QueuedJob[] = []
+    for (const id of ids) {
+      const entry = await this.get(id)
+      if (entry) entries.push(entry)
+    }
+    return entries.sort((a, b) => a.enqueued_at.getTime() - b.enqueued_at.getTime())
+  }
+
+  /**
+   * Count queue entries by status
+   */
+  async getDepth(): Promise<QueueDepth> {
+    const readyCounts = await Promise.all(
+      PRIORITY_RANKS.map(rank => this.redis.zcard(this.key('ready', String(rank))))
+    )
+    const [leased, completed, failed, cancelled] = await Promise.all([
+      this.redis.zcard(this.key('leased')),
+      this.redis.zcard(this.key('completed')),
+      this.redis.zcard(this.key('failed')),
+      this.redis.zcard(this.key('cancelled'))
+    ])
+
+    return {
+      queued: readyCounts.reduce((sum, count) => sum + count, 0),
+      leased,
+      completed,
+      failed,
+      cancelled
+    }
+  }
+}
@@ -1,22 +1,68 @@
 import { createSupabaseClientFromEnv, logInfo, logSuccess, logError, createPerformanceTimer } from '@adamehrheart/utils'
-import { DealerComJobRunner } from './jobs/dealer-com.js'
 // Legacy imports removed - files moved to legacy folder
 import type { ScheduledJob, JobExecution, JobResult, RunJobsRequest, RunJobsResponse } from './types.js'
 import { TimezoneAwareScheduler, type DealerTimezoneConfig, type SmartScheduleResult } from './timezone-scheduler.js'
 import { SchedulerEventClient } from './events/eventClient.js'
 import { TraceManager, type TraceContext, createChildSpan } from './utils/tracing.js'
+import { CronExpression, getDueCronFireTime, isValidCronExpression } from './lib/cron-expression.js'
+import type { JobPriority, JobQueue, QueueDepth, QueuedJob, QueuedJobSchedule } from './queue/job-queue.js'
+import { getJobQueue, getDeadLetterStore } from './queue/queue-factory.js'
+import { JobQueueWorker, type JobWorkerOptions, type DrainSummary, type QueuedJobOutcome, type QueuedJobSettlement } from './queue/job-worker.js'
+import { buildDeadLetterEntry, type DeadLetterEntry, type DeadLetterFilter, type DeadLetterStore } from './queue/dead-letter-store.js'
+import { classifyJobError, decideRetry, resolveRetryConfig, type RetryConfig } from './lib/retry-policy.js'
+import type { PriceDrop } from './lib/price-history.js'
+import { createRequestMetrics, getAverageResponseTime, type RequestMetrics } from './lib/host-throttle.js'
+import { getPlatformAdapter, requirePlatformAdapter } from './platforms/platform-registry.js'
+import { listDealerPriorityOverrides, resolveDealerPriority, type DealerPriorityOverride } from './lib/dealer-priority.js'
+import type { PlatformRunResult } from './platforms/platform-adapter.js'
+import {
+  claimScheduleRun,
+  getSchedulePlatforms,
+  listDueScheduleDefinitions,
+  matchesDealerFilter,
+  recordScheduleOutcome,
+  type ScheduleDefinition
+} from './lib/schedule-definitions.js'
+import { listDealerPauses, resumeExpiredSchedulePauses, type DealerPause } from './lib/schedule-controls.js'
+import { updateJobRecord } from './lib/job-records.js'
+import { recordJobExecutions } from './lib/job-stats.js'
+
+/**
+ * Legacy keyword schedules and their fixed intervals
+ */
+const LEGACY_SCHEDULE_INTERVALS_MS: Record<string, number> = {
+  hourly: 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000
+}
+
+/**
+ * How often the cron endpoint ticks; a tick runs the cron fire times since the previous one
+ */
+const CRON_TICK_INTERVAL_MS = parseInt(process.env.SCHEDULER_CRON_TICK_INTERVAL_MS || '600000')
+
+/**
+ * Latest cron fire time each job has run, so overlapping ticks in one process don't repeat it
+ */
+const consumedCronFireTimes = new Map<string, Date>()
 
 /**
  * Check if a job should run based on its schedule and timezone
  */
-function shouldRunJob(job: ScheduledJob, force: boolean = false, optimalRunTime?: Date): boolean {
+function shouldRunJob(
+  job: ScheduledJob,
+  force: boolean = false,
+  optimalRunTime?: Date,
+  timezone: string = 'UTC'
+): boolean {
   if (force) return true
   if (job.status !== 'active') return false
 
   const now = new Date()
+  const isCronSchedule = !(job.schedule in LEGACY_SCHEDULE_INTERVALS_MS)
 
-  // If we have a timezone-calculated optimal run time, use that
-  if (optimalRunTime) {
+  // If we have a timezone-calculated optimal run time, use that (cron schedules define their own timing)
+  if (optimalRunTime && !isCronSchedule) {
     // Allow 10-minute window around optimal time
     const windowStart = new Date(optimalRunTime.getTime() - (10 * 60 * 1000))
     const windowEnd = new Date(optimalRunTime.getTime() + (10 * 60 * 1000))
@@ -24,37 +70,122 @@ function shouldRunJob(job: ScheduledJob, force: boolean = false, optimalRunTime?
     return now >= windowStart && now <= windowEnd
   }
 
-  // Fallback to legacy logic
   const lastRun = job.last_run ? new Date(job.last_run) : null
-  if (!lastRun) return true
+  if (!lastRun) {
+    // Never run: cron jobs wait for a fire time, legacy jobs run immediately
+    if (!isCronSchedule) return true
+    return consumeCronFireTime(job, now, timezone)
+  }
 
-  const nextRun = calculateNextRun(lastRun, job.schedule)
+  const nextRun = calculateNextRun(lastRun, job.schedule, timezone)
   return now >= nextRun
 }
 
+/**
+ * Claim the cron fire time due at this tick for a job, if it hasn't been run yet
+ */
+function consumeCronFireTime(job: ScheduledJob, now: Date, timezone: string): boolean {
+  try {
+    const dueAt = getDueCronFireTime(job.schedule, now, CRON_TICK_INTERVAL_MS, timezone, consumedCronFireTimes.get(job.id) ?? null)
+    if (!dueAt) return false
+    consumedCronFireTimes.set(job.id, dueAt)
+    return true
+  } catch (error) {
+    logError(`Unknown schedule "${job.schedule}", skipping job ${job.id}`, error)
+    return false
+  }
+}
+
 /**
  * Calculate next run time based on schedule
+ *
+ * Accepts the legacy 'hourly' / 'daily' / 'weekly' keywords (fixed intervals
+ * from the last run) or any cron expression, evaluated in the dealer's timezone.
  */
-function calculateNextRun(lastRun: Date, schedule: string): Date {
-  const nextRun = new Date(lastRun)
-
-  switch (schedule) {
-    case 'hourly':
-      nextRun.setHours(nextRun.getHours() + 1)
-      break
-    case 'daily':
-      nextRun.setDate(nextRun.getDate() + 1)
-      break
-    case 'weekly':
-      nextRun.setDate(nextRun.getDate() + 7)
-      break
-    default:
-      // Default to hourly if unknown schedule
-      nextRun.setHours(nextRun.getHours() + 1)
-      break
+function calculateNextRun(lastRun: Date, schedule: string, timezone: string = 'UTC'): Date {
+  const legacyInterval = LEGACY_SCHEDULE_INTERVALS_MS[schedule]
+  if (legacyInterval) {
+    return new Date(lastRun.getTime() + legacyInterval)
   }
 
-  return nextRun
+  try {
+    const nextRun = CronExpression.parse(schedule).next(lastRun, timezone)
+    if (nextRun) {
+      return nextRun
+    }
+    logError(`Cron schedule "${schedule}" never fires, treating as hourly`)
+  } catch (error) {
+    logError(`Unknown schedule "${schedule}", treating as hourly`, error)
+  }
+
+  return new Date(lastRun.getTime() + LEGACY_SCHEDULE_INTERVALS_MS.hourly)
+}
+
+/**
+ * Response from runJobs: jobs are enqueued for workers rather than executed inline
+ */
+export type EnqueueJobsResponse = RunJobsResponse & {
+  batch_id: string
+  jobs_enqueued: number
+  jobs_skipped: number
+  queued_job_ids: string[]
+  error?: string  // why nothing could be enqueued, when success is false
+}
+
+/**
+ * Options for runJobs beyond the job filter
+ */
+export interface RunJobsOptions {
+  jobRecordId?: string       // job record (job_records) that tracks the batch's progress and result
+  includeSchedules?: boolean // claim and enqueue due schedule definitions (default: unless forced)
+  priority?: JobPriority     // queue tier for every job instead of each dealer's own
+}
+
+/**
+ * A batch's queue entries once it settled, or as far as it got before a wait timed out
+ */
+export interface BatchWaitResult {
+  settled: boolean
+  entries: QueuedJob[]
+  results: JobResult[]
+}
+
+/**
+ * How often waitForBatch checks on jobs leased by other workers
+ */
+const BATCH_POLL_INTERVAL_MS = 1000
+
+/**
+ * Outcome of replaying one dead-lettered job
+ */
+export interface DeadLetterReplayResult {
+  dead_letter_id: string
+  replayed: boolean
+  queued_job_id: string | null
+  reason?: string
+}
+
+/**
+ * Outcome of a bulk dead-letter replay
+ */
+export interface BulkDeadLetterReplayResponse {
+  matched: number
+  replayed: number
+  skipped: number
+  results: DeadLetterReplayResult[]
+}
+
+/**
+ * Snapshot the parts of a smart schedule that travel with a queued job
+ */
+function toQueuedSchedule(schedule?: SmartScheduleResult): QueuedJobSchedule | undefined {
+  if (!schedule) return undefined
+  return {
+    timezone: schedule.timezone,
+    localTime: schedule.localRunTime,
+    utcTime: schedule.optimalRunTime.toISOString(),
+    priority: schedule.priority
+  }
 }
 
 /**
@@ -66,11 +197,14 @@ function calculateNextRun(lastRun: Date, schedule: string): Date {
 export class SchedulerService {
   private supabase = createSupabaseClientFromEnv()
   private eventClient = new SchedulerEventClient()
+  private jobQueue: JobQueue = getJobQueue()
+  private deadLetterStore: DeadLetterStore = getDeadLetterStore()
 
   /**
-   * Run all scheduled jobs
+   * Enqueue all scheduled jobs that are due; workers drain the queue via processQueue.
+   * With `jobRecordId`, the jobs report their progress and outcome to that job record.
    */
-  async runJobs(request: RunJobsRequest = {}): Promise<RunJobsResponse> {
+  async runJobs(request: RunJobsRequest = {}, options: RunJobsOptions = {}): Promise<EnqueueJobsResponse> {
     const timer = createPerformanceTimer()
     const batchId = `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
 
@@ -88,15 +222,25 @@ export class SchedulerService {
 
       // 1. Get all active jobs from PayloadCMS
       const jobsSpanId = traceManager.startSpan('scheduler.get.active.jobs', batchContext, { job_count: 0 })
-      const jobs = await this.getActiveJobs(request)
-      traceManager.addSpanEvent(jobsSpanId, 'jobs.retrieved', { job_count: jobs.length })
-      traceManager.endSpan(jobsSpanId, { job_count: jobs.length })
-      logInfo(`Found ${jobs.length} active jobs`)
-
-      // 2. Generate timezone-aware schedule and filter jobs that should run
+      // A dealer lookup failure fails the batch rather than looking like "no jobs"
+      const dealers = await this.excludePausedDealers(await this.getActiveDealers(), request)
+      await this.resumeExpiredPauses()
+      const jobs = await this.getActiveJobs(request, dealers)
+      const scheduledJobs = (options.includeSchedules ?? !request.force)
+        ? await this.getDueScheduleJobs(request, dealers)
+        : []
+      traceManager.addSpanEvent(jobsSpanId, 'jobs.retrieved', { job_count: jobs.length, scheduled_job_count: scheduledJobs.length })
+      traceManager.endSpan(jobsSpanId, { job_count: jobs.length, scheduled_job_count: scheduledJobs.length })
+      logInfo(`Found ${jobs.length} active jobs and ${scheduledJobs.length} jobs from due schedules`)
+
+      // 2. Generate timezone-aware schedule and filter jobs that should run;
+      // due schedule definitions have already decided their jobs' timing
       const scheduleSpanId = traceManager.startSpan('scheduler.timezone.scheduling', batchContext, { job_count: jobs.length })
-      const smartSchedules = await this.generateTimezoneAwareSchedule(jobs)
-      const jobsToRun = this.filterJobsByOptimalTiming(jobs, smartSchedules, request.force)
+      const smartSchedules = await this.generateTimezoneAwareSchedule([...jobs, ...scheduledJobs])
+      const jobsToRun = [...new Map([
+        ...this.filterJobsByOptimalTiming(jobs, smartSchedules, request.force),
+        ...scheduledJobs
+      ].map(job => [job.id, job])).values()]
       traceManager.addSpanEvent(scheduleSpanId, 'jobs.filtered', {
         total_jobs: jobs.length,
         jobs_to_run: jobsToRun.length
@@ -117,6 +261,10 @@ export class SchedulerService {
       if (jobsToRun.length === 0) {
         return {
           success: true,
+          batch_id: batchId,
+          jobs_enqueued: 0,
+          jobs_skipped: 0,
+          queued_job_ids: [],
           jobs_executed: 0,
           jobs_succeeded: 0,
           jobs_failed: 0,
@@ -125,56 +273,58 @@ export class SchedulerService {
         }
       }
 
-      // 4. Execute jobs with priority-based scheduling and concurrency control
-      const results = await this.executeJobsWithPriorityScheduling(jobsToRun, smartSchedules)
-
-      // 5. Update job statuses in database
-      await this.updateJobStatuses(results)
+      // 4. Enqueue jobs; priority decides lease order, workers execute them
+      const enqueueSpanId = traceManager.startSpan('scheduler.queue.enqueue', batchContext, { job_count: jobsToRun.length })
+      const enqueued = await this.jobQueue.enqueue(jobsToRun.map(job => {
+        const schedule = smartSchedules.get(job.dealer_id)
+        return {
+          job: options.jobRecordId ? { ...job, config: { ...job.config, job_record_id: options.jobRecordId } } : job,
+          batch_id: batchId,
+          schedule: toQueuedSchedule(schedule),
+          priority: options.priority || schedule?.priority || 'standard',
+          trigger: request.force ? 'manual' as const : 'scheduled' as const
+        }
+      }))
+      traceManager.endSpan(enqueueSpanId, { jobs_enqueued: enqueued.length })
 
-      // 6. Calculate summary
-      const jobsSucceeded = results.filter(r => r.success).length
-      const jobsFailed = results.filter(r => !r.success).length
-      const totalVehiclesProcessed = results.reduce((sum, r) => sum + (r.execution.vehicles_processed || 0), 0)
+      // A schedule's job is skipped while its previous run is still queued or running
+      const enqueuedJobIds = new Set(enqueued.map(entry => entry.job.id))
+      for (const job of scheduledJobs.filter(job => !enqueuedJobIds.has(job.id))) {
+        logInfo(`Skipped job of schedule ${job.config?.schedule_id} for ${job.dealer_name} (${job.platform}): its previous run is still queued or running`)
+      }
 
-      const response: RunJobsResponse = {
+      const response: EnqueueJobsResponse = {
         success: true,
-        jobs_executed: jobsToRun.length,
-        jobs_succeeded: jobsSucceeded,
-        jobs_failed: jobsFailed,
-        results,
+        batch_id: batchId,
+        jobs_enqueued: enqueued.length,
+        jobs_skipped: jobsToRun.length - enqueued.length,
+        queued_job_ids: enqueued.map(entry => entry.id),
+        jobs_executed: 0,
+        jobs_succeeded: 0,
+        jobs_failed: 0,
+        results: [],
         execution_time_ms: timer.getDurationMs()
       }
 
-      // 7. Publish batch completed event
-      if (jobsToRun.length > 0) {
-        await this.publishBatchCompletedEvent(batchId, {
-          startTime: new Date(Date.now() - response.execution_time_ms).toISOString(),
-          endTime: new Date().toISOString(),
-          durationMs: response.execution_time_ms,
-          totalJobs: jobsToRun.length,
-          successfulJobs: jobsSucceeded,
-          failedJobs: jobsFailed,
-          totalVehiclesProcessed,
-          results
-        })
-      }
-
-      logSuccess('Scheduled job execution completed', {
+      logSuccess('Scheduled jobs enqueued', {
         batchId,
-        jobs_executed: jobsToRun.length,
-        jobs_succeeded: jobsSucceeded,
-        jobs_failed: jobsFailed,
-        total_vehicles_processed: totalVehiclesProcessed,
+        jobs_enqueued: response.jobs_enqueued,
+        jobs_skipped: response.jobs_skipped,
         execution_time_ms: response.execution_time_ms
       })
 
       return response
 
     } catch (error) {
-      logError('Scheduled job execution failed', error)
+      logError('Scheduled job enqueue failed', error)
 
       return {
         success: false,
+        error: error instanceof Error ? error.message : String(error),
+        batch_id: batchId,
+        jobs_enqueued: 0,
+        jobs_skipped: 0,
+        queued_job_ids: [],
         jobs_executed: 0,
         jobs_succeeded: 0,
         jobs_failed: 0,
@@ -185,32 +335,320 @@ export class SchedulerService {
   }
 
   /**
-   * Get active jobs from Supabase (synced from PayloadCMS)
+   * Drain the job queue: lease jobs, execute them and record their results
    */
-  private async getActiveJobs(request: RunJobsRequest): Promise<ScheduledJob[]> {
+  async processQueue(options: Partial<JobWorkerOptions> = {}): Promise<DrainSummary> {
+    const worker = new JobQueueWorker(
+      this.jobQueue,
+      queued => this.executeQueuedJob(queued),
+      options,
+      (queued, settlement) => this.handleSettledJob(queued, settlement)
+    )
+    return worker.drain()
+  }
+
+  /**
+   * Cancel the queued and running jobs reporting to a job record. Workers
+   * running one notice at their next heartbeat and drop its outcome.
+   */
+  async cancelQueuedJobs(jobRecordId: string, reason: string): Promise<QueuedJob[]> {
+    return this.jobQueue.cancel(jobRecordId, reason)
+  }
+
+  /**
+   * Get queue depth by status
+   */
+  async getQueueDepth(): Promise<QueueDepth> {
+    return this.jobQueue.getDepth()
+  }
+
+  /**
+   * Execute a leased job, publishing its lifecycle events and storing the execution
+   */
+  private async executeQueuedJob(queued: QueuedJob): Promise<QueuedJobOutcome> {
+    await this.publishJobStartedEvent(queued.job, queued.schedule || undefined, queued.trigger)
+    await this.markJobRecordRunning(queued)
+
+    // Retries and re-leased jobs pick up the previous attempt's pagination checkpoint
+    const outcome = await this.executeJob(queued.job, queued.retry_count, queued.retry_count > 0 || queued.attempts > 1)
+
+    if (outcome.result.success) {
+      await this.publishJobCompletedEvent(outcome.result)
+    } else {
+      await this.publishJobFailedEvent(outcome.result, outcome.retryAt)
+    }
+
+    await this.updateJobStatuses([outcome.result])
+
+    return outcome
+  }
+
+  /**
+   * Dead-letter jobs that failed for good, then report the batch if it finished
+   */
+  private async handleSettledJob(queued: QueuedJob, settlement: QueuedJobSettlement): Promise<void> {
+    const scheduleId = queued.job.config?.schedule_id
+    if (scheduleId && settlement.status !== 'retrying') {
+      try {
+        await recordScheduleOutcome(scheduleId, settlement.status === 'completed')
+      } catch (error) {
+        logError(`Failed to record outcome of queued job ${queued.id} for schedule ${scheduleId}`, error)
+      }
+    }
+
+    if (settlement.status === 'failed') {
+      try {
+        const entry = await this.deadLetterStore.add(buildDeadLetterEntry(queued, settlement.result, settlement.error))
+        if (entry) {
+          logError(`Job for ${queued.job.dealer_name} (${queued.job.platform}) moved to dead-letter queue`, {
+            dead_letter_id: entry.id,
+            queued_job_id: queued.id,
+            retry_count: queued.retry_count,
+            error: entry.error_message
+          })
+        }
+      } catch (error) {
+        logError(`Failed to dead-letter queued job ${queued.id}`, error)
+      }
+    }
+
+    await this.syncJobRecord(queued)
+    await this.completeBatchIfFinished(queued)
+  }
+
+  /**
+   * Mark the job record a queued job reports to as running
+   */
+  private async markJobRecordRunning(queued: QueuedJob): Promise<void> {
+    const jobRecordId = queued.job.config?.job_record_id
+    if (!jobRecordId) return
+
     try {
-      // Query Supabase for active dealers with timezone and contact info (synced from PayloadCMS)
-      const { data: dealers, error } = await this.supabase
-        .from('dealers')
-        .select(`
-          id,
-          name,
-          slug,
-          domain,
-          status,
-          api_config,
-          contact_address,
-          sftp_config_schedule_timezone,
-          sftp_config_schedule_preferred_time,
-          sftp_config_schedule_frequency
-        `)
-        .eq('status', 'active')
+      await updateJobRecord(jobRecordId, { status: 'running' })
+    } catch (error) {
+      logError(`Failed to mark job ${jobRecordId} running`, error)
+    }
+  }
+
+  /**
+   * Report a settled job's batch to its job record: progress while jobs are
+   * outstanding, then completed (every job succeeded) or failed with the results
+   */
+  private async syncJobRecord(queued: QueuedJob): Promise<void> {
+    const jobRecordId = queued.job.config?.job_record_id
+    if (!jobRecordId || !queued.batch_id) return
+
+    try {
+      const entries = await this.jobQueue.listBatch(queued.batch_id)
+      const settled = entries.filter(entry => entry.status !== 'queued' && entry.status !== 'leased')
 
-      if (error) {
-        throw new Error(`Failed to fetch dealers: ${error.message}`)
+      if (settled.length < entries.length) {
+        await updateJobRecord(jobRecordId, { progress_percent: Math.round((settled.length / entries.length) * 100) })
+        return
       }
 
-      logInfo(`Fetched ${dealers.length} active dealers from Supabase`)
+      const failed = entries.filter(entry => entry.status === 'failed')
+      const results = entries.map(entry => entry.result).filter((result): result is JobResult => !!result)
+      await updateJobRecord(jobRecordId, {
+        status: failed.length === 0 ? 'completed' : 'failed',
+        progress_percent: 100,
+        result: {
+          success: failed.length === 0,
+          batch_id: queued.batch_id,
+          dealers_processed: new Set(entries.map(entry => entry.job.dealer_id)).size,
+          success_count: entries.length - failed.length,
+          error_count: failed.length,
+          vehicles_found: results.reduce((sum, r) => sum + (r.execution.vehicles_found || 0), 0),
+          vehicles_processed: results.reduce((sum, r) => sum + (r.execution.vehicles_processed || 0), 0),
+          jobs: entries.map(entry => ({
+            queued_job_id: entry.id,
+            dealer_id: entry.job.dealer_id,
+            platform: entry.job.platform,
+            status: entry.status,
+            vehicles_processed: entry.result?.execution.vehicles_processed || 0,
+            error: entry.last_error || undefined
+          }))
+        },
+        ...(failed.length > 0 && {
+          error_message: `${failed.length} of ${entries.length} jobs failed: ${failed[0].last_error || 'Unknown error'}`
+        })
+      })
+    } catch (error) {
+      logError(`Failed to report batch ${queued.batch_id} to job ${jobRecordId}`, error)
+    }
+  }
+
+  /**
+   * Wait for a batch to settle, running the batch's own jobs in this process
+   * so the batch runs even when no worker is busy (other jobs are left to the
+   * workers). Jobs leased by other workers are polled until they settle or
+   * `timeoutMs` passes.
+   */
+  async waitForBatch(batchId: string, timeoutMs: number): Promise<BatchWaitResult> {
+    const deadline = Date.now() + timeoutMs
+    const isOutstanding = (entry: QueuedJob) => entry.status === 'queued' || entry.status === 'leased'
+    let entries = await this.jobQueue.listBatch(batchId)
+
+    while (entries.some(isOutstanding) && Date.now() < deadline) {
+      if (entries.some(entry => entry.status === 'queued' && entry.available_at.getTime() <= Date.now())) {
+        await this.processQueue({ maxRuntimeMs: deadline - Date.now(), batchId })
+        entries = await this.jobQueue.listBatch(batchId)
+      }
+      if (entries.some(isOutstanding)) {
+        // Leased by another worker, or waiting out a retry delay
+        await new Promise(resolve => setTimeout(resolve, Math.max(Math.min(BATCH_POLL_INTERVAL_MS, deadline - Date.now()), 0)))
+        entries = await this.jobQueue.listBatch(batchId)
+      }
+    }
+
+    return {
+      settled: !entries.some(isOutstanding),
+      entries,
+      results: entries.map(entry => entry.result).filter((result): result is JobResult => !!result)
+    }
+  }
+
+  /**
+   * List dead-lettered jobs, newest first
+   */
+  async listDeadLetters(filter: DeadLetterFilter = {}): Promise<{ entries: DeadLetterEntry[]; total: number }> {
+    return this.deadLetterStore.list(filter)
+  }
+
+  /**
+   * Re-enqueue a dead-lettered job as a fresh manual run; returns null if the entry doesn't exist
+   */
+  async replayDeadLetter(id: string): Promise<DeadLetterReplayResult | null> {
+    const entry = await this.deadLetterStore.get(id)
+    if (!entry) return null
+
+    return this.replayEntry(entry)
+  }
+
+  /**
+   * Replay every dead (not yet replayed) entry matching a dealer and/or platform
+   */
+  async replayDeadLetters(filter: { dealer_id?: string; platform?: string; limit?: number } = {}): Promise<BulkDeadLetterReplayResponse> {
+    const { entries } = await this.deadLetterStore.list({
+      dealer_id: filter.dealer_id,
+      platform: filter.platform,
+      status: 'dead',
+      limit: filter.limit ?? 100
+    })
+
+    const results: DeadLetterReplayResult[] = []
+    for (const entry of entries) {
+      results.push(await this.replayEntry(entry))
+    }
+
+    const replayed = results.filter(result => result.replayed).length
+    logInfo('Replayed dead-lettered jobs', { ...filter, matched: entries.length, replayed })
+
+    return {
+      matched: entries.length,
+      replayed,
+      skipped: entries.length - replayed,
+      results
+    }
+  }
+
+  /**
+   * Enqueue a dead-letter entry's job and record the replay
+   */
+  private async replayEntry(entry: DeadLetterEntry): Promise<DeadLetterReplayResult> {
+    const [queued] = await this.jobQueue.enqueue([{
+      job: entry.job,
+      priority: entry.priority,
+      trigger: 'manual'
+    }])
+
+    if (!queued) {
+      return {
+        dead_letter_id: entry.id,
+        replayed: false,
+        queued_job_id: null,
+        reason: 'Job is already queued or running'
+      }
+    }
+
+    await this.deadLetterStore.markReplayed(entry.id, queued.id)
+    logInfo(`Replayed dead-lettered job for ${entry.dealer_name} (${entry.platform})`, {
+      dead_letter_id: entry.id,
+      queued_job_id: queued.id
+    })
+
+    return { dead_letter_id: entry.id, replayed: true, queued_job_id: queued.id }
+  }
+
+  /**
+   * Publish the batch completed event once every job in the batch has settled
+   */
+  private async completeBatchIfFinished(queued: QueuedJob): Promise<void> {
+    if (!queued.batch_id) return
+
+    const entries = await this.jobQueue.listBatch(queued.batch_id)
+    if (entries.length === 0 || entries.some(entry => entry.status === 'queued' || entry.status === 'leased')) {
+      return
+    }
+
+    // Only the worker that settled the batch's last job reports it
+    const lastSettled = entries.reduce((latest, entry) =>
+      (entry.completed_at?.getTime() || 0) > (latest.completed_at?.getTime() || 0) ? entry : latest)
+    if (lastSettled.id !== queued.id) return
+
+    const results = entries.map(entry => entry.result).filter((result): result is JobResult => !!result)
+    const startTime = entries.reduce((earliest, entry) =>
+      entry.enqueued_at < earliest ? entry.enqueued_at : earliest, entries[0].enqueued_at)
+    const endTime = lastSettled.completed_at || new Date()
+
+    await this.publishBatchCompletedEvent(queued.batch_id, {
+      startTime: startTime.toISOString(),
+      endTime: endTime.toISOString(),
+      durationMs: endTime.getTime() - startTime.getTime(),
+      totalJobs: entries.length,
+      successfulJobs: entries.filter(entry => entry.status === 'completed').length,
+      failedJobs: entries.filter(entry => entry.status === 'failed').length,
+      totalVehiclesProcessed: results.reduce((sum, r) => sum + (r.execution.vehicles_processed || 0), 0),
+      results
+    })
+  }
+
+  /**
+   * Get active dealers from Supabase (synced from PayloadCMS)
+   */
+  private async getActiveDealers(): Promise<any[]> {
+    // Query Supabase for active dealers with timezone and contact info (synced from PayloadCMS)
+    const { data: dealers, error } = await this.supabase
+      .from('dealers')
+      .select(`
+        id,
+        name,
+        slug,
+        domain,
+        status,
+        api_config,
+        contact_address,
+        sftp_config_schedule_timezone,
+        sftp_config_schedule_preferred_time,
+        sftp_config_schedule_frequency
+      `)
+      .eq('status', 'active')
+
+    if (error) {
+      throw new Error(`Failed to fetch dealers: ${error.message}`)
+    }
+
+    logInfo(`Fetched ${dealers.length} active dealers from Supabase`)
+    return dealers
+  }
+
+  /**
+   * Get active jobs from the dealers' configured platforms (paused dealers
+   * excluded; pass `activeDealers` already filtered)
+   */
+  private async getActiveJobs(request: RunJobsRequest, activeDealers?: any[]): Promise<ScheduledJob[]> {
+    try {
+      const dealers = activeDealers || await this.excludePausedDealers(await this.getActiveDealers(), request)
 
       // Convert dealers to scheduled jobs
       const jobs: ScheduledJob[] = []
@@ -247,39 +685,125 @@ export class SchedulerService {
   }
 
   /**
-   * Create a scheduled job from dealer data
+   * Drop dealers an operator has paused. A forced run for one dealer still runs
+   * it, so an operator can test a paused dealer by hand.
+   */
+  private async excludePausedDealers(dealers: any[], request: RunJobsRequest): Promise<any[]> {
+    let pauses = new Map<string, DealerPause>()
+    try {
+      pauses = await listDealerPauses()
+    } catch (error) {
+      logError('Failed to load dealer pauses, running every dealer', error)
+    }
+
+    return dealers.filter(dealer => {
+      const pause = pauses.get(dealer.id)
+      if (!pause || (request.force && request.dealer_id === dealer.id)) return true
+
+      logInfo(`Dealer ${dealer.name} is paused`, {
+        dealer_id: dealer.id,
+        paused_by: pause.paused_by,
+        reason: pause.reason,
+        paused_until: pause.paused_until?.toISOString() || null
+      })
+      return false
+    })
+  }
+
+  /**
+   * Lift schedule pauses whose time is up, before due schedules are evaluated
+   */
+  private async resumeExpiredPauses(): Promise<void> {
+    try {
+      const resumed = await resumeExpiredSchedulePauses()
+      if (resumed.length > 0) {
+        logInfo(`Resumed ${resumed.length} schedules whose pause expired`, { schedule_ids: resumed })
+      }
+    } catch (error) {
+      logError('Failed to resume expired schedule pauses', error)
+    }
+  }
+
+  /**
+   * Claim the schedule definitions that are due and build their jobs: one per
+   * dealer the schedule's dealer filter selects and platform its job type runs.
+   * Runs filtered to a dealer or platform, and forced runs unless asked to
+   * include schedules (see runJobs), leave schedules for the cron tick.
+   */
+  private async getDueScheduleJobs(request: RunJobsRequest, dealers: any[], now: Date = new Date()): Promise<ScheduledJob[]> {
+    if (request.dealer_id || request.platform) return []
+
+    let due: ScheduleDefinition[] = []
+    try {
+      due = await listDueScheduleDefinitions(now)
+    } catch (error) {
+      logError('Failed to load due schedule definitions', error)
+      return []
+    }
+
+    const jobs: ScheduledJob[] = []
+    for (const definition of due) {
+      try {
+        // Another scheduler instance may have claimed this run already
+        const claimed = await claimScheduleRun(definition, now)
+        if (!claimed) continue
+
+        if (claimed.skipped) {
+          logInfo(`Skipped run of schedule "${definition.name}" (skip-next)`, {
+            schedule_id: definition.schedule_id,
+            next_run: claimed.schedule.next_run_at?.toISOString() || null
+          })
+          continue
+        }
+
+        const before = jobs.length
+        for (const dealer of dealers) {
+          if (!matchesDealerFilter(dealer, definition.dealer_filter)) continue
+
+          for (const platform of getSchedulePlatforms(definition, dealer.api_config?.platforms || [])) {
+            const job = this.createJobFromSchedule(dealer, platform, definition)
+            if (job) jobs.push(job)
+          }
+        }
+
+        logInfo(`Schedule "${definition.name}" is due`, {
+          schedule_id: definition.schedule_id,
+          job_type: definition.job_type,
+          jobs: jobs.length - before,
+          next_run: claimed.schedule.next_run_at?.toISOString() || null
+        })
+      } catch (error) {
+        logError(`Failed to run schedule ${definition.schedule_id}`, error)
+      }
+    }
+
+    return jobs
+  }
+
+  /**
+   * Create a scheduled job from dealer data; null when no enabled adapter handles the platform
    */
   private createJobFromDealer(dealer: any, platform: string): ScheduledJob | null {
     const now = new Date()
 
-    // Determine schedule based on platform
-    let schedule: ScheduledJob['schedule'] = 'daily'
-    switch (platform) {
-      case 'homenet':
-        schedule = 'daily'
-        break
-      case 'dealer.com':
-        schedule = 'hourly'
-        break
-      case 'web_scraping':
-        schedule = 'daily'
-        break
-      default:
-        schedule = 'daily'
+    const adapter = getPlatformAdapter(platform)
+    if (!adapter || !adapter.isEnabled()) {
+      logError(`Not scheduling ${platform} for dealer ${dealer.name}: ${adapter ? 'platform disabled' : 'unsupported platform'}`)
+      return null
     }
 
-    // Get platform-specific configuration from dealer
-    let config = {}
-    switch (platform) {
-      case 'homenet':
-        config = dealer.api_config?.homenet_config || {}
-        break
-      case 'dealer.com':
-        config = dealer.api_config?.dealer_com_config || {}
-        break
-      case 'web_scraping':
-        config = dealer.api_config?.web_scraping_config || {}
-        break
+    // Default cadence and platform-specific configuration come from the adapter
+    let schedule: ScheduledJob['schedule'] = adapter.capabilities.default_schedule
+    const config = adapter.getDealerConfig(dealer)
+
+    // Platform config may override the default cadence with a cron expression (dealer-local time)
+    const cronExpression = (config as { cron_expression?: string }).cron_expression
+    if (cronExpression) {
+      if (isValidCronExpression(cronExpression)) {
+        schedule = cronExpression as ScheduledJob['schedule']
+      } else {
+        logError(`Ignoring invalid cron expression "${cronExpression}" for dealer ${dealer.name} (${platform})`)
+      }
     }
 
     return {
@@ -297,191 +821,188 @@ export class SchedulerService {
   }
 
   /**
-   * Execute jobs with configurable concurrency control
+   * Create a dealer's job for a schedule definition: the schedule's parameters
+   * and retry_config layer over the platform config, and `schedule_id` lets the
+   * outcome be counted against the schedule. The job ID carries the schedule ID
+   * so the job is queued apart from the dealer's own and other schedules' jobs.
    */
-  private async executeJobs(jobs: ScheduledJob[]): Promise<JobResult[]> {
-    const results: JobResult[] = []
+  private createJobFromSchedule(dealer: any, platform: string, definition: ScheduleDefinition): ScheduledJob | null {
+    const job = this.createJobFromDealer(dealer, platform)
+    if (!job) return null
 
-    // Make concurrency configurable via Doppler environment variables
-    const concurrencyLimit = parseInt(process.env.SCHEDULER_CONCURRENCY_LIMIT || '5')
-    const maxConcurrentPremium = parseInt(process.env.SCHEDULER_MAX_CONCURRENT_PREMIUM || '20')
-    const maxConcurrentStandard = parseInt(process.env.SCHEDULER_MAX_CONCURRENT_STANDARD || '12')
-    const maxConcurrentEconomy = parseInt(process.env.SCHEDULER_MAX_CONCURRENT_ECONOMY || '8')
-
-    logInfo(`Using concurrency limits:`, {
-      default: concurrencyLimit,
-      premium: maxConcurrentPremium,
-      standard: maxConcurrentStandard,
-      economy: maxConcurrentEconomy
-    })
-
-    // Process jobs in batches
-    for (let i = 0; i < jobs.length; i += concurrencyLimit) {
-      const batch = jobs.slice(i, i + concurrencyLimit)
-
-      const batchResults = await Promise.allSettled(
-        batch.map(job => this.executeJob(job))
-      )
-
-      // Convert Promise.allSettled results to JobResult[]
-      for (let j = 0; j < batch.length; j++) {
-        const result = batchResults[j]
-        if (result.status === 'fulfilled') {
-          results.push(result.value)
-        } else {
-          // Handle rejected promise
-          const job = batch[j]
-          const failedJobResult: JobResult = {
-            job_id: job.id,
-            dealer_id: job.dealer_id,
-            platform: job.platform,
-            execution: {
-              id: `exec_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-              job_id: job.id,
-              dealer_id: job.dealer_id,
-              platform: job.platform,
-              status: 'failed',
-              start_time: new Date(),
-              end_time: new Date(),
-              vehicles_found: 0,
-              vehicles_processed: 0,
-              error_message: result.reason?.message || 'Unknown error',
-              retry_count: 0,
-              max_retries: 3,
-              correlation_id: job.correlation_id || '',
-              trace_id: job.trace_id || '',
-              span_id: job.span_id || '',
-              performance_metrics: {
-                duration_ms: 0,
-                api_calls: 0,
-                rate_limits_hit: 0,
-                avg_response_time: 0,
-                memory_usage_mb: 0,
-                cpu_usage_percent: 0
-              }
-            },
-            success: false,
-            error: {
-              message: result.reason?.message || 'Unknown error',
-              retryable: false
-            },
-            correlation_id: job.correlation_id || '',
-            trace_id: job.trace_id || '',
-            span_id: job.span_id || '',
-            job
-          }
-          results.push(failedJobResult)
-        }
+    return {
+      ...job,
+      id: `${job.id}_${definition.schedule_id}`,
+      config: {
+        ...job.config,
+        ...definition.parameters,
+        ...(definition.metadata.retry_config && { retry_config: definition.metadata.retry_config }),
+        schedule_id: definition.schedule_id
       }
     }
-
-    return results
   }
 
   /**
-   * Execute a single job
+   * Execute a single job; failures are classified and, when retryable, scheduled for a retry
+   * With `resume`, a Dealer.com pull continues from the previous attempt's pagination checkpoint.
    */
-  private async executeJob(job: ScheduledJob): Promise<JobResult> {
+  private async executeJob(job: ScheduledJob, retryCount: number = 0, resume: boolean = false): Promise<QueuedJobOutcome> {
+    const startTime = new Date()
+    const retryConfig = this.getRetryConfig(job)
+    const requestMetrics = createRequestMetrics()
+
     try {
-      let execution: JobExecution
+      // Route to the platform's registered adapter
+      const run: PlatformRunResult = await requirePlatformAdapter(job.platform).run(job, { metrics: requestMetrics, resume })
 
-      // Route to appropriate job runner based on platform
-      switch (job.platform) {
-        case 'homenet':
-          throw new Error('HomeNet platform archived - use dealer.com approach')
+      await this.publishPriceChangedEvents(job, run.price_drops)
 
-        case 'dealer.com':
-          const dealerComRunner = new DealerComJobRunner(job)
-          execution = await dealerComRunner.execute()
-          break
+      const vehiclesProcessed = run.vehicles_created + run.vehicles_updated + run.vehicles_unchanged
 
-        default:
-          throw new Error(`Unsupported platform: ${job.platform}`)
+      // A run the adapter reports as failed is retried like a thrown error
+      if (!run.success) {
+        return this.failJob(job, new Error(run.error || 'Platform adapter reported a failed run'), retryCount, startTime, requestMetrics, {
+          vehicles_found: run.vehicles_found,
+          vehicles_processed: vehiclesProcessed
+        })
       }
 
+      const execution = this.createExecution(job, startTime, new Date(), requestMetrics, {
+        status: 'completed',
+        vehicles_found: run.vehicles_found,
+        vehicles_processed: vehiclesProcessed,
+        retry_count: retryCount,
+        max_retries: retryConfig.max_retries
+      })
+
       return {
-        job_id: job.id,
-        dealer_id: job.dealer_id,
-        platform: job.platform,
-        execution,
-        success: execution.status === 'completed',
-        data: {
-          vehicles_found: execution.vehicles_found || 0,
-          vehicles_processed: execution.vehicles_processed || 0,
-          vehicles_updated: 0,
-          vehicles_created: 0,
-          vehicles_deleted: 0
-        },
-        correlation_id: job.correlation_id || '',
-        trace_id: job.trace_id || '',
-        span_id: job.span_id || ''
+        result: {
+          job_id: job.id,
+          dealer_id: job.dealer_id,
+          platform: job.platform,
+          execution,
+          success: true,
+          data: {
+            vehicles_found: run.vehicles_found,
+            vehicles_processed: vehiclesProcessed,
+            vehicles_updated: run.vehicles_updated,
+            vehicles_created: run.vehicles_created,
+            vehicles_deleted: run.vehicles_removed,
+            ...(run.coverage && { coverage: run.coverage }),
+            ...run.details
+          },
+          correlation_id: job.correlation_id || '',
+          trace_id: job.trace_id || '',
+          span_id: job.span_id || ''
+        }
       }
 
     } catch (error) {
-      logError(`Job execution failed for ${job.dealer_name} (${job.platform})`, error)
+      return this.failJob(job, error, retryCount, startTime, requestMetrics)
+    }
+  }
 
-      return {
+  /**
+   * Classify a failed run and decide whether (and when) it is retried
+   */
+  private failJob(
+    job: ScheduledJob,
+    error: unknown,
+    retryCount: number,
+    startTime: Date,
+    requestMetrics: RequestMetrics,
+    counts: Pick<JobExecution, 'vehicles_found' | 'vehicles_processed'> = { vehicles_found: 0, vehicles_processed: 0 }
+  ): QueuedJobOutcome {
+    const retryConfig = this.getRetryConfig(job)
+    const classified = classifyJobError(error)
+    const decision = decideRetry(classified, retryCount, retryConfig)
+
+    logError(`Job execution failed for ${job.dealer_name} (${job.platform})`, {
+      error: classified.message,
+      category: classified.category,
+      status_code: classified.statusCode,
+      retry: decision.retry,
+      retry_at: decision.retryAt?.toISOString(),
+      reason: decision.reason
+    })
+
+    return {
+      result: {
         job_id: job.id,
         dealer_id: job.dealer_id,
         platform: job.platform,
-        execution: {
-          id: `exec_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-          job_id: job.id,
-          dealer_id: job.dealer_id,
-          platform: job.platform,
+        execution: this.createExecution(job, startTime, new Date(), requestMetrics, {
           status: 'failed',
-          start_time: new Date(),
-          end_time: new Date(),
-          vehicles_found: 0,
-          vehicles_processed: 0,
-          error_message: error instanceof Error ? error.message : String(error),
-          retry_count: 0,
-          max_retries: 3,
-          correlation_id: job.correlation_id || '',
-          trace_id: job.trace_id || '',
-          span_id: job.span_id || '',
-          performance_metrics: {
-            duration_ms: 0,
-            api_calls: 0,
-            rate_limits_hit: 0,
-            avg_response_time: 0,
-            memory_usage_mb: 0,
-            cpu_usage_percent: 0
-          }
-        },
+          ...counts,
+          error_message: classified.message,
+          retry_count: retryCount,
+          max_retries: retryConfig.max_retries
+        }),
         success: false,
         error: {
-          message: error instanceof Error ? error.message : String(error),
-          retryable: false
+          message: classified.message,
+          retryable: decision.retry
         },
         correlation_id: job.correlation_id || '',
         trace_id: job.trace_id || '',
         span_id: job.span_id || '',
         job
+      },
+      retryAt: decision.retryAt
+    }
+  }
+
+  /**
+   * Build the JobExecution record for a finished run, with the API calls it made
+   */
+  private createExecution(
+    job: ScheduledJob,
+    startTime: Date,
+    endTime: Date,
+    requestMetrics: RequestMetrics,
+    outcome: Pick<JobExecution, 'status' | 'vehicles_found' | 'vehicles_processed' | 'retry_count' | 'max_retries'> &
+      Partial<Pick<JobExecution, 'error_message'>>
+  ): JobExecution {
+    return {
+      id: `exec_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      job_id: job.id,
+      dealer_id: job.dealer_id,
+      platform: job.platform,
+      start_time: startTime,
+      end_time: endTime,
+      ...outcome,
+      correlation_id: job.correlation_id || '',
+      trace_id: job.trace_id || '',
+      span_id: job.span_id || '',
+      performance_metrics: {
+        duration_ms: endTime.getTime() - startTime.getTime(),
+        api_calls: requestMetrics.api_calls,
+        rate_limits_hit: requestMetrics.rate_limits_hit,
+        avg_response_time: getAverageResponseTime(requestMetrics),
+        memory_usage_mb: 0,
+        cpu_usage_percent: 0
       }
     }
   }
 
   /**
-   * Update job statuses in database
+   * Resolve a job's retry policy from its platform config's retry_config (same shape as the schedules API)
+   */
+  private getRetryConfig(job: ScheduledJob): RetryConfig {
+    const config = job.config as { retry_config?: Partial<RetryConfig> } | undefined
+    return resolveRetryConfig(config?.retry_config)
+  }
+
+  /**
+   * Store job executions on the scheduler database, where /api/jobs/stats reads them
    */
   private async updateJobStatuses(results: JobResult[]): Promise<void> {
     try {
-      // Store job executions in database
       const executions = results.map(r => r.execution)
-
-      const { error } = await this.supabase
-        .from('job_executions')
-        .insert(executions)
-
-      if (error) {
-        logError('Failed to store job executions', error)
-      } else {
-        logInfo(`Stored ${executions.length} job executions`)
-      }
-
+      await recordJobExecutions(executions)
+      logInfo(`Stored ${executions.length} job executions`)
     } catch (error) {
-      logError('Failed to update job statuses', error)
+      logError('Failed to store job executions', error)
     }
   }
 
@@ -523,7 +1044,33 @@ export class SchedulerService {
   }
 
   /**
-   * Process sitemap jobs from the queue
+   * Run up to `maxJobs` active jobs of one platform inline (bypassing the queue) and record their executions
+   */
+  private async runPlatformJobsInline(platform: string, maxJobs: number): Promise<{
+    processed: number;
+    success: number;
+    failed: number;
+    errors: string[];
+  }> {
+    const jobs = (await this.getActiveJobs({ platform })).slice(0, maxJobs)
+    const results: JobResult[] = []
+    for (const job of jobs) {
+      const { result } = await this.executeJob(job)
+      results.push(result)
+    }
+    await this.updateJobStatuses(results)
+
+    const failures = results.filter(result => !result.success)
+    return {
+      processed: results.length,
+      success: results.length - failures.length,
+      failed: failures.length,
+      errors: failures.map(failure => `${failure.dealer_id}: ${failure.error?.message || 'Unknown error'}`)
+    }
+  }
+
+  /**
+   * Run up to `maxJobs` active sitemap jobs inline and record their executions
    */
   async processSitemapJobs(maxJobs: number = 10): Promise<{
     processed: number;
@@ -536,7 +1083,7 @@ export class SchedulerService {
     try {
       logInfo('Starting sitemap job processing', { maxJobs })
 
-      const result = await this.processSitemapJobs(maxJobs)
+      const result = await this.runPlatformJobsInline('sitemap', maxJobs)
 
       logSuccess('Sitemap job processing completed', {
         processed: result.processed,
@@ -560,7 +1107,7 @@ export class SchedulerService {
   }
 
   /**
-   * Process product detail scraping jobs from the queue
+   * Run up to `maxJobs` active vehicle detail page scraping jobs inline and record their executions
    */
   async processProductDetailScrapingJobs(maxJobs: number = 10): Promise<{
     processed: number;
@@ -573,7 +1120,7 @@ export class SchedulerService {
     try {
       logInfo('Starting product detail scraping job processing', { maxJobs })
 
-      const result = await this.processProductDetailScrapingJobs(maxJobs)
+      const result = await this.runPlatformJobsInline('web_scraping', maxJobs)
 
       logSuccess('Product detail scraping job processing completed', {
         processed: result.processed,
@@ -612,9 +1159,11 @@ export class SchedulerService {
         }
       }
 
+      const overrides = await this.getPriorityOverrides()
+
       for (const job of dealerMap.values()) {
         // We need to fetch full dealer data to get timezone and address
-        const dealerData = await this.getDealerTimezoneInfo(job.dealer_id)
+        const dealerData = await this.getDealerTimezoneInfo(job.dealer_id, overrides.get(job.dealer_id))
         if (dealerData) {
           dealerConfigs.push(dealerData)
         }
@@ -644,9 +1193,21 @@ export class SchedulerService {
   }
 
   /**
-   * Get timezone information for a dealer
+   * Load the active dealer priority overrides; without them dealers keep their own tiers
+   */
+  private async getPriorityOverrides(): Promise<Map<string, DealerPriorityOverride>> {
+    try {
+      return await listDealerPriorityOverrides()
+    } catch (error) {
+      logError('Failed to load dealer priority overrides, using dealer tiers', error)
+      return new Map()
+    }
+  }
+
+  /**
+   * Get timezone information (and priority tier) for a dealer
    */
-  private async getDealerTimezoneInfo(dealerId: string): Promise<DealerTimezoneConfig | null> {
+  private async getDealerTimezoneInfo(dealerId: string, override?: DealerPriorityOverride): Promise<DealerTimezoneConfig | null> {
     try {
       const { data: dealer, error } = await this.supabase
         .from('dealers')
@@ -654,6 +1215,8 @@ export class SchedulerService {
           id,
           name,
           contact_address,
+          priority_tier,
+          subscription_plan,
           sftp_config_schedule_timezone,
           sftp_config_schedule_preferred_time,
           sftp_config_schedule_frequency
@@ -675,8 +1238,8 @@ export class SchedulerService {
         timezone = 'America/New_York' // Default fallback
       }
 
-      // Determine priority (for now, all are standard - we can enhance this later)
-      const priority = 'standard' as const
+      // Operator override, then the dealer's own tier or plan
+      const { priority } = resolveDealerPriority(dealer, override)
 
       // Get frequency
       const frequency = dealer.sftp_config_schedule_frequency || 'daily'
@@ -711,8 +1274,8 @@ export class SchedulerService {
       const schedule = smartSchedules.get(job.dealer_id)
       const optimalRunTime = schedule?.optimalRunTime
 
-      // Use timezone-aware logic if available, fallback to legacy logic
-      if (shouldRunJob(job, force, optimalRunTime)) {
+      // Use timezone-aware logic if available, fallback to schedule/cron logic
+      if (shouldRunJob(job, force, optimalRunTime, schedule?.timezone)) {
         jobsToRun.push(job)
 
         if (schedule) {
@@ -738,171 +1301,6 @@ export class SchedulerService {
     return jobsToRun
   }
 
-  /**
-   * Execute jobs with priority-based scheduling and intelligent concurrency control
-   */
-  private async executeJobsWithPriorityScheduling(
-    jobs: ScheduledJob[],
-    smartSchedules: Map<string, SmartScheduleResult>
-  ): Promise<JobResult[]> {
-    const results: JobResult[] = []
-
-    // Get configurable concurrency limits from Doppler
-    const maxConcurrentPremium = parseInt(process.env.SCHEDULER_MAX_CONCURRENT_PREMIUM || '20')
-    const maxConcurrentStandard = parseInt(process.env.SCHEDULER_MAX_CONCURRENT_STANDARD || '12')
-    const maxConcurrentEconomy = parseInt(process.env.SCHEDULER_MAX_CONCURRENT_ECONOMY || '8')
-
-    // Separate jobs by priority based on their smart schedule
-    const premiumJobs: ScheduledJob[] = []
-    const standardJobs: ScheduledJob[] = []
-    const economyJobs: ScheduledJob[] = []
-
-    for (const job of jobs) {
-      const schedule = smartSchedules.get(job.dealer_id)
-      const priority = schedule?.priority || 'standard'
-
-      switch (priority) {
-        case 'premium':
-          premiumJobs.push(job)
-          break
-        case 'economy':
-          economyJobs.push(job)
-          break
-        default:
-          standardJobs.push(job)
-      }
-    }
-
-    logInfo(`Executing jobs by priority:`, {
-      premium: premiumJobs.length,
-      standard: standardJobs.length,
-      economy: economyJobs.length
-    })
-
-        // Execute premium jobs first with highest concurrency
-    if (premiumJobs.length > 0) {
-      logInfo(`Processing ${premiumJobs.length} premium jobs with max concurrency ${maxConcurrentPremium}`)
-      const premiumResults = await this.executeBatchWithConcurrency(premiumJobs, maxConcurrentPremium, smartSchedules)
-      results.push(...premiumResults)
-    }
-
-    // Execute standard jobs next
-    if (standardJobs.length > 0) {
-      logInfo(`Processing ${standardJobs.length} standard jobs with max concurrency ${maxConcurrentStandard}`)
-      const standardResults = await this.executeBatchWithConcurrency(standardJobs, maxConcurrentStandard, smartSchedules)
-      results.push(...standardResults)
-    }
-
-    // Execute economy jobs last with lower concurrency
-    if (economyJobs.length > 0) {
-      logInfo(`Processing ${economyJobs.length} economy jobs with max concurrency ${maxConcurrentEconomy}`)
-      const economyResults = await this.executeBatchWithConcurrency(economyJobs, maxConcurrentEconomy, smartSchedules)
-      results.push(...economyResults)
-    }
-
-    return results
-  }
-
-  /**
-   * Execute a batch of jobs with specific concurrency limit
-   */
-  private async executeBatchWithConcurrency(
-    jobs: ScheduledJob[],
-    concurrencyLimit: number,
-    smartSchedules?: Map<string, SmartScheduleResult>
-  ): Promise<JobResult[]> {
-    const results: JobResult[] = []
-
-    // Process jobs in batches based on concurrency limit
-    for (let i = 0; i < jobs.length; i += concurrencyLimit) {
-      const batch = jobs.slice(i, i + concurrencyLimit)
-
-      logInfo(`Processing batch ${Math.floor(i / concurrencyLimit) + 1}/${Math.ceil(jobs.length / concurrencyLimit)} with ${batch.length} jobs`)
-
-      // Publish job started events for this batch
-      if (smartSchedules) {
-        for (const job of batch) {
-          const schedule = smartSchedules.get(job.dealer_id)
-          await this.publishJobStartedEvent(job, schedule, 'scheduled')
-        }
-      }
-
-      const batchResults = await Promise.allSettled(
-        batch.map(job => this.executeJob(job))
-      )
-
-            // Convert Promise.allSettled results to JobResult[]
-      for (let j = 0; j < batch.length; j++) {
-        const result = batchResults[j]
-        if (result.status === 'fulfilled') {
-          const jobResult = result.value
-          results.push(jobResult)
-
-          // Publish job completed/failed event
-          if (jobResult.success) {
-            await this.publishJobCompletedEvent(jobResult)
-          } else {
-            await this.publishJobFailedEvent(jobResult)
-          }
-        } else {
-          // Handle rejected promise
-          const job = batch[j]
-          const failedJobResult: JobResult = {
-            job_id: job.id,
-            dealer_id: job.dealer_id,
-            platform: job.platform,
-            execution: {
-              id: `exec_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-              job_id: job.id,
-              dealer_id: job.dealer_id,
-              platform: job.platform,
-              status: 'failed',
-              start_time: new Date(),
-              end_time: new Date(),
-              vehicles_found: 0,
-              vehicles_processed: 0,
-              error_message: result.reason?.message || 'Unknown error',
-              retry_count: 0,
-              max_retries: 3,
-              correlation_id: job.correlation_id || '',
-              trace_id: job.trace_id || '',
-              span_id: job.span_id || '',
-              performance_metrics: {
-                duration_ms: 0,
-                api_calls: 0,
-                rate_limits_hit: 0,
-                avg_response_time: 0,
-                memory_usage_mb: 0,
-                cpu_usage_percent: 0
-              }
-            },
-            success: false,
-            error: {
-              message: result.reason?.message || 'Unknown error',
-              retryable: false
-            },
-            correlation_id: job.correlation_id || '',
-            trace_id: job.trace_id || '',
-            span_id: job.span_id || '',
-            job
-          }
-
-          results.push(failedJobResult)
-          await this.publishJobFailedEvent(failedJobResult)
-        }
-      }
-
-      // Small delay between batches to prevent overwhelming external services
-      if (i + concurrencyLimit < jobs.length) {
-        const delayMs = parseInt(process.env.SCHEDULER_BATCH_DELAY_MS || '1000')
-        logInfo(`Waiting ${delayMs}ms before next batch`)
-        await new Promise(resolve => setTimeout(resolve, delayMs))
-      }
-    }
-
-    return results
-  }
-
   /**
    * Publish batch started event to event system
    */
@@ -1013,7 +1411,7 @@ export class SchedulerService {
    */
   private async publishJobStartedEvent(
     job: ScheduledJob,
-    schedule?: SmartScheduleResult,
+    schedule?: QueuedJobSchedule,
     trigger: 'scheduled' | 'manual' | 'retry' = 'scheduled'
   ): Promise<void> {
     try {
@@ -1024,9 +1422,9 @@ export class SchedulerService {
         platform: job.platform,
         schedule: {
           timezone: schedule?.timezone || 'America/New_York',
-          localTime: schedule?.localRunTime || '01:00 America/New_York',
-          utcTime: schedule?.optimalRunTime.toISOString() || new Date().toISOString(),
-          priority: (schedule?.priority || 'standard') as 'premium' | 'standard' | 'economy'
+          localTime: schedule?.localTime || '01:00 America/New_York',
+          utcTime: schedule?.utcTime || new Date().toISOString(),
+          priority: schedule?.priority || 'standard'
         },
         trigger
       })
@@ -1064,10 +1462,34 @@ export class SchedulerService {
     }
   }
 
+  /**
+   * Publish a price changed event for each price drop that crossed the alert thresholds
+   */
+  private async publishPriceChangedEvents(job: ScheduledJob, drops: PriceDrop[]): Promise<void> {
+    const detectedAt = new Date().toISOString()
+
+    for (const drop of drops) {
+      try {
+        await this.eventClient.publishVehiclePriceChanged({
+          jobId: job.id,
+          dealerId: job.dealer_id,
+          dealerName: job.dealer_name,
+          vin: drop.vin,
+          previous: { price: drop.previous_price, msrp: drop.previous_msrp },
+          current: { price: drop.current_price, msrp: drop.current_msrp },
+          change: { amount: drop.drop_amount, percent: drop.drop_percent },
+          detectedAt
+        })
+      } catch (error) {
+        logError(`Failed to publish price changed event for ${drop.vin}:`, error)
+      }
+    }
+  }
+
   /**
    * Publish job failed event
    */
-  private async publishJobFailedEvent(result: JobResult): Promise<void> {
+  private async publishJobFailedEvent(result: JobResult, nextRetryAt?: Date | null): Promise<void> {
     try {
       await this.eventClient.publishJobFailed({
         jobId: result.job_id,
@@ -1076,14 +1498,14 @@ export class SchedulerService {
         platform: result.platform,
         error: {
           message: result.error?.message || 'Unknown error',
-          retryable: result.error?.retryable || true
+          retryable: result.error?.retryable ?? false
         },
         execution: {
           startTime: result.execution.start_time.toISOString(),
           endTime: result.execution.end_time?.toISOString() || new Date().toISOString(),
           durationMs: result.execution.performance_metrics?.duration_ms || 0,
           retryCount: result.execution.retry_count || 0,
-          nextRetryAt: undefined // Could be calculated based on retry strategy
+          nextRetryAt: nextRetryAt?.toISOString()
         }
       })
     } catch (error) {
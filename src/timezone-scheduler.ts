@@ -1,5 +1,13 @@
 import { logInfo, logError, logSuccess } from '@adamehrheart/utils'
 import type { ScheduledJob } from './types.js'
+import {
+  getTimezoneOffsetMinutes,
+  getZonedDateParts,
+  isValidTimeZone,
+  resolveZonedTime,
+  type DstDisambiguation,
+  type ZonedTimeResolution
+} from './lib/timezone.js'
 
 // ============================================================================
 // TIMEZONE-AWARE SCHEDULING TYPES
@@ -13,6 +21,7 @@ export interface DealerTimezoneConfig {
   address?: string                   // For timezone detection if not explicit
   priority: 'premium' | 'standard' | 'economy'
   frequency: 'realtime' | 'hourly' | 'daily' | 'weekly' | 'monthly' | 'ondemand'
+  dstDisambiguation?: DstDisambiguation  // How to resolve preferred times skipped/repeated by DST
 }
 
 export interface SmartScheduleResult {
@@ -20,7 +29,9 @@ export interface SmartScheduleResult {
   optimalRunTime: Date              // UTC time when job should run
   localRunTime: string             // Human-readable local time
   timezone: string
-  priority: string
+  utcOffsetMinutes: number         // Dealer's actual UTC offset at the run time (DST-aware)
+  localTimeResolution: ZonedTimeResolution  // 'gap' / 'overlap' when the preferred time hit a DST transition
+  priority: DealerTimezoneConfig['priority']
   estimatedFeedUpdate: string      // When dealer's feed likely updates
   processingWindow: {
     start: Date
@@ -31,7 +42,7 @@ export interface SmartScheduleResult {
 
 export interface TimezoneDistribution {
   timezone: string
-  utcOffset: number
+  utcOffset: number                 // Current offset in hours (e.g. -4 for New York during DST)
   dealerCount: number
   scheduleWindow: {
     start: string                   // UTC time like "05:30"
@@ -44,24 +55,38 @@ export interface TimezoneDistribution {
 // ============================================================================
 
 /**
- * Common US dealer timezone mappings
+ * Common US dealer timezone mappings used for address-based detection
  * Most feeds update between 12:00 AM - 2:00 AM local time
+ *
+ * Offsets are not stored here - they are resolved from the IANA database at
+ * the instant in question so daylight saving time is always accounted for.
  */
 export const DEALER_TIMEZONE_MAP = {
   // US Timezones (most common)
-  'America/New_York': { offset: -5, commonStates: ['NY', 'FL', 'GA', 'NC', 'SC', 'VA', 'MD', 'PA', 'NJ', 'CT', 'MA', 'VT', 'NH', 'ME', 'RI', 'DE', 'WV', 'OH', 'MI', 'IN', 'KY', 'TN'] },
-  'America/Chicago': { offset: -6, commonStates: ['TX', 'IL', 'MO', 'WI', 'MN', 'IA', 'AR', 'LA', 'MS', 'AL', 'OK', 'KS', 'NE', 'ND', 'SD'] },
-  'America/Denver': { offset: -7, commonStates: ['CO', 'WY', 'MT', 'UT', 'NM', 'AZ'] },
-  'America/Los_Angeles': { offset: -8, commonStates: ['CA', 'NV', 'WA', 'OR'] },
+  'America/New_York': { commonStates: ['NY', 'FL', 'GA', 'NC', 'SC', 'VA', 'MD', 'PA', 'NJ', 'CT', 'MA', 'VT', 'NH', 'ME', 'RI', 'DE', 'WV', 'OH', 'MI', 'IN', 'KY', 'TN', 'DC'] },
+  'America/Chicago': { commonStates: ['TX', 'IL', 'MO', 'WI', 'MN', 'IA', 'AR', 'LA', 'MS', 'AL', 'OK', 'KS', 'NE', 'ND', 'SD'] },
+  'America/Denver': { commonStates: ['CO', 'WY', 'MT', 'UT', 'NM', 'ID'] },
+  'America/Phoenix': { commonStates: ['AZ'] },           // No DST
+  'America/Los_Angeles': { commonStates: ['CA', 'NV', 'WA', 'OR'] },
+  'America/Anchorage': { commonStates: ['AK'] },
+  'Pacific/Honolulu': { commonStates: ['HI'] },          // No DST
+  'America/Puerto_Rico': { commonStates: ['PR', 'VI'] }, // Atlantic time, no DST
 
   // Canada
-  'America/Toronto': { offset: -5, commonStates: ['ON', 'QC'] },
-  'America/Winnipeg': { offset: -6, commonStates: ['MB', 'SK'] },
-  'America/Edmonton': { offset: -7, commonStates: ['AB', 'NT'] },
-  'America/Vancouver': { offset: -8, commonStates: ['BC', 'YT'] },
-  'America/Halifax': { offset: -4, commonStates: ['NS', 'NB', 'PE', 'NL'] },
+  'America/Toronto': { commonStates: ['ON', 'QC'] },
+  'America/Winnipeg': { commonStates: ['MB'] },
+  'America/Regina': { commonStates: ['SK'] },            // No DST
+  'America/Edmonton': { commonStates: ['AB', 'NT'] },
+  'America/Vancouver': { commonStates: ['BC', 'YT'] },
+  'America/Halifax': { commonStates: ['NS', 'NB', 'PE'] },
+  'America/St_Johns': { commonStates: ['NL'] },
 } as const
 
+/**
+ * Fallback timezone when a dealer's timezone is missing or unrecognised
+ */
+export const DEFAULT_DEALER_TIMEZONE = 'America/New_York'
+
 /**
  * Optimal feed processing windows
  * Based on when dealer inventory feeds typically update
@@ -83,14 +108,14 @@ export class TimezoneAwareScheduler {
    * Detect timezone from dealer address
    */
   static detectTimezoneFromAddress(address: string): string {
-    if (!address) return 'America/New_York' // Default to Eastern
+    if (!address) return DEFAULT_DEALER_TIMEZONE
 
     const upperAddress = address.toUpperCase()
 
-    // State-based detection
+    // State-based detection (whole-word match so "IN" doesn't hit "MAIN ST")
     for (const [timezone, config] of Object.entries(DEALER_TIMEZONE_MAP)) {
       for (const state of config.commonStates) {
-        if (upperAddress.includes(state) || upperAddress.includes(`, ${state} `) || upperAddress.includes(` ${state},`)) {
+        if (new RegExp(`(^|[\\s,])${state}([\\s,.]|\\d|$)`).test(upperAddress)) {
           logInfo(`Detected timezone ${timezone} for address containing state: ${state}`)
           return timezone
         }
@@ -106,7 +131,10 @@ export class TimezoneAwareScheduler {
       'SEATTLE': 'America/Los_Angeles',
       'MIAMI': 'America/New_York',
       'HOUSTON': 'America/Chicago',
-      'PHOENIX': 'America/Denver',
+      'PHOENIX': 'America/Phoenix',
+      'HONOLULU': 'Pacific/Honolulu',
+      'ANCHORAGE': 'America/Anchorage',
+      'SAN JUAN': 'America/Puerto_Rico',
       'TORONTO': 'America/Toronto',
       'VANCOUVER': 'America/Vancouver',
     }
@@ -118,8 +146,21 @@ export class TimezoneAwareScheduler {
       }
     }
 
-    logInfo(`Could not detect timezone from address: ${address}, defaulting to America/New_York`)
-    return 'America/New_York' // Default fallback
+    logInfo(`Could not detect timezone from address: ${address}, defaulting to ${DEFAULT_DEALER_TIMEZONE}`)
+    return DEFAULT_DEALER_TIMEZONE
+  }
+
+  /**
+   * Resolve a dealer timezone, falling back to the default for unknown zones
+   */
+  static resolveTimezone(timezone: string | undefined | null): string {
+    if (timezone && isValidTimeZone(timezone)) {
+      return timezone
+    }
+    if (timezone) {
+      logError(`Unknown timezone: ${timezone}, using ${DEFAULT_DEALER_TIMEZONE}`)
+    }
+    return DEFAULT_DEALER_TIMEZONE
   }
 
   /**
@@ -127,32 +168,27 @@ export class TimezoneAwareScheduler {
    */
   static calculateOptimalRunTime(config: DealerTimezoneConfig, targetDate?: Date): SmartScheduleResult {
     const today = targetDate || new Date()
-    const dealerTimezone = config.timezone
+    const dealerTimezone = this.resolveTimezone(config.timezone)
 
     // Use preferred time or default to 30 minutes after midnight
     const preferredLocalTime = config.preferredTime || '00:30'
     const [hours, minutes] = preferredLocalTime.split(':').map(Number)
 
-    // Create target date in dealer's timezone
-    // We'll calculate when their "preferred time" occurs in UTC
-    const localTargetTime = new Date(today)
-    localTargetTime.setHours(hours, minutes, 0, 0)
-
-    // Convert to UTC based on timezone offset
-    const timezoneInfo = DEALER_TIMEZONE_MAP[dealerTimezone as keyof typeof DEALER_TIMEZONE_MAP]
-    let utcOffset: number
-    if (!timezoneInfo) {
-      logError(`Unknown timezone: ${dealerTimezone}, using default offset`)
-      // Fallback to Eastern time offset
-      utcOffset = -5
-    } else {
-      utcOffset = timezoneInfo.offset
+    // Find the dealer's local calendar date, then the UTC instant of their preferred time on it
+    const localDate = getZonedDateParts(today, dealerTimezone)
+    const resolved = resolveZonedTime(
+      { year: localDate.year, month: localDate.month, day: localDate.day, hour: hours, minute: minutes || 0 },
+      dealerTimezone,
+      config.dstDisambiguation || 'compatible'
+    )
+    const utcRunTime = resolved.instant
+
+    if (resolved.resolution === 'gap') {
+      logInfo(`Preferred time ${preferredLocalTime} skipped by DST in ${dealerTimezone} for dealer ${config.dealerName}, running at ${utcRunTime.toISOString()}`)
+    } else if (resolved.resolution === 'overlap') {
+      logInfo(`Preferred time ${preferredLocalTime} occurs twice in ${dealerTimezone} for dealer ${config.dealerName}, running at ${utcRunTime.toISOString()}`)
     }
 
-    // Adjust for UTC (note: offset is negative for US timezones)
-    const utcRunTime = new Date(localTargetTime)
-    utcRunTime.setUTCHours(utcRunTime.getUTCHours() - utcOffset)
-
     // Create processing window (30 minutes for processing)
     const windowStart = new Date(utcRunTime)
     const windowEnd = new Date(utcRunTime.getTime() + (30 * 60 * 1000)) // 30 minutes later
@@ -162,6 +198,8 @@ export class TimezoneAwareScheduler {
       optimalRunTime: utcRunTime,
       localRunTime: `${preferredLocalTime} ${dealerTimezone}`,
       timezone: dealerTimezone,
+      utcOffsetMinutes: resolved.offsetMinutes,
+      localTimeResolution: resolved.resolution,
       priority: config.priority,
       estimatedFeedUpdate: '00:00', // Midnight local time
       processingWindow: {
@@ -175,7 +213,8 @@ export class TimezoneAwareScheduler {
       dealerId: config.dealerId,
       localTime: result.localRunTime,
       utcTime: utcRunTime.toISOString(),
-      timezone: dealerTimezone
+      timezone: dealerTimezone,
+      utcOffsetMinutes: resolved.offsetMinutes
     })
 
     return result
@@ -184,29 +223,29 @@ export class TimezoneAwareScheduler {
   /**
    * Calculate timezone distribution across all dealers
    */
-  static calculateTimezoneDistribution(dealers: DealerTimezoneConfig[]): TimezoneDistribution[] {
+  static calculateTimezoneDistribution(dealers: DealerTimezoneConfig[], referenceDate: Date = new Date()): TimezoneDistribution[] {
     const distribution = new Map<string, TimezoneDistribution>()
 
     for (const dealer of dealers) {
-      const timezone = dealer.timezone
-      const timezoneInfo = DEALER_TIMEZONE_MAP[timezone as keyof typeof DEALER_TIMEZONE_MAP]
-      const utcOffset = timezoneInfo?.offset || -5
+      const timezone = this.resolveTimezone(dealer.timezone)
 
       if (!distribution.has(timezone)) {
-        // Calculate when "01:00 local" occurs in UTC
-        const sampleLocalTime = new Date()
-        sampleLocalTime.setUTCHours(1 - utcOffset, 0, 0, 0) // 1 AM local = ? UTC
-
-        const startHour = String(sampleLocalTime.getUTCHours()).padStart(2, '0')
-        const endHour = String((sampleLocalTime.getUTCHours() + 1) % 24).padStart(2, '0')
+        // Calculate when "01:00 local" occurs in UTC on the dealer's current local date
+        const localDate = getZonedDateParts(referenceDate, timezone)
+        const windowStart = resolveZonedTime(
+          { year: localDate.year, month: localDate.month, day: localDate.day, hour: 1, minute: 0 },
+          timezone
+        ).instant
+        const windowEnd = new Date(windowStart.getTime() + 60 * 60 * 1000)
+        const formatUtc = (date: Date) => date.toISOString().substring(11, 16)
 
         distribution.set(timezone, {
           timezone,
-          utcOffset,
+          utcOffset: getTimezoneOffsetMinutes(referenceDate, timezone) / 60,
           dealerCount: 0,
           scheduleWindow: {
-            start: `${startHour}:00`,
-            end: `${endHour}:00`
+            start: formatUtc(windowStart),
+            end: formatUtc(windowEnd)
           }
         })
       }
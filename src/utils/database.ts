@@ -87,6 +87,14 @@ class DatabaseManager {
     return this.pools.get(poolKey)!
   }
 
+  /**
+   * Get the pool holding scheduler-owned tables (job queue, job records)
+   * Uses DigitalOcean Managed PostgreSQL when DATABASE_URL is set, otherwise the local main database
+   */
+  getSchedulerPool(): Pool {
+    return process.env.DATABASE_URL ? this.getDigitalOceanPool() : this.getMainPool()
+  }
+
   /**
    * Test database connectivity
    */